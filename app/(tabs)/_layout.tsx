@@ -1,9 +1,17 @@
 import { Ionicons } from '@expo/vector-icons';
 import { Tabs } from 'expo-router';
-import React from 'react';
-import { Platform, View, TouchableOpacity, StyleSheet, Dimensions } from 'react-native';
+import React, { useCallback, useEffect, useRef } from 'react';
+import { Alert, Platform, View, TouchableOpacity, StyleSheet, Dimensions } from 'react-native';
 import { COLORS, darkColors } from '../../constants/colors';
 import { useTheme } from '../../context/ThemeContext';
+import { SyncStatusIndicator } from '../../components/SyncStatusIndicator';
+import Toast from 'react-native-toast-message';
+import {
+  acknowledgeWarning, UnlockedAchievement, useAchievementUnlocks, useAuthUser, useChats, useClubMeetingReminders, useDeliveryReceipts,
+  useUnacknowledgedWarnings
+} from '../../data';
+import { ACHIEVEMENT_DEFINITIONS } from '../../utils/achievements';
+import { triggerLocalNotification } from '../../utils/notifications';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const IS_TABLET = SCREEN_WIDTH >= 768;
@@ -42,6 +50,34 @@ export default function TabLayout() {
   const { theme } = useTheme();
   const colors = theme === 'dark' ? darkColors : COLORS;
 
+  // Trophies are unlocked server-side after a write, so announce them whichever tab is open
+  useAchievementUnlocks(useCallback((achievement: UnlockedAchievement) => {
+    const title = ACHIEVEMENT_DEFINITIONS.find(d => d.id === achievement.id)?.title || 'a new trophy';
+    Toast.show({ type: 'success', text1: '🏆 Trophy Unlocked!', text2: `You unlocked: ${title}`, visibilityTime: 4000 });
+    triggerLocalNotification('🏆 Trophy Unlocked!', `You unlocked: ${title}`);
+  }, []));
+
+  // Delivery receipts and the unread badge follow every conversation while the app is open
+  const { chats, unreadTotal } = useChats();
+  useDeliveryReceipts(chats);
+
+  // Club meetings are reminded locally, so every device re-syncs its own schedule
+  useClubMeetingReminders();
+
+  // Moderator warnings stay on the account until the user confirms they've read them
+  const user = useAuthUser();
+  const warnings = useUnacknowledgedWarnings();
+  const shownWarnings = useRef(new Set<string>());
+  useEffect(() => {
+    const warning = warnings.find(w => !shownWarnings.current.has(w.id));
+    if (!user || !warning) return;
+    shownWarnings.current.add(warning.id);
+    Alert.alert('Warning from the Moderators', warning.reason, [{
+      text: 'I Understand',
+      onPress: () => acknowledgeWarning(user.uid, warning.id).catch(err => console.error("Warning acknowledge error:", err)),
+    }], { cancelable: false });
+  }, [user, warnings]);
+
   return (
     <View style={{ flex: 1 }}>
       <Tabs
@@ -114,6 +150,16 @@ export default function TabLayout() {
           }}
         />
 
+        <Tabs.Screen
+          name="dm"
+          options={{
+            title: 'Messages',
+            tabBarIcon: ({ color, focused }) => <Ionicons size={28} name={focused ? "chatbubbles" : "chatbubbles-outline"} color={color} />,
+            tabBarBadge: unreadTotal > 0 ? (unreadTotal > 9 ? '9+' : unreadTotal) : undefined,
+            tabBarBadgeStyle: { backgroundColor: colors.primary, fontWeight: '900', fontSize: 10 },
+          }}
+        />
+
         <Tabs.Screen
           name="settings"
           options={{
@@ -121,10 +167,8 @@ export default function TabLayout() {
             tabBarIcon: ({ color, focused }) => <Ionicons size={28} name={focused ? "settings" : "settings-outline"} color={color} />,
           }}
         />
-
-        {/* Hidden Screens */}
-        <Tabs.Screen name="dm" options={{ href: null }} />
       </Tabs>
+      <SyncStatusIndicator colors={colors} />
     </View>
   );
 }
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { 
   StyleSheet, 
   Text, 
@@ -19,100 +19,120 @@ import { Ionicons } from '@expo/vector-icons';
 import { COLORS, darkColors } from '../../constants/colors';
 import { DoodleBackground } from '../../components/DoodleBackground';
 import { useTheme } from '../../context/ThemeContext';
-import { collection, onSnapshot, query, where, doc, updateDoc } from 'firebase/firestore';
-import { db, auth } from '../../firebaseConfig';
-import { onAuthStateChanged, User as FirebaseUser } from 'firebase/auth';
+import {
+  acceptFriendRequest, Chat, deleteFriendRequest, fetchPublicProfile, fetchUserProfile, hasAdminRole, otherParticipant,
+  PublicProfile, requestPublicProfileSync, searchPublicProfiles, setUserBanned, useChats, useIncomingFriendRequests,
+  useBlockedUsers, useBuddyReads, useClubs, useMutedUsers, usePublicProfile, useUserProfile
+} from '../../data';
+import { toDate } from '../../utils/dates';
 import Toast from 'react-native-toast-message';
 
+interface ListItem {
+  user: User;
+  chat?: Chat;
+}
+
+const formatChatTime = (value: any) => {
+  const date = toDate(value);
+  if (!date) return '';
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
 interface User {
   id: string;
   name: string;
   avatar: string;
-  email: string;
   reportCount?: number;
   isBanned?: boolean;
 }
 
-const ADMIN_EMAIL = 'millerjoel7597@gmail.com';
+const avatarFor = (name: string) => `https://ui-avatars.com/api/?name=${encodeURIComponent(name || 'User')}&background=random`;
 
 export default function DMScreen() {
   const { theme } = useTheme();
   const colors = theme === 'dark' ? darkColors : COLORS;
   const router = useRouter();
-  const [user, setUser] = useState<FirebaseUser | null>(auth.currentUser);
+  const { user, profile } = useUserProfile();
 
   const [searchQuery, setSearchQuery] = useState('');
-  const [users, setUsers] = useState<User[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [searchResults, setSearchResults] = useState<string[]>([]);
+  const [searching, setSearching] = useState(false);
+  // Names and avatars for everyone on screen, keyed by uid and filled in from public profiles
+  const [people, setPeople] = useState<Record<string, User>>({});
   const [refreshing, setRefreshing] = useState(false);
-  const [unreadCounts, setUnreadCounts] = useState<{ [userId: string]: number }>({});
+  const { chats, loading } = useChats();
+  // Chats with blocked readers are already left out by useChats; requests and search results are filtered here
+  const { blockedIds } = useBlockedUsers();
+  const { mutedIds } = useMutedUsers();
+  const incomingRequests = useIncomingFriendRequests();
+  const friendRequests = useMemo(() => incomingRequests.filter(r => !blockedIds.has(r.fromId)), [incomingRequests, blockedIds]);
+  const { invites: buddyInvites } = useBuddyReads();
+  const { invites: clubInvites } = useClubs();
+  const { profile: myPublicProfile, loading: publicProfileLoading } = usePublicProfile(user?.uid || null);
   
-  const isAdmin = user?.email === ADMIN_EMAIL;
+  // Role comes from the protected `role` field; the rules reject ban changes from anyone else anyway
+  const isAdmin = hasAdminRole(profile);
+  const moderator = user ? { uid: user.uid, name: profile?.username || user.displayName || 'Admin' } : null;
 
+  // Accounts from before public profiles can't be found in search until their profile is built once
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (u) => {
-      setUser(u);
-    });
-    return unsubscribe;
-  }, []);
+    if (!user || publicProfileLoading || myPublicProfile) return;
+    requestPublicProfileSync().catch(e => console.error("Profile sync error:", e));
+  }, [user, publicProfileLoading, myPublicProfile]);
 
-  useEffect(() => {
-    const usersRef = collection(db, 'users');
-    const unsubscribe = onSnapshot(usersRef, (snapshot) => {
-      const usersList: User[] = [];
-      const currentUserId = user?.uid;
-
-      snapshot.forEach((doc) => {
-        const data = doc.data();
-        if (doc.id !== currentUserId) {
-          usersList.push({
-            id: doc.id,
-            name: data.username || data.email?.split('@')[0] || 'Unknown User',
-            email: data.email,
-            avatar: `https://ui-avatars.com/api/?name=${encodeURIComponent(data.username || 'User')}&background=random`,
-            reportCount: data.reportCount || 0,
-            isBanned: data.isBanned || false
-          });
-        }
-      });
-      setUsers(usersList);
-      setLoading(false);
-    }, (error) => {
-      console.error("Error listening to users:", error);
-      setLoading(false);
-    });
-
-    return () => unsubscribe();
-  }, [user]);
+  // Only admins can read `users`, which is where the ban state and report count live
+  const loadPeople = useCallback(async (ids: string[], known: Record<string, PublicProfile> = {}) => {
+    const entries = await Promise.all(ids.map(async (id): Promise<[string, User]> => {
+      const [publicProfile, privateProfile] = await Promise.all([
+        known[id] || fetchPublicProfile(id).catch(() => null),
+        isAdmin ? fetchUserProfile(id).catch(() => null) : null,
+      ]);
+      const name = publicProfile?.username || 'Unknown User';
+      return [id, {
+        id,
+        name,
+        avatar: avatarFor(name),
+        reportCount: privateProfile?.reportCount || 0,
+        isBanned: privateProfile?.isBanned || false,
+      }];
+    }));
+    setPeople(prev => ({ ...prev, ...Object.fromEntries(entries) }));
+  }, [isAdmin]);
 
   useEffect(() => {
     if (!user) return;
+    const ids = [
+      ...chats.map(chat => otherParticipant(chat, user.uid)),
+      ...friendRequests.map(r => r.fromId),
+    ].filter(id => !people[id]);
+    if (ids.length > 0) loadPeople([...new Set(ids)]);
+  }, [user, chats, friendRequests, people, loadPeople]);
 
-    const chatsRef = collection(db, 'chats');
-    const q = query(chatsRef, where('participants', 'array-contains', user.uid));
-
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const counts: { [userId: string]: number } = {};
-      
-      snapshot.forEach((doc) => {
-        const data = doc.data();
-        const participants = data.participants as string[];
-        const otherUserId = participants.find(uid => uid !== user.uid);
-        
-        if (otherUserId && data.unreadCounts) {
-           const myUnreadCount = data.unreadCounts[user.uid] || 0;
-           if (myUnreadCount > 0) {
-             counts[otherUserId] = myUnreadCount;
-           }
-        }
-      });
-      setUnreadCounts(counts);
-    }, (error) => {
-      console.error("Error listening to chats:", error);
-    });
-
-    return () => unsubscribe();
-  }, [user]);
+  // Username search, debounced so each keystroke doesn't hit Firestore
+  useEffect(() => {
+    const term = searchQuery.trim();
+    if (!term) {
+      setSearchResults([]);
+      setSearching(false);
+      return;
+    }
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const results = (await searchPublicProfiles(term)).filter(p => p.id !== user?.uid && !blockedIds.has(p.id));
+        await loadPeople(results.map(p => p.id), Object.fromEntries(results.map(p => [p.id, p])));
+        setSearchResults(results.map(p => p.id));
+      } catch (error) {
+        console.error("Search error:", error);
+        Toast.show({ type: 'error', text1: 'Search Failed', text2: 'Could not search readers.' });
+      } finally {
+        setSearching(false);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery, user, blockedIds, loadPeople]);
 
   const onRefresh = useCallback(() => {
     setRefreshing(true);
@@ -120,7 +140,7 @@ export default function DMScreen() {
   }, []);
 
   const handleBanToggle = async (user: User) => {
-    if (!isAdmin) return;
+    if (!isAdmin || !moderator) return;
 
     const action = user.isBanned ? "Unban" : "Ban";
     Alert.alert(
@@ -133,9 +153,8 @@ export default function DMScreen() {
           style: user.isBanned ? "default" : "destructive",
           onPress: async () => {
             try {
-              const updates: any = { isBanned: !user.isBanned };
-              if (action === "Unban") updates.reportCount = 0;
-              await updateDoc(doc(db, 'users', user.id), updates);
+              await setUserBanned(moderator, user.id, !user.isBanned);
+              setPeople(prev => ({ ...prev, [user.id]: { ...user, isBanned: !user.isBanned, reportCount: user.isBanned ? 0 : user.reportCount } }));
               Toast.show({ type: 'success', text1: 'Success', text2: `User has been ${action.toLowerCase()}ned.` });
             } catch (error) {
               console.error("Ban error:", error);
@@ -147,9 +166,29 @@ export default function DMScreen() {
     );
   };
 
-  const filteredUsers = users.filter(user => 
-    user.name.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const handleFriendRequest = async (fromId: string, accept: boolean) => {
+    if (!user) return;
+    try {
+      if (accept) await acceptFriendRequest(user.uid, fromId);
+      else await deleteFriendRequest(fromId, user.uid);
+      if (accept) Toast.show({ type: 'success', text1: 'Friends!', text2: `You and ${people[fromId]?.name || 'this reader'} are now friends.` });
+    } catch (error) {
+      console.error("Friend request error:", error);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Could not update the friend request.' });
+    }
+  };
+
+  // Without a search the tab lists conversations, newest first; searching looks up readers by username
+  const isSearching = searchQuery.trim().length > 0;
+  const chatsByUser = new Map(user ? chats.map(chat => [otherParticipant(chat, user.uid), chat]) : []);
+  const listItems: ListItem[] = isSearching
+    ? searchResults.flatMap(id => (people[id] ? [{ user: people[id], chat: chatsByUser.get(id) }] : []))
+    : chats.flatMap(chat => {
+        const other = people[otherParticipant(chat, user?.uid || '')];
+        return other ? [{ user: other, chat }] : [];
+      });
+
+  const openProfile = (userId: string) => router.push(`/profile/${userId}`);
 
   const navigateToChat = (userId: string, userName: string) => {
     router.push({
@@ -158,8 +197,9 @@ export default function DMScreen() {
     });
   };
 
-  const renderUserItem = ({ item }: { item: User }) => {
-    const unreadCount = unreadCounts[item.id] || 0;
+  const renderUserItem = ({ item: { user: item, chat } }: { item: ListItem }) => {
+    const unreadCount = (user && chat?.unreadCounts[user.uid]) || 0;
+    const isMuted = mutedIds.has(item.id);
     const isHighRisk = (item.reportCount || 0) >= 5;
 
     return (
@@ -169,13 +209,15 @@ export default function DMScreen() {
           { backgroundColor: colors.card, borderColor: colors.border },
           item.isBanned && { opacity: 0.5 }
         ]} 
-        onPress={() => navigateToChat(item.id, item.name)}
+        onPress={() => (chat ? navigateToChat(item.id, item.name) : openProfile(item.id))}
         onLongPress={() => handleBanToggle(item)}
       >
         <View style={styles.avatarContainer}>
-          <Image source={{ uri: item.avatar }} style={styles.avatar} />
+          <TouchableOpacity onPress={() => openProfile(item.id)}>
+            <Image source={{ uri: item.avatar }} style={styles.avatar} />
+          </TouchableOpacity>
           {unreadCount > 0 && (
-            <View style={[styles.badge, { backgroundColor: colors.primary, borderColor: colors.card }]}>
+            <View style={[styles.badge, { backgroundColor: isMuted ? colors.textLight : colors.primary, borderColor: colors.card }]}>
               <Text style={styles.badgeText}>
                 {unreadCount > 9 ? '9+' : unreadCount}
               </Text>
@@ -183,9 +225,21 @@ export default function DMScreen() {
           )}
         </View>
         <View style={styles.userInfo}>
-          <Text style={[styles.userName, { color: colors.textDark }]} numberOfLines={1}>
-            {item.name}
-          </Text>
+          <View style={styles.nameRow}>
+            <Text style={[styles.userName, { color: colors.textDark }]} numberOfLines={1}>
+              {item.name}
+            </Text>
+            {isMuted && <Ionicons name="notifications-off-outline" size={14} color={colors.textLight} />}
+            {chat && <Text style={[styles.chatTime, { color: colors.textLight }]}>{formatChatTime(chat.lastMessageAt)}</Text>}
+          </View>
+          {chat?.lastMessage ? (
+            <Text
+              style={[styles.lastMessage, { color: unreadCount > 0 ? colors.textDark : colors.textLight }, unreadCount > 0 && { fontWeight: '800' }]}
+              numberOfLines={1}
+            >
+              {chat.lastSenderId === user?.uid ? 'You: ' : ''}{chat.lastMessage}
+            </Text>
+          ) : null}
           
           {isAdmin && (
             <View style={{ flexDirection: 'row', alignItems: 'center', marginTop: 4 }}>
@@ -215,7 +269,25 @@ export default function DMScreen() {
       <StatusBar barStyle={theme === 'dark' ? 'light-content' : 'dark-content'} />
       <View style={styles.header}>
         <Text style={[styles.headerTitle, { color: colors.textDark }]}>Messages</Text>
-        {isAdmin && <Text style={[styles.adminBadge, { color: colors.secondary }]}>ADMIN</Text>}
+        <View style={styles.headerActions}>
+          {isAdmin && <Text style={[styles.adminBadge, { color: colors.secondary }]}>ADMIN</Text>}
+          <TouchableOpacity onPress={() => router.push('/buddy')}>
+            <Ionicons name="people-outline" size={26} color={colors.textDark} />
+            {buddyInvites.length > 0 && <View style={[styles.dot, { backgroundColor: colors.primary }]} />}
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => router.push('/clubs')}>
+            <Ionicons name="cafe-outline" size={26} color={colors.textDark} />
+            {clubInvites.length > 0 && <View style={[styles.dot, { backgroundColor: colors.primary }]} />}
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => router.push('/feed')}>
+            <Ionicons name="newspaper-outline" size={26} color={colors.textDark} />
+          </TouchableOpacity>
+          {user && (
+            <TouchableOpacity onPress={() => openProfile(user.uid)}>
+              <Ionicons name="person-circle-outline" size={30} color={colors.textDark} />
+            </TouchableOpacity>
+          )}
+        </View>
       </View>
 
       <View style={styles.searchContainer}>
@@ -223,23 +295,46 @@ export default function DMScreen() {
           <Ionicons name="search" size={18} color={colors.textLight} style={styles.searchIcon} />
           <TextInput
             style={[styles.searchInput, { color: colors.textDark }]}
-            placeholder="Search users..."
+            placeholder="Search readers by username..."
             placeholderTextColor={colors.textLight}
             value={searchQuery}
             onChangeText={setSearchQuery}
+            autoCapitalize="none"
+            autoCorrect={false}
           />
+          {searching && <ActivityIndicator size="small" color={colors.primary} />}
         </View>
       </View>
 
       <View style={styles.listContainer}>
-        <Text style={[styles.sectionTitle, { color: colors.textLight }]}>ALL USERS</Text>
+        {!isSearching && friendRequests.length > 0 && (
+          <View style={styles.requestsSection}>
+            <Text style={[styles.sectionTitle, { color: colors.textLight }]}>FRIEND REQUESTS</Text>
+            {friendRequests.map(request => (
+              <View key={request.id} style={[styles.requestCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                <TouchableOpacity style={styles.requestName} onPress={() => openProfile(request.fromId)}>
+                  <Text style={[styles.userName, { color: colors.textDark }]} numberOfLines={1}>
+                    {people[request.fromId]?.name || '...'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.requestBtn, { backgroundColor: colors.primary }]} onPress={() => handleFriendRequest(request.fromId, true)}>
+                  <Ionicons name="checkmark" size={18} color="white" />
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.requestBtn, { borderColor: colors.border, borderWidth: 1 }]} onPress={() => handleFriendRequest(request.fromId, false)}>
+                  <Ionicons name="close" size={18} color={colors.textLight} />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+        <Text style={[styles.sectionTitle, { color: colors.textLight }]}>{isSearching ? 'READERS' : 'CONVERSATIONS'}</Text>
         {loading ? (
           <ActivityIndicator size="large" color={colors.primary} style={styles.loader} />
         ) : (
           <FlatList
-            data={filteredUsers}
+            data={listItems}
             renderItem={renderUserItem}
-            keyExtractor={item => item.id}
+            keyExtractor={item => item.user.id}
             contentContainerStyle={styles.usersList}
             showsVerticalScrollIndicator={false}
             refreshControl={
@@ -249,7 +344,9 @@ export default function DMScreen() {
               <View style={styles.emptyState}>
                 <Ionicons name="chatbubbles-outline" size={64} color={colors.border} />
                 <Text style={[styles.emptyText, { color: colors.textLight }]}>
-                  No users found.
+                  {isSearching
+                    ? (searching ? 'Searching...' : 'No readers found.')
+                    : 'No conversations yet. Search for a reader to start one.'}
                 </Text>
               </View>
             }
@@ -278,6 +375,19 @@ const styles = StyleSheet.create({
     fontWeight: '900',
     letterSpacing: -1,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  dot: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
   adminBadge: {
     fontSize: 12,
     fontWeight: '900',
@@ -316,6 +426,29 @@ const styles = StyleSheet.create({
     marginLeft: 24,
     letterSpacing: 1,
   },
+  requestsSection: {
+    marginBottom: 8,
+  },
+  requestCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 24,
+    marginBottom: 8,
+    padding: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  requestName: {
+    flex: 1,
+  },
+  requestBtn: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   usersList: {
     paddingHorizontal: 24,
     paddingBottom: 180,
@@ -363,15 +496,34 @@ const styles = StyleSheet.create({
     flex: 1,
     justifyContent: 'center',
   },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
   userName: {
+    flexShrink: 1,
     fontSize: 16,
     fontWeight: '800',
   },
+  chatTime: {
+    marginLeft: 'auto',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  lastMessage: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 2,
+  },
   emptyState: {
     alignItems: 'center',
     marginTop: 60,
   },
   emptyText: {
+    textAlign: 'center',
+    paddingHorizontal: 24,
     marginTop: 16,
     fontSize: 16,
     fontWeight: '600',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { 
   StyleSheet, Text, View, TouchableOpacity, FlatList, Modal, TextInput, 
   ActivityIndicator, Platform, StatusBar, Dimensions, ScrollView,
@@ -6,18 +6,23 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { useFocusEffect } from 'expo-router';
-import { auth, db } from '../../firebaseConfig';
-import { onAuthStateChanged, User } from 'firebase/auth';
-import { 
-  collection, query, where, onSnapshot, addDoc, updateDoc, deleteDoc, 
-  doc, Timestamp 
-} from 'firebase/firestore';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { Timestamp } from 'firebase/firestore';
+import {
+  Book, BookActivity, BookStatus, ProgressChange, Shelf, createShelf, deleteShelf, getBookActivity, recordBookActivity, saveProgress, saveShelfOrder,
+  useAuthUser, useBooks, useShelves
+} from '../../data';
 import { COLORS, darkColors } from '../../constants/colors';
 import { useTheme } from '../../context/ThemeContext';
+import { useReadingSession } from '../../context/ReadingSessionContext';
 import Toast from 'react-native-toast-message';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 import { DoodleBackground } from '../../components/DoodleBackground';
+import { BookFormat, formatProgressLabel, getProgressFraction, parseProgressInput } from '../../utils/progress';
+import { ReadThrough, countFinishedReads, getReadThroughs, updateReadThroughs } from '../../utils/readThroughs';
+import { toDate } from '../../utils/dates';
+import { formatTags, parseTags } from '../../utils/tags';
+import { newDocPath, queueDelete, queueSet, queueUpdate } from '../../utils/offlineQueue';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const IS_TABLET = SCREEN_WIDTH >= 768;
@@ -32,41 +37,27 @@ const capitalize = (str?: string) => {
   return str.charAt(0).toUpperCase() + str.slice(1).toLowerCase();
 };
 
-type BookStatus = 'reading' | 'toread' | 'read' | 'dnf';
-
-interface Book {
-  id: string;
-  title: string;
-  author: string;
-  genre?: string;
-  status: BookStatus;
-  rating?: number;
-  userId: string;
-  dateAdded: any;
-  dateFinished?: any;
-  dateStartedReading?: any;
-  coverUrl?: string;
-  processedDate: Date;
-  series?: string;
-  seriesOrder?: number;
-  format?: 'physical' | 'ebook' | 'audiobook';
-  dnfReason?: string;
-  dateDnf?: any;
-}
-
 export default function LibraryScreen() {
   const { theme } = useTheme();
   const colors = theme === 'dark' ? darkColors : COLORS;
-  const [user, setUser] = useState<User | null>(auth.currentUser);
+  const router = useRouter();
+  const { activeSession } = useReadingSession();
+  const user = useAuthUser();
+  const { books, loading } = useBooks();
 
-  const [allBooks, setAllBooks] = useState<Book[]>([]);
-  const [loading, setLoading] = useState(true);
+  // Newest first by the date that matches each book's status
+  const allBooks = useMemo(
+    () => [...books].sort((a, b) => b.processedDate.getTime() - a.processedDate.getTime()),
+    [books]
+  );
   const [filterStatus, setFilterStatus] = useState<BookStatus>('reading');
   const [searchQuery, setSearchQuery] = useState('');
   const [displayName, setDisplayName] = useState('Reader');
   
   const [selectedYear, setSelectedYear] = useState('All');
   const [selectedGenre, setSelectedGenre] = useState('All');
+  const [selectedShelf, setSelectedShelf] = useState<string | null>(null);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
   const [showFilterModal, setShowFilterModal] = useState(false);
 
   const [modalVisible, setModalVisible] = useState(false);
@@ -79,8 +70,17 @@ export default function LibraryScreen() {
   const [coverUrl, setCoverUrl] = useState('');
   const [series, setSeries] = useState('');
   const [seriesOrder, setSeriesOrder] = useState('');
-  const [format, setFormat] = useState<'physical' | 'ebook' | 'audiobook'>('physical');
+  const [format, setFormat] = useState<BookFormat>('physical');
   const [dnfReason, setDnfReason] = useState('');
+  const [bookLength, setBookLength] = useState('');
+  const [bookShelfIds, setBookShelfIds] = useState<string[]>([]);
+  const [bookTags, setBookTags] = useState('');
+  const [readHistory, setReadHistory] = useState<ReadThrough[]>([]);
+
+  // Custom Shelves State
+  const { shelves } = useShelves();
+  const [showShelvesModal, setShowShelvesModal] = useState(false);
+  const [newShelfName, setNewShelfName] = useState('');
 
   // Google Books search states
   const [apiQuery, setApiQuery] = useState('');
@@ -94,12 +94,11 @@ export default function LibraryScreen() {
   // Inline Menu State
   const [expandedBookId, setExpandedBookId] = useState<string | null>(null);
 
-  useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (u) => {
-      setUser(u);
-    });
-    return unsubscribe;
-  }, []);
+  // Progress Update State
+  const [progressBook, setProgressBook] = useState<Book | null>(null);
+  const [progressValue, setProgressValue] = useState('');
+  const [progressTotal, setProgressTotal] = useState('');
+  const [isSavingProgress, setIsSavingProgress] = useState(false);
 
   useFocusEffect(
     useCallback(() => {
@@ -117,41 +116,66 @@ export default function LibraryScreen() {
     if (expandedBookId) setExpandedBookId(null);
   };
 
+  // Drop a stale filter if its shelf was deleted (possibly on another device)
+  useEffect(() => {
+    if (selectedShelf && !shelves.some(s => s.id === selectedShelf)) setSelectedShelf(null);
+  }, [shelves, selectedShelf]);
+
+  const tagOptions = useMemo(() => Array.from(new Set(allBooks.flatMap(b => b.tags))).sort(), [allBooks]);
+
+  // Same for a tag that no book carries any more
   useEffect(() => {
+    if (selectedTag && !tagOptions.includes(selectedTag)) setSelectedTag(null);
+  }, [tagOptions, selectedTag]);
+
+  const handleAddShelf = async () => {
     if (!user) return;
-    const q = query(collection(db, 'books'), where('userId', '==', user.uid));
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const booksData = snapshot.docs.map(doc => {
-        const d = doc.data();
-        
-        // Pick the most relevant date based on status
-        let date = d.dateAdded; // default fallback
-        if (d.status === 'read' && d.dateFinished) date = d.dateFinished;
-        else if (d.status === 'reading' && d.dateStartedReading) date = d.dateStartedReading;
-        else if (d.status === 'dnf' && d.dateDnf) date = d.dateDnf;
-        else if (d.dateFinished) date = d.dateFinished; // legacy fallback
-        
-        let processedDate = new Date();
-        if (date?.toDate) processedDate = date.toDate();
-        else if (date?.seconds) processedDate = new Date(date.seconds * 1000);
-        else if (date) processedDate = new Date(date);
-
-        // Migrate legacy reviews to stars if rating is missing
-        let migrateRating = d.rating || 0;
-        if (!migrateRating && d.review === 'good') migrateRating = 5;
-        if (!migrateRating && d.review === 'bad') migrateRating = 1;
-
-        return { id: doc.id, ...d, processedDate, rating: migrateRating, genre: d.genre || '' };
-      }) as Book[];
-      
-      // Sort by processedDate descending (newest first)
-      const sortedBooks = booksData.sort((a, b) => b.processedDate.getTime() - a.processedDate.getTime());
-      
-      setAllBooks(sortedBooks);
-      setLoading(false);
-    });
-    return () => unsubscribe();
-  }, [user]);
+    const name = newShelfName.trim();
+    if (!name) return;
+    if (shelves.some(s => s.name.toLowerCase() === name.toLowerCase())) {
+      Toast.show({ type: 'error', text1: 'Shelf Exists', text2: `You already have a "${name}" shelf.` });
+      return;
+    }
+    try {
+      await createShelf(user.uid, name, shelves);
+      setNewShelfName('');
+    } catch (e: any) {
+      Toast.show({ type: 'error', text1: 'Error', text2: e.message });
+    }
+  };
+
+  const handleMoveShelf = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= shelves.length) return;
+    const reordered = [...shelves];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    try {
+      await saveShelfOrder(reordered);
+    } catch (e: any) {
+      Toast.show({ type: 'error', text1: 'Error', text2: e.message });
+    }
+  };
+
+  const handleDeleteShelf = async (shelf: Shelf) => {
+    if (!user) return;
+    try {
+      await deleteShelf(user.uid, shelf.id);
+      Toast.show({ type: 'success', text1: 'Shelf Deleted', text2: `"${shelf.name}" was removed from your books.` });
+    } catch (e: any) {
+      Toast.show({ type: 'error', text1: 'Error', text2: e.message });
+    }
+  };
+
+  const toggleBookShelf = (shelfId: string) => {
+    setBookShelfIds(prev => prev.includes(shelfId) ? prev.filter(id => id !== shelfId) : [...prev, shelfId]);
+  };
+
+  // Feed events are best-effort: a failure here shouldn't undo or block the book save
+  const shareBookActivity = (bookId: string, activity: BookActivity | null) => {
+    if (!user || !activity) return;
+    recordBookActivity(user.uid, { id: bookId, title, author, coverUrl: coverUrl || null }, activity)
+      .catch(e => console.error("Activity error:", e));
+  };
 
   const handleSaveBook = async () => {
     if (!title.trim() || !author.trim()) {
@@ -160,6 +184,7 @@ export default function LibraryScreen() {
     }
     try {
       const seriesOrderNum = parseInt(seriesOrder);
+      const lengthNum = parseProgressInput(bookLength);
       const bookData: any = { 
         title, 
         author, 
@@ -171,7 +196,12 @@ export default function LibraryScreen() {
         series: series?.trim() || '',
         seriesOrder: !isNaN(seriesOrderNum) && seriesOrderNum > 0 ? seriesOrderNum : null,
         format,
-        dnfReason: status === 'dnf' ? dnfReason.trim() : ''
+        dnfReason: status === 'dnf' ? dnfReason.trim() : '',
+        pageCount: format !== 'audiobook' && lengthNum ? Math.round(lengthNum) : (editingBook?.pageCount ?? null),
+        totalMinutes: format === 'audiobook' && lengthNum ? Math.round(lengthNum) : (editingBook?.totalMinutes ?? null),
+        shelfIds: bookShelfIds,
+        tags: parseTags(bookTags),
+        readThroughs: updateReadThroughs(editingBook ? { ...editingBook, readThroughs: readHistory } : null, status, rating, format),
       };
       if (editingBook) {
         // If status changed to 'read' and it wasn't read before, set dateFinished
@@ -186,7 +216,8 @@ export default function LibraryScreen() {
         if (status === 'dnf' && editingBook.status !== 'dnf') {
           bookData.dateDnf = Timestamp.now();
         }
-        await updateDoc(doc(db, 'books', editingBook.id), bookData);
+        await queueUpdate(`books/${editingBook.id}`, bookData);
+        shareBookActivity(editingBook.id, getBookActivity(editingBook, status, rating));
         Toast.show({ type: 'success', text1: 'Updated' });
       } else {
         const now = Timestamp.now();
@@ -198,7 +229,9 @@ export default function LibraryScreen() {
         } else if (status === 'dnf') {
           bookData.dateDnf = now;
         }
-        await addDoc(collection(db, 'books'), bookData);
+        const path = newDocPath('books');
+        await queueSet(path, bookData);
+        shareBookActivity(path.split('/')[1], getBookActivity(null, status, rating));
         Toast.show({ type: 'success', text1: 'Added' });
       }
       setModalVisible(false);
@@ -233,6 +266,7 @@ export default function LibraryScreen() {
                 author: info.authors ? info.authors.join(', ') : 'Unknown Author',
                 genre: info.categories ? info.categories[0] : '',
                 cover: cover,
+                pageCount: info.pageCount || null,
               };
             });
             setSearchResults(results);
@@ -263,6 +297,7 @@ export default function LibraryScreen() {
             author: doc.author_name ? doc.author_name.join(', ') : 'Unknown Author',
             genre: genreName,
             cover: cover,
+            pageCount: doc.number_of_pages_median || null,
           };
         });
         setSearchResults(results);
@@ -283,6 +318,7 @@ export default function LibraryScreen() {
     setAuthor(book.author);
     setGenre(book.genre ? book.genre.toUpperCase() : '');
     setCoverUrl(book.cover || '');
+    if (book.pageCount) setBookLength(book.pageCount.toString());
     setSearchResults([]);
     setApiQuery('');
   };
@@ -293,6 +329,10 @@ export default function LibraryScreen() {
     setSeriesOrder('');
     setFormat('physical');
     setDnfReason('');
+    setBookLength('');
+    setBookShelfIds(selectedShelf ? [selectedShelf] : []);
+    setBookTags(selectedTag ? formatTags([selectedTag]) : '');
+    setReadHistory([]);
   };
 
   const openEditModal = (book: Book) => {
@@ -307,9 +347,74 @@ export default function LibraryScreen() {
     setSeriesOrder(book.seriesOrder?.toString() || '');
     setFormat(book.format || 'physical');
     setDnfReason(book.dnfReason || '');
+    const length = book.format === 'audiobook' ? book.totalMinutes : book.pageCount;
+    setBookLength(length ? length.toString() : '');
+    setBookShelfIds(book.shelfIds || []);
+    setBookTags(formatTags(book.tags));
+    setReadHistory(getReadThroughs(book));
     setModalVisible(true);
   };
 
+  const openProgressSheet = (book: Book) => {
+    setProgressBook(book);
+    if (book.format === 'audiobook') {
+      setProgressValue(book.listenedMinutes != null ? book.listenedMinutes.toString() : '');
+      setProgressTotal(book.totalMinutes ? book.totalMinutes.toString() : '');
+    } else if (book.format === 'ebook') {
+      setProgressValue(book.progressPercent != null ? book.progressPercent.toString() : '');
+      setProgressTotal('');
+    } else {
+      setProgressValue(book.currentPage != null ? book.currentPage.toString() : '');
+      setProgressTotal(book.pageCount ? book.pageCount.toString() : '');
+    }
+  };
+
+  const handleSaveProgress = async () => {
+    if (!progressBook || !user) return;
+    const bookFormat = progressBook.format || 'physical';
+    const value = parseProgressInput(progressValue);
+    const total = parseProgressInput(progressTotal);
+
+    if (value === null) {
+      Toast.show({ type: 'error', text1: 'Invalid Progress' });
+      return;
+    }
+    if (bookFormat === 'ebook' && value > 100) {
+      Toast.show({ type: 'error', text1: 'Invalid Progress', text2: 'Percent must be between 0 and 100.' });
+      return;
+    }
+    if (bookFormat !== 'ebook' && (!total || value > total)) {
+      Toast.show({ type: 'error', text1: 'Invalid Progress', text2: `Enter the total ${bookFormat === 'audiobook' ? 'minutes' : 'pages'} and a value below it.` });
+      return;
+    }
+
+    setIsSavingProgress(true);
+    try {
+      const progressData: ProgressChange = {};
+      if (bookFormat === 'audiobook') {
+        progressData.listenedMinutes = Math.round(value);
+        progressData.totalMinutes = Math.round(total!);
+      } else if (bookFormat === 'ebook') {
+        progressData.progressPercent = Math.round(value);
+      } else {
+        progressData.currentPage = Math.round(value);
+        progressData.pageCount = Math.round(total!);
+      }
+      const fraction = await saveProgress(user.uid, progressBook, progressData);
+
+      setProgressBook(null);
+      if (fraction >= 1) {
+        Toast.show({ type: 'success', text1: 'All Done? 🎉', text2: 'Mark it as read from the Edit menu.' });
+      } else {
+        Toast.show({ type: 'success', text1: 'Progress Saved', text2: `${Math.round(fraction * 100)}% complete` });
+      }
+    } catch (e: any) {
+      Toast.show({ type: 'error', text1: 'Error', text2: e.message });
+    } finally {
+      setIsSavingProgress(false);
+    }
+  };
+
   const confirmDelete = (id: string) => {
     setBookToDelete(id);
     setShowDeleteModal(true);
@@ -318,7 +423,7 @@ export default function LibraryScreen() {
   const performDelete = async () => {
     if (!bookToDelete) return;
     try {
-      await deleteDoc(doc(db, 'books', bookToDelete));
+      await queueDelete(`books/${bookToDelete}`);
       Toast.show({ type: 'success', text1: 'Deleted' });
       setShowDeleteModal(false);
       setBookToDelete(null);
@@ -341,10 +446,12 @@ export default function LibraryScreen() {
     return allBooks.filter(b => {
       const matchesYear = selectedYear === 'All' || b.processedDate.getFullYear().toString() === selectedYear;
       const matchesGenre = selectedGenre === 'All' || capitalize(b.genre?.trim()) === selectedGenre;
+      const matchesShelf = !selectedShelf || !!b.shelfIds?.includes(selectedShelf);
+      const matchesTag = !selectedTag || b.tags.includes(selectedTag);
       const matchesSearch = b.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
                             b.author.toLowerCase().includes(searchQuery.toLowerCase()) || 
                             (b.series && b.series.toLowerCase().includes(searchQuery.toLowerCase()));
-      return b.status === s && matchesYear && matchesGenre && matchesSearch;
+      return b.status === s && matchesYear && matchesGenre && matchesShelf && matchesTag && matchesSearch;
     }).length;
   };
 
@@ -355,12 +462,15 @@ export default function LibraryScreen() {
                           (b.series && b.series.toLowerCase().includes(searchQuery.toLowerCase()));
     const matchesYear = selectedYear === 'All' || b.processedDate.getFullYear().toString() === selectedYear;
     const matchesGenre = selectedGenre === 'All' || capitalize(b.genre?.trim()) === selectedGenre;
-    return matchesStatus && matchesSearch && matchesYear && matchesGenre;
+    const matchesShelf = !selectedShelf || !!b.shelfIds?.includes(selectedShelf);
+    const matchesTag = !selectedTag || b.tags.includes(selectedTag);
+    return matchesStatus && matchesSearch && matchesYear && matchesGenre && matchesShelf && matchesTag;
   });
 
   const renderBookItem = ({ item, index }: { item: Book, index: number }) => {
     const coverColor = colors.covers[index % colors.covers.length];
     const isExpanded = expandedBookId === item.id;
+    const progress = item.status === 'reading' ? getProgressFraction(item) : null;
 
     return (
       <Animated.View 
@@ -399,6 +509,12 @@ export default function LibraryScreen() {
                   ) : null}
                 </View>
                 <View style={{ flexDirection: 'row', alignItems: 'center', gap: 6 }}>
+                  {countFinishedReads(item) > 1 ? (
+                    <View style={styles.miniRating}>
+                      <Ionicons name="repeat" size={10} color={colors.secondary} />
+                      <Text style={styles.miniRatingText}>{countFinishedReads(item)}</Text>
+                    </View>
+                  ) : null}
                   {item.format && item.format !== 'physical' ? (
                     <Ionicons 
                       name={(item.format === 'ebook' ? 'phone-portrait-outline' : 'headset-outline') as any} 
@@ -415,6 +531,21 @@ export default function LibraryScreen() {
                 </View>
               </View>
 
+              {activeSession?.bookId === item.id && (
+                <View style={[styles.timerBadge, { backgroundColor: colors.danger }]}>
+                  <Ionicons name="timer-outline" size={12} color="white" />
+                </View>
+              )}
+
+              {progress !== null && (
+                <View style={styles.progressOverlay}>
+                  <Text style={styles.progressLabel} numberOfLines={1}>{formatProgressLabel(item)}</Text>
+                  <View style={styles.progressTrack}>
+                    <View style={[styles.progressFill, { width: `${progress * 100}%`, backgroundColor: colors.secondary }]} />
+                  </View>
+                </View>
+              )}
+
               {isExpanded && (
                 <TouchableWithoutFeedback onPress={(e) => {}}>
                   <View style={[styles.inlineMenu, { backgroundColor: colors.card }]}>
@@ -423,6 +554,25 @@ export default function LibraryScreen() {
                       <Text style={[styles.inlineActionText, { color: colors.textDark }]}>EDIT</Text>
                     </TouchableOpacity>
                     <View style={[styles.inlineDivider, { backgroundColor: colors.border }]} />
+                    <TouchableOpacity style={styles.inlineAction} onPress={() => { setExpandedBookId(null); router.push(`/book/${item.id}`); }}>
+                      <Ionicons name="document-text" size={16} color={colors.primary} />
+                      <Text style={[styles.inlineActionText, { color: colors.textDark }]}>NOTES</Text>
+                    </TouchableOpacity>
+                    <View style={[styles.inlineDivider, { backgroundColor: colors.border }]} />
+                    {item.status === 'reading' && (
+                      <>
+                        <TouchableOpacity style={styles.inlineAction} onPress={() => { setExpandedBookId(null); openProgressSheet(item); }}>
+                          <Ionicons name="bookmark" size={16} color={colors.primary} />
+                          <Text style={[styles.inlineActionText, { color: colors.textDark }]}>PROGRESS</Text>
+                        </TouchableOpacity>
+                        <View style={[styles.inlineDivider, { backgroundColor: colors.border }]} />
+                        <TouchableOpacity style={styles.inlineAction} onPress={() => { setExpandedBookId(null); router.push(`/sessions/${item.id}`); }}>
+                          <Ionicons name="timer-outline" size={16} color={colors.primary} />
+                          <Text style={[styles.inlineActionText, { color: colors.textDark }]}>SESSIONS</Text>
+                        </TouchableOpacity>
+                        <View style={[styles.inlineDivider, { backgroundColor: colors.border }]} />
+                      </>
+                    )}
                     <TouchableOpacity style={styles.inlineAction} onPress={() => { setExpandedBookId(null); confirmDelete(item.id); }}>
                       <Ionicons name="trash" size={16} color={colors.danger} />
                       <Text style={[styles.inlineActionText, { color: colors.danger }]}>DELETE</Text>
@@ -462,13 +612,13 @@ export default function LibraryScreen() {
                 styles.filterChip, 
                 { 
                   backgroundColor: colors.card, 
-                  borderColor: (selectedYear !== 'All' || selectedGenre !== 'All') ? colors.primary : colors.border 
+                  borderColor: (selectedYear !== 'All' || selectedGenre !== 'All' || selectedTag) ? colors.primary : colors.border 
                 }
               ]} 
               onPress={() => setShowFilterModal(true)}
             >
-              <Ionicons name="options-outline" size={20} color={(selectedYear !== 'All' || selectedGenre !== 'All') ? colors.primary : colors.textDark} />
-              {(selectedYear !== 'All' || selectedGenre !== 'All') && (
+              <Ionicons name="options-outline" size={20} color={(selectedYear !== 'All' || selectedGenre !== 'All' || selectedTag) ? colors.primary : colors.textDark} />
+              {(selectedYear !== 'All' || selectedGenre !== 'All' || selectedTag) && (
                 <View style={styles.activeFilterLabel}>
                   {selectedYear !== 'All' && (
                     <View style={styles.filterTag}>
@@ -482,6 +632,12 @@ export default function LibraryScreen() {
                       <TouchableOpacity onPress={() => setSelectedGenre('All')}><Ionicons name="close-circle" size={16} color={colors.primary} /></TouchableOpacity>
                     </View>
                   )}
+                  {selectedTag && (
+                    <View style={[styles.filterTag, (selectedYear !== 'All' || selectedGenre !== 'All') && { marginLeft: 8 }]}>
+                      <Text style={[styles.filterYearText, { color: colors.primary }]}>#{selectedTag}</Text>
+                      <TouchableOpacity onPress={() => setSelectedTag(null)}><Ionicons name="close-circle" size={16} color={colors.primary} /></TouchableOpacity>
+                    </View>
+                  )}
                 </View>
               )}
             </TouchableOpacity>
@@ -513,6 +669,25 @@ export default function LibraryScreen() {
             ))}
           </View>
 
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.shelfChips} contentContainerStyle={styles.shelfChipsContent}>
+            {shelves.map(shelf => {
+              const isActive = selectedShelf === shelf.id;
+              return (
+                <TouchableOpacity
+                  key={shelf.id}
+                  onPress={() => setSelectedShelf(isActive ? null : shelf.id)}
+                  style={[styles.shelfChip, { borderColor: colors.border }, isActive && { backgroundColor: colors.primary, borderColor: colors.primary }]}
+                >
+                  <Text style={[styles.shelfChipText, { color: isActive ? 'white' : colors.textDark }]}>{shelf.name}</Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity onPress={() => setShowShelvesModal(true)} style={[styles.shelfChip, { borderColor: colors.border, borderStyle: 'dashed', flexDirection: 'row', gap: 4 }]}>
+              <Ionicons name={shelves.length ? 'options-outline' : 'add'} size={14} color={colors.textLight} />
+              <Text style={[styles.shelfChipText, { color: colors.textLight }]}>{shelves.length ? 'Shelves' : 'New Shelf'}</Text>
+            </TouchableOpacity>
+          </ScrollView>
+
           <View style={{ flex: 1 }}>
             {loading ? (
               <ActivityIndicator size="large" color={colors.primary} style={{ marginTop: 50 }} />
@@ -562,6 +737,48 @@ export default function LibraryScreen() {
                 ))}
               </ScrollView>
 
+              {shelves.length > 0 && (
+                <>
+                  <Text style={styles.inputLabel}>Shelf</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.genreScroll}>
+                    {[{ id: null, name: 'All' }, ...shelves].map(shelf => (
+                      <TouchableOpacity 
+                        key={shelf.id ?? 'all'} 
+                        onPress={() => setSelectedShelf(shelf.id)} 
+                        style={[
+                          styles.genreOption, 
+                          { borderColor: colors.border },
+                          selectedShelf === shelf.id && { backgroundColor: colors.primary, borderColor: colors.primary }
+                        ]}
+                      >
+                        <Text style={[styles.genreOptionText, { color: selectedShelf === shelf.id ? 'white' : colors.textDark }]}>{shelf.name}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                </>
+              )}
+
+              {tagOptions.length > 0 && (
+                <>
+                  <Text style={styles.inputLabel}>Tag</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.genreScroll}>
+                    {[null, ...tagOptions].map(tag => (
+                      <TouchableOpacity 
+                        key={tag ?? 'all'} 
+                        onPress={() => setSelectedTag(tag)} 
+                        style={[
+                          styles.genreOption, 
+                          { borderColor: colors.border },
+                          selectedTag === tag && { backgroundColor: colors.primary, borderColor: colors.primary }
+                        ]}
+                      >
+                        <Text style={[styles.genreOptionText, { color: selectedTag === tag ? 'white' : colors.textDark }]}>{tag ? `#${tag}` : 'All'}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                </>
+              )}
+
               <Text style={styles.inputLabel}>Year</Text>
               {availableYears.map(year => (
                 <TouchableOpacity key={year} onPress={() => { setSelectedYear(year); }} style={[styles.yearOption, { borderColor: colors.border }, selectedYear === year && { backgroundColor: colors.primaryLight, borderColor: colors.primary }]}>
@@ -576,10 +793,10 @@ export default function LibraryScreen() {
               ))}
             </ScrollView>
 
-            {(selectedYear !== 'All' || selectedGenre !== 'All') && (
+            {(selectedYear !== 'All' || selectedGenre !== 'All' || selectedShelf || selectedTag) && (
               <TouchableOpacity 
                 style={[styles.clearBtn, { borderColor: colors.danger }]} 
-                onPress={() => { setSelectedYear('All'); setSelectedGenre('All'); setShowFilterModal(false); }}
+                onPress={() => { setSelectedYear('All'); setSelectedGenre('All'); setSelectedShelf(null); setSelectedTag(null); setShowFilterModal(false); }}
               >
                 <Ionicons name="trash-bin-outline" size={18} color={colors.danger} />
                 <Text style={[styles.clearBtnText, { color: colors.danger }]}>Clear All Filters</Text>
@@ -745,6 +962,75 @@ export default function LibraryScreen() {
                 ))}
               </View>
 
+              <Text style={styles.inputLabel}>{format === 'audiobook' ? 'Length (minutes)' : 'Page Count'}</Text>
+              <TextInput 
+                style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} 
+                value={bookLength} 
+                onChangeText={setBookLength} 
+                keyboardType="numeric" 
+                placeholder={format === 'audiobook' ? 'e.g. 720' : 'e.g. 320'} 
+                placeholderTextColor={colors.textLight} 
+              />
+
+              {shelves.length > 0 && (
+                <>
+                  <Text style={styles.inputLabel}>Shelves</Text>
+                  <View style={styles.shelfPicker}>
+                    {shelves.map(shelf => {
+                      const isOn = bookShelfIds.includes(shelf.id);
+                      return (
+                        <TouchableOpacity
+                          key={shelf.id}
+                          onPress={() => toggleBookShelf(shelf.id)}
+                          style={[styles.shelfChip, { borderColor: colors.border, flexDirection: 'row', gap: 4 }, isOn && { backgroundColor: colors.primary, borderColor: colors.primary }]}
+                        >
+                          {isOn && <Ionicons name="checkmark" size={14} color="white" />}
+                          <Text style={[styles.shelfChipText, { color: isOn ? 'white' : colors.textDark }]}>{shelf.name}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </>
+              )}
+
+              <Text style={styles.inputLabel}>Tags</Text>
+              <TextInput 
+                style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} 
+                value={bookTags} 
+                onChangeText={setBookTags} 
+                placeholder="#owned #lent-out" 
+                placeholderTextColor={colors.textLight} 
+                autoCapitalize="none"
+              />
+
+              {editingBook && readHistory.length > 0 && (
+                <>
+                  <Text style={styles.inputLabel}>Read History</Text>
+                  {readHistory.map((rt, i) => {
+                    const started = toDate(rt.startedAt);
+                    const finished = toDate(rt.finishedAt);
+                    const fmt = (d: Date | null) => d ? d.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' }) : '?';
+                    return (
+                      <View key={i} style={[styles.readThroughRow, { borderColor: colors.border }]}>
+                        <Ionicons name={finished ? 'checkmark-circle' : 'book-outline'} size={18} color={finished ? colors.primary : colors.textLight} />
+                        <View style={{ flex: 1 }}>
+                          <Text style={[styles.readThroughTitle, { color: colors.textDark }]}>
+                            {i === 0 ? 'First read' : `Re-read #${i}`}{rt.format !== 'physical' ? ` • ${rt.format === 'ebook' ? 'Ebook' : 'Audio'}` : ''}
+                          </Text>
+                          <Text style={[styles.readThroughDates, { color: colors.textLight }]}>
+                            {started || finished ? `${fmt(started)} → ${finished ? fmt(finished) : 'in progress'}` : 'No dates'}
+                            {rt.rating > 0 ? `  ${'★'.repeat(rt.rating)}` : ''}
+                          </Text>
+                        </View>
+                        <TouchableOpacity onPress={() => setReadHistory(prev => prev.filter((_, idx) => idx !== i))} style={{ padding: 6 }}>
+                          <Ionicons name="close" size={16} color={colors.textLight} />
+                        </TouchableOpacity>
+                      </View>
+                    );
+                  })}
+                </>
+              )}
+
               {status === 'read' && (
                 <>
                   <Text style={styles.inputLabel}>Rating</Text>
@@ -757,6 +1043,107 @@ export default function LibraryScreen() {
         </View>
       </Modal>
 
+      {/* PROGRESS UPDATE SHEET */}
+      <Modal visible={!!progressBook} animationType="slide" transparent onRequestClose={() => setProgressBook(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textDark }]}>Update Progress</Text>
+              <TouchableOpacity onPress={() => setProgressBook(null)}><Ionicons name="close" size={24} color={colors.textDark} /></TouchableOpacity>
+            </View>
+            {progressBook && (
+              <ScrollView showsVerticalScrollIndicator={false}>
+                <Text style={[styles.progressBookTitle, { color: colors.textDark }]} numberOfLines={2}>{progressBook.title}</Text>
+                <Text style={[styles.progressBookAuthor, { color: colors.textLight }]} numberOfLines={1}>{progressBook.author}</Text>
+
+                {progressBook.format === 'ebook' ? (
+                  <>
+                    <Text style={styles.inputLabel}>Percent Complete</Text>
+                    <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={progressValue} onChangeText={setProgressValue} keyboardType="numeric" placeholder="e.g. 45" placeholderTextColor={colors.textLight} />
+                  </>
+                ) : (
+                  <View style={{ flexDirection: 'row', gap: 12 }}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.inputLabel}>{progressBook.format === 'audiobook' ? 'Minutes Listened' : 'Current Page'}</Text>
+                      <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={progressValue} onChangeText={setProgressValue} keyboardType="numeric" placeholder="e.g. 120" placeholderTextColor={colors.textLight} />
+                    </View>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.inputLabel}>{progressBook.format === 'audiobook' ? 'Total Minutes' : 'Total Pages'}</Text>
+                      <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={progressTotal} onChangeText={setProgressTotal} keyboardType="numeric" placeholder="e.g. 320" placeholderTextColor={colors.textLight} />
+                    </View>
+                  </View>
+                )}
+
+                {(() => {
+                  const value = parseProgressInput(progressValue);
+                  const total = parseProgressInput(progressTotal);
+                  const preview = progressBook.format === 'ebook'
+                    ? getProgressFraction({ format: 'ebook', progressPercent: value })
+                    : getProgressFraction({ format: progressBook.format, currentPage: value, pageCount: total, listenedMinutes: value, totalMinutes: total });
+                  return preview !== null ? (
+                    <View style={{ marginTop: 20 }}>
+                      <View style={[styles.progressPreviewTrack, { backgroundColor: colors.border + '40' }]}>
+                        <View style={[styles.progressFill, { width: `${preview * 100}%`, backgroundColor: colors.primary }]} />
+                      </View>
+                      <Text style={[styles.progressPreviewText, { color: colors.textLight }]}>{Math.round(preview * 100)}% complete</Text>
+                    </View>
+                  ) : null;
+                })()}
+
+                <TouchableOpacity style={[styles.saveBtn, { backgroundColor: colors.primary }]} onPress={handleSaveProgress} disabled={isSavingProgress}>
+                  {isSavingProgress ? <ActivityIndicator color="white" /> : <Text style={styles.saveBtnText}>Save Progress</Text>}
+                </TouchableOpacity>
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* MANAGE SHELVES MODAL */}
+      <Modal visible={showShelvesModal} animationType="slide" transparent onRequestClose={() => setShowShelvesModal(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textDark }]}>Shelves</Text>
+              <TouchableOpacity onPress={() => setShowShelvesModal(false)}><Ionicons name="close" size={24} color={colors.textDark} /></TouchableOpacity>
+            </View>
+            <View style={styles.apiSearchRow}>
+              <TextInput
+                style={[styles.apiInput, { color: colors.textDark, borderColor: colors.border }]}
+                placeholder="e.g. Book club, Owned, Lent out"
+                placeholderTextColor={colors.textLight}
+                value={newShelfName}
+                onChangeText={setNewShelfName}
+                onSubmitEditing={handleAddShelf}
+                maxLength={30}
+              />
+              <TouchableOpacity style={[styles.apiSearchBtn, { backgroundColor: colors.primary }]} onPress={handleAddShelf}>
+                <Ionicons name="add" size={20} color="white" />
+              </TouchableOpacity>
+            </View>
+            <ScrollView showsVerticalScrollIndicator={false} style={{ marginTop: 16 }}>
+              {shelves.length === 0 ? (
+                <Text style={[styles.emptyText, { color: colors.textLight, textAlign: 'center' }]}>No shelves yet. A book can sit on as many as you like.</Text>
+              ) : shelves.map((shelf, index) => (
+                <View key={shelf.id} style={[styles.shelfRow, { borderColor: colors.border }]}>
+                  <Text style={[styles.shelfRowName, { color: colors.textDark }]} numberOfLines={1}>{shelf.name}</Text>
+                  <Text style={[styles.shelfRowCount, { color: colors.textLight }]}>{allBooks.filter(b => b.shelfIds?.includes(shelf.id)).length}</Text>
+                  <TouchableOpacity onPress={() => handleMoveShelf(index, -1)} disabled={index === 0} style={styles.shelfRowBtn}>
+                    <Ionicons name="chevron-up" size={18} color={index === 0 ? colors.border : colors.textDark} />
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleMoveShelf(index, 1)} disabled={index === shelves.length - 1} style={styles.shelfRowBtn}>
+                    <Ionicons name="chevron-down" size={18} color={index === shelves.length - 1 ? colors.border : colors.textDark} />
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleDeleteShelf(shelf)} style={styles.shelfRowBtn}>
+                    <Ionicons name="trash-outline" size={18} color={colors.danger} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
       {/* DELETE CONFIRMATION MODAL */}
       <Modal visible={showDeleteModal} transparent animationType="fade" onRequestClose={() => setShowDeleteModal(false)}>
         <View style={styles.modalOverlay}>
@@ -902,4 +1289,25 @@ const styles = StyleSheet.create({
     letterSpacing: 0.5,
   },
   inlineDivider: { height: 1, width: '100%', opacity: 0.1 },
+  readThroughRow: { flexDirection: 'row', alignItems: 'center', gap: 10, borderWidth: 1, borderRadius: 14, paddingVertical: 10, paddingHorizontal: 12, marginBottom: 8 },
+  readThroughTitle: { fontSize: 13, fontWeight: '800' },
+  readThroughDates: { fontSize: 11, fontWeight: '600', marginTop: 2 },
+  shelfChips: { flexGrow: 0, marginBottom: 12 },
+  shelfChipsContent: { paddingHorizontal: 24, gap: 8 },
+  shelfChip: { paddingHorizontal: 14, paddingVertical: 6, borderRadius: 14, borderWidth: 1, alignItems: 'center', justifyContent: 'center' },
+  shelfChipText: { fontSize: 12, fontWeight: '800' },
+  shelfPicker: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 8 },
+  shelfRow: { flexDirection: 'row', alignItems: 'center', borderBottomWidth: 1, paddingVertical: 12, gap: 4 },
+  shelfRowName: { flex: 1, fontSize: 16, fontWeight: '700' },
+  shelfRowCount: { fontSize: 13, fontWeight: '800', marginRight: 8 },
+  shelfRowBtn: { padding: 6 },
+  timerBadge: { position: 'absolute', top: 12, right: 12, width: 24, height: 24, borderRadius: 12, justifyContent: 'center', alignItems: 'center' },
+  progressOverlay: { position: 'absolute', left: 12, right: 12, bottom: 46 },
+  progressLabel: { color: 'white', fontSize: 9, fontWeight: '900', marginBottom: 4, textShadowColor: 'rgba(0,0,0,0.4)', textShadowOffset: { width: 0, height: 1 }, textShadowRadius: 2 },
+  progressTrack: { height: 5, borderRadius: 3, backgroundColor: 'rgba(255,255,255,0.3)', overflow: 'hidden' },
+  progressFill: { height: '100%', borderRadius: 3 },
+  progressBookTitle: { fontSize: 18, fontWeight: '900' },
+  progressBookAuthor: { fontSize: 13, fontWeight: '700', marginTop: 2 },
+  progressPreviewTrack: { height: 10, borderRadius: 5, overflow: 'hidden' },
+  progressPreviewText: { fontSize: 11, fontWeight: '900', marginTop: 6, textTransform: 'uppercase', letterSpacing: 0.5 },
 });
\ No newline at end of file
@@ -1,105 +1,74 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useMemo } from 'react';
 import { 
    StyleSheet, Text, View, TouchableOpacity, FlatList, Modal, TextInput, 
    ActivityIndicator, Platform, StatusBar, Dimensions, ScrollView, KeyboardAvoidingView
  } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { auth, db } from '../../firebaseConfig';
-import { onAuthStateChanged, User } from 'firebase/auth';
-import { 
-  collection, query, where, onSnapshot, addDoc, updateDoc, deleteDoc, 
-  doc, Timestamp 
-} from 'firebase/firestore';
+import { useRouter } from 'expo-router';
+import { Timestamp } from 'firebase/firestore';
 import { COLORS, darkColors } from '../../constants/colors';
 import { useTheme } from '../../context/ThemeContext';
 import Toast from 'react-native-toast-message';
 import Animated, { FadeInDown, Layout } from 'react-native-reanimated';
 import { DoodleBackground } from '../../components/DoodleBackground';
+import { MarkdownText } from '../../components/MarkdownText';
+import { Note, useAuthUser, useBooks, useNotes } from '../../data';
+import { newDocPath, queueDelete, queueSet, queueUpdate } from '../../utils/offlineQueue';
+import { MarkdownAction, TextSelection, applyMarkdownAction, stripMarkdown, toggleCheckboxLine } from '../../utils/markdown';
+import {
+  NoteAnchor, EMPTY_ANCHOR, sortNotesByUpdated, getNoteAnchor, anchorToFields, formatNoteAnchor
+} from '../../utils/notes';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
-interface Note {
-  id: string;
-  title: string;
-  content: string;
-  userId: string;
-  createdAt: any;
-  updatedAt: any;
-}
+// Special filter values next to real book ids
+const ALL_NOTES = 'all';
+const UNLINKED_NOTES = 'unlinked';
+
+const TOOLBAR_ACTIONS: { action: MarkdownAction; icon?: string; label?: string }[] = [
+  { action: 'heading', label: 'H' },
+  { action: 'bold', label: 'B' },
+  { action: 'italic', label: 'I' },
+  { action: 'bullet', icon: 'list' },
+  { action: 'numbered', label: '1.' },
+  { action: 'checkbox', icon: 'checkbox-outline' },
+  { action: 'quote', icon: 'chatbox-ellipses-outline' },
+];
 
 export default function NotesScreen() {
   const { theme } = useTheme();
   const colors = theme === 'dark' ? darkColors : COLORS;
-  const [user, setUser] = useState<User | null>(auth.currentUser);
+  const router = useRouter();
+  const user = useAuthUser();
+  const { notes: rawNotes, loading } = useNotes();
+  const { books: rawBooks } = useBooks();
+  const notes = useMemo(() => sortNotesByUpdated(rawNotes), [rawNotes]);
+  const books = useMemo(
+    () => rawBooks.map(b => ({ ...b, title: b.title || 'Untitled' })).sort((a, b) => a.title.localeCompare(b.title)),
+    [rawBooks]
+  );
 
-  const [notes, setNotes] = useState<Note[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [bookFilter, setBookFilter] = useState(ALL_NOTES);
 
   // Editor State
   const [editorVisible, setEditorVisible] = useState(false);
   const [editingNote, setEditingNote] = useState<Note | null>(null);
   const [noteTitle, setNoteTitle] = useState('');
   const [noteContent, setNoteContent] = useState('');
+  const [noteBookId, setNoteBookId] = useState<string | null>(null);
+  const [anchor, setAnchor] = useState<NoteAnchor>(EMPTY_ANCHOR);
+  const [showBookPicker, setShowBookPicker] = useState(false);
+  const [isPreview, setIsPreview] = useState(false);
+  const [selection, setSelection] = useState<TextSelection>({ start: 0, end: 0 });
   const [isSaving, setIsSaving] = useState(false);
 
   // Delete Confirmation
   const [noteToDelete, setNoteToDelete] = useState<string | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
 
-  useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (u) => {
-      setUser(u);
-    });
-    return unsubscribe;
-  }, []);
-
-  const fetchNotes = useCallback(() => {
-    if (!user) {
-      setLoading(false);
-      return () => {};
-    }
-    
-    const q = query(
-      collection(db, 'notes'), 
-      where('userId', '==', user.uid)
-    );
-
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const notesData = snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          title: data.title || '',
-          content: data.content || '',
-          userId: data.userId,
-          createdAt: data.createdAt,
-          updatedAt: data.updatedAt,
-        };
-      }) as Note[];
-
-      const sortedNotes = notesData.sort((a, b) => {
-        const timeA = a.updatedAt?.seconds || 0;
-        const timeB = b.updatedAt?.seconds || 0;
-        return timeB - timeA;
-      });
-
-      setNotes(sortedNotes);
-      setLoading(false);
-    }, (error) => {
-      setLoading(false);
-    });
-
-    return unsubscribe;
-  }, [user]);
-
-  useEffect(() => {
-    const unsubscribe = fetchNotes();
-    return () => {
-      if (typeof unsubscribe === 'function') unsubscribe();
-    };
-  }, [fetchNotes]);
+  const getBook = (bookId?: string | null) => (bookId ? books.find(b => b.id === bookId) : undefined);
 
   const handleSaveNote = async () => {
     if (!noteContent.trim() && !noteTitle.trim()) {
@@ -109,17 +78,22 @@ export default function NotesScreen() {
 
     setIsSaving(true);
     try {
+      // Title is copied onto the note so it still reads sensibly if the book is removed later
+      const linkedTitle = getBook(noteBookId)?.title || (noteBookId === editingNote?.bookId ? editingNote?.bookTitle : null);
       const noteData = {
         title: noteTitle.trim(),
         content: noteContent.trim(),
         userId: user?.uid,
+        bookId: noteBookId,
+        bookTitle: noteBookId ? linkedTitle || null : null,
+        ...anchorToFields(noteBookId ? anchor : EMPTY_ANCHOR),
         updatedAt: Timestamp.now(),
       };
 
       if (editingNote) {
-        await updateDoc(doc(db, 'notes', editingNote.id), noteData);
+        await queueUpdate(`notes/${editingNote.id}`, noteData);
       } else {
-        await addDoc(collection(db, 'notes'), {
+        await queueSet(newDocPath('notes'), {
           ...noteData,
           createdAt: Timestamp.now(),
         });
@@ -137,6 +111,9 @@ export default function NotesScreen() {
     setEditingNote(null);
     setNoteTitle('');
     setNoteContent('');
+    setNoteBookId(bookFilter !== ALL_NOTES && bookFilter !== UNLINKED_NOTES ? bookFilter : null);
+    setAnchor(EMPTY_ANCHOR);
+    setIsPreview(false);
   };
 
   const openEditor = (note: Note | null = null) => {
@@ -144,12 +121,30 @@ export default function NotesScreen() {
       setEditingNote(note);
       setNoteTitle(note.title);
       setNoteContent(note.content);
+      setNoteBookId(note.bookId || null);
+      setAnchor(getNoteAnchor(note));
+      setIsPreview(false);
     } else {
       resetForm();
     }
     setEditorVisible(true);
   };
 
+  const handleToolbarAction = (action: MarkdownAction) => {
+    const result = applyMarkdownAction(noteContent, selection, action);
+    setNoteContent(result.content);
+    setSelection(result.selection);
+  };
+
+  // Ticking a checklist item on a card saves straight away, without opening the editor
+  const toggleCardCheckbox = async (note: Note, line: number) => {
+    try {
+      await queueUpdate(`notes/${note.id}`, { content: toggleCheckboxLine(note.content, line), updatedAt: Timestamp.now() });
+    } catch {
+      Toast.show({ type: 'error', text1: 'Error saving note' });
+    }
+  };
+
   const confirmDelete = (id: string) => {
     setNoteToDelete(id);
     setShowDeleteModal(true);
@@ -158,7 +153,7 @@ export default function NotesScreen() {
   const performDelete = async () => {
     if (!noteToDelete) return;
     try {
-      await deleteDoc(doc(db, 'notes', noteToDelete));
+      await queueDelete(`notes/${noteToDelete}`);
       setShowDeleteModal(false);
       setNoteToDelete(null);
     } catch {
@@ -166,12 +161,29 @@ export default function NotesScreen() {
     }
   };
 
-  const filteredNotes = notes.filter(n => 
-    n.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
-    n.content.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const jumpToBook = (bookId: string) => {
+    router.push(`/book/${bookId}`);
+  };
+
+  // Only books that actually have notes get a filter chip
+  const notedBooks = books.filter(b => notes.some(n => n.bookId === b.id));
+  const hasUnlinked = notes.some(n => !getBook(n.bookId));
+
+  const filteredNotes = notes.filter(n => {
+    if (bookFilter === UNLINKED_NOTES && getBook(n.bookId)) return false;
+    if (bookFilter !== ALL_NOTES && bookFilter !== UNLINKED_NOTES && n.bookId !== bookFilter) return false;
+    const q = searchQuery.toLowerCase();
+    return n.title.toLowerCase().includes(q) ||
+      stripMarkdown(n.content).toLowerCase().includes(q) ||
+      (n.bookTitle || '').toLowerCase().includes(q);
+  });
+
+  const editorBook = getBook(noteBookId);
+  const editorBookTitle = editorBook?.title || (noteBookId ? editingNote?.bookTitle : null);
 
   const renderNoteItem = ({ item, index }: { item: Note, index: number }) => {
+    const linkedBook = getBook(item.bookId);
+    const anchorLabel = formatNoteAnchor(item);
     return (
       <Animated.View 
         entering={FadeInDown.delay(index * 50).springify()} 
@@ -188,9 +200,24 @@ export default function NotesScreen() {
               {item.title}
             </Text>
           ) : null}
-          <Text style={[styles.noteContent, { color: colors.textLight }]} numberOfLines={4}>
-            {item.content}
-          </Text>
+          <MarkdownText
+            content={item.content}
+            colors={colors}
+            textStyle={[styles.noteContent, { color: colors.textLight }]}
+            maxBlocks={4}
+            onToggleCheckbox={(line) => toggleCardCheckbox(item, line)}
+          />
+          {linkedBook ? (
+            <TouchableOpacity
+              style={[styles.bookLink, { backgroundColor: colors.primary + '15' }]}
+              onPress={() => jumpToBook(linkedBook.id)}
+            >
+              <Ionicons name="book-outline" size={12} color={colors.primary} />
+              <Text style={[styles.bookLinkText, { color: colors.primary }]} numberOfLines={1}>
+                {linkedBook.title}{anchorLabel ? ` • ${anchorLabel}` : ''}
+              </Text>
+            </TouchableOpacity>
+          ) : null}
           <View style={styles.noteFooter}>
             <Text style={[styles.noteDate, { color: colors.textLight }]}>
               {item.updatedAt?.toDate?.()?.toLocaleDateString() || 'Just now'}
@@ -213,6 +240,12 @@ export default function NotesScreen() {
             <Ionicons name="chevron-back" size={28} color={colors.primary} />
           </TouchableOpacity>
           <View style={{ flex: 1 }} />
+          <TouchableOpacity
+            onPress={() => setIsPreview(!isPreview)}
+            style={[styles.previewBtn, { backgroundColor: isPreview ? colors.primary : 'transparent', borderColor: colors.primary + '40' }]}
+          >
+            <Ionicons name={isPreview ? 'create-outline' : 'eye-outline'} size={18} color={isPreview ? 'white' : colors.primary} />
+          </TouchableOpacity>
           <TouchableOpacity 
             onPress={handleSaveNote} 
             disabled={isSaving}
@@ -239,19 +272,129 @@ export default function NotesScreen() {
               onChangeText={setNoteTitle}
               multiline
             />
+            <TouchableOpacity
+              style={[styles.bookSelector, { borderColor: colors.border }]}
+              onPress={() => setShowBookPicker(true)}
+            >
+              <Ionicons name={noteBookId ? 'book' : 'book-outline'} size={16} color={noteBookId ? colors.primary : colors.textLight} />
+              <Text style={[styles.bookSelectorText, { color: noteBookId ? colors.textDark : colors.textLight }]} numberOfLines={1}>
+                {noteBookId ? editorBookTitle || 'Linked book' : 'Link to a book'}
+              </Text>
+              {editorBook ? (
+                <TouchableOpacity onPress={() => jumpToBook(editorBook.id)}>
+                  <Text style={[styles.jumpText, { color: colors.primary }]}>Open</Text>
+                </TouchableOpacity>
+              ) : (
+                <Ionicons name="chevron-down" size={16} color={colors.textLight} />
+              )}
+            </TouchableOpacity>
+            {noteBookId ? (
+              <View style={styles.anchorRow}>
+                <TextInput
+                  style={[styles.anchorInput, { color: colors.textDark, borderColor: colors.border }]}
+                  placeholder="Page"
+                  placeholderTextColor={colors.textLight + '80'}
+                  value={anchor.page}
+                  onChangeText={(page) => setAnchor({ ...anchor, page })}
+                  keyboardType="numeric"
+                />
+                <TextInput
+                  style={[styles.anchorInput, { color: colors.textDark, borderColor: colors.border }]}
+                  placeholder="Chapter"
+                  placeholderTextColor={colors.textLight + '80'}
+                  value={anchor.chapter}
+                  onChangeText={(chapter) => setAnchor({ ...anchor, chapter })}
+                />
+                <TextInput
+                  style={[styles.anchorInput, { color: colors.textDark, borderColor: colors.border }]}
+                  placeholder="Location"
+                  placeholderTextColor={colors.textLight + '80'}
+                  value={anchor.location}
+                  onChangeText={(location) => setAnchor({ ...anchor, location })}
+                />
+              </View>
+            ) : null}
             <View style={[styles.editorDivider, { backgroundColor: colors.border }]} />
-            <TextInput
-              style={[styles.contentInput, { color: colors.textDark }]}
-              placeholder="Start writing..."
-              placeholderTextColor={colors.textLight + '80'}
-              value={noteContent}
-              onChangeText={setNoteContent}
-              multiline
-              autoFocus={!editingNote}
-              textAlignVertical="top"
-            />
+            {isPreview ? (
+              <View style={styles.previewContainer}>
+                {noteContent.trim() ? (
+                  <MarkdownText
+                    content={noteContent}
+                    colors={colors}
+                    textStyle={styles.previewText}
+                    onToggleCheckbox={(line) => setNoteContent(toggleCheckboxLine(noteContent, line))}
+                  />
+                ) : (
+                  <Text style={[styles.previewText, { color: colors.textLight + '80' }]}>Nothing to preview yet</Text>
+                )}
+              </View>
+            ) : (
+              <>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} keyboardShouldPersistTaps="always" contentContainerStyle={styles.toolbar}>
+                  {TOOLBAR_ACTIONS.map(({ action, icon, label }) => (
+                    <TouchableOpacity
+                      key={action}
+                      style={[styles.toolbarBtn, { backgroundColor: colors.card, borderColor: colors.border }]}
+                      onPress={() => handleToolbarAction(action)}
+                    >
+                      {label ? (
+                        <Text style={[
+                          styles.toolbarLabel,
+                          { color: colors.textDark },
+                          action === 'italic' && { fontStyle: 'italic' },
+                        ]}>{label}</Text>
+                      ) : (
+                        <Ionicons name={icon as any} size={18} color={colors.textDark} />
+                      )}
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+                <TextInput
+                  style={[styles.contentInput, { color: colors.textDark }]}
+                  placeholder="Start writing..."
+                  placeholderTextColor={colors.textLight + '80'}
+                  value={noteContent}
+                  onChangeText={setNoteContent}
+                  onSelectionChange={(e) => setSelection(e.nativeEvent.selection)}
+                  multiline
+                  autoFocus={!editingNote}
+                  textAlignVertical="top"
+                />
+              </>
+            )}
           </ScrollView>
         </KeyboardAvoidingView>
+
+        {/* BOOK PICKER */}
+        <Modal visible={showBookPicker} transparent animationType="fade" onRequestClose={() => setShowBookPicker(false)}>
+          <View style={styles.modalOverlay}>
+            <View style={[styles.modalContent, { backgroundColor: colors.card, maxHeight: '70%' }]}>
+              <Text style={[styles.modalTitle, { color: colors.textDark, marginBottom: 12 }]}>Link to Book</Text>
+              <ScrollView showsVerticalScrollIndicator={false}>
+                <TouchableOpacity
+                  style={[styles.pickerRow, { borderColor: colors.border }]}
+                  onPress={() => { setNoteBookId(null); setShowBookPicker(false); }}
+                >
+                  <Text style={[styles.pickerTitle, { color: colors.textLight }]}>No book</Text>
+                  {!noteBookId && <Ionicons name="checkmark" size={18} color={colors.primary} />}
+                </TouchableOpacity>
+                {books.map(b => (
+                  <TouchableOpacity
+                    key={b.id}
+                    style={[styles.pickerRow, { borderColor: colors.border }]}
+                    onPress={() => { setNoteBookId(b.id); setShowBookPicker(false); }}
+                  >
+                    <View style={{ flex: 1 }}>
+                      <Text style={[styles.pickerTitle, { color: colors.textDark }]} numberOfLines={1}>{b.title}</Text>
+                      {b.author ? <Text style={[styles.pickerAuthor, { color: colors.textLight }]} numberOfLines={1}>{b.author}</Text> : null}
+                    </View>
+                    {noteBookId === b.id && <Ionicons name="checkmark" size={18} color={colors.primary} />}
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </View>
+          </View>
+        </Modal>
       </SafeAreaView>
     );
   }
@@ -262,10 +405,19 @@ export default function NotesScreen() {
       <StatusBar barStyle={theme === 'dark' ? 'light-content' : 'dark-content'} />
       
       <View style={styles.header}>
-        <Text style={[styles.headerTitle, { color: colors.textDark }]}>My Notes</Text>
-        <Text style={[styles.headerSubtitle, { color: colors.textLight }]}>
-          {notes.length} {notes.length === 1 ? 'note' : 'notes'}
-        </Text>
+        <View style={{ flex: 1 }}>
+          <Text style={[styles.headerTitle, { color: colors.textDark }]}>My Notes</Text>
+          <Text style={[styles.headerSubtitle, { color: colors.textLight }]}>
+            {notes.length} {notes.length === 1 ? 'note' : 'notes'}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={[styles.quotesBtn, { backgroundColor: colors.card, borderColor: colors.border }]}
+          onPress={() => router.push('/quotes')}
+        >
+          <Ionicons name="chatbox-ellipses-outline" size={18} color={colors.primary} />
+          <Text style={[styles.quotesBtnText, { color: colors.textDark }]}>Quotes</Text>
+        </TouchableOpacity>
       </View>
 
       <View style={styles.searchSection}>
@@ -281,6 +433,35 @@ export default function NotesScreen() {
         </View>
       </View>
 
+      {notedBooks.length > 0 && (
+        <View style={styles.filterSection}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+            {[
+              { id: ALL_NOTES, label: 'All' },
+              ...(hasUnlinked ? [{ id: UNLINKED_NOTES, label: 'Unlinked' }] : []),
+              ...notedBooks.map(b => ({ id: b.id, label: b.title })),
+            ].map(chip => {
+              const active = bookFilter === chip.id;
+              return (
+                <TouchableOpacity
+                  key={chip.id}
+                  style={[styles.filterChip, { borderColor: active ? colors.primary : colors.border, backgroundColor: active ? colors.primary : colors.card }]}
+                  onPress={() => setBookFilter(chip.id)}
+                >
+                  <Text style={[styles.filterChipText, { color: active ? 'white' : colors.textDark }]} numberOfLines={1}>{chip.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+          {getBook(bookFilter) && (
+            <TouchableOpacity style={styles.jumpRow} onPress={() => jumpToBook(bookFilter)}>
+              <Text style={[styles.jumpText, { color: colors.primary }]}>Go to book</Text>
+              <Ionicons name="arrow-forward" size={14} color={colors.primary} />
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
       {loading ? (
         <ActivityIndicator size="large" color={colors.primary} style={{ marginTop: 50 }} />
       ) : (
@@ -337,7 +518,9 @@ export default function NotesScreen() {
 
 const styles = StyleSheet.create({
   container: { flex: 1 },
-  header: { paddingHorizontal: 24, paddingTop: Platform.OS === 'android' ? 40 : 20, marginBottom: 20 },
+  header: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 24, paddingTop: Platform.OS === 'android' ? 40 : 20, marginBottom: 20 },
+  quotesBtn: { flexDirection: 'row', alignItems: 'center', gap: 6, paddingHorizontal: 14, height: 40, borderRadius: 20, borderWidth: 1 },
+  quotesBtnText: { fontSize: 13, fontWeight: '900' },
   headerTitle: { fontSize: 32, fontWeight: '900', letterSpacing: -1 },
   headerSubtitle: { fontSize: 14, fontWeight: '700', marginTop: 4, opacity: 0.6 },
   searchSection: { paddingHorizontal: 24, marginBottom: 16 },
@@ -352,6 +535,14 @@ const styles = StyleSheet.create({
   noteFooter: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginTop: 12 },
   noteDate: { fontSize: 10, fontWeight: '800', opacity: 0.5 },
   deleteBtn: { padding: 4 },
+  bookLink: { flexDirection: 'row', alignItems: 'center', gap: 4, marginTop: 10, paddingHorizontal: 8, paddingVertical: 4, borderRadius: 8, alignSelf: 'flex-start', maxWidth: '100%' },
+  bookLinkText: { fontSize: 10, fontWeight: '800', flexShrink: 1 },
+  filterSection: { marginBottom: 16 },
+  filterRow: { paddingHorizontal: 24, gap: 8 },
+  filterChip: { paddingHorizontal: 14, paddingVertical: 8, borderRadius: 20, borderWidth: 1, maxWidth: 180 },
+  filterChipText: { fontSize: 12, fontWeight: '800' },
+  jumpRow: { flexDirection: 'row', alignItems: 'center', gap: 4, alignSelf: 'flex-end', paddingHorizontal: 24, marginTop: 10 },
+  jumpText: { fontSize: 13, fontWeight: '900' },
   emptyState: { alignItems: 'center', marginTop: 100, width: SCREEN_WIDTH - 32 },
   emptyText: { marginTop: 16, fontSize: 16, fontWeight: '600' },
   fab: { position: 'absolute', bottom: 100, right: 24, width: 64, height: 64, borderRadius: 32, justifyContent: 'center', alignItems: 'center', elevation: 8, shadowColor: '#000', shadowOffset: { width: 0, height: 4 }, shadowOpacity: 0.3, shadowRadius: 6 },
@@ -360,16 +551,29 @@ const styles = StyleSheet.create({
   editorContainer: { flex: 1 },
   editorHeader: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 16, paddingVertical: 12 },
   backBtn: { padding: 4 },
+  previewBtn: { width: 38, height: 38, borderRadius: 19, borderWidth: 1, justifyContent: 'center', alignItems: 'center', marginRight: 10 },
   doneBtn: { paddingHorizontal: 20, paddingVertical: 8, borderRadius: 20 },
   doneBtnText: { fontSize: 15, fontWeight: '900' },
   editorScroll: { paddingHorizontal: 24, paddingTop: 12, paddingBottom: 100 },
   titleInput: { fontSize: 28, fontWeight: '900', marginBottom: 12 },
+  bookSelector: { flexDirection: 'row', alignItems: 'center', gap: 8, borderWidth: 1, borderRadius: 12, paddingHorizontal: 12, height: 40, marginBottom: 10 },
+  bookSelectorText: { flex: 1, fontSize: 14, fontWeight: '700' },
+  anchorRow: { flexDirection: 'row', gap: 8, marginBottom: 16 },
+  anchorInput: { flex: 1, borderWidth: 1, borderRadius: 12, paddingHorizontal: 10, height: 38, fontSize: 13, fontWeight: '600' },
   editorDivider: { height: 1, width: 40, marginBottom: 20, opacity: 0.2 },
   contentInput: { fontSize: 17, lineHeight: 26, minHeight: SCREEN_HEIGHT * 0.6 },
+  toolbar: { gap: 8, paddingBottom: 16 },
+  toolbarBtn: { width: 40, height: 36, borderRadius: 10, borderWidth: 1, justifyContent: 'center', alignItems: 'center' },
+  toolbarLabel: { fontSize: 15, fontWeight: '900' },
+  previewContainer: { minHeight: SCREEN_HEIGHT * 0.6 },
+  previewText: { fontSize: 17, lineHeight: 26 },
   
   // Modal Styles
   modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.6)', justifyContent: 'center', alignItems: 'center', padding: 40 },
   modalContent: { width: '100%', borderRadius: 24, padding: 24, elevation: 10 },
   modalTitle: { fontSize: 20, fontWeight: '900' },
+  pickerRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 12, borderBottomWidth: 1, gap: 8 },
+  pickerTitle: { fontSize: 15, fontWeight: '800', flex: 1 },
+  pickerAuthor: { fontSize: 12, fontWeight: '600', marginTop: 2 },
   smallBtn: { height: 48, borderRadius: 14, justifyContent: 'center', alignItems: 'center' },
 });
@@ -2,29 +2,65 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { useRouter } from 'expo-router';
 import * as Updates from 'expo-updates';
-import { deleteUser, onAuthStateChanged, signOut, updateProfile, User } from 'firebase/auth';
-import { addDoc, collection, deleteDoc, doc, getDoc, Timestamp, updateDoc } from 'firebase/firestore';
+import { deleteUser, EmailAuthProvider, reauthenticateWithCredential, signOut, updateProfile } from 'firebase/auth';
+import { addDoc, collection, Timestamp } from 'firebase/firestore';
 import React, { useEffect, useState } from 'react';
 import { ActivityIndicator, Modal, Platform, ScrollView, StyleSheet, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import Toast from 'react-native-toast-message';
 import { DoodleBackground } from '../../components/DoodleBackground';
 import { COLORS, darkColors } from '../../constants/colors';
-import { useLock } from '../../context/LockContext';
-import { useTheme } from '../../context/ThemeContext';
+import { MAX_FAILED_ATTEMPTS, useLock } from '../../context/LockContext';
+import { ThemeMode, useTheme } from '../../context/ThemeContext';
 import { auth, db } from '../../firebaseConfig';
+import {
+  fetchUserProfile, getReadingGoal, hasAdminRole, PrivacySetting, ProfilePrivacy, ProfileVisibility, unblockUser, updateUserProfile,
+  useAuthUser, useBlockedUsers, usePublicProfile
+} from '../../data';
+import { DEFAULT_PRIVACY, getPrivacy } from '../../utils/publicProfile';
+import { ExportFormat, fetchExportData, shareExport } from '../../utils/export';
+import { DeletionProgress, clearDeletionPending, deleteUserData, getPendingDeletion, markDeletionPending } from '../../utils/accountDeletion';
+
+const PRIVACY_OPTIONS: { section: PrivacySetting; label: string }[] = [
+  { section: 'stats', label: 'Reading Stats' },
+  { section: 'currentReads', label: 'Currently Reading' },
+  { section: 'trophies', label: 'Trophies' },
+  { section: 'activity', label: 'Activity Feed' },
+];
+
+const VISIBILITY_OPTIONS: { value: ProfileVisibility; label: string }[] = [
+  { value: 'everyone', label: 'Everyone' },
+  { value: 'friends', label: 'Friends' },
+  { value: 'nobody', label: 'Only Me' },
+];
+
+function BlockedUserRow({ userId, colors, onUnblock }: { userId: string; colors: typeof COLORS; onUnblock: (userId: string) => void }) {
+  const { profile } = usePublicProfile(userId);
+  return (
+    <View style={[styles.timeoutOption, { borderColor: colors.border }]}>
+      <Text style={[styles.timeoutLabel, { color: colors.textDark, flex: 1 }]} numberOfLines={1}>{profile?.username || 'Reader'}</Text>
+      <TouchableOpacity onPress={() => onUnblock(userId)}>
+        <Text style={{ color: colors.primary, fontWeight: 'bold' }}>Unblock</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
 
 export default function SettingsScreen() {
   const router = useRouter();
-  const { theme, toggleTheme } = useTheme();
+  const { theme, themeMode, setThemeMode } = useTheme();
   const colors = theme === 'dark' ? darkColors : COLORS;
-  const { hasPin, setPin, removePin, pinTimeout, setPinTimeout, biometricEnabled, setBiometricEnabled } = useLock();
-  const [user, setUser] = useState<User | null>(auth.currentUser);
+  const { hasPin, setPin, removePin, pinTimeout, setPinTimeout, biometricEnabled, setBiometricEnabled, signOutOnFailures, setSignOutOnFailures } = useLock();
+  const user = useAuthUser();
 
   const [username, setUsername] = useState('');
   const [newUsername, setNewUsername] = useState('');
   const [readingGoal, setReadingGoal] = useState(0);
+  const [includeRereads, setIncludeRereads] = useState(true);
   const [newGoal, setNewGoal] = useState('');
   const [loading, setLoading] = useState(true);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [privacy, setPrivacy] = useState<ProfilePrivacy>(DEFAULT_PRIVACY);
+  const { blocked } = useBlockedUsers();
 
   // Modals
   const [showNameModal, setShowNameModal] = useState(false);
@@ -33,6 +69,12 @@ export default function SettingsScreen() {
   const [showReportModal, setShowReportModal] = useState(false);
   const [showPinModal, setShowPinModal] = useState(false);
   const [showTimeoutModal, setShowTimeoutModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showBlockedModal, setShowBlockedModal] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [deletePassword, setDeletePassword] = useState('');
+  const [deletionProgress, setDeletionProgress] = useState<DeletionProgress | null>(null);
+  const [isResumingDeletion, setIsResumingDeletion] = useState(false);
 
   const [reportType, setReportType] = useState<'Bug' | 'Feature' | 'Other'>('Bug');
   const [reportDesc, setReportDesc] = useState('');
@@ -69,25 +111,17 @@ export default function SettingsScreen() {
     }
   };
 
-  useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (u) => {
-      setUser(u);
-    });
-    return unsubscribe;
-  }, []);
-
   useEffect(() => {
     const fetchUserData = async () => {
       if (!user) { setLoading(false); return; }
       try {
-        const userDoc = await getDoc(doc(db, 'users', user.uid));
-        if (userDoc.exists()) {
-          const data = userDoc.data();
-          setUsername(data.username || user.displayName || '');
-          const startYear = data.dateAdded?.toDate ? data.dateAdded.toDate().getFullYear() : 2025;
-          const currentYearStr = new Date().getFullYear().toString();
-          const goalForYear = data.readingGoals?.[currentYearStr] ?? (currentYearStr === startYear.toString() ? (data.readingGoal ?? 0) : 0);
-          setReadingGoal(goalForYear);
+        const profile = await fetchUserProfile(user.uid);
+        if (profile) {
+          setUsername(profile.username || user.displayName || '');
+          setReadingGoal(getReadingGoal(profile, new Date().getFullYear()));
+          setIncludeRereads(profile.includeRereads);
+          setIsAdmin(hasAdminRole(profile));
+          setPrivacy(getPrivacy(profile));
         } else { setUsername(user.displayName || ''); }
       } catch {
         Toast.show({ type: 'error', text1: 'Error' });
@@ -98,13 +132,24 @@ export default function SettingsScreen() {
     fetchUserData();
   }, [user]);
 
+  // A previous deletion stopped partway: the data may already be gone, so bring the user straight back to finish it
+  useEffect(() => {
+    if (!user) return;
+    getPendingDeletion().then((pendingUid) => {
+      if (pendingUid === user.uid) {
+        setIsResumingDeletion(true);
+        setShowDeleteModal(true);
+      }
+    });
+  }, [user]);
+
   const handleUpdateUsername = async () => {
     if (!user) return;
     if (newUsername.length < 3) { Toast.show({ type: 'error', text1: 'Too Short' }); return; }
     setModalLoading(true);
     try {
       await updateProfile(user, { displayName: newUsername });
-      await updateDoc(doc(db, 'users', user.uid), { username: newUsername, lastUsernameChange: Timestamp.now() });
+      await updateUserProfile(user.uid, { username: newUsername, lastUsernameChange: Timestamp.now() });
       setUsername(newUsername); setShowNameModal(false); Toast.show({ type: 'success', text1: 'Updated' });
     } catch { Toast.show({ type: 'error', text1: 'Failed' }); } finally { setModalLoading(false); }
   };
@@ -116,13 +161,47 @@ export default function SettingsScreen() {
     setModalLoading(true);
     try {
       const currentYearStr = new Date().getFullYear().toString();
-      await updateDoc(doc(db, 'users', user.uid), { 
+      await updateUserProfile(user.uid, {
         [`readingGoals.${currentYearStr}`]: goalNum 
       });
       setReadingGoal(goalNum); setShowGoalModal(false); Toast.show({ type: 'success', text1: 'Updated' });
     } catch { Toast.show({ type: 'error', text1: 'Failed' }); } finally { setModalLoading(false); }
   };
 
+  const handleToggleRereads = async (value: boolean) => {
+    if (!user) return;
+    setIncludeRereads(value);
+    try {
+      await updateUserProfile(user.uid, { includeRereads: value });
+    } catch {
+      setIncludeRereads(!value);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Could not save this setting.' });
+    }
+  };
+
+  const handleUnblock = async (blockedId: string) => {
+    if (!user) return;
+    try {
+      await unblockUser(user.uid, blockedId);
+      Toast.show({ type: 'success', text1: 'Unblocked' });
+    } catch (e) {
+      console.error("Unblock error:", e);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Please try again.' });
+    }
+  };
+
+  const handlePrivacyChange = async (section: PrivacySetting, visibility: ProfileVisibility) => {
+    if (!user) return;
+    const previous = privacy;
+    setPrivacy({ ...privacy, [section]: visibility });
+    try {
+      await updateUserProfile(user.uid, { [`privacy.${section}`]: visibility });
+    } catch {
+      setPrivacy(previous);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Could not save this setting.' });
+    }
+  };
+
   const handleSendReport = async () => {
     if (!user) return;
     if (reportDesc.trim().length < 10) { Toast.show({ type: 'error', text1: 'Too Short' }); return; }
@@ -133,28 +212,56 @@ export default function SettingsScreen() {
     } catch { Toast.show({ type: 'error', text1: 'Error' }); } finally { setModalLoading(false); }
   };
 
+  const handleExport = async (format: ExportFormat) => {
+    if (!user || exportingFormat) return;
+    setExportingFormat(format);
+    try {
+      const data = await fetchExportData(user.uid);
+      await shareExport(data, format);
+      setShowExportModal(false);
+    } catch (e: any) {
+      Toast.show({ type: 'error', text1: 'Export Failed', text2: e.message });
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   const handleLogout = async () => { try { await signOut(auth); router.replace('/auth'); } catch (e) { console.error(e); } };
 
   const handleDeleteAccount = async () => {
-    if (!user) return;
+    if (!user || !user.email) return;
+    if (!deletePassword) {
+      Toast.show({ type: 'error', text1: 'Password Required', text2: 'Confirm your password to delete your account.' });
+      return;
+    }
     setModalLoading(true);
     try {
-      // 1. Delete user data from Firestore
-      await deleteDoc(doc(db, 'users', user.uid));
-      // 2. Delete the user from Auth
+      // 1. Re-authenticate first so Auth can't reject us after the data is already gone
+      await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, deletePassword));
+      await markDeletionPending(user.uid);
+      // 2. Delete everything the user owns in Firestore
+      await deleteUserData(user.uid, setDeletionProgress);
+      // 3. Delete the user from Auth
       await deleteUser(user);
+      await clearDeletionPending();
       setShowDeleteModal(false);
       router.replace('/auth');
       Toast.show({ type: 'success', text1: 'Account Deleted' });
     } catch (e: any) {
       console.error(e);
-      let msg = 'Failed to delete account.';
-      if (e.code === 'auth/requires-recent-login') {
-        msg = 'Please log out and log back in to verify your identity before deleting.';
+      let msg = 'Deletion stopped partway — try again to finish.';
+      if (e.code === 'auth/wrong-password' || e.code === 'auth/invalid-credential') {
+        msg = 'That password is incorrect.';
+      } else if (e.code === 'auth/requires-recent-login') {
+        msg = 'Please confirm your password again to finish deleting.';
+      } else if (e.code === 'auth/too-many-requests') {
+        msg = 'Too many attempts. Please wait a moment and try again.';
       }
       Toast.show({ type: 'error', text1: 'Error', text2: msg });
     } finally {
       setModalLoading(false);
+      setDeletionProgress(null);
+      setDeletePassword('');
     }
   };
 
@@ -260,17 +367,91 @@ export default function SettingsScreen() {
       </View>
 
       <View style={styles.section}>
-        <Text style={[styles.sectionTitle, { color: colors.textLight }]}>PREFERENCES</Text>
+        <Text style={[styles.sectionTitle, { color: colors.textLight }]}>PRIVACY</Text>
         <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
-          <TouchableOpacity style={styles.row} onPress={toggleTheme}>
+          <TouchableOpacity style={styles.row} onPress={() => user && router.push(`/profile/${user.uid}`)}>
             <View style={styles.rowTextContainer}>
-              <Text style={[styles.label, { color: colors.textDark }]} numberOfLines={1}>Theme</Text>
-              <Text style={[styles.value, { color: colors.textLight }]} numberOfLines={1}>{theme === 'dark' ? 'Dark Mode' : 'Light Mode'}</Text>
+              <Text style={[styles.label, { color: colors.textDark }]} numberOfLines={1}>Public Profile</Text>
+              <Text style={[styles.value, { color: colors.textLight }]} numberOfLines={1}>See what other readers see</Text>
             </View>
-            <View style={[styles.themeIconBtn, { backgroundColor: colors.primary + '15' }]}>
-              <Ionicons name={theme === 'dark' ? "moon" : "sunny"} size={20} color={colors.primary} />
+            <Ionicons name="person-circle-outline" size={20} color={colors.primary} />
+          </TouchableOpacity>
+          <View style={styles.divider} />
+          <TouchableOpacity style={styles.row} onPress={() => setShowBlockedModal(true)}>
+            <View style={styles.rowTextContainer}>
+              <Text style={[styles.label, { color: colors.textDark }]} numberOfLines={1}>Blocked Users</Text>
+              <Text style={[styles.value, { color: colors.textLight }]} numberOfLines={1}>
+                {blocked.length ? `${blocked.length} blocked` : "Nobody's blocked"}
+              </Text>
             </View>
+            <Ionicons name="ban-outline" size={20} color={colors.textLight} />
           </TouchableOpacity>
+          {PRIVACY_OPTIONS.map(({ section, label }) => (
+            <React.Fragment key={section}>
+              <View style={styles.divider} />
+              <View style={[styles.row, { flexDirection: 'column', alignItems: 'stretch' }]}>
+                <Text style={[styles.label, { color: colors.textDark }]} numberOfLines={1}>{label}</Text>
+                <View style={[styles.typeRow, { marginTop: 12, marginBottom: 0 }]}>
+                  {VISIBILITY_OPTIONS.map(option => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[styles.typeBtn, { backgroundColor: privacy[section] === option.value ? colors.primary : colors.background, borderColor: colors.border }]}
+                      onPress={() => handlePrivacyChange(section, option.value)}
+                    >
+                      <Text style={[styles.typeBtnText, { color: privacy[section] === option.value ? 'white' : colors.textLight }]}>{option.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            </React.Fragment>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.textLight }]}>PREFERENCES</Text>
+        <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+          <View style={[styles.row, { flexDirection: 'column', alignItems: 'stretch' }]}>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <View style={styles.rowTextContainer}>
+                <Text style={[styles.label, { color: colors.textDark }]} numberOfLines={1}>Theme</Text>
+                <Text style={[styles.value, { color: colors.textLight }]} numberOfLines={1}>
+                  {themeMode === 'system' ? `Follow System (${theme === 'dark' ? 'Dark' : 'Light'})` : theme === 'dark' ? 'Dark Mode' : 'Light Mode'}
+                </Text>
+              </View>
+              <View style={[styles.themeIconBtn, { backgroundColor: colors.primary + '15' }]}>
+                <Ionicons name={themeMode === 'system' ? "phone-portrait-outline" : theme === 'dark' ? "moon" : "sunny"} size={20} color={colors.primary} />
+              </View>
+            </View>
+            <View style={[styles.typeRow, { marginTop: 16, marginBottom: 0 }]}>
+              {([
+                { value: 'light', label: 'Light' },
+                { value: 'dark', label: 'Dark' },
+                { value: 'system', label: 'System' },
+              ] as { value: ThemeMode; label: string }[]).map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.typeBtn, { backgroundColor: themeMode === option.value ? colors.primary : colors.background, borderColor: colors.border }]}
+                  onPress={() => setThemeMode(option.value)}
+                >
+                  <Text style={[styles.typeBtnText, { color: themeMode === option.value ? 'white' : colors.textLight }]}>{option.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+          <View style={styles.divider} />
+          <View style={styles.row}>
+            <View style={styles.rowTextContainer}>
+              <Text style={[styles.label, { color: colors.textDark }]} numberOfLines={1}>Count Re-reads</Text>
+              <Text style={[styles.value, { color: colors.textLight }]} numberOfLines={1}>In stats, goals and milestones</Text>
+            </View>
+            <Switch
+              value={includeRereads}
+              onValueChange={handleToggleRereads}
+              trackColor={{ false: colors.border, true: colors.primary }}
+              thumbColor={Platform.OS === 'ios' ? '#fff' : includeRereads ? colors.primary : '#f4f3f4'}
+            />
+          </View>
           <View style={styles.divider} />
           <TouchableOpacity style={styles.row} onPress={() => setShowReportModal(true)}>
             <View style={styles.rowTextContainer}>
@@ -295,6 +476,42 @@ export default function SettingsScreen() {
         </View>
       </View>
 
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.textLight }]}>DATA</Text>
+        <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+          <TouchableOpacity style={styles.row} onPress={() => router.push('/import')}>
+            <View style={styles.rowTextContainer}>
+              <Text style={[styles.label, { color: colors.textDark }]} numberOfLines={1}>Import from Goodreads</Text>
+              <Text style={[styles.value, { color: colors.textLight }]} numberOfLines={1}>Bring in your library export (CSV)</Text>
+            </View>
+            <Ionicons name="cloud-upload-outline" size={20} color={colors.primary} />
+          </TouchableOpacity>
+          <View style={styles.divider} />
+          <TouchableOpacity style={styles.row} onPress={() => setShowExportModal(true)}>
+            <View style={styles.rowTextContainer}>
+              <Text style={[styles.label, { color: colors.textDark }]} numberOfLines={1}>Export Library</Text>
+              <Text style={[styles.value, { color: colors.textLight }]} numberOfLines={1}>Books, notes, quotes and trophies</Text>
+            </View>
+            <Ionicons name="share-outline" size={20} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {isAdmin && (
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.textLight }]}>ADMIN</Text>
+          <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            <TouchableOpacity style={styles.row} onPress={() => router.push('/admin/reports')}>
+              <View style={styles.rowTextContainer}>
+                <Text style={[styles.label, { color: colors.textDark }]} numberOfLines={1}>Moderation</Text>
+                <Text style={[styles.value, { color: colors.textLight }]} numberOfLines={1}>Review reports, warn or ban users</Text>
+              </View>
+              <Ionicons name="shield-checkmark-outline" size={20} color={colors.primary} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
       <View style={styles.section}>
         <Text style={[styles.sectionTitle, { color: colors.textLight }]}>SECURITY</Text>
         <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
@@ -343,6 +560,19 @@ export default function SettingsScreen() {
                 </View>
                 <Ionicons name="time-outline" size={20} color={colors.primary} />
               </TouchableOpacity>
+              <View style={styles.divider} />
+              <View style={styles.row}>
+                <View style={styles.rowTextContainer}>
+                  <Text style={[styles.label, { color: colors.textDark }]} numberOfLines={1}>Sign Out on Failures</Text>
+                  <Text style={[styles.value, { color: colors.textLight }]} numberOfLines={1}>After {MAX_FAILED_ATTEMPTS} wrong PINs</Text>
+                </View>
+                <Switch
+                  value={signOutOnFailures}
+                  onValueChange={setSignOutOnFailures}
+                  trackColor={{ false: colors.border, true: colors.primary }}
+                  thumbColor={Platform.OS === 'ios' ? '#fff' : signOutOnFailures ? colors.primary : '#f4f3f4'}
+                />
+              </View>
             </>
           )}
         </View>
@@ -445,6 +675,63 @@ export default function SettingsScreen() {
         </View>
       </Modal>
 
+      <Modal visible={showExportModal} transparent animationType="fade">
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textDark }]}>Export</Text>
+              <TouchableOpacity onPress={() => setShowExportModal(false)}>
+                <Ionicons name="close" size={24} color={colors.textDark} />
+              </TouchableOpacity>
+            </View>
+            {([
+              { value: 'json', label: 'JSON', desc: 'Everything, for backups' },
+              { value: 'csv', label: 'CSV', desc: 'One sheet for spreadsheets' },
+              { value: 'goodreads', label: 'Goodreads CSV', desc: 'Import into Goodreads' },
+            ] as { value: ExportFormat; label: string; desc: string }[]).map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.timeoutOption, { borderColor: colors.border }]}
+                onPress={() => handleExport(option.value)}
+                disabled={!!exportingFormat}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.timeoutLabel, { color: colors.textDark, fontWeight: 'bold' }]}>{option.label}</Text>
+                  <Text style={{ color: colors.textLight, fontSize: 12, marginTop: 2 }}>{option.desc}</Text>
+                </View>
+                {exportingFormat === option.value ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : (
+                  <Ionicons name="download-outline" size={20} color={colors.primary} />
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </Modal>
+
+      <Modal visible={showBlockedModal} transparent animationType="fade">
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textDark }]}>Blocked</Text>
+              <TouchableOpacity onPress={() => setShowBlockedModal(false)}>
+                <Ionicons name="close" size={24} color={colors.textDark} />
+              </TouchableOpacity>
+            </View>
+            {blocked.length === 0 ? (
+              <Text style={{ color: colors.textLight, fontSize: 14, fontWeight: '600', textAlign: 'center' }}>
+                Block readers from the menu in a chat. Blocked readers can&apos;t message you.
+              </Text>
+            ) : (
+              <ScrollView style={{ width: '100%', maxHeight: 360 }}>
+                {blocked.map(entry => <BlockedUserRow key={entry.id} userId={entry.id} colors={colors} onUnblock={handleUnblock} />)}
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+
       <Modal visible={showReportModal} transparent animationType="fade">
         <View style={styles.modalOverlay}>
           <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
@@ -458,7 +745,47 @@ export default function SettingsScreen() {
 
       <Modal visible={showDeleteModal} transparent animationType="fade">
         <View style={styles.modalOverlay}>
-          <View style={[styles.modalContent, { backgroundColor: colors.card }]}><View style={styles.modalHeader}><Text style={[styles.modalTitle, { color: colors.danger }]}>Delete Account?</Text><TouchableOpacity onPress={() => setShowDeleteModal(false)}><Ionicons name="close" size={24} color={colors.textDark} /></TouchableOpacity></View><Text style={{ color: colors.textLight, textAlign: 'center', marginBottom: 24 }}>This is permanent. All library data will be lost forever.</Text><View style={{ flexDirection: 'row', gap: 12, width: '100%' }}><TouchableOpacity style={[styles.saveBtn, { flex: 1, backgroundColor: 'transparent', borderWidth: 1, borderColor: colors.border }]} onPress={() => setShowDeleteModal(false)}><Text style={{ color: colors.textDark, fontWeight: 'bold' }}>Cancel</Text></TouchableOpacity><TouchableOpacity style={[styles.saveBtn, { flex: 1, backgroundColor: colors.danger }]} onPress={handleDeleteAccount}>{modalLoading ? <ActivityIndicator color="white" /> : <Text style={{ color: 'white', fontWeight: 'bold' }}>Delete</Text>}</TouchableOpacity></View></View></View>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.danger }]}>{isResumingDeletion ? 'Finish Deleting?' : 'Delete Account?'}</Text>
+              <TouchableOpacity onPress={() => setShowDeleteModal(false)} disabled={modalLoading}><Ionicons name="close" size={24} color={colors.textDark} /></TouchableOpacity>
+            </View>
+            <Text style={{ color: colors.textLight, textAlign: 'center', marginBottom: 16 }}>
+              {isResumingDeletion
+                ? 'Your last account deletion did not finish. Some of your data may already be gone. Confirm your password to complete it.'
+                : 'This is permanent. Your books, notes, reading history and trophies will be deleted forever.'}
+            </Text>
+            {!isResumingDeletion && (
+              <TouchableOpacity style={[styles.timeoutOption, { borderColor: colors.border }]} onPress={() => handleExport('json')} disabled={!!exportingFormat || modalLoading}>
+                <Text style={[styles.timeoutLabel, { color: colors.textDark, fontWeight: 'bold' }]}>Export my data first</Text>
+                {exportingFormat ? <ActivityIndicator size="small" color={colors.primary} /> : <Ionicons name="download-outline" size={20} color={colors.primary} />}
+              </TouchableOpacity>
+            )}
+            <TextInput
+              style={[styles.input, { color: colors.textDark, borderColor: colors.border, backgroundColor: 'transparent', marginTop: 8 }]}
+              placeholder="Confirm password"
+              placeholderTextColor={colors.textLight}
+              value={deletePassword}
+              onChangeText={setDeletePassword}
+              secureTextEntry
+              editable={!modalLoading}
+            />
+            {deletionProgress && (
+              <View style={{ width: '100%', marginBottom: 16 }}>
+                <View style={{ height: 8, borderRadius: 4, backgroundColor: colors.border + '40', overflow: 'hidden' }}>
+                  <View style={{ height: '100%', width: `${Math.round((deletionProgress.deleted / deletionProgress.total) * 100)}%`, backgroundColor: colors.danger }} />
+                </View>
+                <Text style={{ color: colors.textLight, fontSize: 12, fontWeight: '700', marginTop: 6, textAlign: 'center' }}>
+                  Deleting {deletionProgress.label}... {deletionProgress.deleted}/{deletionProgress.total}
+                </Text>
+              </View>
+            )}
+            <View style={{ flexDirection: 'row', gap: 12, width: '100%' }}>
+              <TouchableOpacity style={[styles.saveBtn, { flex: 1, backgroundColor: 'transparent', borderWidth: 1, borderColor: colors.border }]} onPress={() => setShowDeleteModal(false)} disabled={modalLoading}><Text style={{ color: colors.textDark, fontWeight: 'bold' }}>Cancel</Text></TouchableOpacity>
+              <TouchableOpacity style={[styles.saveBtn, { flex: 1, backgroundColor: colors.danger }]} onPress={handleDeleteAccount} disabled={modalLoading}>{modalLoading ? <ActivityIndicator color="white" /> : <Text style={{ color: 'white', fontWeight: 'bold' }}>Delete</Text>}</TouchableOpacity>
+            </View>
+          </View>
+        </View>
       </Modal>
     </ScrollView>
     </View>
@@ -1,19 +1,19 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from 'expo-router';
-import { collection, doc, getDoc, onSnapshot, query, where, setDoc, Timestamp } from 'firebase/firestore';
-import React, { useCallback, useEffect, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useMemo, useState, useRef } from 'react';
 import { ActivityIndicator, Dimensions, Modal, Platform, ScrollView, Share, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Animated, { useAnimatedStyle, useSharedValue, withSpring, withTiming, withRepeat, withSequence, FadeInDown, ZoomIn, Easing, SharedValue } from 'react-native-reanimated';
 import { captureRef } from 'react-native-view-shot';
 import * as Sharing from 'expo-sharing';
 import { COLORS, darkColors } from '../../constants/colors';
-import { auth, db } from '../../firebaseConfig';
 import { DoodleBackground } from '../../components/DoodleBackground';
-import { onAuthStateChanged, User } from 'firebase/auth';
 import { useTheme } from '../../context/ThemeContext';
 import Toast from 'react-native-toast-message';
-import { triggerLocalNotification } from '../../utils/notifications';
+import { formatMinutes } from '../../utils/progress';
+import { toDate } from '../../utils/dates';
+import { getFinishDates } from '../../utils/readThroughs';
+import { getJoinYear, getReadingGoal, updateUserProfile, useAchievements, useBooks, useReadingSessions, useUserProfile } from '../../data';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -260,14 +260,15 @@ function PollBar({ index, count, relativeValue, theme }: { index: number, count:
 export default function StatsScreen() {
   const { theme } = useTheme();
   const colors = theme === 'dark' ? darkColors : COLORS;
-  const [user, setUser] = useState<User | null>(auth.currentUser);
+  const { user, profile } = useUserProfile();
+  const { sessions } = useReadingSessions();
+  const { books, loading: booksLoading } = useBooks();
+  const { achievements } = useAchievements();
 
   const [loading, setLoading] = useState(true);
   const [booksReadThisYear, setBooksReadThisYear] = useState(0);
-  const [yearlyGoal, setYearlyGoal] = useState(0);
   const [monthlyStats, setMonthlyStats] = useState<{month: string, count: number}[]>([]);
   const [selectedYear, setSelectedYear] = useState<number | 'All'>(new Date().getFullYear());
-  const [availableYears, setAvailableYears] = useState<(number | 'All')[]>([new Date().getFullYear()]);
 
   // Wrapped Story State: 0=Hidden, 1=Books, 2=Author, 3=Month, 4=Genre, 5=Summary
   const [wrappedStep, setWrappedStep] = useState(0);
@@ -278,170 +279,135 @@ export default function StatsScreen() {
   const [topGenres, setTopGenres] = useState<{name: string, count: number}[]>([]);
   const [personality, setPersonality] = useState({ title: '', icon: '', desc: '' });
 
-  const [trophiesCount, setTrophiesCount] = useState(0);
   const [currentStreak, setCurrentStreak] = useState(0);
 
   const progressValue = useSharedValue(0);
   const storyProgress = useSharedValue(0);
   
-  const [hasSeenWrapped, setHasSeenWrapped] = useState(false);
   const [formatStats, setFormatStats] = useState({ physical: 0, ebook: 0, audiobook: 0 });
   const shareCardRef = useRef<View>(null);
 
-  const checkAndUnlockAchievement = useCallback(async (achievementId: string) => {
-    if (!user) return;
-    try {
-      const achRef = doc(db, 'users', user.uid, 'achievements', achievementId);
-      const achSnap = await getDoc(achRef);
-      if (!achSnap.exists()) {
-        await setDoc(achRef, { unlocked: true, unlockedAt: Timestamp.now() });
-        Toast.show({ type: 'success', text1: '🏆 Trophy Unlocked!', text2: `You reached your reading goal!`, visibilityTime: 4000 });
-        triggerLocalNotification('🏆 Trophy Unlocked!', 'You unlocked: The Finisher');
-      }
-    } catch (e) { console.error("Achievement error:", e); }
-  }, [user]);
-
-  useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (u) => { setUser(u); });
-    return unsubscribe;
-  }, []);
+  // Profile-driven settings for the selected year; 'All' falls back to the current year's goal
+  const selectedYearStr = selectedYear === 'All' ? new Date().getFullYear().toString() : selectedYear.toString();
+  const yearlyGoal = getReadingGoal(profile, selectedYearStr);
+  const hasSeenWrapped = profile?.wrappedSeen?.[selectedYearStr] ?? false;
+  const includeRereads = profile?.includeRereads ?? true;
+  const trophiesCount = achievements.length;
+
+  const availableYears = useMemo(() => {
+    const currentYear = new Date().getFullYear();
+    if (!profile) return [currentYear] as (number | 'All')[];
+    const years: (number | 'All')[] = ['All'];
+    for (let y = currentYear; y >= Math.min(getJoinYear(profile), 2025); y--) {
+      years.push(y);
+    }
+    return years;
+  }, [profile]);
+
+  const sessionStats = useMemo(() => {
+    let totalMinutes = 0;
+    let count = 0;
+    const days = new Set<string>();
+    sessions.forEach((session) => {
+      const start = toDate(session.startedAt);
+      if (!start || (selectedYear !== 'All' && start.getFullYear() !== selectedYear)) return;
+      totalMinutes += session.durationMinutes || 0;
+      count++;
+      days.add(start.toDateString());
+    });
+    return { totalMinutes, sessions: count, activeDays: days.size };
+  }, [sessions, selectedYear]);
 
+  // Every book, not just `read` ones: a book being re-read right now still has earlier finishes
   useEffect(() => {
-    if (!user) return;
-
-    const unsubscribeUser = onSnapshot(doc(db, 'users', user.uid), (docSnap) => {
-      if (docSnap.exists()) {
-        const data = docSnap.data();
-        const startYear = data.dateAdded?.toDate ? data.dateAdded.toDate().getFullYear() : 2025;
-        const currentYearStr = selectedYear === 'All' ? new Date().getFullYear().toString() : selectedYear.toString();
-        const goalForYear = data.readingGoals?.[currentYearStr] ?? (currentYearStr === startYear.toString() ? (data.readingGoal ?? 0) : 0);
-        setYearlyGoal(goalForYear);
-
-        setHasSeenWrapped(data.wrappedSeen?.[currentYearStr] ?? false);
-
-        const currentYear = new Date().getFullYear();
-        const years: (number | 'All')[] = ['All'];
-        for (let y = currentYear; y >= Math.min(startYear, 2025); y--) {
-          years.push(y);
+    if (booksLoading) return;
+    let count = 0;
+    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+    const monthCounts = new Array(12).fill(0);
+    const authors: {[key: string]: number} = {};
+    const genres: {[key: string]: number} = {};
+    const allReadBooks: Date[] = [];
+    let physicalCount = 0;
+    let ebookCount = 0;
+    let audiobookCount = 0;
+
+    books.forEach((data) => {
+      getFinishDates(data, includeRereads).forEach((finishDate) => {
+        allReadBooks.push(finishDate);
+        if (selectedYear === 'All' || finishDate.getFullYear() === selectedYear) {
+          count++;
+          monthCounts[finishDate.getMonth()]++;
+          if (data.author) authors[data.author] = (authors[data.author] || 0) + 1;
+          
+          const fmt = data.format || 'physical';
+          if (fmt === 'physical') physicalCount++;
+          else if (fmt === 'ebook') ebookCount++;
+          else if (fmt === 'audiobook') audiobookCount++;
+
+          if (data.genre) {
+            const normalizedGenre = data.genre.charAt(0).toUpperCase() + data.genre.slice(1).toLowerCase();
+            genres[normalizedGenre] = (genres[normalizedGenre] || 0) + 1;
+          }
         }
-        setAvailableYears(years);
-      }
+      });
     });
 
-    const q = query(collection(db, 'books'), where('userId', '==', user.uid), where('status', '==', 'read'));
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      let count = 0;
-      const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-      const monthCounts = new Array(12).fill(0);
-      const authors: {[key: string]: number} = {};
-      const genres: {[key: string]: number} = {};
-      const allReadBooks: Date[] = [];
-      let physicalCount = 0;
-      let ebookCount = 0;
-      let audiobookCount = 0;
-
-      snapshot.forEach((doc) => {
-        const data = doc.data();
-        let finishDate: Date | null = null;
-        const rawDate = data.dateFinished || data.dateAdded;
-        if (rawDate) {
-          if (typeof rawDate.toDate === 'function') finishDate = rawDate.toDate();
-          else if (rawDate.seconds) finishDate = new Date(rawDate.seconds * 1000);
-          else { const d = new Date(rawDate); if (!isNaN(d.getTime())) finishDate = d; }
-        }
+    setBooksReadThisYear(count);
+    setMonthlyStats(months.map((m, i) => ({ month: m, count: monthCounts[i] })));
 
-        if (finishDate) {
-          allReadBooks.push(finishDate);
-          if (selectedYear === 'All' || finishDate.getFullYear() === selectedYear) {
-            count++;
-            monthCounts[finishDate.getMonth()]++;
-            if (data.author) authors[data.author] = (authors[data.author] || 0) + 1;
-            
-            const fmt = data.format || 'physical';
-            if (fmt === 'physical') physicalCount++;
-            else if (fmt === 'ebook') ebookCount++;
-            else if (fmt === 'audiobook') audiobookCount++;
-
-            if (data.genre) {
-              const normalizedGenre = data.genre.charAt(0).toUpperCase() + data.genre.slice(1).toLowerCase();
-              genres[normalizedGenre] = (genres[normalizedGenre] || 0) + 1;
-            }
-          }
-        }
-      });
+    const maxMonthIdx = monthCounts.indexOf(Math.max(...monthCounts));
+    setTopMonth(count > 0 ? months[maxMonthIdx] : 'None');
+    
+    const topAuthEntry = Object.entries(authors).sort((a,b) => b[1] - a[1])[0];
+    setTopAuthor(topAuthEntry ? topAuthEntry[0] : 'None');
+
+    const topGenreEntry = Object.entries(genres).sort((a,b) => b[1] - a[1])[0];
+    setTopGenre(topGenreEntry ? topGenreEntry[0] : 'None');
+    setTopGenres(Object.entries(genres).sort((a,b) => b[1] - a[1]).map(e => ({ name: e[0], count: e[1] })));
+
+    if (count >= 20) setPersonality({ title: 'The Speed Demon', icon: 'flash', desc: 'You tear through books like they are nothing!' });
+    else if (topAuthEntry && topAuthEntry[1] >= 3) setPersonality({ title: 'The Loyal Fan', icon: 'heart', desc: `You really love ${topAuthEntry[0]}'s work!` });
+    else if (count >= 10) setPersonality({ title: 'The Scholar', icon: 'school', desc: 'A dedicated reader with a wide range of interests.' });
+    else if (count > 0) setPersonality({ title: 'The Casual Voyager', icon: 'boat', desc: 'Enjoying the journey, one page at a time.' });
+    else setPersonality({ title: 'The Newcomer', icon: 'egg', desc: 'Your reading adventure is just beginning!' });
+    
+    // Calculate current streak based on selected year
+    const streakBooks = allReadBooks.filter(d => selectedYear === 'All' || d.getFullYear() === selectedYear);
+    const monthMap: any = {};
+    streakBooks.forEach(d => {
+      monthMap[`${d.getFullYear()}-${d.getMonth()}`] = true;
+    });
 
-      setBooksReadThisYear(count);
-      setMonthlyStats(months.map((m, i) => ({ month: m, count: monthCounts[i] })));
-      
-      if (yearlyGoal > 0 && count >= yearlyGoal && selectedYear === new Date().getFullYear()) {
-        checkAndUnlockAchievement('the_finisher');
-      }
+    let streak = 0;
+    let checkDate = new Date();
+    if (selectedYear !== 'All' && selectedYear !== new Date().getFullYear()) {
+      // For a past year, start checking from Dec 31 of that year
+      checkDate = new Date(selectedYear, 11, 15);
+    }
 
-      const maxMonthIdx = monthCounts.indexOf(Math.max(...monthCounts));
-      setTopMonth(count > 0 ? months[maxMonthIdx] : 'None');
-      
-      const topAuthEntry = Object.entries(authors).sort((a,b) => b[1] - a[1])[0];
-      setTopAuthor(topAuthEntry ? topAuthEntry[0] : 'None');
-
-      const topGenreEntry = Object.entries(genres).sort((a,b) => b[1] - a[1])[0];
-      setTopGenre(topGenreEntry ? topGenreEntry[0] : 'None');
-      setTopGenres(Object.entries(genres).sort((a,b) => b[1] - a[1]).map(e => ({ name: e[0], count: e[1] })));
-
-      if (count >= 20) setPersonality({ title: 'The Speed Demon', icon: 'flash', desc: 'You tear through books like they are nothing!' });
-      else if (topAuthEntry && topAuthEntry[1] >= 3) setPersonality({ title: 'The Loyal Fan', icon: 'heart', desc: `You really love ${topAuthEntry[0]}'s work!` });
-      else if (count >= 10) setPersonality({ title: 'The Scholar', icon: 'school', desc: 'A dedicated reader with a wide range of interests.' });
-      else if (count > 0) setPersonality({ title: 'The Casual Voyager', icon: 'boat', desc: 'Enjoying the journey, one page at a time.' });
-      else setPersonality({ title: 'The Newcomer', icon: 'egg', desc: 'Your reading adventure is just beginning!' });
-      
-      // Calculate current streak based on selected year
-      const streakBooks = allReadBooks.filter(d => selectedYear === 'All' || d.getFullYear() === selectedYear);
-      const monthMap: any = {};
-      streakBooks.forEach(d => {
-        monthMap[`${d.getFullYear()}-${d.getMonth()}`] = true;
-      });
+    if (!monthMap[`${checkDate.getFullYear()}-${checkDate.getMonth()}`]) {
+      checkDate.setMonth(checkDate.getMonth() - 1);
+    }
 
-      let streak = 0;
-      let checkDate = new Date();
-      if (selectedYear !== 'All' && selectedYear !== new Date().getFullYear()) {
-        // For a past year, start checking from Dec 31 of that year
-        checkDate = new Date(selectedYear, 11, 15);
+    const maxLimit = selectedYear === 'All' ? 36 : 12;
+    for (let i = 0; i < maxLimit; i++) {
+      if (selectedYear !== 'All' && checkDate.getFullYear() !== selectedYear) {
+        break;
       }
 
-      if (!monthMap[`${checkDate.getFullYear()}-${checkDate.getMonth()}`]) {
+      if (monthMap[`${checkDate.getFullYear()}-${checkDate.getMonth()}`]) {
+        streak++;
         checkDate.setMonth(checkDate.getMonth() - 1);
+      } else {
+        break;
       }
+    }
+    setCurrentStreak(streak);
+    setFormatStats({ physical: physicalCount, ebook: ebookCount, audiobook: audiobookCount });
 
-      const maxLimit = selectedYear === 'All' ? 36 : 12;
-      for (let i = 0; i < maxLimit; i++) {
-        if (selectedYear !== 'All' && checkDate.getFullYear() !== selectedYear) {
-          break;
-        }
-
-        if (monthMap[`${checkDate.getFullYear()}-${checkDate.getMonth()}`]) {
-          streak++;
-          checkDate.setMonth(checkDate.getMonth() - 1);
-        } else {
-          break;
-        }
-      }
-      setCurrentStreak(streak);
-      setFormatStats({ physical: physicalCount, ebook: ebookCount, audiobook: audiobookCount });
-
-      progressValue.value = withSpring(Math.min(count / (yearlyGoal || 1), 1), { damping: 15 });
-      setLoading(false);
-    });
-
-    const qAch = query(collection(db, 'users', user.uid, 'achievements'));
-    const unsubscribeAch = onSnapshot(qAch, (snap) => {
-      setTrophiesCount(snap.size);
-    });
-
-    return () => {
-      unsubscribe();
-      unsubscribeAch();
-      unsubscribeUser();
-    };
-  }, [user, selectedYear, checkAndUnlockAchievement, progressValue, yearlyGoal]);
+    progressValue.value = withSpring(Math.min(count / (yearlyGoal || 1), 1), { damping: 15 });
+    setLoading(false);
+  }, [books, booksLoading, selectedYear, progressValue, yearlyGoal, includeRereads]);
 
 
 
@@ -458,13 +424,8 @@ export default function StatsScreen() {
 
   useEffect(() => {
     if (wrappedStep === 5 && user && selectedYear !== 'All') {
-      const currentYearStr = selectedYear.toString();
-      const userRef = doc(db, 'users', user.uid);
-      setDoc(userRef, {
-        wrappedSeen: {
-          [currentYearStr]: true
-        }
-      }, { merge: true }).catch(err => console.error("Error setting wrappedSeen:", err));
+      updateUserProfile(user.uid, { [`wrappedSeen.${selectedYear}`]: true })
+        .catch(err => console.error("Error setting wrappedSeen:", err));
     }
   }, [wrappedStep, user, selectedYear]);
 
@@ -712,6 +673,31 @@ export default function StatsScreen() {
                 </View>
               </View>
             )}
+
+            {/* Reading Time Card (from logged sessions) */}
+            {sessionStats.sessions > 0 && (
+              <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border, padding: 20, marginBottom: 24, elevation: 4 }]}>
+                <Text style={[styles.cardTitle, { color: colors.textLight, marginBottom: 16, fontSize: 11, fontWeight: '900', letterSpacing: 1 }]}>READING TIME</Text>
+                <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+                  <View style={{ alignItems: 'center', flex: 1 }}>
+                    <Text style={{ fontSize: 20, fontWeight: '900', color: colors.textDark }}>{formatMinutes(sessionStats.totalMinutes)}</Text>
+                    <Text style={{ fontSize: 10, fontWeight: '800', color: colors.textLight, textTransform: 'uppercase', marginTop: 4 }}>Total</Text>
+                  </View>
+                  <View style={{ alignItems: 'center', flex: 1 }}>
+                    <Text style={{ fontSize: 20, fontWeight: '900', color: colors.textDark }}>{sessionStats.sessions}</Text>
+                    <Text style={{ fontSize: 10, fontWeight: '800', color: colors.textLight, textTransform: 'uppercase', marginTop: 4 }}>Sessions</Text>
+                  </View>
+                  <View style={{ alignItems: 'center', flex: 1 }}>
+                    <Text style={{ fontSize: 20, fontWeight: '900', color: colors.textDark }}>{formatMinutes(Math.round(sessionStats.totalMinutes / sessionStats.sessions))}</Text>
+                    <Text style={{ fontSize: 10, fontWeight: '800', color: colors.textLight, textTransform: 'uppercase', marginTop: 4 }}>Avg Session</Text>
+                  </View>
+                  <View style={{ alignItems: 'center', flex: 1 }}>
+                    <Text style={{ fontSize: 20, fontWeight: '900', color: colors.textDark }}>{sessionStats.activeDays}</Text>
+                    <Text style={{ fontSize: 10, fontWeight: '800', color: colors.textLight, textTransform: 'uppercase', marginTop: 4 }}>Days</Text>
+                  </View>
+                </View>
+              </View>
+            )}
           </View>
         )}
 
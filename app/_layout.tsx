@@ -1,6 +1,8 @@
 import { Stack } from "expo-router";
 import { ThemeProvider } from "../context/ThemeContext";
 import { LockProvider } from "../context/LockContext";
+import { ReadingSessionProvider } from "../context/ReadingSessionContext";
+import { SyncProvider } from "../context/SyncContext";
 import Toast from 'react-native-toast-message';
 import { useEffect } from "react";
 import { Platform, AppState } from "react-native";
@@ -138,10 +140,14 @@ export default function RootLayout() {
     <SafeAreaProvider>
       <ThemeProvider>
         <LockProvider>
-          <Stack screenOptions={{ 
-            headerShown: false,
-          }} />
-          <Toast />
+          <SyncProvider>
+            <ReadingSessionProvider>
+              <Stack screenOptions={{ 
+                headerShown: false,
+              }} />
+              <Toast />
+            </ReadingSessionProvider>
+          </SyncProvider>
         </LockProvider>
       </ThemeProvider>
     </SafeAreaProvider>
@@ -0,0 +1,392 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  StyleSheet, View, Text, TextInput, FlatList, TouchableOpacity,
+  Modal, StatusBar, ActivityIndicator, ScrollView, Alert
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, darkColors } from '../../constants/colors';
+import { DoodleBackground } from '../../components/DoodleBackground';
+import { useTheme } from '../../context/ThemeContext';
+import {
+  addReportNote, AuditLogEntry, fetchUserProfile, hasAdminRole, Report, REPORT_STATUSES, ReportStatus,
+  setUserBanned, updateReportStatus, useReportAuditLog, useReports, UserProfile, useUserProfile, warnUser
+} from '../../data';
+import { toDate } from '../../utils/dates';
+import Toast from 'react-native-toast-message';
+
+const STATUS_LABELS: Record<ReportStatus, string> = {
+  pending: 'Pending',
+  triaged: 'Triaged',
+  resolved: 'Resolved',
+  dismissed: 'Dismissed',
+};
+
+const AUDIT_LABELS: Record<AuditLogEntry['action'], string> = {
+  report_status: 'Status',
+  report_note: 'Note',
+  user_ban: 'Ban',
+  user_unban: 'Unban',
+  user_warn: 'Warning',
+};
+
+const formatTime = (value: any) => toDate(value)?.toLocaleString() || '';
+
+export default function ReportsScreen() {
+  const router = useRouter();
+  const { theme } = useTheme();
+  const colors = theme === 'dark' ? darkColors : COLORS;
+  const { user, profile, loading: profileLoading } = useUserProfile();
+  const isAdmin = hasAdminRole(profile);
+  const moderator = user ? { uid: user.uid, name: profile?.username || user.displayName || 'Admin' } : null;
+
+  const { reports, loading } = useReports(isAdmin);
+  const [filterStatus, setFilterStatus] = useState<ReportStatus | null>('pending');
+  const [filterType, setFilterType] = useState<string | null>(null);
+
+  // Reporter and reported user names, fetched once per id
+  const [people, setPeople] = useState<Record<string, UserProfile | null>>({});
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = reports.find(r => r.id === selectedId) || null;
+  const auditLog = useReportAuditLog(selectedId);
+  const [noteText, setNoteText] = useState('');
+  const [warnReason, setWarnReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const missing = new Set<string>();
+    reports.forEach(r => {
+      if (!(r.userId in people)) missing.add(r.userId);
+      if (r.reportedUserId && !(r.reportedUserId in people)) missing.add(r.reportedUserId);
+    });
+    if (missing.size === 0) return;
+    Promise.all([...missing].map(async id => [id, await fetchUserProfile(id).catch(() => null)] as const))
+      .then(entries => setPeople(prev => ({ ...prev, ...Object.fromEntries(entries) })));
+  }, [reports, people]);
+
+  const typeOptions = useMemo(() => [...new Set(reports.map(r => r.type))].sort(), [reports]);
+
+  const filteredReports = useMemo(() => reports
+    .filter(r => (!filterStatus || r.status === filterStatus) && (!filterType || r.type === filterType))
+    .sort((a, b) => (toDate(b.createdAt)?.getTime() || 0) - (toDate(a.createdAt)?.getTime() || 0)),
+  [reports, filterStatus, filterType]);
+
+  const sortedAuditLog = useMemo(
+    () => [...auditLog].sort((a, b) => (toDate(b.createdAt)?.getTime() || 0) - (toDate(a.createdAt)?.getTime() || 0)),
+    [auditLog]
+  );
+
+  const nameOf = (userId?: string | null) => {
+    if (!userId) return '—';
+    const person = people[userId];
+    return person?.username || person?.email || userId;
+  };
+
+  const openReport = (report: Report) => {
+    setSelectedId(report.id);
+    setNoteText('');
+    setWarnReason('');
+  };
+
+  // Runs a moderation write with the shared saving state and error toast
+  const runAction = async (action: () => Promise<void>, successText: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      Toast.show({ type: 'success', text1: 'Saved', text2: successText });
+    } catch (error) {
+      console.error("Moderation error:", error);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Could not save the change.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStatus = (status: ReportStatus) => {
+    if (!selected || !moderator || selected.status === status) return;
+    runAction(() => updateReportStatus(moderator, selected, status), `Marked as ${STATUS_LABELS[status].toLowerCase()}.`);
+  };
+
+  const handleAddNote = async () => {
+    if (!selected || !moderator || !noteText.trim()) return;
+    await runAction(() => addReportNote(moderator, selected, noteText.trim()), 'Note added.');
+    setNoteText('');
+  };
+
+  const handleWarn = async () => {
+    const targetId = selected?.reportedUserId;
+    if (!selected || !moderator || !targetId) return;
+    if (!warnReason.trim()) {
+      Toast.show({ type: 'error', text1: 'Missing Reason', text2: 'Tell the user why they are being warned.' });
+      return;
+    }
+    await runAction(() => warnUser(moderator, targetId, warnReason.trim(), selected.id), `${nameOf(targetId)} has been warned.`);
+    setWarnReason('');
+  };
+
+  const handleBanToggle = () => {
+    const targetId = selected?.reportedUserId;
+    if (!selected || !moderator || !targetId) return;
+    const isBanned = !!people[targetId]?.isBanned;
+    const action = isBanned ? 'Unban' : 'Ban';
+    Alert.alert(
+      `${action} User`,
+      `Are you sure you want to ${action.toLowerCase()} ${nameOf(targetId)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: action,
+          style: isBanned ? 'default' : 'destructive',
+          onPress: async () => {
+            await runAction(() => setUserBanned(moderator, targetId, !isBanned, selected.id), `User has been ${action.toLowerCase()}ned.`);
+            // Refresh the cached profile so the button reflects the new state
+            const updated = await fetchUserProfile(targetId).catch(() => null);
+            setPeople(prev => ({ ...prev, [targetId]: updated }));
+          }
+        }
+      ]
+    );
+  };
+
+  const renderOption = (label: string, active: boolean, onPress: () => void, key: string) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      disabled={isSaving}
+      style={[styles.option, { borderColor: colors.border }, active && { backgroundColor: colors.primary, borderColor: colors.primary }]}
+    >
+      <Text style={[styles.optionText, { color: active ? 'white' : colors.textDark }]} numberOfLines={1}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderReport = ({ item }: { item: Report }) => (
+    <TouchableOpacity
+      style={[styles.reportCard, { backgroundColor: colors.card, borderColor: colors.border }]}
+      onPress={() => openReport(item)}
+      activeOpacity={0.8}
+    >
+      <View style={styles.reportHeader}>
+        <Text style={[styles.reportType, { color: colors.primary }]}>{item.type}</Text>
+        <Text style={[styles.statusBadge, { color: colors.textLight, borderColor: colors.border }]}>{STATUS_LABELS[item.status]}</Text>
+      </View>
+      <Text style={[styles.reportText, { color: colors.textDark }]} numberOfLines={3}>{item.description}</Text>
+      <Text style={[styles.reportMeta, { color: colors.textLight }]} numberOfLines={1}>
+        From {nameOf(item.userId)}{item.reportedUserId ? ` · About ${nameOf(item.reportedUserId)}` : ''}
+      </Text>
+      <Text style={[styles.reportMeta, { color: colors.textLight }]}>{formatTime(item.createdAt)}</Text>
+    </TouchableOpacity>
+  );
+
+  const header = (
+    <Stack.Screen options={{
+      headerShown: true,
+      headerTitle: 'Reports',
+      headerTitleAlign: 'center',
+      headerTintColor: colors.textDark,
+      headerStyle: { backgroundColor: colors.card },
+      headerTitleStyle: { fontWeight: '900', fontSize: 18 },
+      headerLeft: () => (
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerBtn}>
+          <Ionicons name="chevron-back" size={28} color={colors.textDark} />
+        </TouchableOpacity>
+      ),
+    }} />
+  );
+
+  if (!profileLoading && !isAdmin) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+        {header}
+        <View style={styles.center}>
+          <Ionicons name="lock-closed-outline" size={64} color={colors.border} />
+          <Text style={[styles.emptyText, { color: colors.textLight }]}>Only moderators can view reports.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const reportedId = selected?.reportedUserId;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+      <DoodleBackground colors={colors} />
+      <StatusBar barStyle={theme === 'dark' ? 'light-content' : 'dark-content'} />
+      {header}
+
+      <View style={styles.filterSection}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {renderOption('All', !filterStatus, () => setFilterStatus(null), 'all')}
+          {REPORT_STATUSES.map(s => renderOption(
+            `${STATUS_LABELS[s]} (${reports.filter(r => r.status === s).length})`,
+            filterStatus === s, () => setFilterStatus(s), s
+          ))}
+        </ScrollView>
+        {typeOptions.length > 1 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+            {renderOption('All Types', !filterType, () => setFilterType(null), 'all')}
+            {typeOptions.map(t => renderOption(t, filterType === t, () => setFilterType(t), t))}
+          </ScrollView>
+        )}
+      </View>
+
+      {loading || profileLoading ? (
+        <View style={styles.center}><ActivityIndicator size="large" color={colors.primary} /></View>
+      ) : (
+        <FlatList
+          data={filteredReports}
+          renderItem={renderReport}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="shield-checkmark-outline" size={64} color={colors.border} />
+              <Text style={[styles.emptyText, { color: colors.textLight }]}>
+                {reports.length === 0 ? 'No reports yet.' : 'No reports match these filters.'}
+              </Text>
+            </View>
+          }
+        />
+      )}
+
+      {/* REPORT DETAIL */}
+      <Modal visible={!!selected} animationType="slide" transparent onRequestClose={() => setSelectedId(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textDark }]} numberOfLines={1}>{selected?.type}</Text>
+              <TouchableOpacity onPress={() => setSelectedId(null)}><Ionicons name="close" size={24} color={colors.textDark} /></TouchableOpacity>
+            </View>
+            {selected && (
+              <ScrollView showsVerticalScrollIndicator={false} style={{ width: '100%' }}>
+                <Text style={[styles.reportText, { color: colors.textDark }]}>{selected.description}</Text>
+                <Text style={[styles.reportMeta, { color: colors.textLight }]}>
+                  From {nameOf(selected.userId)}{selected.userEmail ? ` (${selected.userEmail})` : ''}
+                </Text>
+                {reportedId && (
+                  <Text style={[styles.reportMeta, { color: colors.textLight }]}>
+                    About {nameOf(reportedId)}{people[reportedId]?.isBanned ? ' · Banned' : ''}
+                  </Text>
+                )}
+                <Text style={[styles.reportMeta, { color: colors.textLight }]}>
+                  {formatTime(selected.createdAt)}{selected.platform ? ` · ${selected.platform}` : ''}
+                </Text>
+
+                <Text style={styles.inputLabel}>Status</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {REPORT_STATUSES.map(s => renderOption(STATUS_LABELS[s], selected.status === s, () => handleStatus(s), s))}
+                </ScrollView>
+
+                <Text style={styles.inputLabel}>Internal Notes</Text>
+                {selected.internalNotes.length === 0 ? (
+                  <Text style={[styles.reportMeta, { color: colors.textLight }]}>No notes yet.</Text>
+                ) : selected.internalNotes.map((note, index) => (
+                  <View key={index} style={[styles.noteRow, { borderColor: colors.border }]}>
+                    <Text style={[styles.noteText, { color: colors.textDark }]}>{note.text}</Text>
+                    <Text style={[styles.reportMeta, { color: colors.textLight }]}>{note.authorName} · {formatTime(note.createdAt)}</Text>
+                  </View>
+                ))}
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={[styles.input, { flex: 1, color: colors.textDark, borderColor: colors.border, backgroundColor: colors.background }]}
+                    placeholder="Add a note for other moderators"
+                    placeholderTextColor={colors.textLight}
+                    value={noteText}
+                    onChangeText={setNoteText}
+                    maxLength={2000}
+                  />
+                  <TouchableOpacity
+                    style={[styles.sendBtn, { backgroundColor: colors.primary, opacity: noteText.trim() && !isSaving ? 1 : 0.5 }]}
+                    onPress={handleAddNote}
+                    disabled={!noteText.trim() || isSaving}
+                  >
+                    <Ionicons name="add" size={22} color="white" />
+                  </TouchableOpacity>
+                </View>
+
+                {reportedId && reportedId !== user?.uid && (
+                  <>
+                    <Text style={styles.inputLabel}>Reported User</Text>
+                    <TextInput
+                      style={[styles.input, { color: colors.textDark, borderColor: colors.border, backgroundColor: colors.background }]}
+                      placeholder="Reason for the warning"
+                      placeholderTextColor={colors.textLight}
+                      value={warnReason}
+                      onChangeText={setWarnReason}
+                      maxLength={2000}
+                    />
+                    <View style={[styles.inputRow, { marginTop: 12 }]}>
+                      <TouchableOpacity
+                        style={[styles.actionBtn, { borderColor: colors.primary }]}
+                        onPress={handleWarn}
+                        disabled={isSaving}
+                      >
+                        <Ionicons name="warning-outline" size={18} color={colors.primary} />
+                        <Text style={[styles.actionBtnText, { color: colors.primary }]}>Warn</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.actionBtn, { borderColor: colors.danger }]}
+                        onPress={handleBanToggle}
+                        disabled={isSaving}
+                      >
+                        <Ionicons name={people[reportedId]?.isBanned ? 'lock-open-outline' : 'ban-outline'} size={18} color={colors.danger} />
+                        <Text style={[styles.actionBtnText, { color: colors.danger }]}>{people[reportedId]?.isBanned ? 'Unban' : 'Ban'}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </>
+                )}
+
+                <Text style={styles.inputLabel}>Audit Log</Text>
+                {sortedAuditLog.length === 0 ? (
+                  <Text style={[styles.reportMeta, { color: colors.textLight }]}>No actions recorded.</Text>
+                ) : sortedAuditLog.map(entry => (
+                  <View key={entry.id} style={[styles.noteRow, { borderColor: colors.border }]}>
+                    <Text style={[styles.noteText, { color: colors.textDark }]}>
+                      <Text style={{ fontWeight: '900' }}>{AUDIT_LABELS[entry.action] || entry.action}</Text> · {entry.details}
+                    </Text>
+                    <Text style={[styles.reportMeta, { color: colors.textLight }]}>
+                      {entry.actorName || nameOf(entry.actorId)} · {formatTime(entry.createdAt)}
+                    </Text>
+                  </View>
+                ))}
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  center: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 24 },
+  headerBtn: { padding: 8, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
+  filterSection: { paddingHorizontal: 16, paddingTop: 16, paddingBottom: 8 },
+  filterRow: { marginTop: 8 },
+  listContent: { padding: 16, paddingBottom: 40 },
+  reportCard: { borderRadius: 20, borderWidth: 1, padding: 16, marginBottom: 12 },
+  reportHeader: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 8 },
+  reportType: { fontSize: 13, fontWeight: '900', textTransform: 'uppercase', letterSpacing: 1 },
+  statusBadge: { fontSize: 11, fontWeight: '800', borderWidth: 1, borderRadius: 8, paddingHorizontal: 8, paddingVertical: 2, overflow: 'hidden' },
+  reportText: { fontSize: 15, lineHeight: 22, fontWeight: '600', marginBottom: 8 },
+  reportMeta: { fontSize: 12, fontWeight: '700', marginTop: 2 },
+  emptyState: { alignItems: 'center', marginTop: 80, paddingHorizontal: 24 },
+  emptyText: { textAlign: 'center', fontSize: 14, fontWeight: '600', marginTop: 16 },
+  option: { paddingHorizontal: 16, paddingVertical: 8, borderRadius: 12, borderWidth: 1, marginRight: 8, height: 40, justifyContent: 'center', maxWidth: 200 },
+  optionText: { fontSize: 13, fontWeight: '800' },
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.7)', justifyContent: 'center', alignItems: 'center', padding: 24 },
+  modalContent: { width: '100%', maxWidth: 400, maxHeight: '85%', borderRadius: 28, padding: 24, alignItems: 'center', elevation: 10 },
+  modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8, width: '100%' },
+  modalTitle: { flex: 1, fontSize: 22, fontWeight: '900', textTransform: 'uppercase', letterSpacing: 1 },
+  inputRow: { flexDirection: 'row', gap: 12, marginTop: 8 },
+  inputLabel: { fontSize: 13, fontWeight: '800', marginBottom: 8, marginTop: 16, textTransform: 'uppercase', opacity: 0.6 },
+  input: { borderWidth: 1, borderRadius: 16, paddingHorizontal: 16, paddingVertical: 12, fontSize: 16 },
+  sendBtn: { width: 48, borderRadius: 16, justifyContent: 'center', alignItems: 'center' },
+  noteRow: { borderLeftWidth: 3, paddingLeft: 12, paddingVertical: 4, marginBottom: 8 },
+  noteText: { fontSize: 14, lineHeight: 20, fontWeight: '600' },
+  actionBtn: { flex: 1, flexDirection: 'row', gap: 8, height: 48, borderRadius: 16, borderWidth: 1, alignItems: 'center', justifyContent: 'center' },
+  actionBtnText: { fontSize: 14, fontWeight: '900', textTransform: 'uppercase' },
+});
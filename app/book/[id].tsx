@@ -0,0 +1,358 @@
+import React, { useState, useMemo } from 'react';
+import {
+  StyleSheet, View, Text, TextInput, FlatList, TouchableOpacity,
+  Modal, StatusBar, ActivityIndicator, ScrollView, Image
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, Stack, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, darkColors } from '../../constants/colors';
+import { DoodleBackground } from '../../components/DoodleBackground';
+import { MarkdownText } from '../../components/MarkdownText';
+import { ReaderPickerModal } from '../../components/ReaderPickerModal';
+import { newDocPath, queueDelete, queueSet, queueUpdate } from '../../utils/offlineQueue';
+import { useTheme } from '../../context/ThemeContext';
+import { Timestamp } from 'firebase/firestore';
+import { auth } from '../../firebaseConfig';
+import { createBuddyRead, Note, PublicProfile, useBook, useBuddyReads, useNotes, useUserProfile } from '../../data';
+import Toast from 'react-native-toast-message';
+import { formatProgressLabel, getProgressFraction } from '../../utils/progress';
+import { countFinishedReads } from '../../utils/readThroughs';
+import { MAX_BUDDY_READ_MEMBERS } from '../../utils/buddyReads';
+import {
+  NoteAnchor, EMPTY_ANCHOR, sortNotesByPage, getNoteAnchor, anchorToFields, formatNoteAnchor
+} from '../../utils/notes';
+
+const STATUS_LABELS: Record<string, string> = {
+  reading: 'Reading',
+  toread: 'To Read',
+  read: 'Read',
+  dnf: 'DNF',
+};
+
+export default function BookDetailScreen() {
+  const { id: idParam } = useLocalSearchParams();
+  const router = useRouter();
+  const { theme } = useTheme();
+  const colors = theme === 'dark' ? darkColors : COLORS;
+  const currentUser = auth.currentUser;
+
+  const id = Array.isArray(idParam) ? idParam[0] : idParam;
+
+  const { book, loading: bookLoading } = useBook(id);
+  const { notes: bookNotes } = useNotes({ bookId: id });
+  const notes = useMemo(() => sortNotesByPage(bookNotes), [bookNotes]);
+  const { profile } = useUserProfile();
+  const { buddyReads } = useBuddyReads();
+  const buddyRead = buddyReads.find(r => r.ownerId === currentUser?.uid && r.book.id === id);
+  const [buddyPickerVisible, setBuddyPickerVisible] = useState(false);
+
+  // Editor State
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [editingNote, setEditingNote] = useState<Note | null>(null);
+  const [noteTitle, setNoteTitle] = useState('');
+  const [noteContent, setNoteContent] = useState('');
+  const [anchor, setAnchor] = useState<NoteAnchor>(EMPTY_ANCHOR);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openEditor = (note: Note | null = null) => {
+    setEditingNote(note);
+    setNoteTitle(note?.title || '');
+    setNoteContent(note?.content || '');
+    setAnchor(note ? getNoteAnchor(note) : { ...EMPTY_ANCHOR, page: book?.currentPage ? book.currentPage.toString() : '' });
+    setEditorVisible(true);
+  };
+
+  const handleSaveNote = async () => {
+    if (!currentUser || !book) return;
+    if (!noteTitle.trim() && !noteContent.trim()) {
+      Toast.show({ type: 'error', text1: 'Empty Note', text2: 'Write something first.' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const noteData = {
+        title: noteTitle.trim(),
+        content: noteContent.trim(),
+        userId: currentUser.uid,
+        bookId: book.id,
+        bookTitle: book.title,
+        ...anchorToFields(anchor),
+        updatedAt: Timestamp.now(),
+      };
+      if (editingNote) {
+        await queueUpdate(`notes/${editingNote.id}`, noteData);
+      } else {
+        await queueSet(newDocPath('notes'), { ...noteData, createdAt: Timestamp.now() });
+      }
+      setEditorVisible(false);
+    } catch {
+      Toast.show({ type: 'error', text1: 'Error saving note' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteNote = async () => {
+    if (!editingNote) return;
+    try {
+      await queueDelete(`notes/${editingNote.id}`);
+      setEditorVisible(false);
+    } catch {
+      Toast.show({ type: 'error', text1: 'Delete failed' });
+    }
+  };
+
+  const handleStartBuddyRead = async (readers: PublicProfile[]) => {
+    if (!currentUser || !book) return;
+    try {
+      const buddyReadId = await createBuddyRead(
+        { uid: currentUser.uid, username: profile?.username || currentUser.displayName || 'Reader' },
+        book,
+        readers.map(r => r.id)
+      );
+      setBuddyPickerVisible(false);
+      router.push(`/buddy/${buddyReadId}`);
+    } catch (error) {
+      console.error("Buddy read error:", error);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Could not start the buddy read.' });
+    }
+  };
+
+  const renderNote = ({ item }: { item: Note }) => {
+    const anchorLabel = formatNoteAnchor(item);
+    return (
+      <TouchableOpacity style={[styles.noteCard, { backgroundColor: colors.card, borderColor: colors.border }]} onPress={() => openEditor(item)}>
+        {anchorLabel ? (
+          <View style={[styles.anchorPill, { backgroundColor: colors.primary + '15' }]}>
+            <Ionicons name="bookmark-outline" size={12} color={colors.primary} />
+            <Text style={[styles.anchorPillText, { color: colors.primary }]}>{anchorLabel}</Text>
+          </View>
+        ) : null}
+        {item.title ? <Text style={[styles.noteTitle, { color: colors.textDark }]}>{item.title}</Text> : null}
+        {item.content ? <MarkdownText content={item.content} colors={colors} textStyle={[styles.noteContent, { color: colors.textLight }]} maxBlocks={6} /> : null}
+      </TouchableOpacity>
+    );
+  };
+
+  const progress = book ? getProgressFraction(book) : null;
+  const finishedReads = book ? countFinishedReads(book) : 0;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+      <DoodleBackground colors={colors} />
+      <StatusBar barStyle={theme === 'dark' ? 'light-content' : 'dark-content'} />
+      <Stack.Screen options={{
+        headerShown: true,
+        headerTitle: 'Book',
+        headerTitleAlign: 'center',
+        headerTintColor: colors.textDark,
+        headerStyle: { backgroundColor: colors.card },
+        headerTitleStyle: { fontWeight: '900', fontSize: 18 },
+        headerLeft: () => (
+          <TouchableOpacity onPress={() => router.back()} style={styles.headerBtn}>
+            <Ionicons name="chevron-back" size={28} color={colors.textDark} />
+          </TouchableOpacity>
+        ),
+        headerRight: () => (
+          <TouchableOpacity onPress={() => openEditor()} style={styles.headerBtn} disabled={!book}>
+            <Ionicons name="create-outline" size={26} color={colors.textDark} />
+          </TouchableOpacity>
+        ),
+      }} />
+
+      {bookLoading ? (
+        <View style={styles.center}><ActivityIndicator size="large" color={colors.primary} /></View>
+      ) : !book ? (
+        <View style={styles.center}>
+          <Text style={[styles.emptyText, { color: colors.textLight }]}>This book could not be found.</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={notes}
+          renderItem={renderNote}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={
+            <>
+              <View style={[styles.bookCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                {book.coverUrl ? (
+                  <Image source={{ uri: book.coverUrl }} style={styles.cover} />
+                ) : (
+                  <View style={[styles.cover, styles.coverPlaceholder, { backgroundColor: colors.primary + '20' }]}>
+                    <Ionicons name="book" size={32} color={colors.primary} />
+                  </View>
+                )}
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.bookTitle, { color: colors.textDark }]} numberOfLines={3}>{book.title}</Text>
+                  <Text style={[styles.bookAuthor, { color: colors.textLight }]} numberOfLines={1}>{book.author}</Text>
+                  <View style={styles.metaRow}>
+                    <View style={[styles.statusPill, { backgroundColor: colors.primary }]}>
+                      <Text style={styles.statusPillText}>{STATUS_LABELS[book.status] || book.status}</Text>
+                    </View>
+                    {finishedReads > 1 && (
+                      <Text style={[styles.metaText, { color: colors.textLight }]}>Read {finishedReads}×</Text>
+                    )}
+                  </View>
+                  {progress !== null && (
+                    <View style={{ marginTop: 12 }}>
+                      <Text style={[styles.metaText, { color: colors.textLight }]}>{formatProgressLabel(book)}</Text>
+                      <View style={[styles.progressTrack, { backgroundColor: colors.border }]}>
+                        <View style={[styles.progressFill, { width: `${progress * 100}%`, backgroundColor: colors.secondary }]} />
+                      </View>
+                    </View>
+                  )}
+                </View>
+              </View>
+
+              {book.status === 'reading' && (
+                <TouchableOpacity
+                  style={[styles.actionBtn, { backgroundColor: colors.card, borderColor: colors.border }]}
+                  onPress={() => router.push(`/sessions/${book.id}`)}
+                >
+                  <Ionicons name="timer-outline" size={18} color={colors.primary} />
+                  <Text style={[styles.actionBtnText, { color: colors.textDark }]}>Reading Sessions</Text>
+                  <Ionicons name="chevron-forward" size={18} color={colors.textLight} />
+                </TouchableOpacity>
+              )}
+
+              <TouchableOpacity
+                style={[styles.actionBtn, { backgroundColor: colors.card, borderColor: colors.border }]}
+                onPress={() => router.push({ pathname: '/quotes', params: { bookId: book.id } })}
+              >
+                <Ionicons name="chatbox-ellipses-outline" size={18} color={colors.primary} />
+                <Text style={[styles.actionBtnText, { color: colors.textDark }]}>Quotes</Text>
+                <Ionicons name="chevron-forward" size={18} color={colors.textLight} />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.actionBtn, { backgroundColor: colors.card, borderColor: colors.border }]}
+                onPress={() => (buddyRead ? router.push(`/buddy/${buddyRead.id}`) : setBuddyPickerVisible(true))}
+              >
+                <Ionicons name="people-outline" size={18} color={colors.primary} />
+                <Text style={[styles.actionBtnText, { color: colors.textDark }]}>{buddyRead ? 'Buddy Read' : 'Start a Buddy Read'}</Text>
+                <Ionicons name="chevron-forward" size={18} color={colors.textLight} />
+              </TouchableOpacity>
+
+              <View style={styles.sectionHeader}>
+                <Text style={[styles.sectionTitle, { color: colors.textDark }]}>Notes</Text>
+                <TouchableOpacity onPress={() => openEditor()} style={styles.sectionAction}>
+                  <Ionicons name="add" size={18} color={colors.primary} />
+                  <Text style={[styles.sectionActionText, { color: colors.primary }]}>Add</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          }
+          ListEmptyComponent={
+            <Text style={[styles.emptyText, { color: colors.textLight }]}>No notes for this book yet.</Text>
+          }
+        />
+      )}
+
+      {/* NOTE EDITOR */}
+      <Modal visible={editorVisible} animationType="slide" transparent onRequestClose={() => setEditorVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textDark }]}>{editingNote ? 'Edit Note' : 'New Note'}</Text>
+              <TouchableOpacity onPress={() => setEditorVisible(false)}><Ionicons name="close" size={24} color={colors.textDark} /></TouchableOpacity>
+            </View>
+            <ScrollView showsVerticalScrollIndicator={false} style={{ width: '100%' }}>
+              <View style={styles.inputRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.inputLabel}>Page</Text>
+                  <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={anchor.page} onChangeText={(page) => setAnchor({ ...anchor, page })} keyboardType="numeric" placeholder="42" placeholderTextColor={colors.textLight} />
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.inputLabel}>Chapter</Text>
+                  <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={anchor.chapter} onChangeText={(chapter) => setAnchor({ ...anchor, chapter })} placeholder="3" placeholderTextColor={colors.textLight} />
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.inputLabel}>Location</Text>
+                  <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={anchor.location} onChangeText={(location) => setAnchor({ ...anchor, location })} placeholder="1234" placeholderTextColor={colors.textLight} />
+                </View>
+              </View>
+
+              <Text style={styles.inputLabel}>Title</Text>
+              <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={noteTitle} onChangeText={setNoteTitle} placeholder="Optional" placeholderTextColor={colors.textLight} />
+
+              <Text style={styles.inputLabel}>Note</Text>
+              <TextInput
+                style={[styles.input, styles.contentInput, { color: colors.textDark, borderColor: colors.border }]}
+                value={noteContent}
+                onChangeText={setNoteContent}
+                placeholder="Start writing..."
+                placeholderTextColor={colors.textLight}
+                multiline
+                textAlignVertical="top"
+              />
+
+              <TouchableOpacity style={[styles.saveBtn, { backgroundColor: colors.primary }]} onPress={handleSaveNote} disabled={isSaving}>
+                {isSaving ? <ActivityIndicator color="white" /> : <Text style={styles.saveBtnText}>{editingNote ? 'Save Changes' : 'Save Note'}</Text>}
+              </TouchableOpacity>
+              {editingNote && (
+                <TouchableOpacity style={styles.deleteLink} onPress={handleDeleteNote}>
+                  <Text style={[styles.deleteLinkText, { color: colors.danger }]}>Delete Note</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
+      <ReaderPickerModal
+        visible={buddyPickerVisible}
+        colors={colors}
+        title="Buddy Read"
+        confirmLabel="Invite & Start"
+        excludeIds={currentUser ? [currentUser.uid] : []}
+        maxSelected={MAX_BUDDY_READ_MEMBERS - 1}
+        onClose={() => setBuddyPickerVisible(false)}
+        onConfirm={handleStartBuddyRead}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  center: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 24 },
+  listContent: { padding: 16, paddingBottom: 40 },
+  headerBtn: { padding: 8, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
+  bookCard: { flexDirection: 'row', borderRadius: 28, borderWidth: 1, padding: 16, gap: 16, marginBottom: 16 },
+  cover: { width: 90, height: 135, borderRadius: 12 },
+  coverPlaceholder: { justifyContent: 'center', alignItems: 'center' },
+  bookTitle: { fontSize: 20, fontWeight: '900' },
+  bookAuthor: { fontSize: 13, fontWeight: '700', marginTop: 4 },
+  metaRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 12 },
+  metaText: { fontSize: 12, fontWeight: '700' },
+  statusPill: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 10 },
+  statusPillText: { color: 'white', fontSize: 10, fontWeight: '900', textTransform: 'uppercase' },
+  progressTrack: { height: 6, borderRadius: 3, marginTop: 6, overflow: 'hidden' },
+  progressFill: { height: '100%', borderRadius: 3 },
+  actionBtn: { flexDirection: 'row', alignItems: 'center', gap: 12, borderRadius: 20, borderWidth: 1, padding: 16, marginBottom: 16 },
+  actionBtnText: { flex: 1, fontSize: 15, fontWeight: '800' },
+  sectionHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginTop: 8, marginBottom: 12 },
+  sectionTitle: { fontSize: 14, fontWeight: '900', textTransform: 'uppercase', letterSpacing: 1 },
+  sectionAction: { flexDirection: 'row', alignItems: 'center', gap: 2 },
+  sectionActionText: { fontSize: 13, fontWeight: '900' },
+  noteCard: { borderRadius: 20, borderWidth: 1, padding: 16, marginBottom: 10 },
+  anchorPill: { flexDirection: 'row', alignItems: 'center', gap: 4, alignSelf: 'flex-start', paddingHorizontal: 8, paddingVertical: 4, borderRadius: 8, marginBottom: 8 },
+  anchorPillText: { fontSize: 11, fontWeight: '800' },
+  noteTitle: { fontSize: 16, fontWeight: '900', marginBottom: 4 },
+  noteContent: { fontSize: 14, lineHeight: 20 },
+  emptyText: { textAlign: 'center', fontSize: 14, fontWeight: '600', marginTop: 24 },
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.7)', justifyContent: 'center', alignItems: 'center', padding: 24 },
+  modalContent: { width: '100%', maxWidth: 400, maxHeight: '85%', borderRadius: 28, padding: 24, alignItems: 'center', elevation: 10 },
+  modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8, width: '100%' },
+  modalTitle: { fontSize: 22, fontWeight: '900', textTransform: 'uppercase', letterSpacing: 1 },
+  inputRow: { flexDirection: 'row', gap: 12 },
+  inputLabel: { fontSize: 13, fontWeight: '800', marginBottom: 8, marginTop: 16, textTransform: 'uppercase', opacity: 0.6 },
+  input: { borderWidth: 1, borderRadius: 16, paddingHorizontal: 16, paddingVertical: 12, fontSize: 16 },
+  contentInput: { minHeight: 140 },
+  saveBtn: { height: 56, borderRadius: 16, justifyContent: 'center', alignItems: 'center', width: '100%', marginTop: 24 },
+  saveBtnText: { color: 'white', fontSize: 16, fontWeight: '900', textTransform: 'uppercase' },
+  deleteLink: { alignItems: 'center', paddingVertical: 16 },
+  deleteLinkText: { fontSize: 14, fontWeight: '800', textTransform: 'uppercase' },
+});
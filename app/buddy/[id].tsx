@@ -0,0 +1,410 @@
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import {
+  StyleSheet, View, Text, TextInput, FlatList, TouchableOpacity, KeyboardAvoidingView, Platform, Modal, StatusBar,
+  Image, ActivityIndicator, Alert, ScrollView
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, Stack, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, darkColors } from '../../constants/colors';
+import { DoodleBackground } from '../../components/DoodleBackground';
+import { ReaderPickerModal } from '../../components/ReaderPickerModal';
+import { useTheme } from '../../context/ThemeContext';
+import {
+  BuddyMessage, deleteBuddyRead, inviteToBuddyRead, leaveBuddyRead, removeBuddyReadInvite, sendBuddyMessage,
+  ReadingPosition, updateBuddyProgress, useBuddyMessages, useBuddyProgress, useBuddyRead, useUserProfile
+} from '../../data';
+import {
+  EMPTY_POSITION, formatPosition, isSpoiler, MAX_BUDDY_READ_MEMBERS, parsePositionInput
+} from '../../utils/buddyReads';
+import Toast from 'react-native-toast-message';
+
+export default function BuddyReadScreen() {
+  const { id } = useLocalSearchParams();
+  const router = useRouter();
+  const { theme } = useTheme();
+  const colors = theme === 'dark' ? darkColors : COLORS;
+  const { user, profile } = useUserProfile();
+
+  const buddyReadId = (Array.isArray(id) ? id[0] : id) || null;
+  const { buddyRead, loading } = useBuddyRead(buddyReadId);
+  const progress = useBuddyProgress(buddyReadId);
+
+  const [inputText, setInputText] = useState('');
+  const [positionModalVisible, setPositionModalVisible] = useState(false);
+  const [pageInput, setPageInput] = useState('');
+  const [chapterInput, setChapterInput] = useState('');
+  const [inviteVisible, setInviteVisible] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmedPosition, setConfirmedPosition] = useState<ReadingPosition | null>(null);
+
+  const flatListRef = useRef<FlatList>(null);
+  const isOwner = !!user && buddyRead?.ownerId === user.uid;
+  const isBanned = !!profile?.isBanned;
+  const member = user ? { uid: user.uid, username: profile?.username || user.displayName || 'Reader' } : null;
+  const myProgress = progress.find(p => p.id === user?.uid);
+  const myPosition = myProgress ? { page: myProgress.page, chapter: myProgress.chapter } : EMPTY_POSITION;
+  const hasProgress = !!myProgress;
+  const myPage = myPosition.page;
+  const myChapter = myPosition.chapter;
+
+  // The rules check reads against the saved position, so a save still in flight doesn't move the query yet
+  useEffect(() => {
+    if (hasProgress && !isSaving) setConfirmedPosition({ page: myPage, chapter: myChapter });
+  }, [hasProgress, isSaving, myPage, myChapter]);
+  const { messages } = useBuddyMessages(buddyReadId, user?.uid || null, confirmedPosition);
+
+  // Members further along come first
+  const members = useMemo(
+    () => [...progress].sort((a, b) => (b.page || 0) - (a.page || 0) || (b.chapter || 0) - (a.chapter || 0)),
+    [progress]
+  );
+
+  const openPositionModal = () => {
+    setPageInput(myPosition.page != null ? myPosition.page.toString() : '');
+    setChapterInput(myPosition.chapter != null ? myPosition.chapter.toString() : '');
+    setPositionModalVisible(true);
+  };
+
+  const handleSavePosition = async () => {
+    if (!buddyReadId || !member) return;
+    const position = parsePositionInput(pageInput, chapterInput);
+    const pageCount = buddyRead?.book.pageCount;
+    if (position.page != null && pageCount && position.page > pageCount) {
+      Toast.show({ type: 'error', text1: 'Invalid Page', text2: `This book has ${pageCount} pages.` });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await updateBuddyProgress(buddyReadId, member, position);
+      setPositionModalVisible(false);
+    } catch (error) {
+      console.error("Buddy progress error:", error);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Could not update your position.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Messages are marked with the sender's position so they stay hidden from anyone behind it
+  const handleSend = async () => {
+    if (!inputText.trim() || !buddyReadId || !member) return;
+    const text = inputText.trim();
+    setInputText('');
+    try {
+      await sendBuddyMessage(buddyReadId, member, text, myPosition);
+    } catch (e) {
+      console.error(e);
+      setInputText(text);
+      Toast.show({ type: 'error', text1: 'Not Sent', text2: 'Your message could not be posted.' });
+    }
+  };
+
+  const handleInvite = async (readers: { id: string }[]) => {
+    if (!buddyReadId) return;
+    try {
+      await inviteToBuddyRead(buddyReadId, readers.map(r => r.id));
+      setInviteVisible(false);
+      Toast.show({ type: 'success', text1: 'Invites Sent' });
+    } catch (error) {
+      console.error("Buddy invite error:", error);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Could not send the invites.' });
+    }
+  };
+
+  const handleLeave = () => {
+    if (!buddyReadId || !user) return;
+    Alert.alert(
+      isOwner ? 'End Buddy Read' : 'Leave Buddy Read',
+      isOwner ? 'This deletes the discussion for everyone.' : 'You can rejoin if someone invites you again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: isOwner ? 'End' : 'Leave', style: 'destructive', onPress: async () => {
+            try {
+              await (isOwner ? deleteBuddyRead(buddyReadId) : leaveBuddyRead(buddyReadId, user.uid));
+              router.back();
+            } catch (error) {
+              console.error("Leave buddy read error:", error);
+              Toast.show({ type: 'error', text1: 'Error', text2: 'Please try again.' });
+            }
+          }
+        },
+      ]
+    );
+  };
+
+  const handleWithdrawInvite = async (userId: string) => {
+    if (!buddyReadId) return;
+    try {
+      await removeBuddyReadInvite(buddyReadId, userId);
+    } catch (error) {
+      console.error("Withdraw invite error:", error);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Could not withdraw the invite.' });
+    }
+  };
+
+  const openMenu = () => {
+    const options: { text: string; style?: 'cancel' | 'destructive'; onPress?: () => void }[] = [];
+    if (isOwner && buddyRead && buddyRead.invitedIds.length > 0) {
+      options.push({ text: `Withdraw Invites (${buddyRead.invitedIds.length})`, onPress: () => buddyRead.invitedIds.forEach(handleWithdrawInvite) });
+    }
+    options.push({ text: isOwner ? 'End Buddy Read' : 'Leave Buddy Read', style: 'destructive', onPress: handleLeave });
+    options.push({ text: 'Cancel', style: 'cancel' });
+    Alert.alert(buddyRead?.book.title || 'Buddy Read', undefined, options);
+  };
+
+  const renderMessage = ({ item }: { item: BuddyMessage }) => {
+    const isMe = item.senderId === user?.uid;
+    const label = formatPosition(item);
+    // The rules already hold back messages past the saved position; this covers a lowered position that is still saving
+    if (!isMe && isSpoiler(item, myPosition)) {
+      return (
+        <View style={[styles.messageRow, styles.theirMsgRow]}>
+          <Text style={[styles.senderName, { color: colors.textLight }]}>{item.senderName}</Text>
+          <View style={[styles.bubble, styles.spoilerBubble, { borderColor: colors.border }]}>
+            <Ionicons name="eye-off-outline" size={14} color={colors.textLight} />
+            <Text style={[styles.spoilerText, { color: colors.textLight }]}>Spoiler{label ? ` from ${label}` : ''}. Keep reading!</Text>
+          </View>
+        </View>
+      );
+    }
+    return (
+      <View style={[styles.messageRow, isMe ? styles.myMsgRow : styles.theirMsgRow]}>
+        {!isMe && <Text style={[styles.senderName, { color: colors.textLight }]}>{item.senderName}</Text>}
+        <View style={[styles.bubble, isMe ? { backgroundColor: colors.primary } : { backgroundColor: colors.card, borderColor: colors.border, borderWidth: 1 }]}>
+          <Text style={[styles.msgText, { color: isMe ? '#FFF' : colors.textDark }]}>{item.text}</Text>
+        </View>
+        {label ? <Text style={[styles.positionText, { color: colors.textLight }, isMe && { alignSelf: 'flex-end' }]}>{label}</Text> : null}
+      </View>
+    );
+  };
+
+  const myLabel = formatPosition(myPosition);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <DoodleBackground colors={colors} />
+      <StatusBar barStyle={theme === 'dark' ? 'light-content' : 'dark-content'} />
+      <Stack.Screen options={{
+        headerShown: true,
+        headerTitle: 'Buddy Read',
+        headerTitleAlign: 'center',
+        headerTintColor: colors.textDark,
+        headerStyle: { backgroundColor: colors.card },
+        headerTitleStyle: { fontWeight: '900', fontSize: 18 },
+        headerLeft: () => (
+          <TouchableOpacity onPress={() => router.back()} style={styles.headerBtn}>
+            <Ionicons name="chevron-back" size={28} color={colors.textDark} />
+          </TouchableOpacity>
+        ),
+        headerRight: () => (
+          <TouchableOpacity onPress={openMenu} style={styles.headerBtn} disabled={!buddyRead}>
+            <Ionicons name="ellipsis-vertical" size={22} color={colors.textDark} />
+          </TouchableOpacity>
+        ),
+      }} />
+
+      {loading ? (
+        <View style={styles.center}><ActivityIndicator size="large" color={colors.primary} /></View>
+      ) : !buddyRead || !user || !buddyRead.members.includes(user.uid) ? (
+        <View style={styles.center}>
+          <Ionicons name="people-outline" size={64} color={colors.border} />
+          <Text style={[styles.emptyText, { color: colors.textLight }]}>This buddy read has ended or you are no longer a member.</Text>
+        </View>
+      ) : (
+        <>
+          <View style={[styles.bookCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            <View style={styles.bookRow}>
+              {buddyRead.book.coverUrl ? (
+                <Image source={{ uri: buddyRead.book.coverUrl }} style={styles.cover} />
+              ) : (
+                <View style={[styles.cover, { backgroundColor: colors.border, justifyContent: 'center', alignItems: 'center' }]}>
+                  <Ionicons name="book-outline" size={18} color={colors.textLight} />
+                </View>
+              )}
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.bookTitle, { color: colors.textDark }]} numberOfLines={1}>{buddyRead.book.title}</Text>
+                <Text style={[styles.bookAuthor, { color: colors.textLight }]} numberOfLines={1}>{buddyRead.book.author}</Text>
+              </View>
+              {isOwner && buddyRead.members.length + buddyRead.invitedIds.length < MAX_BUDDY_READ_MEMBERS && (
+                <TouchableOpacity onPress={() => setInviteVisible(true)} style={styles.headerBtn}>
+                  <Ionicons name="person-add-outline" size={22} color={colors.primary} />
+                </TouchableOpacity>
+              )}
+            </View>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.membersRow}>
+              {members.map(m => {
+                const fraction = m.page != null && buddyRead.book.pageCount ? Math.min(m.page / buddyRead.book.pageCount, 1) : null;
+                return (
+                  <TouchableOpacity
+                    key={m.id}
+                    style={[styles.memberChip, { borderColor: m.id === user.uid ? colors.primary : colors.border }]}
+                    onPress={() => (m.id === user.uid ? openPositionModal() : router.push(`/profile/${m.id}`))}
+                  >
+                    <Text style={[styles.memberName, { color: colors.textDark }]} numberOfLines={1}>{m.id === user.uid ? 'You' : m.username}</Text>
+                    <Text style={[styles.memberPosition, { color: colors.textLight }]}>{formatPosition(m) || 'Not started'}</Text>
+                    {fraction != null && (
+                      <View style={[styles.progressTrack, { backgroundColor: colors.border }]}>
+                        <View style={[styles.progressFill, { backgroundColor: colors.primary, width: `${Math.round(fraction * 100)}%` }]} />
+                      </View>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          </View>
+
+          <FlatList
+            ref={flatListRef}
+            data={messages}
+            renderItem={renderMessage}
+            keyExtractor={item => item.id}
+            contentContainerStyle={styles.listContent}
+            onContentSizeChange={() => flatListRef.current?.scrollToEnd()}
+            ListEmptyComponent={
+              <Text style={[styles.emptyText, { color: colors.textLight }]}>
+                Start the discussion. Messages are hidden from anyone who hasn&apos;t read that far yet.
+              </Text>
+            }
+          />
+
+          <KeyboardAvoidingView
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+            keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
+          >
+            <View style={[styles.inputArea, { backgroundColor: colors.card, borderTopColor: colors.border }]}>
+              {isBanned ? (
+                <Text style={[styles.bannedText, { color: colors.danger }]}>Your account has been banned from sending messages.</Text>
+              ) : (
+                <>
+                  <TouchableOpacity
+                    style={[styles.positionBtn, { borderColor: colors.border }]}
+                    onPress={() => openPositionModal()}
+                  >
+                    <Ionicons name="bookmark-outline" size={14} color={colors.primary} />
+                    <Text style={[styles.positionBtnText, { color: colors.primary }]}>{myLabel || 'Set page'}</Text>
+                  </TouchableOpacity>
+                  <TextInput
+                    style={[styles.input, { backgroundColor: 'transparent', color: colors.textDark, borderColor: colors.border }]}
+                    placeholder="Discuss up to your page..."
+                    placeholderTextColor={colors.textLight}
+                    value={inputText}
+                    onChangeText={setInputText}
+                    multiline
+                    maxLength={2000}
+                  />
+                  <TouchableOpacity
+                    style={[styles.sendBtn, { backgroundColor: colors.primary }]}
+                    onPress={handleSend}
+                    disabled={!inputText.trim()}
+                  >
+                    <Ionicons name="send" size={20} color="white" />
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+          </KeyboardAvoidingView>
+        </>
+      )}
+
+      <Modal visible={positionModalVisible} transparent animationType="fade" onRequestClose={() => setPositionModalVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textDark }]}>Where Are You?</Text>
+              <TouchableOpacity onPress={() => setPositionModalVisible(false)}>
+                <Ionicons name="close" size={24} color={colors.textDark} />
+              </TouchableOpacity>
+            </View>
+            <View style={styles.inputRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.inputLabel}>Page</Text>
+                <TextInput
+                  style={[styles.modalInput, { color: colors.textDark, borderColor: colors.border }]}
+                  value={pageInput}
+                  onChangeText={setPageInput}
+                  keyboardType="numeric"
+                  placeholder={buddyRead?.book.pageCount ? `of ${buddyRead.book.pageCount}` : '42'}
+                  placeholderTextColor={colors.textLight}
+                />
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.inputLabel}>Chapter</Text>
+                <TextInput
+                  style={[styles.modalInput, { color: colors.textDark, borderColor: colors.border }]}
+                  value={chapterInput}
+                  onChangeText={setChapterInput}
+                  keyboardType="numeric"
+                  placeholder="3"
+                  placeholderTextColor={colors.textLight}
+                />
+              </View>
+            </View>
+            <Text style={[styles.hintText, { color: colors.textLight }]}>
+              You only see messages up to this point, and your messages are hidden from anyone behind it.
+            </Text>
+            <TouchableOpacity style={[styles.saveBtn, { backgroundColor: colors.primary }]} onPress={handleSavePosition} disabled={isSaving}>
+              {isSaving ? <ActivityIndicator color="white" /> : <Text style={styles.saveBtnText}>Save</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      <ReaderPickerModal
+        visible={inviteVisible}
+        colors={colors}
+        title="Invite Readers"
+        confirmLabel="Send Invites"
+        excludeIds={buddyRead ? [...buddyRead.members, ...buddyRead.invitedIds] : []}
+        maxSelected={buddyRead ? MAX_BUDDY_READ_MEMBERS - buddyRead.members.length - buddyRead.invitedIds.length : 0}
+        onClose={() => setInviteVisible(false)}
+        onConfirm={handleInvite}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  center: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 24 },
+  emptyText: { textAlign: 'center', fontSize: 14, fontWeight: '600', marginTop: 16, paddingHorizontal: 24 },
+  bookCard: { margin: 16, marginBottom: 0, borderRadius: 24, borderWidth: 1, padding: 16 },
+  bookRow: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+  cover: { width: 40, height: 60, borderRadius: 6 },
+  bookTitle: { fontSize: 16, fontWeight: '900' },
+  bookAuthor: { fontSize: 13, fontWeight: '600', marginTop: 2 },
+  membersRow: { gap: 8, marginTop: 12 },
+  memberChip: { width: 96, borderWidth: 1, borderRadius: 14, padding: 8 },
+  memberName: { fontSize: 12, fontWeight: '900' },
+  memberPosition: { fontSize: 11, fontWeight: '700', marginTop: 2 },
+  progressTrack: { height: 4, borderRadius: 2, marginTop: 6, overflow: 'hidden' },
+  progressFill: { height: 4, borderRadius: 2 },
+  listContent: { padding: 16, paddingBottom: 20, flexGrow: 1 },
+  messageRow: { marginBottom: 12, maxWidth: '80%' },
+  myMsgRow: { alignSelf: 'flex-end' },
+  theirMsgRow: { alignSelf: 'flex-start' },
+  senderName: { fontSize: 11, fontWeight: '800', marginBottom: 2, marginLeft: 8 },
+  bubble: { paddingHorizontal: 16, paddingVertical: 10, borderRadius: 20 },
+  spoilerBubble: { flexDirection: 'row', alignItems: 'center', gap: 6, borderWidth: 1, borderStyle: 'dashed' },
+  spoilerText: { fontSize: 13, fontWeight: '700', fontStyle: 'italic' },
+  msgText: { fontSize: 15, fontWeight: '500' },
+  positionText: { fontSize: 10, fontWeight: '700', marginTop: 2, marginHorizontal: 8 },
+  bannedText: { flex: 1, textAlign: 'center', fontSize: 13, fontWeight: '700', paddingVertical: 10 },
+  inputArea: { flexDirection: 'row', padding: 16, paddingBottom: Platform.OS === 'ios' ? 32 : 16, alignItems: 'center', borderTopWidth: 1, gap: 8 },
+  positionBtn: { flexDirection: 'row', alignItems: 'center', gap: 4, borderWidth: 1, borderRadius: 14, paddingHorizontal: 8, height: 44 },
+  positionBtnText: { fontSize: 11, fontWeight: '900' },
+  input: { flex: 1, borderRadius: 24, paddingHorizontal: 16, paddingVertical: 10, fontSize: 15, borderWidth: 1, maxHeight: 100 },
+  sendBtn: { width: 44, height: 44, borderRadius: 22, justifyContent: 'center', alignItems: 'center' },
+  headerBtn: { padding: 8, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.7)', justifyContent: 'center', alignItems: 'center', padding: 24 },
+  modalContent: { width: '100%', maxWidth: 400, borderRadius: 28, padding: 24, alignItems: 'center', elevation: 10 },
+  modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8, width: '100%' },
+  modalTitle: { fontSize: 22, fontWeight: '900', textTransform: 'uppercase', letterSpacing: 1 },
+  inputRow: { flexDirection: 'row', gap: 12, width: '100%' },
+  inputLabel: { fontSize: 13, fontWeight: '800', marginBottom: 8, marginTop: 16, textTransform: 'uppercase', opacity: 0.6 },
+  modalInput: { borderWidth: 1, borderRadius: 16, paddingHorizontal: 16, paddingVertical: 12, fontSize: 16 },
+  hintText: { fontSize: 12, fontWeight: '600', marginVertical: 16, textAlign: 'center' },
+  saveBtn: { height: 56, borderRadius: 16, justifyContent: 'center', alignItems: 'center', width: '100%' },
+  saveBtnText: { color: 'white', fontSize: 16, fontWeight: '900', textTransform: 'uppercase' },
+});
@@ -0,0 +1,156 @@
+import React from 'react';
+import {
+  StyleSheet, View, Text, TouchableOpacity, FlatList, StatusBar, Image, ActivityIndicator
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, darkColors } from '../../constants/colors';
+import { DoodleBackground } from '../../components/DoodleBackground';
+import { useTheme } from '../../context/ThemeContext';
+import {
+  acceptBuddyReadInvite, BuddyRead, removeBuddyReadInvite, useBuddyReads, usePublicProfile, useUserProfile
+} from '../../data';
+import Toast from 'react-native-toast-message';
+
+type Colors = typeof COLORS;
+
+function BookCover({ book, colors }: { book: BuddyRead['book']; colors: Colors }) {
+  return book.coverUrl ? (
+    <Image source={{ uri: book.coverUrl }} style={styles.cover} />
+  ) : (
+    <View style={[styles.cover, { backgroundColor: colors.border, justifyContent: 'center', alignItems: 'center' }]}>
+      <Ionicons name="book-outline" size={18} color={colors.textLight} />
+    </View>
+  );
+}
+
+function InviteCard({ invite, colors, onRespond }: { invite: BuddyRead; colors: Colors; onRespond: (invite: BuddyRead, accept: boolean) => void }) {
+  const { profile: owner } = usePublicProfile(invite.ownerId);
+  return (
+    <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.primary }]}>
+      <BookCover book={invite.book} colors={colors} />
+      <View style={{ flex: 1 }}>
+        <Text style={[styles.bookTitle, { color: colors.textDark }]} numberOfLines={1}>{invite.book.title}</Text>
+        <Text style={[styles.subText, { color: colors.textLight }]} numberOfLines={1}>
+          {owner?.username || 'A reader'} invited you
+        </Text>
+      </View>
+      <TouchableOpacity style={[styles.respondBtn, { backgroundColor: colors.primary }]} onPress={() => onRespond(invite, true)}>
+        <Ionicons name="checkmark" size={18} color="white" />
+      </TouchableOpacity>
+      <TouchableOpacity style={[styles.respondBtn, { borderColor: colors.border, borderWidth: 1 }]} onPress={() => onRespond(invite, false)}>
+        <Ionicons name="close" size={18} color={colors.textLight} />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+export default function BuddyReadsScreen() {
+  const router = useRouter();
+  const { theme } = useTheme();
+  const colors = theme === 'dark' ? darkColors : COLORS;
+  const { user, profile } = useUserProfile();
+  const { buddyReads, invites, loading } = useBuddyReads();
+
+  const handleRespond = async (invite: BuddyRead, accept: boolean) => {
+    if (!user) return;
+    try {
+      if (accept) {
+        await acceptBuddyReadInvite(invite.id, { uid: user.uid, username: profile?.username || user.displayName || 'Reader' });
+        router.push(`/buddy/${invite.id}`);
+      } else {
+        await removeBuddyReadInvite(invite.id, user.uid);
+      }
+    } catch (error) {
+      console.error("Buddy invite error:", error);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Could not update the invite.' });
+    }
+  };
+
+  const renderBuddyRead = ({ item }: { item: BuddyRead }) => (
+    <TouchableOpacity
+      style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}
+      onPress={() => router.push(`/buddy/${item.id}`)}
+    >
+      <BookCover book={item.book} colors={colors} />
+      <View style={{ flex: 1 }}>
+        <Text style={[styles.bookTitle, { color: colors.textDark }]} numberOfLines={1}>{item.book.title}</Text>
+        <Text style={[styles.subText, { color: colors.textLight }]} numberOfLines={1}>
+          {item.members.length} {item.members.length === 1 ? 'reader' : 'readers'}
+          {item.invitedIds.length > 0 ? ` • ${item.invitedIds.length} invited` : ''}
+        </Text>
+        {item.lastMessage ? (
+          <Text style={[styles.subText, { color: colors.textLight }]} numberOfLines={1}>
+            {item.lastSenderId === user?.uid ? 'You: ' : ''}{item.lastMessage}
+          </Text>
+        ) : null}
+      </View>
+      <Ionicons name="chevron-forward" size={20} color={colors.textLight} />
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+      <DoodleBackground colors={colors} />
+      <StatusBar barStyle={theme === 'dark' ? 'light-content' : 'dark-content'} />
+      <Stack.Screen options={{
+        headerShown: true,
+        headerTitle: 'Buddy Reads',
+        headerTitleAlign: 'center',
+        headerTintColor: colors.textDark,
+        headerStyle: { backgroundColor: colors.card },
+        headerTitleStyle: { fontWeight: '900', fontSize: 18 },
+        headerLeft: () => (
+          <TouchableOpacity onPress={() => router.back()} style={styles.headerBtn}>
+            <Ionicons name="chevron-back" size={28} color={colors.textDark} />
+          </TouchableOpacity>
+        ),
+      }} />
+
+      {loading ? (
+        <View style={styles.center}><ActivityIndicator size="large" color={colors.primary} /></View>
+      ) : (
+        <FlatList
+          data={buddyReads}
+          renderItem={renderBuddyRead}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+          ListHeaderComponent={invites.length > 0 ? (
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: colors.textLight }]}>INVITES</Text>
+              {invites.map(invite => (
+                <InviteCard key={invite.id} invite={invite} colors={colors} onRespond={handleRespond} />
+              ))}
+              <Text style={[styles.sectionTitle, { color: colors.textLight }]}>READING TOGETHER</Text>
+            </View>
+          ) : null}
+          ListEmptyComponent={
+            <View style={styles.center}>
+              <Ionicons name="people-outline" size={64} color={colors.border} />
+              <Text style={[styles.emptyText, { color: colors.textLight }]}>
+                Start a buddy read from any book in your library to read it together with friends.
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  center: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 24 },
+  headerBtn: { padding: 8, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
+  listContent: { padding: 20, paddingBottom: 60, flexGrow: 1 },
+  emptyText: { textAlign: 'center', fontSize: 14, fontWeight: '600', marginTop: 16 },
+  section: { marginBottom: 4 },
+  sectionTitle: { fontSize: 12, fontWeight: '900', letterSpacing: 1.5, marginBottom: 10, marginLeft: 8, opacity: 0.5 },
+  card: { flexDirection: 'row', alignItems: 'center', gap: 12, borderRadius: 20, borderWidth: 1, padding: 12, marginBottom: 10 },
+  cover: { width: 40, height: 60, borderRadius: 6 },
+  bookTitle: { fontSize: 15, fontWeight: '800' },
+  subText: { fontSize: 12, fontWeight: '600', marginTop: 2 },
+  respondBtn: { width: 36, height: 36, borderRadius: 18, justifyContent: 'center', alignItems: 'center' },
+});
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { 
   StyleSheet, View, Text, TextInput, FlatList, TouchableOpacity, 
-  KeyboardAvoidingView, Platform, Modal, StatusBar 
+  KeyboardAvoidingView, Platform, Modal, StatusBar, Alert
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, Stack, useRouter } from 'expo-router';
@@ -9,16 +9,15 @@ import { Ionicons } from '@expo/vector-icons';
 import { COLORS, darkColors } from '../../constants/colors';
 import { DoodleBackground } from '../../components/DoodleBackground';
 import { useTheme } from '../../context/ThemeContext';
-import { collection, addDoc, query, orderBy, onSnapshot, Timestamp, doc, setDoc, increment } from 'firebase/firestore';
+import { collection, addDoc, Timestamp } from 'firebase/firestore';
 import { auth, db } from '../../firebaseConfig';
+import {
+  blockUser, ChatMessage, chatIdFor, markChatRead, messageStatus, muteUser, sendMessage, unblockUser, unmuteUser,
+  useBlockedUsers, useMessages, useMutedUsers, useUserProfile
+} from '../../data';
 import Toast from 'react-native-toast-message';
 
-interface Message {
-  id: string;
-  text: string;
-  senderId: string;
-  createdAt: Timestamp;
-}
+const STATUS_LABELS = { sent: 'Sent', delivered: 'Delivered', read: 'Read' };
 
 export default function ChatScreen() {
   const { id, name } = useLocalSearchParams();
@@ -30,42 +29,88 @@ export default function ChatScreen() {
   const recipientId = Array.isArray(id) ? id[0] : id;
   const recipientName = Array.isArray(name) ? name[0] : name;
 
-  const [messages, setMessages] = useState<Message[]>([]);
+  const { profile } = useUserProfile();
   const [inputText, setInputText] = useState('');
   const [reportModalVisible, setReportModalVisible] = useState(false);
   const [reportReason, setReportReason] = useState('');
 
   const flatListRef = useRef<FlatList>(null);
-  const chatId = [currentUser?.uid, recipientId].sort().join('_');
+  const chatId = currentUser && recipientId ? chatIdFor(currentUser.uid, recipientId) : null;
+  const { messages } = useMessages(chatId);
+  const isBanned = !!profile?.isBanned;
+  const { blockedIds } = useBlockedUsers();
+  const { mutedIds } = useMutedUsers();
+  const isBlocked = !!recipientId && blockedIds.has(recipientId);
+  const isMuted = !!recipientId && mutedIds.has(recipientId);
 
+  // Anything that arrives while the chat is open counts as read straight away
   useEffect(() => {
-    if (!currentUser || !recipientId) return;
-    const messagesRef = collection(db, 'chats', chatId, 'messages');
-    const q = query(messagesRef, orderBy('createdAt', 'asc'));
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const msgs: Message[] = [];
-      snapshot.forEach(doc => msgs.push({ id: doc.id, ...doc.data() } as Message));
-      setMessages(msgs);
-    });
-    return () => unsubscribe();
-  }, [currentUser, recipientId, chatId]);
+    if (!currentUser || !chatId) return;
+    if (!messages.some(m => m.senderId !== currentUser.uid && !m.readAt)) return;
+    markChatRead(chatId, currentUser.uid, messages).catch(e => console.error("Read receipt error:", e));
+  }, [currentUser, chatId, messages]);
 
   const handleSend = async () => {
-    if (!inputText.trim() || !currentUser) return;
+    if (!inputText.trim() || !currentUser || !recipientId) return;
     const text = inputText.trim();
     setInputText('');
     try {
-      await addDoc(collection(db, 'chats', chatId, 'messages'), {
-        text, senderId: currentUser.uid, createdAt: Timestamp.now()
-      });
-      const chatRef = doc(db, 'chats', chatId);
-      await setDoc(chatRef, {
-        participants: [currentUser.uid, recipientId],
-        lastMessage: text,
-        lastMessageAt: Timestamp.now(),
-        [`unreadCounts.${recipientId}`]: increment(1)
-      }, { merge: true });
-    } catch (e) { console.error(e); }
+      await sendMessage(currentUser.uid, recipientId, text);
+    } catch (e: any) {
+      console.error(e);
+      setInputText(text);
+      // The rules turn away messages to readers who have blocked the sender
+      const reason = e.code === 'permission-denied' ? 'This reader is not accepting your messages.' : 'Your message could not be delivered.';
+      Toast.show({ type: 'error', text1: 'Not Sent', text2: reason });
+    }
+  };
+
+  const handleToggleMute = async () => {
+    if (!currentUser || !recipientId) return;
+    try {
+      await (isMuted ? unmuteUser(currentUser.uid, recipientId) : muteUser(currentUser.uid, recipientId));
+      Toast.show({ type: 'success', text1: isMuted ? 'Unmuted' : 'Muted', text2: isMuted ? undefined : 'New messages will not count towards your badge.' });
+    } catch (e) {
+      console.error("Mute error:", e);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Please try again.' });
+    }
+  };
+
+  const setBlocked = async (blocked: boolean) => {
+    if (!currentUser || !recipientId) return;
+    try {
+      await (blocked ? blockUser(currentUser.uid, recipientId) : unblockUser(currentUser.uid, recipientId));
+      Toast.show({ type: 'success', text1: blocked ? 'Blocked' : 'Unblocked' });
+      // The conversation drops out of the list once blocked, so there's nothing to come back to
+      if (blocked) router.back();
+    } catch (e) {
+      console.error("Block error:", e);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Please try again.' });
+    }
+  };
+
+  const handleToggleBlock = () => {
+    if (isBlocked) {
+      setBlocked(false);
+      return;
+    }
+    Alert.alert(
+      'Block User',
+      `${recipientName || 'This reader'} won't be able to message you, and the conversation will be hidden from your messages. You can unblock them in Settings.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Block', style: 'destructive', onPress: () => setBlocked(true) },
+      ]
+    );
+  };
+
+  const openMenu = () => {
+    Alert.alert(recipientName || 'Chat', undefined, [
+      { text: isMuted ? 'Unmute' : 'Mute', onPress: handleToggleMute },
+      { text: isBlocked ? 'Unblock' : 'Block', style: 'destructive', onPress: handleToggleBlock },
+      { text: 'Report User', style: 'destructive', onPress: () => setReportModalVisible(true) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
   };
 
   const handleReport = async () => {
@@ -91,13 +136,24 @@ export default function ChatScreen() {
     }
   };
 
-  const renderMessage = ({ item }: { item: Message }) => {
+  const renderMessage = ({ item }: { item: ChatMessage }) => {
     const isMe = item.senderId === currentUser?.uid;
+    const status = messageStatus(item);
     return (
       <View style={[styles.messageRow, isMe ? styles.myMsgRow : styles.theirMsgRow]}>
         <View style={[styles.bubble, isMe ? { backgroundColor: colors.primary } : { backgroundColor: colors.card, borderColor: colors.border, borderWidth: 1 }]}>
           <Text style={[styles.msgText, { color: isMe ? '#FFF' : colors.textDark }]}>{item.text}</Text>
         </View>
+        {isMe && (
+          <View style={styles.statusRow}>
+            <Ionicons
+              name={status === 'sent' ? 'checkmark' : 'checkmark-done'}
+              size={14}
+              color={status === 'read' ? colors.primary : colors.textLight}
+            />
+            <Text style={[styles.statusText, { color: colors.textLight }]}>{STATUS_LABELS[status]}</Text>
+          </View>
+        )}
       </View>
     );
   };
@@ -119,7 +175,7 @@ export default function ChatScreen() {
           </TouchableOpacity>
         ),
         headerRight: () => (
-          <TouchableOpacity onPress={() => setReportModalVisible(true)} style={styles.headerBtn}>
+          <TouchableOpacity onPress={openMenu} style={styles.headerBtn}>
             <Ionicons name="ellipsis-vertical" size={22} color={colors.textDark} />
           </TouchableOpacity>
         ),
@@ -139,21 +195,32 @@ export default function ChatScreen() {
         keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
       >
         <View style={[styles.inputArea, { backgroundColor: colors.card, borderTopColor: colors.border }]}>
-          <TextInput
-            style={[styles.input, { backgroundColor: 'transparent', color: colors.textDark, borderColor: colors.border }]}
-            placeholder="Type a message..."
-            placeholderTextColor={colors.textLight}
-            value={inputText}
-            onChangeText={setInputText}
-            multiline
-          />
-          <TouchableOpacity 
-            style={[styles.sendBtn, { backgroundColor: colors.primary }]} 
-            onPress={handleSend}
-            disabled={!inputText.trim()}
-          >
-            <Ionicons name="send" size={20} color="white" />
-          </TouchableOpacity>
+          {isBanned ? (
+            <Text style={[styles.bannedText, { color: colors.danger }]}>Your account has been banned from sending messages.</Text>
+          ) : isBlocked ? (
+            <TouchableOpacity style={{ flex: 1 }} onPress={handleToggleBlock}>
+              <Text style={[styles.bannedText, { color: colors.textLight }]}>You blocked this reader. Tap to unblock.</Text>
+            </TouchableOpacity>
+          ) : (
+            <>
+              <TextInput
+                style={[styles.input, { backgroundColor: 'transparent', color: colors.textDark, borderColor: colors.border }]}
+                placeholder="Type a message..."
+                placeholderTextColor={colors.textLight}
+                value={inputText}
+                onChangeText={setInputText}
+                multiline
+                maxLength={2000}
+              />
+              <TouchableOpacity 
+                style={[styles.sendBtn, { backgroundColor: colors.primary }]} 
+                onPress={handleSend}
+                disabled={!inputText.trim()}
+              >
+                <Ionicons name="send" size={20} color="white" />
+              </TouchableOpacity>
+            </>
+          )}
         </View>
       </KeyboardAvoidingView>
 
@@ -193,6 +260,9 @@ const styles = StyleSheet.create({
   theirMsgRow: { alignSelf: 'flex-start' },
   bubble: { paddingHorizontal: 16, paddingVertical: 10, borderRadius: 20 },
   msgText: { fontSize: 15, fontWeight: '500' },
+  statusRow: { flexDirection: 'row', alignItems: 'center', alignSelf: 'flex-end', gap: 2, marginTop: 2 },
+  statusText: { fontSize: 10, fontWeight: '700' },
+  bannedText: { flex: 1, textAlign: 'center', fontSize: 13, fontWeight: '700', paddingVertical: 10 },
   inputArea: { flexDirection: 'row', padding: 16, paddingBottom: Platform.OS === 'ios' ? 32 : 16, alignItems: 'center', borderTopWidth: 1 },
   input: { flex: 1, borderRadius: 24, paddingHorizontal: 16, paddingVertical: 10, fontSize: 15, borderWidth: 1, maxHeight: 100 },
   sendBtn: { width: 44, height: 44, borderRadius: 22, justifyContent: 'center', alignItems: 'center', marginLeft: 12 },
@@ -0,0 +1,616 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet, View, Text, TouchableOpacity, ScrollView, StatusBar, Image, ActivityIndicator, Alert, Modal, TextInput
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, Stack, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Timestamp } from 'firebase/firestore';
+import { COLORS, darkColors } from '../../constants/colors';
+import { DoodleBackground } from '../../components/DoodleBackground';
+import { ReaderPickerModal } from '../../components/ReaderPickerModal';
+import { useTheme } from '../../context/ThemeContext';
+import {
+  addClubMeeting, addClubPickToLibrary, addUpcomingPick, castClubVote, closeClubPoll, Club, ClubBook, ClubPoll,
+  createClubPoll, deleteClub, deleteClubPoll, inviteToClub, removeClubInvite, removeClubMeeting, removeClubMember,
+  removeUpcomingPick, setClubModerator, setCurrentPick, updateClubDetails, useAuthUser, useBooks, useClub, useClubPolls,
+  useClubVotes, usePublicProfile
+} from '../../data';
+import {
+  canModerateClub, findInLibrary, getClubRole, getUpcomingMeetings, MAX_CLUB_MEMBERS, MAX_POLL_OPTIONS, tallyVotes, toClubBook
+} from '../../utils/clubs';
+import { parseDateTime, toDate, toDateInput } from '../../utils/dates';
+import Toast from 'react-native-toast-message';
+
+type Colors = typeof COLORS;
+
+const ROLE_LABELS = { owner: 'Owner', moderator: 'Moderator', member: 'Member' };
+
+const run = async (action: () => Promise<unknown>, errorText: string, successText?: string) => {
+  try {
+    await action();
+    if (successText) Toast.show({ type: 'success', text1: successText });
+  } catch (error) {
+    console.error("Club action error:", error);
+    Toast.show({ type: 'error', text1: 'Error', text2: errorText });
+  }
+};
+
+function BookCover({ book, colors }: { book: ClubBook; colors: Colors }) {
+  return book.coverUrl ? (
+    <Image source={{ uri: book.coverUrl }} style={styles.cover} />
+  ) : (
+    <View style={[styles.cover, { backgroundColor: colors.border, justifyContent: 'center', alignItems: 'center' }]}>
+      <Ionicons name="book-outline" size={18} color={colors.textLight} />
+    </View>
+  );
+}
+
+function PollCard({ club, poll, userId, canModerate, colors }: { club: Club; poll: ClubPoll; userId: string; canModerate: boolean; colors: Colors }) {
+  const votes = useClubVotes(club.id, poll.id);
+  const { counts, total, winner } = tallyVotes(poll, votes);
+  const myVote = votes.find(v => v.id === userId)?.optionId;
+
+  const handleClose = () => {
+    const buttons: { text: string; style?: 'cancel' | 'destructive'; onPress?: () => void }[] = [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Close Poll', onPress: () => run(() => closeClubPoll(club.id, poll.id), 'Could not close the poll.') },
+    ];
+    if (winner) {
+      buttons.push({
+        text: `Close & Pick "${winner.title}"`,
+        onPress: () => run(async () => {
+          await closeClubPoll(club.id, poll.id);
+          await setCurrentPick(club, winner);
+        }, 'Could not close the poll.', 'New pick set'),
+      });
+    }
+    Alert.alert('Close Poll', winner ? `"${winner.title}" is in the lead.` : 'Nobody has voted yet.', buttons);
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+      <View style={styles.pollHeader}>
+        <Text style={[styles.pollQuestion, { color: colors.textDark }]}>{poll.question}</Text>
+        {poll.closed && <Text style={[styles.badgeText, { color: colors.textLight }]}>CLOSED</Text>}
+      </View>
+      {poll.options.map(option => {
+        const share = total ? counts[option.id] / total : 0;
+        const isMine = myVote === option.id;
+        return (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.pollOption, { borderColor: isMine ? colors.primary : colors.border }]}
+            onPress={() => run(() => castClubVote(club.id, poll.id, userId, option.id), 'Could not save your vote.')}
+            disabled={poll.closed}
+          >
+            <View style={[styles.pollFill, { backgroundColor: colors.primary + '20', width: `${Math.round(share * 100)}%` }]} />
+            <Text style={[styles.pollOptionText, { color: colors.textDark }]} numberOfLines={1}>{option.title}</Text>
+            <Text style={[styles.pollCount, { color: isMine ? colors.primary : colors.textLight }]}>{counts[option.id]}</Text>
+          </TouchableOpacity>
+        );
+      })}
+      <View style={styles.pollFooter}>
+        <Text style={[styles.metaText, { color: colors.textLight }]}>{total} {total === 1 ? 'vote' : 'votes'}</Text>
+        {canModerate && (
+          <View style={styles.inlineActions}>
+            {!poll.closed && (
+              <TouchableOpacity onPress={handleClose}>
+                <Text style={[styles.linkText, { color: colors.primary }]}>Close</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={() => run(() => deleteClubPoll(club.id, poll.id), 'Could not delete the poll.')}>
+              <Text style={[styles.linkText, { color: colors.danger }]}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+function MemberRow({ club, memberId, userId, colors }: { club: Club; memberId: string; userId: string; colors: Colors }) {
+  const router = useRouter();
+  const { profile } = usePublicProfile(memberId);
+  const role = getClubRole(club, memberId);
+  const myRole = getClubRole(club, userId);
+  const name = profile?.username || 'Reader';
+
+  // Owners manage roles; moderators can only remove regular members
+  const openActions = () => {
+    const buttons: { text: string; style?: 'cancel' | 'destructive'; onPress?: () => void }[] = [
+      { text: 'View Profile', onPress: () => router.push(`/profile/${memberId}`) },
+    ];
+    if (myRole === 'owner' && role !== 'owner') {
+      buttons.push({
+        text: role === 'moderator' ? 'Remove Moderator' : 'Make Moderator',
+        onPress: () => run(() => setClubModerator(club.id, memberId, role !== 'moderator'), 'Could not change the role.'),
+      });
+    }
+    if (role === 'member' && (myRole === 'owner' || myRole === 'moderator') || (myRole === 'owner' && role === 'moderator')) {
+      buttons.push({
+        text: 'Remove from Club',
+        style: 'destructive',
+        onPress: () => run(() => removeClubMember(club.id, memberId), 'Could not remove the member.'),
+      });
+    }
+    buttons.push({ text: 'Cancel', style: 'cancel' });
+    Alert.alert(name, role ? ROLE_LABELS[role] : undefined, buttons);
+  };
+
+  return (
+    <TouchableOpacity style={[styles.memberRow, { borderBottomColor: colors.border }]} onPress={memberId === userId ? undefined : openActions}>
+      <Image source={{ uri: `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}&background=random` }} style={styles.avatar} />
+      <Text style={[styles.memberName, { color: colors.textDark }]} numberOfLines={1}>{memberId === userId ? 'You' : name}</Text>
+      {role && role !== 'member' && <Text style={[styles.badgeText, { color: colors.secondary }]}>{ROLE_LABELS[role].toUpperCase()}</Text>}
+    </TouchableOpacity>
+  );
+}
+
+export default function ClubScreen() {
+  const { id } = useLocalSearchParams();
+  const router = useRouter();
+  const { theme } = useTheme();
+  const colors = theme === 'dark' ? darkColors : COLORS;
+  const user = useAuthUser();
+
+  const clubId = (Array.isArray(id) ? id[0] : id) || null;
+  const { club, loading } = useClub(clubId);
+  const polls = useClubPolls(clubId);
+  const { books } = useBooks();
+
+  const [pickerMode, setPickerMode] = useState<'current' | 'upcoming' | null>(null);
+  const [pollVisible, setPollVisible] = useState(false);
+  const [pollQuestion, setPollQuestion] = useState('');
+  const [pollOptions, setPollOptions] = useState<ClubBook[]>([]);
+  const [meetingVisible, setMeetingVisible] = useState(false);
+  const [meetingDate, setMeetingDate] = useState('');
+  const [meetingTime, setMeetingTime] = useState('19:00');
+  const [meetingTitle, setMeetingTitle] = useState('');
+  const [meetingLocation, setMeetingLocation] = useState('');
+  const [detailsVisible, setDetailsVisible] = useState(false);
+  const [clubName, setClubName] = useState('');
+  const [clubDescription, setClubDescription] = useState('');
+  const [inviteVisible, setInviteVisible] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const role = club && user ? getClubRole(club, user.uid) : null;
+  const canModerate = !!club && !!user && canModerateClub(club, user.uid);
+  const meetings = club ? getUpcomingMeetings(club) : [];
+
+  const handleAddToLibrary = (pick: ClubBook) => {
+    if (!user) return;
+    run(() => addClubPickToLibrary(user.uid, pick), 'Could not add the book.', 'Added to your To Read list');
+  };
+
+  const handlePickBook = (pick: ClubBook) => {
+    if (!club) return;
+    const mode = pickerMode;
+    setPickerMode(null);
+    if (mode === 'current') run(() => setCurrentPick(club, pick), 'Could not set the pick.');
+    else run(() => addUpcomingPick(club, pick), 'Could not add the pick.');
+  };
+
+  const openPollEditor = () => {
+    setPollQuestion('What should we read next?');
+    setPollOptions(club ? club.upcomingPicks.slice(0, MAX_POLL_OPTIONS) : []);
+    setPollVisible(true);
+  };
+
+  const togglePollOption = (pick: ClubBook) => {
+    if (pollOptions.some(o => o.id === pick.id)) setPollOptions(pollOptions.filter(o => o.id !== pick.id));
+    else if (pollOptions.length < MAX_POLL_OPTIONS) setPollOptions([...pollOptions, pick]);
+  };
+
+  const handleCreatePoll = async () => {
+    if (!club || !user) return;
+    if (pollOptions.length < 2) {
+      Toast.show({ type: 'error', text1: 'Not Enough Options', text2: 'Pick at least two books to vote on.' });
+      return;
+    }
+    setIsSaving(true);
+    await run(async () => {
+      await createClubPoll(club.id, user.uid, pollQuestion.trim() || 'What should we read next?', pollOptions);
+      setPollVisible(false);
+    }, 'Could not create the poll.');
+    setIsSaving(false);
+  };
+
+  const openMeetingEditor = () => {
+    const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+    setMeetingDate(toDateInput(nextWeek));
+    setMeetingTime('19:00');
+    setMeetingTitle(club?.currentPick ? `Discussing ${club.currentPick.title}` : '');
+    setMeetingLocation('');
+    setMeetingVisible(true);
+  };
+
+  const handleAddMeeting = async () => {
+    if (!club) return;
+    const startsAt = parseDateTime(meetingDate, meetingTime);
+    if (!startsAt) {
+      Toast.show({ type: 'error', text1: 'Invalid Date', text2: 'Use YYYY-MM-DD and HH:MM.' });
+      return;
+    }
+    if (startsAt.getTime() <= Date.now()) {
+      Toast.show({ type: 'error', text1: 'Invalid Date', text2: 'Meetings must be in the future.' });
+      return;
+    }
+    setIsSaving(true);
+    await run(async () => {
+      await addClubMeeting(club, {
+        startsAt: Timestamp.fromDate(startsAt),
+        title: meetingTitle.trim(),
+        location: meetingLocation.trim(),
+      });
+      setMeetingVisible(false);
+    }, 'Could not schedule the meeting.', 'Meeting scheduled');
+    setIsSaving(false);
+  };
+
+  const openDetailsEditor = () => {
+    setClubName(club?.name || '');
+    setClubDescription(club?.description || '');
+    setDetailsVisible(true);
+  };
+
+  const handleSaveDetails = async () => {
+    if (!club || !clubName.trim()) return;
+    setIsSaving(true);
+    await run(async () => {
+      await updateClubDetails(club.id, { name: clubName.trim().slice(0, 60), description: clubDescription.trim() });
+      setDetailsVisible(false);
+    }, 'Could not save the club.');
+    setIsSaving(false);
+  };
+
+  const handleInvite = async (readers: { id: string }[]) => {
+    if (!club) return;
+    await run(async () => {
+      await inviteToClub(club.id, readers.map(r => r.id));
+      setInviteVisible(false);
+    }, 'Could not send the invites.', 'Invites sent');
+  };
+
+  const handleLeave = () => {
+    if (!club || !user) return;
+    const isOwner = role === 'owner';
+    Alert.alert(
+      isOwner ? 'Delete Club' : 'Leave Club',
+      isOwner ? `Delete ${club.name} for every member? This can't be undone.` : `Leave ${club.name}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: isOwner ? 'Delete' : 'Leave', style: 'destructive', onPress: () => run(async () => {
+            await (isOwner ? deleteClub(club.id) : removeClubMember(club.id, user.uid));
+            router.back();
+          }, 'Please try again.')
+        },
+      ]
+    );
+  };
+
+  const renderPick = (pick: ClubBook, isCurrent: boolean) => {
+    const inLibrary = !!findInLibrary(pick, books);
+    return (
+      <View key={pick.id} style={[styles.card, styles.pickRow, { backgroundColor: colors.card, borderColor: isCurrent ? colors.primary : colors.border }]}>
+        <BookCover book={pick} colors={colors} />
+        <View style={{ flex: 1 }}>
+          <Text style={[styles.bookTitle, { color: colors.textDark }]} numberOfLines={2}>{pick.title}</Text>
+          <Text style={[styles.bookAuthor, { color: colors.textLight }]} numberOfLines={1}>{pick.author}</Text>
+          <View style={styles.inlineActions}>
+            <TouchableOpacity onPress={() => handleAddToLibrary(pick)} disabled={inLibrary}>
+              <Text style={[styles.linkText, { color: inLibrary ? colors.textLight : colors.primary }]}>
+                {inLibrary ? 'In Your Library' : '+ To Read'}
+              </Text>
+            </TouchableOpacity>
+            {canModerate && !isCurrent && (
+              <TouchableOpacity onPress={() => club && run(() => setCurrentPick(club, pick), 'Could not set the pick.')}>
+                <Text style={[styles.linkText, { color: colors.primary }]}>Make Current</Text>
+              </TouchableOpacity>
+            )}
+            {canModerate && (
+              <TouchableOpacity
+                onPress={() => club && run(
+                  () => (isCurrent ? setCurrentPick(club, null) : removeUpcomingPick(club, pick.id)),
+                  'Could not remove the pick.'
+                )}
+              >
+                <Text style={[styles.linkText, { color: colors.danger }]}>Remove</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  const renderSectionHeader = (title: string, action?: { label: string; onPress: () => void }) => (
+    <View style={styles.sectionHeader}>
+      <Text style={[styles.sectionTitle, { color: colors.textLight }]}>{title}</Text>
+      {action && (
+        <TouchableOpacity onPress={action.onPress} style={styles.sectionAction}>
+          <Ionicons name="add" size={16} color={colors.primary} />
+          <Text style={[styles.linkText, { color: colors.primary }]}>{action.label}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  const pickableBooks = club
+    ? books.filter(b => b.id !== club.currentPick?.id && !club.upcomingPicks.some(p => p.id === b.id))
+    : [];
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+      <DoodleBackground colors={colors} />
+      <StatusBar barStyle={theme === 'dark' ? 'light-content' : 'dark-content'} />
+      <Stack.Screen options={{
+        headerShown: true,
+        headerTitle: club?.name || 'Club',
+        headerTitleAlign: 'center',
+        headerTintColor: colors.textDark,
+        headerStyle: { backgroundColor: colors.card },
+        headerTitleStyle: { fontWeight: '900', fontSize: 18 },
+        headerLeft: () => (
+          <TouchableOpacity onPress={() => router.back()} style={styles.headerBtn}>
+            <Ionicons name="chevron-back" size={28} color={colors.textDark} />
+          </TouchableOpacity>
+        ),
+        headerRight: () => (canModerate ? (
+          <TouchableOpacity onPress={openDetailsEditor} style={styles.headerBtn}>
+            <Ionicons name="create-outline" size={24} color={colors.textDark} />
+          </TouchableOpacity>
+        ) : null),
+      }} />
+
+      {loading ? (
+        <View style={styles.center}><ActivityIndicator size="large" color={colors.primary} /></View>
+      ) : !club || !user || !role ? (
+        <View style={styles.center}>
+          <Ionicons name="cafe-outline" size={64} color={colors.border} />
+          <Text style={[styles.emptyText, { color: colors.textLight }]}>This club was deleted or you are no longer a member.</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          {club.description ? <Text style={[styles.description, { color: colors.textLight }]}>{club.description}</Text> : null}
+
+          {renderSectionHeader('CURRENT PICK', canModerate ? { label: club.currentPick ? 'Change' : 'Set', onPress: () => setPickerMode('current') } : undefined)}
+          {club.currentPick
+            ? renderPick(club.currentPick, true)
+            : <Text style={[styles.emptyText, { color: colors.textLight }]}>No book picked yet.</Text>}
+
+          {renderSectionHeader('UP NEXT', canModerate ? { label: 'Add', onPress: () => setPickerMode('upcoming') } : undefined)}
+          {club.upcomingPicks.length
+            ? club.upcomingPicks.map(pick => renderPick(pick, false))
+            : <Text style={[styles.emptyText, { color: colors.textLight }]}>The backlog is empty.</Text>}
+
+          {renderSectionHeader('POLLS', canModerate && club.upcomingPicks.length >= 2 ? { label: 'New Poll', onPress: openPollEditor } : undefined)}
+          {polls.length
+            ? polls.map(poll => <PollCard key={poll.id} club={club} poll={poll} userId={user.uid} canModerate={canModerate} colors={colors} />)
+            : <Text style={[styles.emptyText, { color: colors.textLight }]}>No polls yet.</Text>}
+
+          {renderSectionHeader('MEETINGS', canModerate ? { label: 'Schedule', onPress: openMeetingEditor } : undefined)}
+          {meetings.length ? meetings.map(meeting => (
+            <View key={meeting.id} style={[styles.card, styles.meetingRow, { backgroundColor: colors.card, borderColor: colors.border }]}>
+              <Ionicons name="calendar-outline" size={22} color={colors.primary} />
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.bookTitle, { color: colors.textDark }]}>{meeting.title || 'Club meeting'}</Text>
+                <Text style={[styles.bookAuthor, { color: colors.textLight }]}>
+                  {toDate(meeting.startsAt)?.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                  {meeting.location ? ` • ${meeting.location}` : ''}
+                </Text>
+              </View>
+              {canModerate && (
+                <TouchableOpacity onPress={() => run(() => removeClubMeeting(club, meeting.id), 'Could not cancel the meeting.')}>
+                  <Ionicons name="trash-outline" size={18} color={colors.textLight} />
+                </TouchableOpacity>
+              )}
+            </View>
+          )) : <Text style={[styles.emptyText, { color: colors.textLight }]}>No meetings scheduled. You&apos;ll get a reminder before each one.</Text>}
+
+          {renderSectionHeader(
+            `MEMBERS (${club.memberIds.length})`,
+            canModerate && club.memberIds.length + club.invitedIds.length < MAX_CLUB_MEMBERS ? { label: 'Invite', onPress: () => setInviteVisible(true) } : undefined
+          )}
+          <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            {club.memberIds.map(memberId => <MemberRow key={memberId} club={club} memberId={memberId} userId={user.uid} colors={colors} />)}
+            {canModerate && club.invitedIds.length > 0 && (
+              <TouchableOpacity
+                style={styles.pendingRow}
+                onPress={() => Alert.alert('Pending Invites', `${club.invitedIds.length} invite(s) waiting for a reply.`, [
+                  { text: 'Keep', style: 'cancel' },
+                  { text: 'Withdraw All', style: 'destructive', onPress: () => club.invitedIds.forEach(uid => run(() => removeClubInvite(club.id, uid), 'Could not withdraw the invite.')) },
+                ])}
+              >
+                <Text style={[styles.metaText, { color: colors.textLight }]}>{club.invitedIds.length} pending {club.invitedIds.length === 1 ? 'invite' : 'invites'}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <TouchableOpacity style={styles.leaveBtn} onPress={handleLeave}>
+            <Text style={[styles.linkText, { color: colors.danger }]}>{role === 'owner' ? 'Delete Club' : 'Leave Club'}</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+
+      {/* BOOK PICKER */}
+      <Modal visible={!!pickerMode} animationType="slide" transparent onRequestClose={() => setPickerMode(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textDark }]}>{pickerMode === 'current' ? 'Current Pick' : 'Add to Backlog'}</Text>
+              <TouchableOpacity onPress={() => setPickerMode(null)}><Ionicons name="close" size={24} color={colors.textDark} /></TouchableOpacity>
+            </View>
+            <ScrollView style={{ width: '100%' }} showsVerticalScrollIndicator={false}>
+              {pickerMode === 'current' && club?.upcomingPicks.map(pick => (
+                <TouchableOpacity key={pick.id} style={[styles.optionRow, { borderBottomColor: colors.border }]} onPress={() => handlePickBook(pick)}>
+                  <Ionicons name="arrow-up-circle-outline" size={20} color={colors.primary} />
+                  <Text style={[styles.optionText, { color: colors.textDark }]} numberOfLines={1}>{pick.title}</Text>
+                </TouchableOpacity>
+              ))}
+              {pickableBooks.map(book => (
+                <TouchableOpacity key={book.id} style={[styles.optionRow, { borderBottomColor: colors.border }]} onPress={() => handlePickBook(toClubBook(book))}>
+                  <Ionicons name="book-outline" size={20} color={colors.textLight} />
+                  <Text style={[styles.optionText, { color: colors.textDark }]} numberOfLines={1}>{book.title}</Text>
+                </TouchableOpacity>
+              ))}
+              {pickableBooks.length === 0 && (
+                <Text style={[styles.emptyText, { color: colors.textLight }]}>Add the book to your library first, then pick it here.</Text>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
+      {/* POLL EDITOR */}
+      <Modal visible={pollVisible} animationType="slide" transparent onRequestClose={() => setPollVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textDark }]}>New Poll</Text>
+              <TouchableOpacity onPress={() => setPollVisible(false)}><Ionicons name="close" size={24} color={colors.textDark} /></TouchableOpacity>
+            </View>
+            <ScrollView style={{ width: '100%' }} showsVerticalScrollIndicator={false}>
+              <Text style={styles.inputLabel}>Question</Text>
+              <TextInput
+                style={[styles.input, { color: colors.textDark, borderColor: colors.border }]}
+                value={pollQuestion}
+                onChangeText={setPollQuestion}
+                placeholderTextColor={colors.textLight}
+                maxLength={120}
+              />
+              <Text style={styles.inputLabel}>Options from the backlog</Text>
+              {club?.upcomingPicks.map(pick => {
+                const selected = pollOptions.some(o => o.id === pick.id);
+                return (
+                  <TouchableOpacity key={pick.id} style={[styles.optionRow, { borderBottomColor: colors.border }]} onPress={() => togglePollOption(pick)}>
+                    <Ionicons name={selected ? 'checkbox' : 'square-outline'} size={20} color={selected ? colors.primary : colors.textLight} />
+                    <Text style={[styles.optionText, { color: colors.textDark }]} numberOfLines={1}>{pick.title}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+              <TouchableOpacity style={[styles.saveBtn, { backgroundColor: colors.primary }]} onPress={handleCreatePoll} disabled={isSaving}>
+                {isSaving ? <ActivityIndicator color="white" /> : <Text style={styles.saveBtnText}>Start Poll</Text>}
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
+      {/* MEETING EDITOR */}
+      <Modal visible={meetingVisible} animationType="slide" transparent onRequestClose={() => setMeetingVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textDark }]}>Meeting</Text>
+              <TouchableOpacity onPress={() => setMeetingVisible(false)}><Ionicons name="close" size={24} color={colors.textDark} /></TouchableOpacity>
+            </View>
+            <ScrollView style={{ width: '100%' }} showsVerticalScrollIndicator={false}>
+              <View style={styles.inputRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.inputLabel}>Date</Text>
+                  <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={meetingDate} onChangeText={setMeetingDate} placeholder="YYYY-MM-DD" placeholderTextColor={colors.textLight} />
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.inputLabel}>Time</Text>
+                  <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={meetingTime} onChangeText={setMeetingTime} placeholder="HH:MM" placeholderTextColor={colors.textLight} />
+                </View>
+              </View>
+              <Text style={styles.inputLabel}>Title</Text>
+              <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={meetingTitle} onChangeText={setMeetingTitle} placeholder="Club meeting" placeholderTextColor={colors.textLight} maxLength={80} />
+              <Text style={styles.inputLabel}>Location</Text>
+              <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={meetingLocation} onChangeText={setMeetingLocation} placeholder="Room 4B or a video link (optional)" placeholderTextColor={colors.textLight} maxLength={120} />
+              <TouchableOpacity style={[styles.saveBtn, { backgroundColor: colors.primary }]} onPress={handleAddMeeting} disabled={isSaving}>
+                {isSaving ? <ActivityIndicator color="white" /> : <Text style={styles.saveBtnText}>Schedule</Text>}
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
+      {/* CLUB DETAILS */}
+      <Modal visible={detailsVisible} animationType="slide" transparent onRequestClose={() => setDetailsVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textDark }]}>Edit Club</Text>
+              <TouchableOpacity onPress={() => setDetailsVisible(false)}><Ionicons name="close" size={24} color={colors.textDark} /></TouchableOpacity>
+            </View>
+            <Text style={styles.inputLabel}>Name</Text>
+            <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={clubName} onChangeText={setClubName} maxLength={60} placeholderTextColor={colors.textLight} />
+            <Text style={styles.inputLabel}>Description</Text>
+            <TextInput
+              style={[styles.input, styles.multilineInput, { color: colors.textDark, borderColor: colors.border }]}
+              value={clubDescription}
+              onChangeText={setClubDescription}
+              multiline
+              textAlignVertical="top"
+              placeholderTextColor={colors.textLight}
+            />
+            <TouchableOpacity style={[styles.saveBtn, { backgroundColor: colors.primary }]} onPress={handleSaveDetails} disabled={isSaving || !clubName.trim()}>
+              {isSaving ? <ActivityIndicator color="white" /> : <Text style={styles.saveBtnText}>Save</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      <ReaderPickerModal
+        visible={inviteVisible}
+        colors={colors}
+        title="Invite Members"
+        confirmLabel="Send Invites"
+        excludeIds={club ? [...club.memberIds, ...club.invitedIds] : []}
+        maxSelected={club ? MAX_CLUB_MEMBERS - club.memberIds.length - club.invitedIds.length : 0}
+        onClose={() => setInviteVisible(false)}
+        onConfirm={handleInvite}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  center: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 24 },
+  headerBtn: { padding: 8, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
+  scrollContent: { padding: 20, paddingBottom: 60 },
+  description: { fontSize: 14, fontWeight: '600', marginBottom: 8 },
+  emptyText: { textAlign: 'center', fontSize: 14, fontWeight: '600', marginVertical: 8 },
+  sectionHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginTop: 20, marginBottom: 10 },
+  sectionTitle: { fontSize: 12, fontWeight: '900', letterSpacing: 1.5, marginLeft: 8, opacity: 0.5 },
+  sectionAction: { flexDirection: 'row', alignItems: 'center', gap: 2 },
+  card: { borderRadius: 20, borderWidth: 1, padding: 14, marginBottom: 10 },
+  pickRow: { flexDirection: 'row', gap: 12 },
+  meetingRow: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+  cover: { width: 48, height: 72, borderRadius: 6 },
+  bookTitle: { fontSize: 15, fontWeight: '800' },
+  bookAuthor: { fontSize: 13, fontWeight: '600', marginTop: 2 },
+  inlineActions: { flexDirection: 'row', flexWrap: 'wrap', gap: 16, marginTop: 8 },
+  linkText: { fontSize: 13, fontWeight: '900' },
+  metaText: { fontSize: 12, fontWeight: '700' },
+  badgeText: { fontSize: 10, fontWeight: '900', letterSpacing: 0.5 },
+  pollHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 },
+  pollQuestion: { flex: 1, fontSize: 15, fontWeight: '900' },
+  pollOption: { flexDirection: 'row', alignItems: 'center', borderWidth: 1, borderRadius: 12, paddingHorizontal: 12, height: 40, marginBottom: 8, overflow: 'hidden' },
+  pollFill: { position: 'absolute', left: 0, top: 0, bottom: 0 },
+  pollOptionText: { flex: 1, fontSize: 14, fontWeight: '700' },
+  pollCount: { fontSize: 13, fontWeight: '900' },
+  pollFooter: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  memberRow: { flexDirection: 'row', alignItems: 'center', gap: 12, paddingVertical: 8, borderBottomWidth: 1 },
+  avatar: { width: 32, height: 32, borderRadius: 16 },
+  memberName: { flex: 1, fontSize: 15, fontWeight: '700' },
+  pendingRow: { paddingTop: 10 },
+  leaveBtn: { alignItems: 'center', marginTop: 24, padding: 12 },
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.7)', justifyContent: 'center', alignItems: 'center', padding: 24 },
+  modalContent: { width: '100%', maxWidth: 400, maxHeight: '85%', borderRadius: 28, padding: 24, alignItems: 'center', elevation: 10 },
+  modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8, width: '100%' },
+  modalTitle: { fontSize: 22, fontWeight: '900', textTransform: 'uppercase', letterSpacing: 1 },
+  optionRow: { flexDirection: 'row', alignItems: 'center', gap: 12, paddingVertical: 12, borderBottomWidth: 1 },
+  optionText: { flex: 1, fontSize: 15, fontWeight: '700' },
+  inputRow: { flexDirection: 'row', gap: 12 },
+  inputLabel: { fontSize: 13, fontWeight: '800', marginBottom: 8, marginTop: 16, textTransform: 'uppercase', opacity: 0.6, alignSelf: 'flex-start' },
+  input: { width: '100%', borderWidth: 1, borderRadius: 16, paddingHorizontal: 16, paddingVertical: 12, fontSize: 16 },
+  multilineInput: { height: 100 },
+  saveBtn: { height: 56, borderRadius: 16, justifyContent: 'center', alignItems: 'center', width: '100%', marginTop: 24 },
+  saveBtnText: { color: 'white', fontSize: 16, fontWeight: '900', textTransform: 'uppercase' },
+});
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet, View, Text, TouchableOpacity, FlatList, StatusBar, ActivityIndicator, Modal, TextInput
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, darkColors } from '../../constants/colors';
+import { DoodleBackground } from '../../components/DoodleBackground';
+import { useTheme } from '../../context/ThemeContext';
+import { acceptClubInvite, Club, createClub, removeClubInvite, useAuthUser, useClubs } from '../../data';
+import { getClubRole, getUpcomingMeetings } from '../../utils/clubs';
+import { toDate } from '../../utils/dates';
+import Toast from 'react-native-toast-message';
+
+const ROLE_LABELS = { owner: 'Owner', moderator: 'Moderator', member: 'Member' };
+
+export default function ClubsScreen() {
+  const router = useRouter();
+  const { theme } = useTheme();
+  const colors = theme === 'dark' ? darkColors : COLORS;
+  const user = useAuthUser();
+  const { clubs, invites, loading } = useClubs();
+
+  const [createVisible, setCreateVisible] = useState(false);
+  const [clubName, setClubName] = useState('');
+  const [clubDescription, setClubDescription] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleCreate = async () => {
+    if (!user) return;
+    if (!clubName.trim()) {
+      Toast.show({ type: 'error', text1: 'Missing Name', text2: 'Give your club a name.' });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const clubId = await createClub(user.uid, clubName.trim().slice(0, 60), clubDescription.trim());
+      setCreateVisible(false);
+      setClubName('');
+      setClubDescription('');
+      router.push(`/clubs/${clubId}`);
+    } catch (error) {
+      console.error("Create club error:", error);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Could not create the club.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRespond = async (club: Club, accept: boolean) => {
+    if (!user) return;
+    try {
+      if (accept) {
+        await acceptClubInvite(club.id, user.uid);
+        router.push(`/clubs/${club.id}`);
+      } else {
+        await removeClubInvite(club.id, user.uid);
+      }
+    } catch (error) {
+      console.error("Club invite error:", error);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Could not update the invite.' });
+    }
+  };
+
+  const renderClub = ({ item }: { item: Club }) => {
+    const role = user ? getClubRole(item, user.uid) : null;
+    const nextMeeting = getUpcomingMeetings(item)[0];
+    return (
+      <TouchableOpacity
+        style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}
+        onPress={() => router.push(`/clubs/${item.id}`)}
+      >
+        <View style={[styles.clubIcon, { backgroundColor: colors.primary + '15' }]}>
+          <Ionicons name="cafe" size={22} color={colors.primary} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <View style={styles.nameRow}>
+            <Text style={[styles.clubName, { color: colors.textDark }]} numberOfLines={1}>{item.name}</Text>
+            {role && role !== 'member' && <Text style={[styles.roleText, { color: colors.secondary }]}>{ROLE_LABELS[role].toUpperCase()}</Text>}
+          </View>
+          <Text style={[styles.subText, { color: colors.textLight }]} numberOfLines={1}>
+            {item.currentPick ? `Reading ${item.currentPick.title}` : 'No current pick'}
+          </Text>
+          {nextMeeting && (
+            <Text style={[styles.subText, { color: colors.primary }]} numberOfLines={1}>
+              Next meeting {toDate(nextMeeting.startsAt)?.toLocaleDateString()}
+            </Text>
+          )}
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={colors.textLight} />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+      <DoodleBackground colors={colors} />
+      <StatusBar barStyle={theme === 'dark' ? 'light-content' : 'dark-content'} />
+      <Stack.Screen options={{
+        headerShown: true,
+        headerTitle: 'Book Clubs',
+        headerTitleAlign: 'center',
+        headerTintColor: colors.textDark,
+        headerStyle: { backgroundColor: colors.card },
+        headerTitleStyle: { fontWeight: '900', fontSize: 18 },
+        headerLeft: () => (
+          <TouchableOpacity onPress={() => router.back()} style={styles.headerBtn}>
+            <Ionicons name="chevron-back" size={28} color={colors.textDark} />
+          </TouchableOpacity>
+        ),
+        headerRight: () => (
+          <TouchableOpacity onPress={() => setCreateVisible(true)} style={styles.headerBtn}>
+            <Ionicons name="add" size={28} color={colors.textDark} />
+          </TouchableOpacity>
+        ),
+      }} />
+
+      {loading ? (
+        <View style={styles.center}><ActivityIndicator size="large" color={colors.primary} /></View>
+      ) : (
+        <FlatList
+          data={clubs}
+          renderItem={renderClub}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+          ListHeaderComponent={invites.length > 0 ? (
+            <View>
+              <Text style={[styles.sectionTitle, { color: colors.textLight }]}>INVITES</Text>
+              {invites.map(invite => (
+                <View key={invite.id} style={[styles.card, { backgroundColor: colors.card, borderColor: colors.primary }]}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.clubName, { color: colors.textDark }]} numberOfLines={1}>{invite.name}</Text>
+                    <Text style={[styles.subText, { color: colors.textLight }]} numberOfLines={1}>
+                      {invite.memberIds.length} {invite.memberIds.length === 1 ? 'member' : 'members'}
+                    </Text>
+                  </View>
+                  <TouchableOpacity style={[styles.respondBtn, { backgroundColor: colors.primary }]} onPress={() => handleRespond(invite, true)}>
+                    <Ionicons name="checkmark" size={18} color="white" />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={[styles.respondBtn, { borderColor: colors.border, borderWidth: 1 }]} onPress={() => handleRespond(invite, false)}>
+                    <Ionicons name="close" size={18} color={colors.textLight} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <Text style={[styles.sectionTitle, { color: colors.textLight }]}>YOUR CLUBS</Text>
+            </View>
+          ) : null}
+          ListEmptyComponent={
+            <View style={styles.center}>
+              <Ionicons name="cafe-outline" size={64} color={colors.border} />
+              <Text style={[styles.emptyText, { color: colors.textLight }]}>
+                Start a club to pick books, vote on what&apos;s next and plan meetings together.
+              </Text>
+            </View>
+          }
+        />
+      )}
+
+      <Modal visible={createVisible} animationType="slide" transparent onRequestClose={() => setCreateVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textDark }]}>New Club</Text>
+              <TouchableOpacity onPress={() => setCreateVisible(false)}><Ionicons name="close" size={24} color={colors.textDark} /></TouchableOpacity>
+            </View>
+            <Text style={styles.inputLabel}>Name</Text>
+            <TextInput
+              style={[styles.input, { color: colors.textDark, borderColor: colors.border }]}
+              value={clubName}
+              onChangeText={setClubName}
+              placeholder="Monday Night Readers"
+              placeholderTextColor={colors.textLight}
+              maxLength={60}
+            />
+            <Text style={styles.inputLabel}>Description</Text>
+            <TextInput
+              style={[styles.input, styles.multilineInput, { color: colors.textDark, borderColor: colors.border }]}
+              value={clubDescription}
+              onChangeText={setClubDescription}
+              placeholder="What the club reads and when it meets (optional)"
+              placeholderTextColor={colors.textLight}
+              multiline
+              textAlignVertical="top"
+            />
+            <TouchableOpacity style={[styles.saveBtn, { backgroundColor: colors.primary }]} onPress={handleCreate} disabled={isSaving}>
+              {isSaving ? <ActivityIndicator color="white" /> : <Text style={styles.saveBtnText}>Create Club</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  center: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 24 },
+  headerBtn: { padding: 8, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
+  listContent: { padding: 20, paddingBottom: 60, flexGrow: 1 },
+  emptyText: { textAlign: 'center', fontSize: 14, fontWeight: '600', marginTop: 16 },
+  sectionTitle: { fontSize: 12, fontWeight: '900', letterSpacing: 1.5, marginBottom: 10, marginLeft: 8, opacity: 0.5 },
+  card: { flexDirection: 'row', alignItems: 'center', gap: 12, borderRadius: 20, borderWidth: 1, padding: 14, marginBottom: 10 },
+  clubIcon: { width: 44, height: 44, borderRadius: 22, justifyContent: 'center', alignItems: 'center' },
+  nameRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  clubName: { flexShrink: 1, fontSize: 16, fontWeight: '900' },
+  roleText: { fontSize: 10, fontWeight: '900', letterSpacing: 0.5 },
+  subText: { fontSize: 12, fontWeight: '600', marginTop: 2 },
+  respondBtn: { width: 36, height: 36, borderRadius: 18, justifyContent: 'center', alignItems: 'center' },
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.7)', justifyContent: 'center', alignItems: 'center', padding: 24 },
+  modalContent: { width: '100%', maxWidth: 400, maxHeight: '85%', borderRadius: 28, padding: 24, alignItems: 'center', elevation: 10 },
+  modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8, width: '100%' },
+  modalTitle: { fontSize: 22, fontWeight: '900', textTransform: 'uppercase', letterSpacing: 1 },
+  inputLabel: { fontSize: 13, fontWeight: '800', marginBottom: 8, marginTop: 16, textTransform: 'uppercase', opacity: 0.6, alignSelf: 'flex-start' },
+  input: { width: '100%', borderWidth: 1, borderRadius: 16, paddingHorizontal: 16, paddingVertical: 12, fontSize: 16 },
+  multilineInput: { height: 100 },
+  saveBtn: { height: 56, borderRadius: 16, justifyContent: 'center', alignItems: 'center', width: '100%', marginTop: 24 },
+  saveBtnText: { color: 'white', fontSize: 16, fontWeight: '900', textTransform: 'uppercase' },
+});
@@ -0,0 +1,361 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet, View, Text, TouchableOpacity, FlatList, StatusBar, Image, ActivityIndicator, Alert, Modal, TextInput,
+  RefreshControl
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { DocumentSnapshot } from 'firebase/firestore';
+import { COLORS, darkColors } from '../constants/colors';
+import { DoodleBackground } from '../components/DoodleBackground';
+import { useTheme } from '../context/ThemeContext';
+import {
+  Activity, addActivityComment, deleteActivity, deleteActivityComment, FeedItem, fetchFeedPage, MAX_COMMENT_LENGTH,
+  setActivityLiked, useActivity, useActivityComments, useActivityLike, usePublicProfile, useUserProfile
+} from '../data';
+import { ACHIEVEMENT_DEFINITIONS } from '../utils/achievements';
+import { toDate } from '../utils/dates';
+import Toast from 'react-native-toast-message';
+
+type Colors = typeof COLORS;
+
+const formatTime = (value: any) => toDate(value)?.toLocaleDateString() || '';
+
+const describeActivity = (activity: Activity) => {
+  switch (activity.type) {
+    case 'finished':
+      return activity.rating ? `finished a book and rated it ${activity.rating}★` : 'finished a book';
+    case 'rated':
+      return `rated a book ${activity.rating}★`;
+    case 'trophy': {
+      const trophy = ACHIEVEMENT_DEFINITIONS.find(d => d.id === activity.achievementId);
+      return `unlocked the ${trophy?.title || 'a new'} trophy`;
+    }
+    case 'goal':
+      return `reached their ${activity.year} goal of ${activity.goal} books`;
+  }
+};
+
+const ACTIVITY_ICONS: Record<Activity['type'], React.ComponentProps<typeof Ionicons>['name']> = {
+  finished: 'checkmark-circle',
+  rated: 'star',
+  trophy: 'trophy',
+  goal: 'flag',
+};
+
+interface ActivityCardProps {
+  item: FeedItem;
+  viewerId: string;
+  colors: Colors;
+  onOpenComments: (activity: Activity) => void;
+  onOpenProfile: (userId: string) => void;
+}
+
+function ActivityCard({ item, viewerId, colors, onOpenComments, onOpenProfile }: ActivityCardProps) {
+  const { activity } = useActivity(item.activityId);
+  const { profile: actor } = usePublicProfile(item.actorId);
+  const liked = useActivityLike(item.activityId, viewerId);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Removed events, and events whose owner has since narrowed their privacy, drop out of the feed
+  if (!activity) return null;
+  const isOwner = activity.userId === viewerId;
+
+  const handleLike = async () => {
+    setIsSaving(true);
+    try {
+      await setActivityLiked(activity.id, viewerId, !liked);
+    } catch (error) {
+      console.error("Like error:", error);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Could not update like.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert('Remove Activity', 'Remove this from your activity feed?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove', style: 'destructive', onPress: async () => {
+          try {
+            await deleteActivity(activity.id);
+          } catch (error) {
+            console.error("Delete activity error:", error);
+            Toast.show({ type: 'error', text1: 'Error', text2: 'Could not remove activity.' });
+          }
+        }
+      },
+    ]);
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+      <View style={styles.cardHeader}>
+        <TouchableOpacity style={styles.actorRow} onPress={() => onOpenProfile(activity.userId)}>
+          <View style={[styles.typeIcon, { backgroundColor: colors.primary + '15' }]}>
+            <Ionicons name={ACTIVITY_ICONS[activity.type]} size={18} color={colors.primary} />
+          </View>
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.activityText, { color: colors.textDark }]}>
+              <Text style={styles.actorName}>{isOwner ? 'You' : actor?.username || 'A reader'}</Text> {describeActivity(activity)}
+            </Text>
+            <Text style={[styles.timeText, { color: colors.textLight }]}>{formatTime(activity.createdAt)}</Text>
+          </View>
+        </TouchableOpacity>
+        {isOwner && (
+          <TouchableOpacity onPress={handleDelete} style={styles.iconBtn}>
+            <Ionicons name="trash-outline" size={18} color={colors.textLight} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {activity.book && (
+        <View style={[styles.bookRow, { borderColor: colors.border }]}>
+          {activity.book.coverUrl ? (
+            <Image source={{ uri: activity.book.coverUrl }} style={styles.cover} />
+          ) : (
+            <View style={[styles.cover, { backgroundColor: colors.border, justifyContent: 'center', alignItems: 'center' }]}>
+              <Ionicons name="book-outline" size={18} color={colors.textLight} />
+            </View>
+          )}
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.bookTitle, { color: colors.textDark }]} numberOfLines={1}>{activity.book.title}</Text>
+            <Text style={[styles.bookAuthor, { color: colors.textLight }]} numberOfLines={1}>{activity.book.author}</Text>
+          </View>
+        </View>
+      )}
+
+      <View style={styles.actionsRow}>
+        <TouchableOpacity style={styles.actionBtn} onPress={handleLike} disabled={isSaving}>
+          <Ionicons name={liked ? 'heart' : 'heart-outline'} size={20} color={liked ? colors.danger : colors.textLight} />
+          <Text style={[styles.actionText, { color: colors.textLight }]}>{activity.likeCount}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionBtn} onPress={() => onOpenComments(activity)}>
+          <Ionicons name="chatbubble-outline" size={18} color={colors.textLight} />
+          <Text style={[styles.actionText, { color: colors.textLight }]}>{activity.commentCount}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+export default function FeedScreen() {
+  const router = useRouter();
+  const { theme } = useTheme();
+  const colors = theme === 'dark' ? darkColors : COLORS;
+  const { user, profile } = useUserProfile();
+
+  const [items, setItems] = useState<FeedItem[]>([]);
+  const [cursor, setCursor] = useState<DocumentSnapshot | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const [commentsFor, setCommentsFor] = useState<Activity | null>(null);
+  const [commentText, setCommentText] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const comments = useActivityComments(commentsFor?.id || null);
+
+  const loadFirstPage = useCallback(async () => {
+    if (!user) return;
+    try {
+      const page = await fetchFeedPage(user.uid);
+      setItems(page.items);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error("Feed load error:", error);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Could not load your feed.' });
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadFirstPage();
+  }, [loadFirstPage]);
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadFirstPage();
+  };
+
+  const handleLoadMore = async () => {
+    if (!user || !hasMore || loadingMore || loading || !cursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchFeedPage(user.uid, cursor);
+      setItems(prev => [...prev, ...page.items.filter(i => !prev.some(p => p.id === i.id))]);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error("Feed page error:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleSendComment = async () => {
+    const text = commentText.trim();
+    if (!user || !commentsFor || !text) return;
+    setIsSending(true);
+    try {
+      await addActivityComment(commentsFor.id, user.uid, profile?.username || 'Reader', text);
+      setCommentText('');
+    } catch (error) {
+      console.error("Comment error:", error);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Could not post comment.' });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleDeleteComment = async (commentId: string) => {
+    if (!commentsFor) return;
+    try {
+      await deleteActivityComment(commentsFor.id, commentId);
+    } catch (error) {
+      console.error("Delete comment error:", error);
+      Toast.show({ type: 'error', text1: 'Error', text2: 'Could not delete comment.' });
+    }
+  };
+
+  const openProfile = (userId: string) => router.push(`/profile/${userId}`);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+      <DoodleBackground colors={colors} />
+      <StatusBar barStyle={theme === 'dark' ? 'light-content' : 'dark-content'} />
+      <Stack.Screen options={{
+        headerShown: true,
+        headerTitle: 'Activity',
+        headerTitleAlign: 'center',
+        headerTintColor: colors.textDark,
+        headerStyle: { backgroundColor: colors.card },
+        headerTitleStyle: { fontWeight: '900', fontSize: 18 },
+        headerLeft: () => (
+          <TouchableOpacity onPress={() => router.back()} style={styles.headerBtn}>
+            <Ionicons name="chevron-back" size={28} color={colors.textDark} />
+          </TouchableOpacity>
+        ),
+      }} />
+
+      {loading || !user ? (
+        <View style={styles.center}><ActivityIndicator size="large" color={colors.primary} /></View>
+      ) : (
+        <FlatList
+          data={items}
+          keyExtractor={item => item.id}
+          renderItem={({ item }) => (
+            <ActivityCard
+              item={item}
+              viewerId={user.uid}
+              colors={colors}
+              onOpenComments={setCommentsFor}
+              onOpenProfile={openProfile}
+            />
+          )}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.5}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={colors.primary} />}
+          ListFooterComponent={loadingMore ? <ActivityIndicator style={{ marginVertical: 16 }} color={colors.primary} /> : null}
+          ListEmptyComponent={
+            <View style={styles.center}>
+              <Ionicons name="newspaper-outline" size={64} color={colors.border} />
+              <Text style={[styles.emptyText, { color: colors.textLight }]}>
+                Follow other readers to see the books they finish and the trophies they earn.
+              </Text>
+            </View>
+          }
+        />
+      )}
+
+      {/* COMMENTS */}
+      <Modal visible={!!commentsFor} animationType="slide" transparent onRequestClose={() => setCommentsFor(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textDark }]}>Comments</Text>
+              <TouchableOpacity onPress={() => setCommentsFor(null)}><Ionicons name="close" size={24} color={colors.textDark} /></TouchableOpacity>
+            </View>
+            <FlatList
+              data={comments}
+              keyExtractor={c => c.id}
+              style={{ width: '100%' }}
+              renderItem={({ item: comment }) => (
+                <View style={[styles.commentRow, { borderBottomColor: colors.border }]}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.commentAuthor, { color: colors.textDark }]}>{comment.username}</Text>
+                    <Text style={[styles.commentText, { color: colors.textDark }]}>{comment.text}</Text>
+                  </View>
+                  {user && (comment.userId === user.uid || commentsFor?.userId === user.uid) && (
+                    <TouchableOpacity onPress={() => handleDeleteComment(comment.id)} style={styles.iconBtn}>
+                      <Ionicons name="trash-outline" size={16} color={colors.textLight} />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+              ListEmptyComponent={<Text style={[styles.emptyText, { color: colors.textLight }]}>No comments yet.</Text>}
+            />
+            <View style={styles.commentInputRow}>
+              <TextInput
+                style={[styles.input, { color: colors.textDark, borderColor: colors.border }]}
+                value={commentText}
+                onChangeText={setCommentText}
+                placeholder="Say something nice..."
+                placeholderTextColor={colors.textLight}
+                maxLength={MAX_COMMENT_LENGTH}
+              />
+              <TouchableOpacity
+                style={[styles.sendBtn, { backgroundColor: colors.primary }]}
+                onPress={handleSendComment}
+                disabled={isSending || !commentText.trim()}
+              >
+                {isSending ? <ActivityIndicator color="white" size="small" /> : <Ionicons name="send" size={18} color="white" />}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  center: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 24 },
+  headerBtn: { padding: 8, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
+  listContent: { padding: 20, paddingBottom: 60, flexGrow: 1 },
+  emptyText: { textAlign: 'center', fontSize: 14, fontWeight: '600', marginTop: 16 },
+  card: { borderRadius: 24, borderWidth: 1, padding: 16, marginBottom: 14 },
+  cardHeader: { flexDirection: 'row', alignItems: 'flex-start', gap: 8 },
+  actorRow: { flex: 1, flexDirection: 'row', alignItems: 'center', gap: 12 },
+  typeIcon: { width: 36, height: 36, borderRadius: 18, justifyContent: 'center', alignItems: 'center' },
+  activityText: { fontSize: 14, fontWeight: '600' },
+  actorName: { fontWeight: '900' },
+  timeText: { fontSize: 11, fontWeight: '700', marginTop: 2 },
+  iconBtn: { padding: 6 },
+  bookRow: { flexDirection: 'row', alignItems: 'center', gap: 12, marginTop: 12, paddingTop: 12, borderTopWidth: 1 },
+  cover: { width: 40, height: 60, borderRadius: 6 },
+  bookTitle: { fontSize: 15, fontWeight: '800' },
+  bookAuthor: { fontSize: 13, fontWeight: '600', marginTop: 2 },
+  actionsRow: { flexDirection: 'row', gap: 20, marginTop: 12 },
+  actionBtn: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  actionText: { fontSize: 13, fontWeight: '800' },
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.7)', justifyContent: 'center', alignItems: 'center', padding: 24 },
+  modalContent: { width: '100%', maxWidth: 400, maxHeight: '85%', borderRadius: 28, padding: 24, alignItems: 'center', elevation: 10 },
+  modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8, width: '100%' },
+  modalTitle: { fontSize: 22, fontWeight: '900', textTransform: 'uppercase', letterSpacing: 1 },
+  commentRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 10, borderBottomWidth: 1 },
+  commentAuthor: { fontSize: 13, fontWeight: '900' },
+  commentText: { fontSize: 14, fontWeight: '500', marginTop: 2 },
+  commentInputRow: { flexDirection: 'row', alignItems: 'center', gap: 10, marginTop: 12, width: '100%' },
+  input: { flex: 1, borderWidth: 1, borderRadius: 16, paddingHorizontal: 16, paddingVertical: 12, fontSize: 16 },
+  sendBtn: { width: 44, height: 44, borderRadius: 22, justifyContent: 'center', alignItems: 'center' },
+});
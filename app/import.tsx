@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet, View, Text, FlatList, TouchableOpacity, StatusBar, ActivityIndicator, Platform
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { File } from 'expo-file-system';
+import Toast from 'react-native-toast-message';
+import { COLORS, darkColors } from '../constants/colors';
+import { DoodleBackground } from '../components/DoodleBackground';
+import { useTheme } from '../context/ThemeContext';
+import { auth } from '../firebaseConfig';
+import { fetchBooks, importBooks } from '../data';
+import { ImportedBook, getBookKey, parseGoodreadsCsv } from '../utils/goodreads';
+
+interface PreviewRow extends ImportedBook {
+  key: string;
+  isDuplicate: boolean;
+  selected: boolean;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  reading: 'Reading',
+  toread: 'To Read',
+  read: 'Read',
+  dnf: 'DNF',
+};
+
+export default function ImportScreen() {
+  const router = useRouter();
+  const { theme } = useTheme();
+  const colors = theme === 'dark' ? darkColors : COLORS;
+  const currentUser = auth.currentUser;
+
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+
+  const selectedRows = rows.filter(r => r.selected);
+  const duplicateCount = rows.filter(r => r.isDuplicate).length;
+
+  const handlePickFile = async () => {
+    if (!currentUser) return;
+    if (Platform.OS === 'web') {
+      Toast.show({ type: 'error', text1: 'Not Available', text2: 'Import from the mobile app.' });
+      return;
+    }
+    try {
+      const picked = await File.pickFileAsync(undefined, 'text/*');
+      const file = Array.isArray(picked) ? picked[0] : picked;
+      if (!file) return;
+
+      setLoading(true);
+      const books = parseGoodreadsCsv(await file.text());
+      if (books.length === 0) {
+        Toast.show({ type: 'error', text1: 'Nothing to Import', text2: 'The file has no books in it.' });
+        return;
+      }
+
+      const existing = await fetchBooks(currentUser.uid);
+      const existingKeys = new Set(existing.map(book => getBookKey(book.title, book.author)));
+      const seen = new Set<string>();
+
+      setRows(books.map(book => {
+        const key = getBookKey(book.title, book.author);
+        // Also catches the same book appearing twice in the export
+        const isDuplicate = existingKeys.has(key) || seen.has(key);
+        seen.add(key);
+        return { ...book, key, isDuplicate, selected: !isDuplicate };
+      }));
+      setFileName(file.name);
+      setImportedCount(0);
+    } catch (e: any) {
+      // Cancelling the picker rejects too, so only surface real failures
+      if (!/cancel/i.test(e?.message || '')) {
+        Toast.show({ type: 'error', text1: 'Import Failed', text2: e.message });
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRow = (key: string, index: number) => {
+    setRows(prev => prev.map((r, i) => (r.key === key && i === index ? { ...r, selected: !r.selected } : r)));
+  };
+
+  const handleImport = async () => {
+    if (!currentUser || selectedRows.length === 0) return;
+    setImporting(true);
+    setImportedCount(0);
+    try {
+      await importBooks(currentUser.uid, selectedRows, setImportedCount);
+      Toast.show({ type: 'success', text1: 'Import Complete 📚', text2: `${selectedRows.length} books added to your library.` });
+      router.back();
+    } catch (e: any) {
+      Toast.show({ type: 'error', text1: 'Import Failed', text2: e.message });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const renderRow = ({ item, index }: { item: PreviewRow; index: number }) => (
+    <TouchableOpacity
+      style={[styles.row, { backgroundColor: colors.card, borderColor: colors.border, opacity: item.selected ? 1 : 0.5 }]}
+      onPress={() => toggleRow(item.key, index)}
+      disabled={importing}
+    >
+      <Ionicons name={item.selected ? 'checkbox' : 'square-outline'} size={22} color={item.selected ? colors.primary : colors.textLight} />
+      <View style={{ flex: 1 }}>
+        <Text style={[styles.rowTitle, { color: colors.textDark }]} numberOfLines={1}>{item.title}</Text>
+        <Text style={[styles.rowMeta, { color: colors.textLight }]} numberOfLines={1}>
+          {item.author}{item.series ? ` • ${item.series}${item.seriesOrder ? ` #${item.seriesOrder}` : ''}` : ''}
+        </Text>
+      </View>
+      <View style={{ alignItems: 'flex-end', gap: 4 }}>
+        <Text style={[styles.statusTag, { color: colors.primary, backgroundColor: colors.primary + '15' }]}>{STATUS_LABELS[item.status]}</Text>
+        {item.isDuplicate && (
+          <Text style={[styles.statusTag, { color: colors.danger, backgroundColor: colors.danger + '15' }]}>Duplicate</Text>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+      <DoodleBackground colors={colors} />
+      <StatusBar barStyle={theme === 'dark' ? 'light-content' : 'dark-content'} />
+      <Stack.Screen options={{
+        headerShown: true,
+        headerTitle: 'Goodreads Import',
+        headerTitleAlign: 'center',
+        headerTintColor: colors.textDark,
+        headerStyle: { backgroundColor: colors.card },
+        headerTitleStyle: { fontWeight: '900', fontSize: 18 },
+        headerLeft: () => (
+          <TouchableOpacity onPress={() => router.back()} style={styles.headerBtn} disabled={importing}>
+            <Ionicons name="chevron-back" size={28} color={colors.textDark} />
+          </TouchableOpacity>
+        ),
+      }} />
+
+      {rows.length === 0 ? (
+        <View style={styles.center}>
+          <View style={[styles.introIcon, { backgroundColor: colors.primary + '15' }]}>
+            <Ionicons name="cloud-upload-outline" size={40} color={colors.primary} />
+          </View>
+          <Text style={[styles.introTitle, { color: colors.textDark }]}>Bring your shelves over</Text>
+          <Text style={[styles.introText, { color: colors.textLight }]}>
+            On Goodreads, go to My Books → Import and export → Export Library, then pick the CSV file here.
+          </Text>
+          <TouchableOpacity style={[styles.primaryBtn, { backgroundColor: colors.primary }]} onPress={handlePickFile} disabled={loading}>
+            {loading ? <ActivityIndicator color="white" /> : <Text style={styles.primaryBtnText}>Choose CSV File</Text>}
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <>
+          <FlatList
+            data={rows}
+            renderItem={renderRow}
+            keyExtractor={(item, index) => `${item.key}-${index}`}
+            contentContainerStyle={styles.listContent}
+            ListHeaderComponent={
+              <View style={[styles.summaryCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                <Text style={[styles.summaryFile, { color: colors.textLight }]} numberOfLines={1}>{fileName}</Text>
+                <Text style={[styles.summaryText, { color: colors.textDark }]}>
+                  {rows.length} books found • {selectedRows.length} selected
+                </Text>
+                {duplicateCount > 0 && (
+                  <Text style={[styles.summaryHint, { color: colors.danger }]}>
+                    {duplicateCount} already in your library — they are unticked. Tap to include them anyway.
+                  </Text>
+                )}
+                <TouchableOpacity onPress={handlePickFile} disabled={importing || loading}>
+                  <Text style={[styles.changeFile, { color: colors.primary }]}>Choose a different file</Text>
+                </TouchableOpacity>
+              </View>
+            }
+          />
+          <View style={[styles.footer, { backgroundColor: colors.card, borderTopColor: colors.border }]}>
+            <TouchableOpacity
+              style={[styles.primaryBtn, { backgroundColor: colors.primary, opacity: selectedRows.length === 0 ? 0.5 : 1 }]}
+              onPress={handleImport}
+              disabled={importing || selectedRows.length === 0}
+            >
+              {importing ? (
+                <Text style={styles.primaryBtnText}>Importing {importedCount}/{selectedRows.length}...</Text>
+              ) : (
+                <Text style={styles.primaryBtnText}>Import {selectedRows.length} Books</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  center: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 32 },
+  headerBtn: { padding: 8, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
+  introIcon: { width: 80, height: 80, borderRadius: 28, justifyContent: 'center', alignItems: 'center', marginBottom: 20 },
+  introTitle: { fontSize: 22, fontWeight: '900', textAlign: 'center' },
+  introText: { fontSize: 14, fontWeight: '600', textAlign: 'center', marginTop: 8, marginBottom: 32, lineHeight: 20 },
+  primaryBtn: { height: 56, borderRadius: 16, justifyContent: 'center', alignItems: 'center', width: '100%', paddingHorizontal: 24 },
+  primaryBtnText: { color: 'white', fontSize: 16, fontWeight: '900', textTransform: 'uppercase' },
+  listContent: { padding: 16, paddingBottom: 24 },
+  summaryCard: { borderRadius: 24, borderWidth: 1, padding: 20, marginBottom: 16 },
+  summaryFile: { fontSize: 12, fontWeight: '700' },
+  summaryText: { fontSize: 18, fontWeight: '900', marginTop: 4 },
+  summaryHint: { fontSize: 12, fontWeight: '700', marginTop: 8 },
+  changeFile: { fontSize: 13, fontWeight: '900', marginTop: 12, textTransform: 'uppercase' },
+  row: { flexDirection: 'row', alignItems: 'center', borderRadius: 18, borderWidth: 1, padding: 14, marginBottom: 8, gap: 12 },
+  rowTitle: { fontSize: 15, fontWeight: '800' },
+  rowMeta: { fontSize: 12, fontWeight: '600', marginTop: 2 },
+  statusTag: { fontSize: 10, fontWeight: '900', textTransform: 'uppercase', paddingHorizontal: 8, paddingVertical: 3, borderRadius: 8, overflow: 'hidden' },
+  footer: { padding: 16, paddingBottom: Platform.OS === 'ios' ? 32 : 16, borderTopWidth: 1 },
+});
@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet, View, Text, TouchableOpacity, ScrollView, StatusBar, Image, ActivityIndicator, Alert
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, Stack, useRouter } from 'expo-router';
+import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
+import { COLORS, darkColors } from '../../constants/colors';
+import { DoodleBackground } from '../../components/DoodleBackground';
+import { useTheme } from '../../context/ThemeContext';
+import {
+  acceptFriendRequest, deleteFriendRequest, followUser, ProfileSection, PublicCurrentRead, PublicStats, PublicTrophies,
+  removeFriend, sendFriendRequest, unfollowUser, useAuthUser, useFollowers, useFollowing, useProfileSection,
+  usePublicProfile, useRelationship
+} from '../../data';
+import { ACHIEVEMENT_DEFINITIONS } from '../../utils/achievements';
+import { canViewSection } from '../../utils/publicProfile';
+import Toast from 'react-native-toast-message';
+
+const SECTION_TITLES: Record<ProfileSection, string> = {
+  stats: 'Reading Stats',
+  currentReads: 'Currently Reading',
+  trophies: 'Trophies',
+};
+
+export default function ProfileScreen() {
+  const { id } = useLocalSearchParams();
+  const router = useRouter();
+  const { theme } = useTheme();
+  const colors = theme === 'dark' ? darkColors : COLORS;
+  const user = useAuthUser();
+
+  const profileId = (Array.isArray(id) ? id[0] : id) || null;
+  const isOwner = !!user && user.uid === profileId;
+
+  const { profile, loading } = usePublicProfile(profileId);
+  const followers = useFollowers(profileId);
+  const following = useFollowing(profileId);
+  const { isFollowing, isFriend, hasSentRequest, hasIncomingRequest } = useRelationship(user?.uid || null, profileId);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Only ask for sections the rules will let this viewer read
+  const canView = (section: ProfileSection) =>
+    !!profile && canViewSection(profile.privacy[section], { isOwner, isFriend });
+  const { data: stats } = useProfileSection<PublicStats>(profileId, 'stats', canView('stats'));
+  const { data: currentReads } = useProfileSection<{ books: PublicCurrentRead[] }>(profileId, 'currentReads', canView('currentReads'));
+  const { data: trophies } = useProfileSection<PublicTrophies>(profileId, 'trophies', canView('trophies'));
+
+  const runAction = async (action: () => Promise<void>, errorText: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Profile action error:", error);
+      Toast.show({ type: 'error', text1: 'Error', text2: errorText });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFollowToggle = () => {
+    if (!user || !profileId) return;
+    runAction(
+      () => (isFollowing ? unfollowUser(user.uid, profileId) : followUser(user.uid, profileId)),
+      'Could not update follow.'
+    );
+  };
+
+  const handleFriendAction = () => {
+    if (!user || !profileId || !profile) return;
+    if (isFriend) {
+      Alert.alert('Remove Friend', `Remove ${profile.username} from your friends?`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => runAction(() => removeFriend(user.uid, profileId), 'Could not remove friend.') },
+      ]);
+    } else if (hasIncomingRequest) {
+      runAction(() => acceptFriendRequest(user.uid, profileId), 'Could not accept the request.');
+    } else if (hasSentRequest) {
+      runAction(() => deleteFriendRequest(user.uid, profileId), 'Could not cancel the request.');
+    } else {
+      runAction(() => sendFriendRequest(user.uid, profileId), 'Could not send the request.');
+    }
+  };
+
+  const friendLabel = isFriend ? 'Friends' : hasIncomingRequest ? 'Accept Request' : hasSentRequest ? 'Requested' : 'Add Friend';
+  const friendIcon = isFriend ? 'people' : hasIncomingRequest ? 'person-add' : hasSentRequest ? 'time-outline' : 'person-add-outline';
+
+  const renderHidden = (section: ProfileSection) => (
+    <View style={styles.hiddenRow}>
+      <Ionicons name="lock-closed-outline" size={16} color={colors.textLight} />
+      <Text style={[styles.hiddenText, { color: colors.textLight }]}>
+        {profile?.privacy[section] === 'friends' ? 'Only visible to friends' : 'Private'}
+      </Text>
+    </View>
+  );
+
+  const renderSection = (section: ProfileSection, content: React.ReactNode) => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.textLight }]}>{SECTION_TITLES[section].toUpperCase()}</Text>
+      <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+        {canView(section) ? content : renderHidden(section)}
+      </View>
+    </View>
+  );
+
+  const renderStat = (label: string, value: string | number) => (
+    <View style={styles.statItem}>
+      <Text style={[styles.statValue, { color: colors.textDark }]}>{value}</Text>
+      <Text style={[styles.statLabel, { color: colors.textLight }]}>{label}</Text>
+    </View>
+  );
+
+  const unlockedTrophies = ACHIEVEMENT_DEFINITIONS.filter(d => trophies?.ids.includes(d.id));
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+      <DoodleBackground colors={colors} />
+      <StatusBar barStyle={theme === 'dark' ? 'light-content' : 'dark-content'} />
+      <Stack.Screen options={{
+        headerShown: true,
+        headerTitle: profile?.username || 'Profile',
+        headerTitleAlign: 'center',
+        headerTintColor: colors.textDark,
+        headerStyle: { backgroundColor: colors.card },
+        headerTitleStyle: { fontWeight: '900', fontSize: 18 },
+        headerLeft: () => (
+          <TouchableOpacity onPress={() => router.back()} style={styles.headerBtn}>
+            <Ionicons name="chevron-back" size={28} color={colors.textDark} />
+          </TouchableOpacity>
+        ),
+      }} />
+
+      {loading ? (
+        <View style={styles.center}><ActivityIndicator size="large" color={colors.primary} /></View>
+      ) : !profile ? (
+        <View style={styles.center}>
+          <Ionicons name="person-outline" size={64} color={colors.border} />
+          <Text style={[styles.emptyText, { color: colors.textLight }]}>
+            {isOwner ? 'Your public profile is being set up. Check back in a moment.' : 'This reader could not be found.'}
+          </Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          <View style={styles.profileHeader}>
+            <Image
+              source={{ uri: `https://ui-avatars.com/api/?name=${encodeURIComponent(profile.username)}&background=random&size=160` }}
+              style={styles.avatar}
+            />
+            <Text style={[styles.username, { color: colors.textDark }]}>{profile.username}</Text>
+            <View style={styles.countsRow}>
+              {renderStat('Followers', followers.length)}
+              {renderStat('Following', following.length)}
+            </View>
+          </View>
+
+          {isOwner ? (
+            <TouchableOpacity
+              style={[styles.actionBtn, styles.fullWidthBtn, { borderColor: colors.border, backgroundColor: colors.card }]}
+              onPress={() => router.push('/settings')}
+            >
+              <Ionicons name="eye-outline" size={18} color={colors.textDark} />
+              <Text style={[styles.actionBtnText, { color: colors.textDark }]}>Privacy Settings</Text>
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.actionsRow}>
+              <TouchableOpacity
+                style={[styles.actionBtn, isFollowing ? { borderColor: colors.border, backgroundColor: colors.card } : { borderColor: colors.primary, backgroundColor: colors.primary }]}
+                onPress={handleFollowToggle}
+                disabled={isSaving}
+              >
+                <Text style={[styles.actionBtnText, { color: isFollowing ? colors.textDark : 'white' }]}>{isFollowing ? 'Following' : 'Follow'}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionBtn, { borderColor: colors.border, backgroundColor: colors.card }]}
+                onPress={handleFriendAction}
+                disabled={isSaving}
+              >
+                <Ionicons name={friendIcon} size={18} color={colors.textDark} />
+                <Text style={[styles.actionBtnText, { color: colors.textDark }]}>{friendLabel}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.iconBtn, { borderColor: colors.border, backgroundColor: colors.card }]}
+                onPress={() => router.push({ pathname: '/chat/[id]', params: { id: profile.id, name: profile.username } })}
+              >
+                <Ionicons name="chatbubble-outline" size={20} color={colors.textDark} />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {renderSection('stats', stats ? (
+            <View style={styles.statsGrid}>
+              {renderStat('Books Read', stats.booksRead)}
+              {renderStat('This Year', stats.booksReadThisYear)}
+              {renderStat('Pages', stats.pagesRead.toLocaleString())}
+              {renderStat('Avg Rating', stats.averageRating != null ? `${stats.averageRating}★` : '—')}
+            </View>
+          ) : <Text style={[styles.hiddenText, { color: colors.textLight }]}>No stats yet.</Text>)}
+
+          {renderSection('currentReads', currentReads?.books.length ? currentReads.books.map((book, index) => (
+            <View key={book.id} style={[styles.bookRow, index > 0 && { borderTopWidth: 1, borderTopColor: colors.border }]}>
+              {book.coverUrl ? (
+                <Image source={{ uri: book.coverUrl }} style={styles.cover} />
+              ) : (
+                <View style={[styles.cover, { backgroundColor: colors.border, justifyContent: 'center', alignItems: 'center' }]}>
+                  <Ionicons name="book-outline" size={18} color={colors.textLight} />
+                </View>
+              )}
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.bookTitle, { color: colors.textDark }]} numberOfLines={1}>{book.title}</Text>
+                <Text style={[styles.bookAuthor, { color: colors.textLight }]} numberOfLines={1}>{book.author}</Text>
+                {book.progress != null && (
+                  <View style={[styles.progressTrack, { backgroundColor: colors.border }]}>
+                    <View style={[styles.progressFill, { backgroundColor: colors.primary, width: `${Math.round(book.progress * 100)}%` }]} />
+                  </View>
+                )}
+              </View>
+            </View>
+          )) : <Text style={[styles.hiddenText, { color: colors.textLight }]}>Not reading anything right now.</Text>)}
+
+          {renderSection('trophies', unlockedTrophies.length ? (
+            <View style={styles.trophyGrid}>
+              {unlockedTrophies.map(trophy => {
+                const IconComponent = trophy.iconFamily === 'MaterialCommunityIcons' ? MaterialCommunityIcons : Ionicons;
+                return (
+                  <View key={trophy.id} style={styles.trophy}>
+                    <View style={[styles.trophyIcon, { backgroundColor: colors.primary + '15' }]}>
+                      <IconComponent name={trophy.icon} size={22} color={colors.primary} />
+                    </View>
+                    <Text style={[styles.trophyTitle, { color: colors.textDark }]} numberOfLines={2}>{trophy.title}</Text>
+                  </View>
+                );
+              })}
+            </View>
+          ) : <Text style={[styles.hiddenText, { color: colors.textLight }]}>No trophies yet.</Text>)}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  center: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 24 },
+  headerBtn: { padding: 8, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
+  scrollContent: { padding: 20, paddingBottom: 60 },
+  emptyText: { textAlign: 'center', fontSize: 14, fontWeight: '600', marginTop: 16 },
+  profileHeader: { alignItems: 'center', marginBottom: 20 },
+  avatar: { width: 96, height: 96, borderRadius: 48, marginBottom: 12 },
+  username: { fontSize: 26, fontWeight: '900', letterSpacing: -0.5 },
+  countsRow: { flexDirection: 'row', gap: 32, marginTop: 12 },
+  actionsRow: { flexDirection: 'row', gap: 10, marginBottom: 24 },
+  actionBtn: { flex: 1, flexDirection: 'row', gap: 6, height: 44, borderRadius: 14, borderWidth: 1, alignItems: 'center', justifyContent: 'center' },
+  fullWidthBtn: { flex: 0, marginBottom: 24 },
+  actionBtnText: { fontSize: 13, fontWeight: '900', textTransform: 'uppercase' },
+  iconBtn: { width: 44, height: 44, borderRadius: 14, borderWidth: 1, alignItems: 'center', justifyContent: 'center' },
+  section: { marginBottom: 24 },
+  sectionTitle: { fontSize: 12, fontWeight: '900', letterSpacing: 1.5, marginBottom: 10, marginLeft: 8, opacity: 0.5 },
+  card: { borderRadius: 24, borderWidth: 1, padding: 16, overflow: 'hidden' },
+  hiddenRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  hiddenText: { fontSize: 14, fontWeight: '600' },
+  statsGrid: { flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'space-around', rowGap: 16 },
+  statItem: { alignItems: 'center', minWidth: 70 },
+  statValue: { fontSize: 22, fontWeight: '900' },
+  statLabel: { fontSize: 11, fontWeight: '800', textTransform: 'uppercase', marginTop: 2 },
+  bookRow: { flexDirection: 'row', alignItems: 'center', gap: 12, paddingVertical: 10 },
+  cover: { width: 40, height: 60, borderRadius: 6 },
+  bookTitle: { fontSize: 15, fontWeight: '800' },
+  bookAuthor: { fontSize: 13, fontWeight: '600', marginTop: 2 },
+  progressTrack: { height: 4, borderRadius: 2, marginTop: 8, overflow: 'hidden' },
+  progressFill: { height: 4, borderRadius: 2 },
+  trophyGrid: { flexDirection: 'row', flexWrap: 'wrap', gap: 12 },
+  trophy: { width: 72, alignItems: 'center' },
+  trophyIcon: { width: 48, height: 48, borderRadius: 24, justifyContent: 'center', alignItems: 'center', marginBottom: 6 },
+  trophyTitle: { fontSize: 10, fontWeight: '800', textAlign: 'center' },
+});
@@ -0,0 +1,475 @@
+import React, { useState, useMemo, useRef } from 'react';
+import {
+  StyleSheet, View, Text, TextInput, FlatList, TouchableOpacity,
+  Modal, StatusBar, ActivityIndicator, ScrollView
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, Stack, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { captureRef } from 'react-native-view-shot';
+import * as Sharing from 'expo-sharing';
+import { COLORS, darkColors } from '../constants/colors';
+import { DoodleBackground } from '../components/DoodleBackground';
+import { useTheme } from '../context/ThemeContext';
+import { Timestamp } from 'firebase/firestore';
+import { auth } from '../firebaseConfig';
+import { Quote, useBooks, useQuotes } from '../data';
+import Toast from 'react-native-toast-message';
+import { parseProgressInput } from '../utils/progress';
+import { newDocPath, queueDelete, queueSet, queueUpdate } from '../utils/offlineQueue';
+import { QUOTE_COLORS, formatQuoteSource } from '../utils/quotes';
+import { formatTags, parseTags } from '../utils/tags';
+
+export default function QuotesScreen() {
+  const { bookId: bookIdParam } = useLocalSearchParams();
+  const router = useRouter();
+  const { theme } = useTheme();
+  const colors = theme === 'dark' ? darkColors : COLORS;
+  const currentUser = auth.currentUser;
+
+  const initialBookId = Array.isArray(bookIdParam) ? bookIdParam[0] : bookIdParam;
+
+  const { quotes, loading } = useQuotes();
+  const { books: rawBooks } = useBooks();
+  const books = useMemo(
+    () => rawBooks.map(b => ({ ...b, title: b.title || 'Untitled' })).sort((a, b) => a.title.localeCompare(b.title)),
+    [rawBooks]
+  );
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Filters
+  const [filterBook, setFilterBook] = useState<string | null>(initialBookId || null);
+  const [filterAuthor, setFilterAuthor] = useState<string | null>(null);
+  const [filterTag, setFilterTag] = useState<string | null>(null);
+  const [showFilterModal, setShowFilterModal] = useState(false);
+
+  // Editor State
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [editingQuote, setEditingQuote] = useState<Quote | null>(null);
+  const [quoteText, setQuoteText] = useState('');
+  const [quoteBookId, setQuoteBookId] = useState<string | null>(null);
+  const [quotePage, setQuotePage] = useState('');
+  const [quoteLocation, setQuoteLocation] = useState('');
+  const [quoteComment, setQuoteComment] = useState('');
+  const [quoteColor, setQuoteColor] = useState(QUOTE_COLORS[0]);
+  const [quoteTags, setQuoteTags] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Share Card
+  const [shareQuote, setShareQuote] = useState<Quote | null>(null);
+  const shareCardRef = useRef<View>(null);
+
+  const openEditor = (quote: Quote | null = null) => {
+    setEditingQuote(quote);
+    setQuoteText(quote?.text || '');
+    setQuoteBookId(quote ? quote.bookId : filterBook);
+    setQuotePage(quote?.page != null ? quote.page.toString() : '');
+    setQuoteLocation(quote?.location || '');
+    setQuoteComment(quote?.comment || '');
+    setQuoteColor(quote?.color || QUOTE_COLORS[0]);
+    setQuoteTags(quote ? formatTags(quote.tags) : '');
+    setEditorVisible(true);
+  };
+
+  const handleSaveQuote = async () => {
+    if (!currentUser) return;
+    if (!quoteText.trim()) {
+      Toast.show({ type: 'error', text1: 'Missing Quote', text2: 'Paste or type the passage first.' });
+      return;
+    }
+    const book = books.find(b => b.id === quoteBookId);
+    if (!book && !editingQuote?.bookTitle) {
+      Toast.show({ type: 'error', text1: 'Missing Book', text2: 'Pick the book this quote is from.' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const page = parseProgressInput(quotePage);
+      const quoteData = {
+        userId: currentUser.uid,
+        text: quoteText.trim(),
+        // Title and author are copied so the gallery and share card still work if the book is removed
+        bookId: book ? book.id : editingQuote?.bookId || null,
+        bookTitle: book ? book.title : editingQuote?.bookTitle || '',
+        bookAuthor: book ? book.author : editingQuote?.bookAuthor || '',
+        page: page !== null ? Math.round(page) : null,
+        location: quoteLocation.trim() || null,
+        comment: quoteComment.trim(),
+        color: quoteColor,
+        tags: parseTags(quoteTags),
+        updatedAt: Timestamp.now(),
+      };
+      if (editingQuote) {
+        await queueUpdate(`quotes/${editingQuote.id}`, quoteData);
+        Toast.show({ type: 'success', text1: 'Quote Updated' });
+      } else {
+        await queueSet(newDocPath('quotes'), { ...quoteData, createdAt: Timestamp.now() });
+        Toast.show({ type: 'success', text1: 'Quote Saved' });
+      }
+      setEditorVisible(false);
+    } catch (e: any) {
+      Toast.show({ type: 'error', text1: 'Error', text2: e.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteQuote = async () => {
+    if (!editingQuote) return;
+    try {
+      await queueDelete(`quotes/${editingQuote.id}`);
+      setEditorVisible(false);
+      Toast.show({ type: 'success', text1: 'Quote Deleted' });
+    } catch (e: any) {
+      Toast.show({ type: 'error', text1: 'Error', text2: e.message });
+    }
+  };
+
+  const handleShareQuote = async () => {
+    if (!shareCardRef.current || !shareQuote) return;
+    try {
+      const uri = await captureRef(shareCardRef, {
+        format: 'png',
+        quality: 0.95,
+      });
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(uri, {
+          mimeType: 'image/png',
+          dialogTitle: `A quote from ${shareQuote.bookTitle}`,
+        });
+      } else {
+        Toast.show({ type: 'error', text1: 'Sharing Not Available', text2: 'Native sharing is not supported on this device.' });
+      }
+    } catch (e: any) {
+      console.error("ViewShot Error:", e);
+      Toast.show({ type: 'error', text1: 'Error sharing card', text2: e.message });
+    }
+  };
+
+  const bookOptions = Array.from(new Map(quotes.filter(q => q.bookId).map(q => [q.bookId!, q.bookTitle])).entries());
+  const authorOptions = Array.from(new Set(quotes.map(q => q.bookAuthor).filter(Boolean))).sort();
+  const tagOptions = Array.from(new Set(quotes.flatMap(q => q.tags))).sort();
+  const activeFilterCount = [filterBook, filterAuthor, filterTag].filter(Boolean).length;
+
+  const filteredQuotes = quotes.filter(q => {
+    if (filterBook && q.bookId !== filterBook) return false;
+    if (filterAuthor && q.bookAuthor !== filterAuthor) return false;
+    if (filterTag && !q.tags.includes(filterTag)) return false;
+    const search = searchQuery.toLowerCase();
+    return !search ||
+      q.text.toLowerCase().includes(search) ||
+      q.comment.toLowerCase().includes(search) ||
+      q.bookTitle.toLowerCase().includes(search);
+  });
+
+  const renderOption = (label: string, active: boolean, onPress: () => void, key: string) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[styles.option, { borderColor: colors.border }, active && { backgroundColor: colors.primary, borderColor: colors.primary }]}
+    >
+      <Text style={[styles.optionText, { color: active ? 'white' : colors.textDark }]} numberOfLines={1}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderQuote = ({ item }: { item: Quote }) => (
+    <TouchableOpacity
+      style={[styles.quoteCard, { backgroundColor: colors.card, borderColor: colors.border, borderLeftColor: item.color }]}
+      onPress={() => openEditor(item)}
+      activeOpacity={0.8}
+    >
+      <Text style={[styles.quoteText, { color: colors.textDark }]}>“{item.text}”</Text>
+      <Text style={[styles.quoteSource, { color: colors.textLight }]} numberOfLines={1}>{formatQuoteSource(item)}</Text>
+      {item.comment ? <Text style={[styles.quoteComment, { color: colors.textLight }]}>{item.comment}</Text> : null}
+      <View style={styles.quoteFooter}>
+        <View style={styles.tagRow}>
+          {item.tags.map(tag => (
+            <TouchableOpacity key={tag} onPress={() => setFilterTag(tag)} style={[styles.tag, { backgroundColor: item.color + '25' }]}>
+              <Text style={[styles.tagText, { color: colors.textDark }]}>#{tag}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TouchableOpacity onPress={() => setShareQuote(item)} style={styles.iconBtn}>
+          <Ionicons name="share-social-outline" size={18} color={colors.primary} />
+        </TouchableOpacity>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+      <DoodleBackground colors={colors} />
+      <StatusBar barStyle={theme === 'dark' ? 'light-content' : 'dark-content'} />
+      <Stack.Screen options={{
+        headerShown: true,
+        headerTitle: 'Quotes',
+        headerTitleAlign: 'center',
+        headerTintColor: colors.textDark,
+        headerStyle: { backgroundColor: colors.card },
+        headerTitleStyle: { fontWeight: '900', fontSize: 18 },
+        headerLeft: () => (
+          <TouchableOpacity onPress={() => router.back()} style={styles.headerBtn}>
+            <Ionicons name="chevron-back" size={28} color={colors.textDark} />
+          </TouchableOpacity>
+        ),
+        headerRight: () => (
+          <TouchableOpacity onPress={() => openEditor()} style={styles.headerBtn}>
+            <Ionicons name="add" size={28} color={colors.textDark} />
+          </TouchableOpacity>
+        ),
+      }} />
+
+      <View style={styles.searchSection}>
+        <View style={[styles.searchBar, { backgroundColor: colors.card, borderColor: colors.border }]}>
+          <Ionicons name="search" size={18} color={colors.textLight} />
+          <TextInput
+            placeholder="Search quotes..."
+            placeholderTextColor={colors.textLight}
+            style={[styles.searchInput, { color: colors.textDark }]}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+          />
+        </View>
+        <TouchableOpacity
+          style={[styles.filterBtn, { backgroundColor: activeFilterCount > 0 ? colors.primary : colors.card, borderColor: colors.border }]}
+          onPress={() => setShowFilterModal(true)}
+        >
+          <Ionicons name="options-outline" size={20} color={activeFilterCount > 0 ? 'white' : colors.textDark} />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.center}><ActivityIndicator size="large" color={colors.primary} /></View>
+      ) : (
+        <FlatList
+          data={filteredQuotes}
+          renderItem={renderQuote}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="chatbox-ellipses-outline" size={64} color={colors.border} />
+              <Text style={[styles.emptyText, { color: colors.textLight }]}>
+                {quotes.length === 0 ? 'No quotes yet. Tap + to save your first one.' : 'No quotes match these filters.'}
+              </Text>
+            </View>
+          }
+        />
+      )}
+
+      {/* FILTER MODAL */}
+      <Modal visible={showFilterModal} animationType="slide" transparent onRequestClose={() => setShowFilterModal(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textDark }]}>Filters</Text>
+              <TouchableOpacity onPress={() => setShowFilterModal(false)}><Ionicons name="close" size={24} color={colors.textDark} /></TouchableOpacity>
+            </View>
+            <ScrollView showsVerticalScrollIndicator={false} style={{ width: '100%' }}>
+              <Text style={styles.inputLabel}>Book</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {renderOption('All', !filterBook, () => setFilterBook(null), 'all')}
+                {bookOptions.map(([id, title]) => renderOption(title, filterBook === id, () => setFilterBook(id), id))}
+              </ScrollView>
+
+              <Text style={styles.inputLabel}>Author</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {renderOption('All', !filterAuthor, () => setFilterAuthor(null), 'all')}
+                {authorOptions.map(a => renderOption(a, filterAuthor === a, () => setFilterAuthor(a), a))}
+              </ScrollView>
+
+              {tagOptions.length > 0 && (
+                <>
+                  <Text style={styles.inputLabel}>Tag</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    {renderOption('All', !filterTag, () => setFilterTag(null), 'all')}
+                    {tagOptions.map(t => renderOption(`#${t}`, filterTag === t, () => setFilterTag(t), t))}
+                  </ScrollView>
+                </>
+              )}
+            </ScrollView>
+
+            {activeFilterCount > 0 && (
+              <TouchableOpacity
+                style={[styles.clearBtn, { borderColor: colors.danger }]}
+                onPress={() => { setFilterBook(null); setFilterAuthor(null); setFilterTag(null); setShowFilterModal(false); }}
+              >
+                <Ionicons name="trash-bin-outline" size={18} color={colors.danger} />
+                <Text style={[styles.clearBtnText, { color: colors.danger }]}>Clear All Filters</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={[styles.saveBtn, { backgroundColor: colors.primary }]} onPress={() => setShowFilterModal(false)}>
+              <Text style={styles.saveBtnText}>Apply Filters</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      {/* QUOTE EDITOR */}
+      <Modal visible={editorVisible} animationType="slide" transparent onRequestClose={() => setEditorVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textDark }]}>{editingQuote ? 'Edit Quote' : 'New Quote'}</Text>
+              <TouchableOpacity onPress={() => setEditorVisible(false)}><Ionicons name="close" size={24} color={colors.textDark} /></TouchableOpacity>
+            </View>
+            <ScrollView showsVerticalScrollIndicator={false} style={{ width: '100%' }}>
+              <Text style={styles.inputLabel}>Quote</Text>
+              <TextInput
+                style={[styles.input, styles.multilineInput, { color: colors.textDark, borderColor: colors.border }]}
+                value={quoteText}
+                onChangeText={setQuoteText}
+                placeholder="The passage you want to keep..."
+                placeholderTextColor={colors.textLight}
+                multiline
+                textAlignVertical="top"
+              />
+
+              <Text style={styles.inputLabel}>Book</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {editingQuote && !books.some(b => b.id === editingQuote.bookId) && editingQuote.bookTitle
+                  ? renderOption(editingQuote.bookTitle, !quoteBookId || quoteBookId === editingQuote.bookId, () => setQuoteBookId(editingQuote.bookId), 'current')
+                  : null}
+                {books.map(b => renderOption(b.title, quoteBookId === b.id, () => setQuoteBookId(b.id), b.id))}
+              </ScrollView>
+
+              <View style={styles.inputRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.inputLabel}>Page</Text>
+                  <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={quotePage} onChangeText={setQuotePage} keyboardType="numeric" placeholder="42" placeholderTextColor={colors.textLight} />
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.inputLabel}>Location</Text>
+                  <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={quoteLocation} onChangeText={setQuoteLocation} placeholder="1234" placeholderTextColor={colors.textLight} />
+                </View>
+              </View>
+
+              <Text style={styles.inputLabel}>Comment</Text>
+              <TextInput
+                style={[styles.input, { color: colors.textDark, borderColor: colors.border }]}
+                value={quoteComment}
+                onChangeText={setQuoteComment}
+                placeholder="Why it stuck with you (optional)"
+                placeholderTextColor={colors.textLight}
+                multiline
+              />
+
+              <Text style={styles.inputLabel}>Tags</Text>
+              <TextInput
+                style={[styles.input, { color: colors.textDark, borderColor: colors.border }]}
+                value={quoteTags}
+                onChangeText={setQuoteTags}
+                placeholder="#hope #family"
+                placeholderTextColor={colors.textLight}
+                autoCapitalize="none"
+              />
+
+              <Text style={styles.inputLabel}>Color</Text>
+              <View style={styles.colorRow}>
+                {QUOTE_COLORS.map(c => (
+                  <TouchableOpacity
+                    key={c}
+                    onPress={() => setQuoteColor(c)}
+                    style={[styles.colorSwatch, { backgroundColor: c }, quoteColor === c && { borderColor: colors.textDark }]}
+                  >
+                    {quoteColor === c && <Ionicons name="checkmark" size={18} color="white" />}
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <TouchableOpacity style={[styles.saveBtn, { backgroundColor: colors.primary }]} onPress={handleSaveQuote} disabled={isSaving}>
+                {isSaving ? <ActivityIndicator color="white" /> : <Text style={styles.saveBtnText}>{editingQuote ? 'Save Changes' : 'Save Quote'}</Text>}
+              </TouchableOpacity>
+              {editingQuote && (
+                <TouchableOpacity style={styles.deleteLink} onPress={handleDeleteQuote}>
+                  <Text style={[styles.deleteLinkText, { color: colors.danger }]}>Delete Quote</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
+      {/* SHARE CARD */}
+      <Modal visible={!!shareQuote} animationType="fade" transparent onRequestClose={() => setShareQuote(null)}>
+        <View style={styles.modalOverlay}>
+          {shareQuote && (
+            <>
+              <View ref={shareCardRef} collapsable={false} style={[styles.shareCard, { backgroundColor: theme === 'dark' ? colors.background : colors.card }]}>
+                <View style={[styles.shareCardAccent, { backgroundColor: shareQuote.color }]} />
+                <Ionicons name="chatbox-ellipses" size={28} color={shareQuote.color} />
+                <Text style={[styles.shareCardText, { color: colors.textDark }]}>“{shareQuote.text}”</Text>
+                <Text style={[styles.shareCardSource, { color: colors.textLight }]}>— {formatQuoteSource(shareQuote)}</Text>
+                <View style={styles.shareCardHeader}>
+                  <Ionicons name="library" size={16} color={shareQuote.color} />
+                  <Text style={[styles.shareCardBrand, { color: colors.textLight }]}>READCOUNT</Text>
+                </View>
+              </View>
+              <View style={styles.shareActions}>
+                <TouchableOpacity style={[styles.shareBtn, { backgroundColor: colors.card }]} onPress={() => setShareQuote(null)}>
+                  <Text style={[styles.shareBtnText, { color: colors.textDark }]}>Close</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.shareBtn, { backgroundColor: colors.primary }]} onPress={handleShareQuote}>
+                  <Ionicons name="share-social" size={18} color="white" />
+                  <Text style={styles.shareBtnText}>Share</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  center: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 24 },
+  headerBtn: { padding: 8, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
+  searchSection: { flexDirection: 'row', gap: 10, paddingHorizontal: 16, paddingTop: 16, paddingBottom: 8 },
+  searchBar: { flex: 1, flexDirection: 'row', alignItems: 'center', paddingHorizontal: 16, height: 44, borderRadius: 12, borderWidth: 1 },
+  searchInput: { flex: 1, marginLeft: 8, fontSize: 14, fontWeight: '600' },
+  filterBtn: { width: 44, height: 44, borderRadius: 12, borderWidth: 1, justifyContent: 'center', alignItems: 'center' },
+  listContent: { padding: 16, paddingBottom: 40 },
+  quoteCard: { borderRadius: 20, borderWidth: 1, borderLeftWidth: 6, padding: 16, marginBottom: 12 },
+  quoteText: { fontSize: 16, lineHeight: 24, fontStyle: 'italic', fontWeight: '600' },
+  quoteSource: { fontSize: 12, fontWeight: '800', marginTop: 10 },
+  quoteComment: { fontSize: 13, lineHeight: 18, marginTop: 8 },
+  quoteFooter: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginTop: 10 },
+  tagRow: { flex: 1, flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  tag: { paddingHorizontal: 8, paddingVertical: 4, borderRadius: 8 },
+  tagText: { fontSize: 11, fontWeight: '800' },
+  iconBtn: { padding: 4 },
+  emptyState: { alignItems: 'center', marginTop: 80, paddingHorizontal: 24 },
+  emptyText: { textAlign: 'center', fontSize: 14, fontWeight: '600', marginTop: 16 },
+  option: { paddingHorizontal: 16, paddingVertical: 8, borderRadius: 12, borderWidth: 1, marginRight: 8, height: 40, justifyContent: 'center', maxWidth: 200 },
+  optionText: { fontSize: 13, fontWeight: '800' },
+  colorRow: { flexDirection: 'row', gap: 10, flexWrap: 'wrap' },
+  colorSwatch: { width: 36, height: 36, borderRadius: 18, borderWidth: 2, borderColor: 'transparent', justifyContent: 'center', alignItems: 'center' },
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.7)', justifyContent: 'center', alignItems: 'center', padding: 24 },
+  modalContent: { width: '100%', maxWidth: 400, maxHeight: '85%', borderRadius: 28, padding: 24, alignItems: 'center', elevation: 10 },
+  modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8, width: '100%' },
+  modalTitle: { fontSize: 22, fontWeight: '900', textTransform: 'uppercase', letterSpacing: 1 },
+  inputRow: { flexDirection: 'row', gap: 12 },
+  inputLabel: { fontSize: 13, fontWeight: '800', marginBottom: 8, marginTop: 16, textTransform: 'uppercase', opacity: 0.6 },
+  input: { borderWidth: 1, borderRadius: 16, paddingHorizontal: 16, paddingVertical: 12, fontSize: 16 },
+  multilineInput: { minHeight: 110 },
+  clearBtn: { flexDirection: 'row', gap: 10, width: '100%', paddingVertical: 16, borderRadius: 16, borderWidth: 1, marginTop: 16, alignItems: 'center', justifyContent: 'center' },
+  clearBtnText: { fontSize: 14, fontWeight: 'bold' },
+  saveBtn: { height: 56, borderRadius: 16, justifyContent: 'center', alignItems: 'center', width: '100%', marginTop: 24 },
+  saveBtnText: { color: 'white', fontSize: 16, fontWeight: '900', textTransform: 'uppercase' },
+  deleteLink: { alignItems: 'center', paddingVertical: 16 },
+  deleteLinkText: { fontSize: 14, fontWeight: '800', textTransform: 'uppercase' },
+  shareCard: { width: '100%', maxWidth: 360, borderRadius: 28, padding: 28, overflow: 'hidden' },
+  shareCardAccent: { position: 'absolute', top: 0, left: 0, right: 0, height: 8 },
+  shareCardText: { fontSize: 20, lineHeight: 30, fontStyle: 'italic', fontWeight: '700', marginTop: 16 },
+  shareCardSource: { fontSize: 13, fontWeight: '800', marginTop: 16 },
+  shareCardHeader: { flexDirection: 'row', alignItems: 'center', gap: 6, marginTop: 28 },
+  shareCardBrand: { fontSize: 12, fontWeight: '900', letterSpacing: 2 },
+  shareActions: { flexDirection: 'row', gap: 12, marginTop: 20, width: '100%', maxWidth: 360 },
+  shareBtn: { flex: 1, height: 52, borderRadius: 16, flexDirection: 'row', justifyContent: 'center', alignItems: 'center', gap: 8 },
+  shareBtnText: { color: 'white', fontSize: 15, fontWeight: '900', textTransform: 'uppercase' },
+});
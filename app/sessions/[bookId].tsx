@@ -0,0 +1,414 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  StyleSheet, View, Text, TextInput, FlatList, TouchableOpacity,
+  Modal, StatusBar, ActivityIndicator, ScrollView
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, Stack, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, darkColors } from '../../constants/colors';
+import { DoodleBackground } from '../../components/DoodleBackground';
+import { useTheme } from '../../context/ThemeContext';
+import { useReadingSession } from '../../context/ReadingSessionContext';
+import { Timestamp } from 'firebase/firestore';
+import { auth } from '../../firebaseConfig';
+import { Book, fetchBook, fetchReadingSessions, ReadingSession, saveProgress } from '../../data';
+import Toast from 'react-native-toast-message';
+import { BookFormat, formatMinutes, parseProgressInput } from '../../utils/progress';
+import { parseDateTime, toDate, toDateInput, toTimeInput } from '../../utils/dates';
+import { newDocPath, queueDelete, queueSet, queueUpdate } from '../../utils/offlineQueue';
+import { getSessionAmount, getSessionMinutes } from '../../utils/sessions';
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const formatElapsed = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+};
+
+export default function ReadingSessionsScreen() {
+  const { bookId } = useLocalSearchParams();
+  const router = useRouter();
+  const { theme } = useTheme();
+  const colors = theme === 'dark' ? darkColors : COLORS;
+  const { activeSession, startSession, stopSession, discardSession } = useReadingSession();
+  const currentUser = auth.currentUser;
+
+  const id = Array.isArray(bookId) ? bookId[0] : bookId;
+
+  const [book, setBook] = useState<Book | null>(null);
+  const [sessions, setSessions] = useState<ReadingSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(Date.now());
+
+  // Editor State
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [editingSession, setEditingSession] = useState<ReadingSession | null>(null);
+  const [fromTimer, setFromTimer] = useState(false);
+  const [sessionDate, setSessionDate] = useState('');
+  const [sessionTime, setSessionTime] = useState('');
+  const [sessionDuration, setSessionDuration] = useState('');
+  const [startPage, setStartPage] = useState('');
+  const [endPage, setEndPage] = useState('');
+  const [minutesCovered, setMinutesCovered] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isTimingThisBook = activeSession?.bookId === id;
+  const format: BookFormat = book?.format || 'physical';
+
+  const loadData = useCallback(async () => {
+    if (!currentUser || !id) return;
+    try {
+      const bookData = await fetchBook(id);
+      if (bookData) setBook(bookData);
+      setSessions(await fetchReadingSessions(currentUser.uid, { bookId: id }));
+    } catch (e: any) {
+      Toast.show({ type: 'error', text1: 'Error', text2: e.message });
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser, id]);
+
+  useEffect(() => { loadData(); }, [loadData]);
+
+  useEffect(() => {
+    if (!isTimingThisBook) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isTimingThisBook]);
+
+  const handleStart = async () => {
+    if (!book) return;
+    if (activeSession && !isTimingThisBook) {
+      Toast.show({ type: 'error', text1: 'Timer Running', text2: `Stop your session for "${activeSession.bookTitle}" first.` });
+      return;
+    }
+    await startSession(book);
+    setNow(Date.now());
+    Toast.show({ type: 'success', text1: 'Timer Started', text2: 'Happy reading! 📖' });
+  };
+
+  // The timer keeps its stored session until the editor saves, so a failed or abandoned save can be retried
+  const handleStop = () => {
+    const finished = activeSession;
+    if (!finished) return;
+    const start = new Date(finished.startedAt);
+    setEditingSession(null);
+    setFromTimer(true);
+    setSessionDate(toDateInput(start));
+    setSessionTime(toTimeInput(start));
+    setSessionDuration(Math.max(1, getSessionMinutes(start, new Date())).toString());
+    setStartPage(finished.startPage != null ? finished.startPage.toString() : '');
+    setEndPage('');
+    setMinutesCovered('');
+    setEditorVisible(true);
+  };
+
+  const openAddModal = () => {
+    const start = new Date();
+    setEditingSession(null);
+    setFromTimer(false);
+    setSessionDate(toDateInput(start));
+    setSessionTime(toTimeInput(start));
+    setSessionDuration('');
+    setStartPage(book?.currentPage != null ? book.currentPage.toString() : '');
+    setEndPage('');
+    setMinutesCovered('');
+    setEditorVisible(true);
+  };
+
+  const openEditModal = (session: ReadingSession) => {
+    const start = toDate(session.startedAt) || new Date();
+    setEditingSession(session);
+    setFromTimer(false);
+    setSessionDate(toDateInput(start));
+    setSessionTime(toTimeInput(start));
+    setSessionDuration(session.durationMinutes.toString());
+    setStartPage(session.startPage != null ? session.startPage.toString() : '');
+    setEndPage(session.endPage != null ? session.endPage.toString() : '');
+    setMinutesCovered(session.minutesCovered != null ? session.minutesCovered.toString() : '');
+    setEditorVisible(true);
+  };
+
+  const handleSaveSession = async () => {
+    if (!currentUser || !book) return;
+    const start = parseDateTime(sessionDate, sessionTime);
+    const duration = parseProgressInput(sessionDuration);
+    if (!start) {
+      Toast.show({ type: 'error', text1: 'Invalid Date', text2: 'Use YYYY-MM-DD and HH:MM.' });
+      return;
+    }
+    if (!duration) {
+      Toast.show({ type: 'error', text1: 'Missing Duration', text2: 'How many minutes did you read?' });
+      return;
+    }
+    const startPageNum = parseProgressInput(startPage);
+    const endPageNum = parseProgressInput(endPage);
+    if (startPageNum !== null && endPageNum !== null && endPageNum < startPageNum) {
+      Toast.show({ type: 'error', text1: 'Invalid Pages', text2: 'End page is before the start page.' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const end = new Date(start.getTime() + duration * 60000);
+      const sessionData: any = {
+        userId: currentUser.uid,
+        bookId: book.id,
+        bookTitle: book.title,
+        format,
+        startedAt: Timestamp.fromDate(start),
+        endedAt: Timestamp.fromDate(end),
+        durationMinutes: Math.round(duration),
+        startPage: format === 'audiobook' ? null : startPageNum,
+        endPage: format === 'audiobook' ? null : endPageNum,
+        minutesCovered: format === 'audiobook' ? parseProgressInput(minutesCovered) : null,
+      };
+
+      if (editingSession) {
+        await queueUpdate(`readingSessions/${editingSession.id}`, sessionData);
+        Toast.show({ type: 'success', text1: 'Session Updated' });
+      } else {
+        await queueSet(newDocPath('readingSessions'), { ...sessionData, source: fromTimer ? 'timer' : 'manual', createdAt: Timestamp.now() });
+        Toast.show({ type: 'success', text1: 'Session Saved', text2: `${formatMinutes(sessionData.durationMinutes)} logged` });
+      }
+
+      // Move the book's bookmark forward if this session got further than we knew.
+      // Ebooks are bookmarked by percent, so their pages only count when the page count is known.
+      if (format === 'physical' && endPageNum !== null && endPageNum > (book.currentPage || 0)) {
+        await saveProgress(currentUser.uid, book, { currentPage: Math.round(endPageNum) });
+      } else if (format === 'ebook' && endPageNum !== null && book.pageCount) {
+        const percent = Math.min(100, Math.round((endPageNum / book.pageCount) * 100));
+        if (percent > (book.progressPercent || 0)) await saveProgress(currentUser.uid, book, { progressPercent: percent });
+      } else if (format === 'audiobook' && sessionData.minutesCovered && !editingSession) {
+        await saveProgress(currentUser.uid, book, {
+          listenedMinutes: Math.round((book.listenedMinutes || 0) + sessionData.minutesCovered),
+        });
+      }
+
+      if (fromTimer) await stopSession();
+      setEditorVisible(false);
+      loadData();
+    } catch (e: any) {
+      Toast.show({ type: 'error', text1: 'Error', text2: e.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteSession = async () => {
+    if (!editingSession) return;
+    try {
+      await queueDelete(`readingSessions/${editingSession.id}`);
+      setEditorVisible(false);
+      Toast.show({ type: 'success', text1: 'Session Deleted' });
+      loadData();
+    } catch (e: any) {
+      Toast.show({ type: 'error', text1: 'Error', text2: e.message });
+    }
+  };
+
+  const totalMinutes = sessions.reduce((sum, s) => sum + (s.durationMinutes || 0), 0);
+  const totalAmount = sessions.reduce((sum, s) => sum + getSessionAmount(s), 0);
+
+  const renderSession = ({ item }: { item: ReadingSession }) => {
+    const start = toDate(item.startedAt);
+    const amount = getSessionAmount(item);
+    return (
+      <TouchableOpacity style={[styles.sessionCard, { backgroundColor: colors.card, borderColor: colors.border }]} onPress={() => openEditModal(item)}>
+        <View style={[styles.sessionIcon, { backgroundColor: colors.primary + '20' }]}>
+          <Ionicons name={item.source === 'timer' ? 'timer-outline' : 'create-outline'} size={20} color={colors.primary} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={[styles.sessionDate, { color: colors.textDark }]}>
+            {start ? start.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' }) : 'Unknown date'}
+          </Text>
+          <Text style={[styles.sessionMeta, { color: colors.textLight }]}>
+            {start ? start.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' }) : ''}
+            {amount > 0 ? ` • ${item.format === 'audiobook' ? formatMinutes(amount) + ' listened' : amount + ' pages'}` : ''}
+          </Text>
+        </View>
+        <Text style={[styles.sessionDuration, { color: colors.primary }]}>{formatMinutes(item.durationMinutes || 0)}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+      <DoodleBackground colors={colors} />
+      <StatusBar barStyle={theme === 'dark' ? 'light-content' : 'dark-content'} />
+      <Stack.Screen options={{
+        headerShown: true,
+        headerTitle: 'Reading Sessions',
+        headerTitleAlign: 'center',
+        headerTintColor: colors.textDark,
+        headerStyle: { backgroundColor: colors.card },
+        headerTitleStyle: { fontWeight: '900', fontSize: 18 },
+        headerLeft: () => (
+          <TouchableOpacity onPress={() => router.back()} style={styles.headerBtn}>
+            <Ionicons name="chevron-back" size={28} color={colors.textDark} />
+          </TouchableOpacity>
+        ),
+        headerRight: () => (
+          <TouchableOpacity onPress={openAddModal} style={styles.headerBtn} disabled={!book}>
+            <Ionicons name="add" size={28} color={colors.textDark} />
+          </TouchableOpacity>
+        ),
+      }} />
+
+      {loading ? (
+        <View style={styles.center}><ActivityIndicator size="large" color={colors.primary} /></View>
+      ) : !book ? (
+        <View style={styles.center}>
+          <Text style={[styles.emptyText, { color: colors.textLight }]}>This book could not be found.</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={sessions}
+          renderItem={renderSession}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={
+            <>
+              <View style={[styles.timerCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                <Text style={[styles.bookTitle, { color: colors.textDark }]} numberOfLines={2}>{book.title}</Text>
+                <Text style={[styles.bookAuthor, { color: colors.textLight }]} numberOfLines={1}>{book.author}</Text>
+                <Text style={[styles.timerText, { color: isTimingThisBook ? colors.primary : colors.textLight }]}>
+                  {isTimingThisBook ? formatElapsed(now - activeSession!.startedAt) : '00:00'}
+                </Text>
+                {isTimingThisBook ? (
+                  <View style={{ flexDirection: 'row', gap: 12, width: '100%' }}>
+                    <TouchableOpacity style={[styles.timerBtn, { backgroundColor: colors.border + '40', flex: 1 }]} onPress={discardSession}>
+                      <Text style={[styles.timerBtnText, { color: colors.textDark }]}>Discard</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={[styles.timerBtn, { backgroundColor: colors.danger, flex: 2 }]} onPress={handleStop}>
+                      <Ionicons name="stop" size={18} color="white" />
+                      <Text style={styles.timerBtnText}>Stop & Save</Text>
+                    </TouchableOpacity>
+                  </View>
+                ) : (
+                  <TouchableOpacity style={[styles.timerBtn, { backgroundColor: colors.primary, width: '100%' }]} onPress={handleStart}>
+                    <Ionicons name="play" size={18} color="white" />
+                    <Text style={styles.timerBtnText}>Start Reading</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              <View style={styles.summaryRow}>
+                <View style={[styles.summaryCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                  <Text style={[styles.summaryValue, { color: colors.textDark }]}>{formatMinutes(totalMinutes)}</Text>
+                  <Text style={[styles.summaryLabel, { color: colors.textLight }]}>Time Read</Text>
+                </View>
+                <View style={[styles.summaryCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                  <Text style={[styles.summaryValue, { color: colors.textDark }]}>{sessions.length}</Text>
+                  <Text style={[styles.summaryLabel, { color: colors.textLight }]}>Sessions</Text>
+                </View>
+                <View style={[styles.summaryCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                  <Text style={[styles.summaryValue, { color: colors.textDark }]}>{format === 'audiobook' ? formatMinutes(totalAmount) : totalAmount}</Text>
+                  <Text style={[styles.summaryLabel, { color: colors.textLight }]}>{format === 'audiobook' ? 'Listened' : 'Pages'}</Text>
+                </View>
+              </View>
+
+              <Text style={[styles.sectionTitle, { color: colors.textDark }]}>History</Text>
+            </>
+          }
+          ListEmptyComponent={
+            <Text style={[styles.emptyText, { color: colors.textLight }]}>No sessions yet. Start the timer or add one by hand.</Text>
+          }
+        />
+      )}
+
+      {/* SESSION EDITOR */}
+      <Modal visible={editorVisible} animationType="slide" transparent onRequestClose={() => setEditorVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.textDark }]}>{editingSession ? 'Edit Session' : 'Log Session'}</Text>
+              <TouchableOpacity onPress={() => setEditorVisible(false)}><Ionicons name="close" size={24} color={colors.textDark} /></TouchableOpacity>
+            </View>
+            <ScrollView showsVerticalScrollIndicator={false} style={{ width: '100%' }}>
+              <View style={styles.inputRow}>
+                <View style={{ flex: 3 }}>
+                  <Text style={styles.inputLabel}>Date</Text>
+                  <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={sessionDate} onChangeText={setSessionDate} placeholder="YYYY-MM-DD" placeholderTextColor={colors.textLight} />
+                </View>
+                <View style={{ flex: 2 }}>
+                  <Text style={styles.inputLabel}>Start</Text>
+                  <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={sessionTime} onChangeText={setSessionTime} placeholder="HH:MM" placeholderTextColor={colors.textLight} />
+                </View>
+              </View>
+
+              <Text style={styles.inputLabel}>Duration (minutes)</Text>
+              <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={sessionDuration} onChangeText={setSessionDuration} keyboardType="numeric" placeholder="e.g. 30" placeholderTextColor={colors.textLight} />
+
+              {format === 'audiobook' ? (
+                <>
+                  <Text style={styles.inputLabel}>Minutes Listened</Text>
+                  <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={minutesCovered} onChangeText={setMinutesCovered} keyboardType="numeric" placeholder="e.g. 45" placeholderTextColor={colors.textLight} />
+                </>
+              ) : (
+                <View style={styles.inputRow}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.inputLabel}>From Page</Text>
+                    <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={startPage} onChangeText={setStartPage} keyboardType="numeric" placeholder="e.g. 40" placeholderTextColor={colors.textLight} />
+                  </View>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.inputLabel}>To Page</Text>
+                    <TextInput style={[styles.input, { color: colors.textDark, borderColor: colors.border }]} value={endPage} onChangeText={setEndPage} keyboardType="numeric" placeholder="e.g. 72" placeholderTextColor={colors.textLight} />
+                  </View>
+                </View>
+              )}
+
+              <TouchableOpacity style={[styles.saveBtn, { backgroundColor: colors.primary }]} onPress={handleSaveSession} disabled={isSaving}>
+                {isSaving ? <ActivityIndicator color="white" /> : <Text style={styles.saveBtnText}>{editingSession ? 'Save Changes' : 'Save Session'}</Text>}
+              </TouchableOpacity>
+              {editingSession && (
+                <TouchableOpacity style={styles.deleteLink} onPress={handleDeleteSession}>
+                  <Text style={[styles.deleteLinkText, { color: colors.danger }]}>Delete Session</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  center: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: 24 },
+  listContent: { padding: 16, paddingBottom: 40 },
+  headerBtn: { padding: 8, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
+  timerCard: { borderRadius: 28, borderWidth: 1, padding: 24, alignItems: 'center', marginBottom: 16 },
+  bookTitle: { fontSize: 20, fontWeight: '900', textAlign: 'center' },
+  bookAuthor: { fontSize: 13, fontWeight: '700', marginTop: 4 },
+  timerText: { fontSize: 48, fontWeight: '900', marginVertical: 20, fontVariant: ['tabular-nums'] },
+  timerBtn: { height: 52, borderRadius: 16, flexDirection: 'row', justifyContent: 'center', alignItems: 'center', gap: 8 },
+  timerBtnText: { color: 'white', fontSize: 15, fontWeight: '900', textTransform: 'uppercase' },
+  summaryRow: { flexDirection: 'row', gap: 10, marginBottom: 24 },
+  summaryCard: { flex: 1, borderRadius: 20, borderWidth: 1, paddingVertical: 16, alignItems: 'center' },
+  summaryValue: { fontSize: 18, fontWeight: '900' },
+  summaryLabel: { fontSize: 10, fontWeight: '800', textTransform: 'uppercase', marginTop: 4, letterSpacing: 0.5 },
+  sectionTitle: { fontSize: 14, fontWeight: '900', textTransform: 'uppercase', letterSpacing: 1, marginBottom: 12 },
+  sessionCard: { flexDirection: 'row', alignItems: 'center', borderRadius: 20, borderWidth: 1, padding: 14, marginBottom: 10, gap: 12 },
+  sessionIcon: { width: 40, height: 40, borderRadius: 12, justifyContent: 'center', alignItems: 'center' },
+  sessionDate: { fontSize: 15, fontWeight: '800' },
+  sessionMeta: { fontSize: 12, fontWeight: '600', marginTop: 2 },
+  sessionDuration: { fontSize: 16, fontWeight: '900' },
+  emptyText: { textAlign: 'center', fontSize: 14, fontWeight: '600', marginTop: 24 },
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.7)', justifyContent: 'center', alignItems: 'center', padding: 24 },
+  modalContent: { width: '100%', maxWidth: 400, maxHeight: '85%', borderRadius: 28, padding: 24, alignItems: 'center', elevation: 10 },
+  modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8, width: '100%' },
+  modalTitle: { fontSize: 22, fontWeight: '900', textTransform: 'uppercase', letterSpacing: 1 },
+  inputRow: { flexDirection: 'row', gap: 12 },
+  inputLabel: { fontSize: 13, fontWeight: '800', marginBottom: 8, marginTop: 16, textTransform: 'uppercase', opacity: 0.6 },
+  input: { borderWidth: 1, borderRadius: 16, paddingHorizontal: 16, paddingVertical: 12, fontSize: 16 },
+  saveBtn: { height: 56, borderRadius: 16, justifyContent: 'center', alignItems: 'center', width: '100%', marginTop: 24 },
+  saveBtnText: { color: 'white', fontSize: 16, fontWeight: '900', textTransform: 'uppercase' },
+  deleteLink: { alignItems: 'center', paddingVertical: 16 },
+  deleteLinkText: { fontSize: 14, fontWeight: '800', textTransform: 'uppercase' },
+});
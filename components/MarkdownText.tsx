@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, StyleProp, TextStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { InlineSpan, MarkdownBlock, parseMarkdown } from '../utils/markdown';
+
+interface MarkdownTextProps {
+  content: string;
+  colors: any;
+  textStyle?: StyleProp<TextStyle>;
+  // Cards only show the first few blocks, the full note is in the editor
+  maxBlocks?: number;
+  onToggleCheckbox?: (line: number) => void;
+}
+
+const HEADING_SIZES = { 1: 1.5, 2: 1.3, 3: 1.15 };
+
+export const MarkdownText: React.FC<MarkdownTextProps> = ({ content, colors, textStyle, maxBlocks, onToggleCheckbox }) => {
+  const blocks = useMemo(() => {
+    const parsed = parseMarkdown(content);
+    // Leading/trailing blank lines only add empty space
+    while (parsed.length > 0 && parsed[0].type === 'blank') parsed.shift();
+    while (parsed.length > 0 && parsed[parsed.length - 1].type === 'blank') parsed.pop();
+    return maxBlocks ? parsed.slice(0, maxBlocks) : parsed;
+  }, [content, maxBlocks]);
+
+  const baseSize = StyleSheet.flatten(textStyle)?.fontSize || 15;
+
+  const renderSpans = (spans: InlineSpan[], style?: StyleProp<TextStyle>) => (
+    <Text style={[{ color: colors.textDark }, textStyle, style]} numberOfLines={maxBlocks ? 2 : undefined}>
+      {spans.map((span, i) => (
+        <Text key={i} style={[span.bold && styles.bold, span.italic && styles.italic]}>{span.text}</Text>
+      ))}
+    </Text>
+  );
+
+  const renderBlock = (block: MarkdownBlock) => {
+    switch (block.type) {
+      case 'blank':
+        return <View key={block.line} style={{ height: baseSize * 0.6 }} />;
+      case 'heading':
+        return (
+          <View key={block.line}>
+            {renderSpans(block.spans, [styles.heading, { fontSize: baseSize * HEADING_SIZES[block.level], lineHeight: baseSize * HEADING_SIZES[block.level] * 1.3 }])}
+          </View>
+        );
+      case 'bullet':
+      case 'ordered':
+        return (
+          <View key={block.line} style={styles.listRow}>
+            <Text style={[{ color: colors.textLight }, textStyle, styles.marker]}>{block.type === 'bullet' ? '•' : `${block.index}.`}</Text>
+            <View style={{ flex: 1 }}>{renderSpans(block.spans)}</View>
+          </View>
+        );
+      case 'quote':
+        return (
+          <View key={block.line} style={[styles.quote, { borderLeftColor: colors.primary }]}>
+            {renderSpans(block.spans, [styles.italic, { color: colors.textLight }])}
+          </View>
+        );
+      case 'checkbox':
+        return (
+          <View key={block.line} style={styles.listRow}>
+            <TouchableOpacity disabled={!onToggleCheckbox} onPress={() => onToggleCheckbox?.(block.line)} hitSlop={8}>
+              <Ionicons
+                name={block.checked ? 'checkbox' : 'square-outline'}
+                size={baseSize + 2}
+                color={block.checked ? colors.primary : colors.textLight}
+              />
+            </TouchableOpacity>
+            <View style={{ flex: 1 }}>
+              {renderSpans(block.spans, block.checked && [styles.checked, { color: colors.textLight }])}
+            </View>
+          </View>
+        );
+      default:
+        return <View key={block.line}>{renderSpans(block.spans)}</View>;
+    }
+  };
+
+  return <View>{blocks.map(renderBlock)}</View>;
+};
+
+const styles = StyleSheet.create({
+  bold: { fontWeight: '900' },
+  italic: { fontStyle: 'italic' },
+  heading: { fontWeight: '900', marginBottom: 2 },
+  listRow: { flexDirection: 'row', alignItems: 'flex-start', gap: 6 },
+  marker: { minWidth: 14, fontWeight: '800' },
+  quote: { borderLeftWidth: 3, paddingLeft: 10, marginVertical: 2 },
+  checked: { textDecorationLine: 'line-through' },
+});
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View, Text, TextInput, TouchableOpacity, FlatList, Modal, ActivityIndicator, StyleSheet, Image
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { PublicProfile, searchPublicProfiles } from '../data';
+import Toast from 'react-native-toast-message';
+
+interface ReaderPickerModalProps {
+  visible: boolean;
+  colors: any;
+  title: string;
+  confirmLabel: string;
+  // Readers who are already in (or already invited) and can't be picked again
+  excludeIds?: string[];
+  maxSelected?: number;
+  onClose: () => void;
+  onConfirm: (readers: PublicProfile[]) => Promise<void> | void;
+}
+
+// Username search with multi-select, for inviting readers to things
+export function ReaderPickerModal({
+  visible, colors, title, confirmLabel, excludeIds = [], maxSelected, onClose, onConfirm
+}: ReaderPickerModalProps) {
+  const [term, setTerm] = useState('');
+  const [results, setResults] = useState<PublicProfile[]>([]);
+  const [selected, setSelected] = useState<PublicProfile[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) return;
+    setTerm('');
+    setResults([]);
+    setSelected([]);
+  }, [visible]);
+
+  // Debounced like the Messages search
+  useEffect(() => {
+    const query = term.trim();
+    if (!query) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        setResults(await searchPublicProfiles(query));
+      } catch (error) {
+        console.error("Reader search error:", error);
+      } finally {
+        setSearching(false);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [term]);
+
+  const toggle = (reader: PublicProfile) => {
+    if (selected.some(r => r.id === reader.id)) {
+      setSelected(selected.filter(r => r.id !== reader.id));
+    } else if (maxSelected != null && selected.length >= maxSelected) {
+      Toast.show({ type: 'info', text1: 'Limit Reached', text2: `You can pick up to ${maxSelected} readers.` });
+    } else {
+      setSelected([...selected, reader]);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (selected.length === 0) return;
+    setIsSaving(true);
+    try {
+      await onConfirm(selected);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const visibleResults = results.filter(r => !excludeIds.includes(r.id));
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+          <View style={styles.modalHeader}>
+            <Text style={[styles.modalTitle, { color: colors.textDark }]}>{title}</Text>
+            <TouchableOpacity onPress={onClose}><Ionicons name="close" size={24} color={colors.textDark} /></TouchableOpacity>
+          </View>
+
+          <View style={[styles.searchBar, { borderColor: colors.border }]}>
+            <Ionicons name="search" size={18} color={colors.textLight} />
+            <TextInput
+              style={[styles.searchInput, { color: colors.textDark }]}
+              value={term}
+              onChangeText={setTerm}
+              placeholder="Search by username..."
+              placeholderTextColor={colors.textLight}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {searching && <ActivityIndicator size="small" color={colors.primary} />}
+          </View>
+
+          {selected.length > 0 && (
+            <View style={styles.chipRow}>
+              {selected.map(reader => (
+                <TouchableOpacity key={reader.id} style={[styles.chip, { backgroundColor: colors.primary }]} onPress={() => toggle(reader)}>
+                  <Text style={styles.chipText}>{reader.username}</Text>
+                  <Ionicons name="close" size={14} color="white" />
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <FlatList
+            data={visibleResults}
+            keyExtractor={item => item.id}
+            style={styles.list}
+            keyboardShouldPersistTaps="handled"
+            renderItem={({ item }) => {
+              const isSelected = selected.some(r => r.id === item.id);
+              return (
+                <TouchableOpacity style={[styles.row, { borderBottomColor: colors.border }]} onPress={() => toggle(item)}>
+                  <Image
+                    source={{ uri: `https://ui-avatars.com/api/?name=${encodeURIComponent(item.username)}&background=random` }}
+                    style={styles.avatar}
+                  />
+                  <Text style={[styles.rowText, { color: colors.textDark }]} numberOfLines={1}>{item.username}</Text>
+                  <Ionicons
+                    name={isSelected ? 'checkmark-circle' : 'ellipse-outline'}
+                    size={22}
+                    color={isSelected ? colors.primary : colors.border}
+                  />
+                </TouchableOpacity>
+              );
+            }}
+            ListEmptyComponent={
+              term.trim() && !searching
+                ? <Text style={[styles.emptyText, { color: colors.textLight }]}>No readers found.</Text>
+                : null
+            }
+          />
+
+          <TouchableOpacity
+            style={[styles.saveBtn, { backgroundColor: colors.primary, opacity: selected.length ? 1 : 0.5 }]}
+            onPress={handleConfirm}
+            disabled={isSaving || selected.length === 0}
+          >
+            {isSaving ? <ActivityIndicator color="white" /> : <Text style={styles.saveBtnText}>{confirmLabel}</Text>}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.7)', justifyContent: 'center', alignItems: 'center', padding: 24 },
+  modalContent: { width: '100%', maxWidth: 400, maxHeight: '85%', borderRadius: 28, padding: 24, alignItems: 'center', elevation: 10 },
+  modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16, width: '100%' },
+  modalTitle: { fontSize: 22, fontWeight: '900', textTransform: 'uppercase', letterSpacing: 1 },
+  searchBar: { flexDirection: 'row', alignItems: 'center', gap: 8, width: '100%', height: 48, borderWidth: 1, borderRadius: 16, paddingHorizontal: 16 },
+  searchInput: { flex: 1, fontSize: 16 },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, width: '100%', marginTop: 12 },
+  chip: { flexDirection: 'row', alignItems: 'center', gap: 4, paddingHorizontal: 12, paddingVertical: 6, borderRadius: 12 },
+  chipText: { color: 'white', fontSize: 13, fontWeight: '800' },
+  list: { width: '100%', marginTop: 8, maxHeight: 300 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 12, paddingVertical: 10, borderBottomWidth: 1 },
+  avatar: { width: 36, height: 36, borderRadius: 18 },
+  rowText: { flex: 1, fontSize: 15, fontWeight: '700' },
+  emptyText: { textAlign: 'center', fontSize: 14, fontWeight: '600', marginTop: 16 },
+  saveBtn: { height: 56, borderRadius: 16, justifyContent: 'center', alignItems: 'center', width: '100%', marginTop: 16 },
+  saveBtnText: { color: 'white', fontSize: 16, fontWeight: '900', textTransform: 'uppercase' },
+});
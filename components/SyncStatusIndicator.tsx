@@ -0,0 +1,61 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Animated, { FadeIn, FadeOut } from 'react-native-reanimated';
+import { useSyncStatus } from '../context/SyncContext';
+
+interface SyncStatusIndicatorProps {
+  colors: any;
+}
+
+const SYNCED_VISIBLE_MS = 2500;
+
+// Stays out of the way while everything is synced, and only flashes "Synced" after
+// pending changes have gone through
+export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ colors }) => {
+  const { state, pendingCount } = useSyncStatus();
+  const insets = useSafeAreaInsets();
+  const [showSynced, setShowSynced] = useState(false);
+  const previousState = useRef(state);
+
+  useEffect(() => {
+    if (state === 'synced' && previousState.current !== 'synced') {
+      setShowSynced(true);
+      const timer = setTimeout(() => setShowSynced(false), SYNCED_VISIBLE_MS);
+      previousState.current = state;
+      return () => clearTimeout(timer);
+    }
+    previousState.current = state;
+    setShowSynced(false);
+  }, [state]);
+
+  if (state === 'synced' && !showSynced) return null;
+
+  const config = {
+    offline: { icon: 'cloud-offline-outline', label: pendingCount > 0 ? `Offline • ${pendingCount} pending` : 'Offline', tint: colors.danger },
+    pending: { icon: 'cloud-upload-outline', label: `Syncing ${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'}`, tint: colors.secondary },
+    synced: { icon: 'cloud-done-outline', label: 'Synced', tint: colors.primary },
+  }[state];
+
+  return (
+    <View pointerEvents="none" style={[styles.wrapper, { top: insets.top + 4 }]}>
+      <Animated.View
+        entering={FadeIn}
+        exiting={FadeOut}
+        style={[styles.pill, { backgroundColor: colors.card, borderColor: config.tint }]}
+        accessibilityRole="text"
+        accessibilityLabel={config.label}
+      >
+        <Ionicons name={config.icon as any} size={14} color={config.tint} />
+        <Text style={[styles.label, { color: colors.textDark }]}>{config.label}</Text>
+      </Animated.View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  wrapper: { position: 'absolute', left: 0, right: 0, alignItems: 'center', zIndex: 100 },
+  pill: { flexDirection: 'row', alignItems: 'center', gap: 6, paddingHorizontal: 12, paddingVertical: 5, borderRadius: 14, borderWidth: 1, elevation: 4, shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.15, shadowRadius: 4 },
+  label: { fontSize: 11, fontWeight: '800' },
+});
@@ -3,33 +3,50 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Haptics from 'expo-haptics';
 import * as SecureStore from 'expo-secure-store';
 import * as LocalAuthentication from 'expo-local-authentication';
-import { onAuthStateChanged, User } from 'firebase/auth';
-import { doc, getDoc, updateDoc } from 'firebase/firestore';
+import { EmailAuthProvider, onAuthStateChanged, reauthenticateWithCredential, signOut, User } from 'firebase/auth';
+import { deleteField, doc, getDoc, updateDoc } from 'firebase/firestore';
 import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
-import { AppState, AppStateStatus, Platform, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { ActivityIndicator, AppState, AppStateStatus, Platform, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { COLORS, darkColors } from '../constants/colors';
 import { auth, db } from '../firebaseConfig';
 import { useTheme } from './ThemeContext';
 import { DoodleBackground } from '../components/DoodleBackground';
+import { hashPin, isPinHash, verifyPin } from '../utils/pinHash';
 
 const SECURE_STORE_KEY = 'app_passlock_pin';
 const ASYNC_STORAGE_TIMEOUT_KEY = 'app_passlock_timeout';
 const ASYNC_STORAGE_LAST_ACTIVE_KEY = 'app_passlock_last_active';
 const ASYNC_STORAGE_BIOMETRIC_KEY = 'app_passlock_biometric_enabled';
 const FALLBACK_PIN_KEY = 'app_passlock_pin_fallback';
+const ASYNC_STORAGE_FAILED_ATTEMPTS_KEY = 'app_passlock_failed_attempts';
+const ASYNC_STORAGE_LOCKOUT_UNTIL_KEY = 'app_passlock_lockout_until';
+const ASYNC_STORAGE_SIGN_OUT_KEY = 'app_passlock_sign_out_on_failures';
+
+export const MAX_FAILED_ATTEMPTS = 10;
+const FREE_ATTEMPTS = 4;
+// Seconds to wait after the 5th, 6th, 7th... wrong PIN. The last value repeats.
+const LOCKOUT_STEPS = [30, 60, 300, 900, 3600];
+
+const getLockoutSeconds = (failedAttempts: number) => {
+  if (failedAttempts <= FREE_ATTEMPTS) return 0;
+  return LOCKOUT_STEPS[Math.min(failedAttempts - FREE_ATTEMPTS - 1, LOCKOUT_STEPS.length - 1)];
+};
 
 type LockContextType = {
   isLocked: boolean;
   hasPin: boolean;
   pinTimeout: number; 
   biometricEnabled: boolean;
+  signOutOnFailures: boolean;
   setPin: (pin: string) => Promise<void>;
   removePin: () => Promise<void>;
   setPinTimeout: (minutes: number) => Promise<void>;
   setBiometricEnabled: (enabled: boolean) => Promise<void>;
+  setSignOutOnFailures: (enabled: boolean) => Promise<void>;
   unlock: (pin: string) => Promise<boolean>;
   authenticateBiometric: () => Promise<void>;
+  resetPinWithPassword: (password: string) => Promise<void>;
 };
 
 const LockContext = createContext<LockContextType | undefined>(undefined);
@@ -50,6 +67,9 @@ export const LockProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [hasPin, setHasPin] = useState(false);
   const [pinTimeout, setPinTimeoutState] = useState(0); 
   const [biometricEnabled, setBiometricEnabledState] = useState(false);
+  const [signOutOnFailures, setSignOutOnFailuresState] = useState(false);
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [lockoutUntil, setLockoutUntil] = useState(0);
   const [appState, setAppState] = useState(AppState.currentState);
   const [user, setUser] = useState<User | null>(null);
 
@@ -84,13 +104,29 @@ export const LockProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const resetFailures = useCallback(async () => {
+    setFailedAttempts(0);
+    setLockoutUntil(0);
+    await AsyncStorage.multiRemove([ASYNC_STORAGE_FAILED_ATTEMPTS_KEY, ASYNC_STORAGE_LOCKOUT_UNTIL_KEY]);
+  }, []);
+
   const syncPinFromCloud = useCallback(async (userId: string) => {
     try {
       const userDoc = await getDoc(doc(db, 'users', userId));
       if (userDoc.exists()) {
         const data = userDoc.data();
-        const cloudPin = data.appLockPin;
-        const localPin = await getStoredPin();
+        let cloudPin: string | null = data.appLockPinHash || null;
+        let localPin = await getStoredPin();
+
+        // Migrate PINs stored before hashing: replace the plaintext field with a hash
+        if (data.appLockPin) {
+          if (!cloudPin) cloudPin = await hashPin(String(data.appLockPin));
+          await updateDoc(doc(db, 'users', userId), { appLockPinHash: cloudPin, appLockPin: deleteField() });
+        }
+        if (localPin && !isPinHash(localPin)) {
+          localPin = await hashPin(localPin);
+          await savePinLocally(localPin);
+        }
         
         // Only sync FROM cloud to local. 
         // Never sync local to cloud automatically to avoid cross-user contamination.
@@ -126,10 +162,11 @@ export const LockProvider: React.FC<{ children: React.ReactNode }> = ({ children
         AsyncStorage.removeItem(ASYNC_STORAGE_BIOMETRIC_KEY);
         AsyncStorage.removeItem(ASYNC_STORAGE_TIMEOUT_KEY);
         AsyncStorage.removeItem(ASYNC_STORAGE_LAST_ACTIVE_KEY);
+        resetFailures();
       }
     });
     return unsubscribe;
-  }, [syncPinFromCloud]);
+  }, [syncPinFromCloud, resetFailures]);
 
   const checkPin = useCallback(async () => {
     const pin = await getStoredPin();
@@ -152,6 +189,13 @@ export const LockProvider: React.FC<{ children: React.ReactNode }> = ({ children
     if (bioEnabled !== null) {
       setBiometricEnabledState(bioEnabled === 'true');
     }
+    // Failure state is persisted so killing the app can't be used to skip a lockout
+    const attempts = await AsyncStorage.getItem(ASYNC_STORAGE_FAILED_ATTEMPTS_KEY);
+    setFailedAttempts(attempts ? parseInt(attempts) : 0);
+    const until = await AsyncStorage.getItem(ASYNC_STORAGE_LOCKOUT_UNTIL_KEY);
+    setLockoutUntil(until ? parseInt(until) : 0);
+    const signOutSetting = await AsyncStorage.getItem(ASYNC_STORAGE_SIGN_OUT_KEY);
+    setSignOutOnFailuresState(signOutSetting === 'true');
   }, []);
 
   useEffect(() => {
@@ -189,9 +233,10 @@ export const LockProvider: React.FC<{ children: React.ReactNode }> = ({ children
   }, [handleAppStateChange]);
 
   const setPin = async (pin: string) => {
-    await savePinLocally(pin);
+    const pinHash = await hashPin(pin);
+    await savePinLocally(pinHash);
     if (user) {
-      await updateDoc(doc(db, 'users', user.uid), { appLockPin: pin });
+      await updateDoc(doc(db, 'users', user.uid), { appLockPinHash: pinHash, appLockPin: deleteField() });
     }
     setHasPin(true);
     setIsLocked(false); 
@@ -200,7 +245,7 @@ export const LockProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const removePin = async () => {
     await deletePinLocally();
     if (user) {
-      await updateDoc(doc(db, 'users', user.uid), { appLockPin: null, biometricEnabled: false });
+      await updateDoc(doc(db, 'users', user.uid), { appLockPinHash: null, appLockPin: deleteField(), biometricEnabled: false });
     }
     setBiometricEnabledState(false);
     await AsyncStorage.removeItem(ASYNC_STORAGE_BIOMETRIC_KEY);
@@ -224,15 +269,47 @@ export const LockProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const setSignOutOnFailures = async (enabled: boolean) => {
+    setSignOutOnFailuresState(enabled);
+    await AsyncStorage.setItem(ASYNC_STORAGE_SIGN_OUT_KEY, enabled.toString());
+  };
+
   const unlock = async (enteredPin: string) => {
+    if (Date.now() < lockoutUntil) return false;
+
     const storedPin = await getStoredPin();
-    if (enteredPin === storedPin) {
+    if (await verifyPin(enteredPin, storedPin)) {
+      if (!isPinHash(storedPin)) {
+        await savePinLocally(await hashPin(enteredPin));
+      }
+      await resetFailures();
       setIsLocked(false);
       return true;
     }
+
+    const attempts = failedAttempts + 1;
+    if (signOutOnFailures && attempts >= MAX_FAILED_ATTEMPTS) {
+      // Logging out clears the local PIN and the counters (see onAuthStateChanged above)
+      await signOut(auth);
+      return false;
+    }
+    const until = Date.now() + getLockoutSeconds(attempts) * 1000;
+    setFailedAttempts(attempts);
+    setLockoutUntil(until);
+    await AsyncStorage.setItem(ASYNC_STORAGE_FAILED_ATTEMPTS_KEY, attempts.toString());
+    await AsyncStorage.setItem(ASYNC_STORAGE_LOCKOUT_UNTIL_KEY, until.toString());
     return false;
   };
 
+  // Forgot PIN: proving the account password is enough to drop the PIN entirely
+  const resetPinWithPassword = async (password: string) => {
+    const currentUser = auth.currentUser;
+    if (!currentUser?.email) throw new Error('No signed-in account.');
+    await reauthenticateWithCredential(currentUser, EmailAuthProvider.credential(currentUser.email, password));
+    await resetFailures();
+    await removePin();
+  };
+
   const authenticateBiometric = async () => {
     try {
       const hasHardware = await LocalAuthentication.hasHardwareAsync();
@@ -257,9 +334,9 @@ export const LockProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   return (
     <LockContext.Provider value={{ 
-      isLocked, hasPin, pinTimeout, biometricEnabled, 
-      setPin, removePin, setPinTimeout, setBiometricEnabled, 
-      unlock, authenticateBiometric 
+      isLocked, hasPin, pinTimeout, biometricEnabled, signOutOnFailures,
+      setPin, removePin, setPinTimeout, setBiometricEnabled, setSignOutOnFailures,
+      unlock, authenticateBiometric, resetPinWithPassword
     }}>
       {children}
       {isLocked && user && (
@@ -268,6 +345,10 @@ export const LockProvider: React.FC<{ children: React.ReactNode }> = ({ children
           colors={colors} 
           biometricEnabled={biometricEnabled} 
           onBiometricAuth={authenticateBiometric}
+          failedAttempts={failedAttempts}
+          lockoutUntil={lockoutUntil}
+          signOutOnFailures={signOutOnFailures}
+          onResetPin={resetPinWithPassword}
         />
       )}
     </LockContext.Provider>
@@ -278,10 +359,29 @@ const LockScreen: React.FC<{
   onUnlock: (pin: string) => Promise<boolean>, 
   colors: any,
   biometricEnabled: boolean,
-  onBiometricAuth: () => Promise<void>
-}> = ({ onUnlock, colors, biometricEnabled, onBiometricAuth }) => {
+  onBiometricAuth: () => Promise<void>,
+  failedAttempts: number,
+  lockoutUntil: number,
+  signOutOnFailures: boolean,
+  onResetPin: (password: string) => Promise<void>
+}> = ({ onUnlock, colors, biometricEnabled, onBiometricAuth, failedAttempts, lockoutUntil, signOutOnFailures, onResetPin }) => {
   const [pin, setPin] = useState('');
   const [error, setError] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [showForgot, setShowForgot] = useState(false);
+  const [password, setPassword] = useState('');
+  const [resetError, setResetError] = useState('');
+  const [resetting, setResetting] = useState(false);
+
+  const secondsLeft = Math.max(0, Math.ceil((lockoutUntil - now) / 1000));
+  const isLockedOut = secondsLeft > 0;
+
+  useEffect(() => {
+    if (lockoutUntil <= Date.now()) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [lockoutUntil]);
 
   useEffect(() => {
     if (biometricEnabled) {
@@ -290,6 +390,7 @@ const LockScreen: React.FC<{
   }, [biometricEnabled, onBiometricAuth]);
 
   const handlePress = (num: string) => {
+    if (isLockedOut) return;
     if (pin.length < 4) {
       const newPin = pin + num;
       setPin(newPin);
@@ -315,6 +416,60 @@ const LockScreen: React.FC<{
     }
   };
 
+  const handleResetPin = async () => {
+    if (!password) return;
+    setResetting(true);
+    setResetError('');
+    try {
+      await onResetPin(password);
+      setPassword('');
+      setShowForgot(false);
+    } catch (e: any) {
+      setResetError(e.code === 'auth/too-many-requests' ? 'Too many attempts. Try again later.' : 'That password is incorrect.');
+    } finally {
+      setResetting(false);
+    }
+  };
+
+  const formatWait = (seconds: number) =>
+    seconds >= 60 ? `${Math.floor(seconds / 60)}m ${(seconds % 60).toString().padStart(2, '0')}s` : `${seconds}s`;
+
+  let statusText = 'Enter PIN or use Biometrics';
+  if (isLockedOut) {
+    statusText = `Too many attempts. Try again in ${formatWait(secondsLeft)}`;
+  } else if (signOutOnFailures && failedAttempts > 0) {
+    statusText = `${MAX_FAILED_ATTEMPTS - failedAttempts} attempts left before you are signed out`;
+  }
+
+  if (showForgot) {
+    return (
+      <SafeAreaView style={[styles.lockScreenContainer, { backgroundColor: colors.background }]}>
+        <DoodleBackground colors={colors} />
+        <View style={styles.lockHeader}>
+          <Ionicons name="key" size={48} color={colors.primary} />
+          <Text style={[styles.lockTitle, { color: colors.textDark }]}>Forgot PIN</Text>
+          <Text style={[styles.lockSubtitle, { color: colors.textLight }]}>Enter your account password to remove the app lock.</Text>
+        </View>
+        <TextInput
+          style={[styles.passwordInput, { color: colors.textDark, borderColor: resetError ? '#FF3B30' : colors.border }]}
+          placeholder="Password"
+          placeholderTextColor={colors.textLight}
+          value={password}
+          onChangeText={(t) => { setPassword(t); setResetError(''); }}
+          secureTextEntry
+          autoFocus
+        />
+        {resetError ? <Text style={styles.resetError}>{resetError}</Text> : null}
+        <TouchableOpacity style={[styles.resetBtn, { backgroundColor: colors.primary }]} onPress={handleResetPin} disabled={resetting || !password}>
+          {resetting ? <ActivityIndicator color="white" /> : <Text style={styles.resetBtnText}>Remove PIN</Text>}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.forgotLink} onPress={() => { setShowForgot(false); setPassword(''); setResetError(''); }}>
+          <Text style={[styles.forgotText, { color: colors.textLight }]}>Back</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
   const handleDelete = () => {
     if (pin.length > 0) {
       setPin(pin.slice(0, -1));
@@ -328,7 +483,7 @@ const LockScreen: React.FC<{
       <View style={styles.lockHeader}>
         <Ionicons name="lock-closed" size={48} color={colors.primary} />
         <Text style={[styles.lockTitle, { color: colors.textDark }]}>App Locked</Text>
-        <Text style={[styles.lockSubtitle, { color: colors.textLight }]}>Enter PIN or use Biometrics</Text>
+        <Text style={[styles.lockSubtitle, { color: isLockedOut ? '#FF3B30' : colors.textLight }]}>{statusText}</Text>
       </View>
 
       <View style={styles.dotsContainer}>
@@ -345,7 +500,7 @@ const LockScreen: React.FC<{
         ))}
       </View>
 
-      <View style={styles.keypad}>
+      <View style={[styles.keypad, isLockedOut && { opacity: 0.3 }]} pointerEvents={isLockedOut ? 'none' : 'auto'}>
         {[1, 2, 3, 4, 5, 6, 7, 8, 9].map((num) => (
           <TouchableOpacity key={num} style={styles.key} onPress={() => handlePress(num.toString())}>
             <Text style={[styles.keyText, { color: colors.textDark }]}>{num}</Text>
@@ -367,6 +522,10 @@ const LockScreen: React.FC<{
           <Ionicons name="backspace-outline" size={28} color={colors.textDark} />
         </TouchableOpacity>
       </View>
+
+      <TouchableOpacity style={styles.forgotLink} onPress={() => setShowForgot(true)}>
+        <Text style={[styles.forgotText, { color: colors.primary }]}>Forgot PIN?</Text>
+      </TouchableOpacity>
     </SafeAreaView>
   );
 };
@@ -423,4 +582,38 @@ const styles = StyleSheet.create({
     fontSize: 28,
     fontWeight: '600',
   },
+  forgotLink: {
+    marginTop: 24,
+    padding: 8,
+  },
+  forgotText: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  passwordInput: {
+    width: '100%',
+    borderWidth: 1,
+    borderRadius: 16,
+    padding: 16,
+    fontSize: 16,
+  },
+  resetError: {
+    color: '#FF3B30',
+    fontSize: 14,
+    marginTop: 8,
+  },
+  resetBtn: {
+    width: '100%',
+    height: 56,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  resetBtnText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '900',
+    textTransform: 'uppercase',
+  },
 });
@@ -0,0 +1,94 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { onAuthStateChanged } from 'firebase/auth';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { auth } from '../firebaseConfig';
+import { BookFormat } from '../utils/progress';
+
+const ACTIVE_SESSION_KEY = 'reading_session_active';
+
+export type ActiveSession = {
+  userId: string;
+  bookId: string;
+  bookTitle: string;
+  format: BookFormat;
+  startedAt: number;
+  startPage: number | null;
+};
+
+type ReadingSessionContextType = {
+  activeSession: ActiveSession | null;
+  startSession: (book: { id: string; title: string; format?: BookFormat; currentPage?: number | null }) => Promise<void>;
+  stopSession: () => Promise<ActiveSession | null>;
+  discardSession: () => Promise<void>;
+};
+
+const ReadingSessionContext = createContext<ReadingSessionContextType | undefined>(undefined);
+
+export const useReadingSession = () => {
+  const context = useContext(ReadingSessionContext);
+  if (!context) {
+    throw new Error('useReadingSession must be used within a ReadingSessionProvider');
+  }
+  return context;
+};
+
+export const ReadingSessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [activeSession, setActiveSession] = useState<ActiveSession | null>(null);
+
+  // The timer lives in storage so it survives the app being killed mid-session
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (u) => {
+      try {
+        const stored = await AsyncStorage.getItem(ACTIVE_SESSION_KEY);
+        const parsed: ActiveSession | null = stored ? JSON.parse(stored) : null;
+        if (parsed && u && parsed.userId === u.uid) {
+          setActiveSession(parsed);
+        } else {
+          setActiveSession(null);
+        }
+      } catch (e) {
+        console.error('Failed to restore reading session:', e);
+      }
+    });
+    return unsubscribe;
+  }, []);
+
+  const startSession = useCallback<ReadingSessionContextType['startSession']>(async (book) => {
+    const user = auth.currentUser;
+    if (!user) return;
+    const session: ActiveSession = {
+      userId: user.uid,
+      bookId: book.id,
+      bookTitle: book.title,
+      format: book.format || 'physical',
+      startedAt: Date.now(),
+      startPage: book.currentPage ?? null,
+    };
+    await AsyncStorage.setItem(ACTIVE_SESSION_KEY, JSON.stringify(session));
+    setActiveSession(session);
+  }, []);
+
+  // Called once the finished session has been saved; until then it stays in storage
+  const stopSession = useCallback(async () => {
+    const finished = activeSession;
+    await AsyncStorage.removeItem(ACTIVE_SESSION_KEY);
+    setActiveSession(null);
+    return finished;
+  }, [activeSession]);
+
+  const discardSession = useCallback(async () => {
+    await AsyncStorage.removeItem(ACTIVE_SESSION_KEY);
+    setActiveSession(null);
+  }, []);
+
+  const value = useMemo(
+    () => ({ activeSession, startSession, stopSession, discardSession }),
+    [activeSession, startSession, stopSession, discardSession]
+  );
+
+  return (
+    <ReadingSessionContext.Provider value={value}>
+      {children}
+    </ReadingSessionContext.Provider>
+  );
+};
@@ -0,0 +1,67 @@
+import { onAuthStateChanged } from 'firebase/auth';
+import { doc, onSnapshot } from 'firebase/firestore';
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import Toast from 'react-native-toast-message';
+import { auth, db } from '../firebaseConfig';
+import { replayOutbox, subscribeToOutbox, subscribeToOutboxErrors } from '../utils/offlineQueue';
+
+export type SyncState = 'synced' | 'pending' | 'offline';
+
+type SyncContextType = {
+  state: SyncState;
+  pendingCount: number;
+  isOnline: boolean;
+};
+
+const SyncContext = createContext<SyncContextType>({ state: 'synced', pendingCount: 0, isOnline: true });
+
+export const useSyncStatus = () => useContext(SyncContext);
+
+// Pure so the indicator logic can be checked without a device or the emulator
+export const getSyncState = (isOnline: boolean, pendingCount: number): SyncState => {
+  if (!isOnline) return 'offline';
+  return pendingCount > 0 ? 'pending' : 'synced';
+};
+
+export const SyncProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isOnline, setIsOnline] = useState(true);
+
+  useEffect(() => subscribeToOutbox((pending) => setPendingCount(pending.length)), []);
+
+  useEffect(() => subscribeToOutboxErrors((write) => {
+    Toast.show({ type: 'error', text1: 'Sync Failed', text2: `A change to ${write.path.split('/')[0]} was rejected by the server.` });
+  }), []);
+
+  // There's no connectivity API in the JS SDK, so watch our own user doc: while Firestore
+  // can't reach the backend every snapshot is served from the local cache.
+  useEffect(() => {
+    let unsubscribeDoc: (() => void) | null = null;
+    const unsubscribeAuth = onAuthStateChanged(auth, (u) => {
+      unsubscribeDoc?.();
+      unsubscribeDoc = null;
+      replayOutbox(u?.uid ?? null);
+      if (!u) {
+        setIsOnline(true);
+        return;
+      }
+      unsubscribeDoc = onSnapshot(
+        doc(db, 'users', u.uid),
+        { includeMetadataChanges: true },
+        (snap) => setIsOnline(!snap.metadata.fromCache),
+        () => setIsOnline(false)
+      );
+    });
+    return () => {
+      unsubscribeDoc?.();
+      unsubscribeAuth();
+    };
+  }, []);
+
+  const value = useMemo(
+    () => ({ state: getSyncState(isOnline, pendingCount), pendingCount, isOnline }),
+    [isOnline, pendingCount]
+  );
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
+};
@@ -1,13 +1,25 @@
-import React, { createContext, useState, useContext, useMemo, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { onAuthStateChanged } from 'firebase/auth';
+import { doc, getDoc, updateDoc } from 'firebase/firestore';
+import React, { createContext, useState, useContext, useMemo, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { Appearance } from 'react-native';
+import { auth, db } from '../firebaseConfig';
 
+const ASYNC_STORAGE_THEME_MODE_KEY = 'app_theme_mode';
+
+export type ThemeMode = 'light' | 'dark' | 'system';
 
 interface ThemeContextType {
   theme: 'light' | 'dark';
+  themeMode: ThemeMode;
+  setThemeMode: (mode: ThemeMode) => Promise<void>;
   toggleTheme: () => void;
 }
 
 export const ThemeContext = createContext<ThemeContextType>({
   theme: 'light',
+  themeMode: 'system',
+  setThemeMode: async () => {},
   toggleTheme: () => {},
 });
 
@@ -17,14 +29,66 @@ interface ThemeProviderProps {
   children: ReactNode;
 }
 
+const isThemeMode = (value: any): value is ThemeMode =>
+  value === 'light' || value === 'dark' || value === 'system';
+
 export const ThemeProvider = ({ children }: ThemeProviderProps) => {
-  const [theme, setTheme] = useState<'light' | 'dark'>('light');
+  const [themeMode, setThemeModeState] = useState<ThemeMode>('system');
+  const [systemTheme, setSystemTheme] = useState<'light' | 'dark'>(Appearance.getColorScheme() === 'dark' ? 'dark' : 'light');
+  // Set once the account's choice (or a new pick) is in, so the slower local read can't undo it
+  const modeSettled = useRef(false);
+
+  useEffect(() => {
+    const subscription = Appearance.addChangeListener(({ colorScheme }) => {
+      setSystemTheme(colorScheme === 'dark' ? 'dark' : 'light');
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Local choice first so the first frame is right, then the account's choice once signed in.
+  // The two reads race; the account's choice wins whichever lands first.
+  useEffect(() => {
+    AsyncStorage.getItem(ASYNC_STORAGE_THEME_MODE_KEY).then((stored) => {
+      if (isThemeMode(stored) && !modeSettled.current) setThemeModeState(stored);
+    });
+
+    const unsubscribe = onAuthStateChanged(auth, async (u) => {
+      if (!u) return;
+      try {
+        const userDoc = await getDoc(doc(db, 'users', u.uid));
+        const cloudMode = userDoc.exists() ? userDoc.data().themeMode : null;
+        if (isThemeMode(cloudMode)) {
+          modeSettled.current = true;
+          setThemeModeState(cloudMode);
+          await AsyncStorage.setItem(ASYNC_STORAGE_THEME_MODE_KEY, cloudMode);
+        }
+      } catch (e) {
+        console.error('Theme sync error:', e);
+      }
+    });
+    return unsubscribe;
+  }, []);
+
+  const setThemeMode = useCallback(async (mode: ThemeMode) => {
+    modeSettled.current = true;
+    setThemeModeState(mode);
+    await AsyncStorage.setItem(ASYNC_STORAGE_THEME_MODE_KEY, mode);
+    if (auth.currentUser) {
+      try {
+        await updateDoc(doc(db, 'users', auth.currentUser.uid), { themeMode: mode });
+      } catch (e) {
+        console.error('Theme save error:', e);
+      }
+    }
+  }, []);
+
+  const theme = themeMode === 'system' ? systemTheme : themeMode;
 
-  const toggleTheme = () => {
-    setTheme(prevTheme => (prevTheme === 'light' ? 'dark' : 'light'));
-  };
+  const toggleTheme = useCallback(() => {
+    setThemeMode(theme === 'light' ? 'dark' : 'light');
+  }, [theme, setThemeMode]);
 
-  const value = useMemo(() => ({ theme, toggleTheme }), [theme]);
+  const value = useMemo(() => ({ theme, themeMode, setThemeMode, toggleTheme }), [theme, themeMode, setThemeMode, toggleTheme]);
 
   return (
     <ThemeContext.Provider value={value}>
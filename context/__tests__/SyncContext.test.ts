@@ -0,0 +1,22 @@
+import { getSyncState } from '../SyncContext';
+
+jest.mock('../../firebaseConfig', () => ({ auth: {}, db: {} }));
+jest.mock('../../utils/offlineQueue', () => ({}));
+jest.mock('firebase/auth', () => ({}));
+jest.mock('firebase/firestore', () => ({}));
+
+describe('getSyncState', () => {
+  it('is synced when online with nothing waiting', () => {
+    expect(getSyncState(true, 0)).toBe('synced');
+  });
+
+  it('is pending while queued writes are waiting for the server', () => {
+    expect(getSyncState(true, 1)).toBe('pending');
+    expect(getSyncState(true, 12)).toBe('pending');
+  });
+
+  it('shows offline ahead of any pending writes', () => {
+    expect(getSyncState(false, 0)).toBe('offline');
+    expect(getSyncState(false, 3)).toBe('offline');
+  });
+});
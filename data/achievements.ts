@@ -0,0 +1,50 @@
+import { collection, getDocs } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { useEffect, useRef } from 'react';
+import { db, functions } from '../firebaseConfig';
+import { achievementConverter } from './converters';
+import { useAuthUser, useLiveQuery } from './live';
+import { UnlockedAchievement } from './models';
+
+export const achievementsCollection = (userId: string) =>
+  collection(db, 'users', userId, 'achievements').withConverter(achievementConverter);
+
+export const fetchAchievements = async (userId: string) =>
+  (await getDocs(achievementsCollection(userId))).docs.map(d => d.data());
+
+// Unlocks are written by Cloud Functions only; this asks them to re-check the signed-in user's library
+export const requestAchievementSync = async () => {
+  const result = await httpsCallable<void, { updated: number }>(functions, 'syncMyAchievements')();
+  return result.data.updated;
+};
+
+export const useAchievements = () => {
+  const user = useAuthUser();
+  const { data, loading } = useLiveQuery(
+    () => (user ? achievementsCollection(user.uid) : null),
+    `achievements:${user?.uid}`
+  );
+  return { achievements: data, loading };
+};
+
+// Calls back for trophies that appear while the app is open; whatever was already unlocked at load is skipped
+export const useAchievementUnlocks = (onUnlock: (achievement: UnlockedAchievement) => void) => {
+  const { achievements, loading } = useAchievements();
+  const known = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    if (loading) {
+      known.current = null;
+      return;
+    }
+    if (!known.current) {
+      known.current = new Set(achievements.map(a => a.id));
+      return;
+    }
+    achievements.forEach(a => {
+      if (known.current!.has(a.id)) return;
+      known.current!.add(a.id);
+      onUnlock(a);
+    });
+  }, [achievements, loading, onUnlock]);
+};
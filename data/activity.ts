@@ -0,0 +1,93 @@
+import {
+  collection, deleteDoc, doc, DocumentSnapshot, getDocs, limit, orderBy, query, QueryConstraint, setDoc, startAfter, Timestamp
+} from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { newDocPath, queueDelete, queueSet } from '../utils/offlineQueue';
+import { activityCommentConverter, activityConverter, feedItemConverter } from './converters';
+import { useLiveDoc, useLiveQuery } from './live';
+import { ActivityBook, ActivityType, Book, BookStatus } from './models';
+
+export const FEED_PAGE_SIZE = 20;
+export const MAX_COMMENT_LENGTH = 280;
+
+export const activityDoc = (activityId: string) => doc(db, 'activities', activityId).withConverter(activityConverter);
+const commentsCollection = (activityId: string) =>
+  collection(db, 'activities', activityId, 'comments').withConverter(activityCommentConverter);
+const feedCollection = (userId: string) => collection(db, 'feeds', userId, 'items').withConverter(feedItemConverter);
+
+export interface BookActivity {
+  type: Extract<ActivityType, 'finished' | 'rated'>;
+  rating: number | null;
+}
+
+// Finishing a book is one event (with its rating, if any); re-rating a finished book is another
+export const getBookActivity = (previous: Pick<Book, 'status' | 'rating'> | null, status: BookStatus, rating: number): BookActivity | null => {
+  if (status !== 'read') return null;
+  if (!previous || previous.status !== 'read') return { type: 'finished', rating: rating || null };
+  if (rating > 0 && rating !== previous.rating) return { type: 'rated', rating };
+  return null;
+};
+
+// Trophies and goals are recorded by Cloud Functions; the app only records its own book events
+export const recordBookActivity = (userId: string, book: ActivityBook, activity: BookActivity) =>
+  queueSet(newDocPath('activities'), {
+    userId,
+    type: activity.type,
+    book,
+    rating: activity.rating,
+    likeCount: 0,
+    commentCount: 0,
+    createdAt: Timestamp.now(),
+  });
+
+export const deleteActivity = (activityId: string) => queueDelete(`activities/${activityId}`);
+
+// Feed items are pointers in newest-first order; pass the last snapshot back in to get the next page
+export const fetchFeedPage = async (userId: string, after: DocumentSnapshot | null = null) => {
+  const constraints: QueryConstraint[] = [orderBy('createdAt', 'desc')];
+  if (after) constraints.push(startAfter(after));
+  const snap = await getDocs(query(feedCollection(userId), ...constraints, limit(FEED_PAGE_SIZE)));
+  return {
+    items: snap.docs.map(d => d.data()),
+    cursor: snap.docs[snap.docs.length - 1] || null,
+    hasMore: snap.size === FEED_PAGE_SIZE,
+  };
+};
+
+// Events the viewer may no longer see (privacy changed) or that were removed come back as null
+export const useActivity = (activityId: string) => {
+  const { data, loading } = useLiveDoc(() => activityDoc(activityId), `activity:${activityId}`);
+  return { activity: data, loading };
+};
+
+export const useActivityLike = (activityId: string, userId: string | null) => {
+  const { data } = useLiveDoc(
+    () => (userId ? doc(db, 'activities', activityId, 'likes', userId) : null),
+    `activityLike:${activityId}:${userId}`
+  );
+  return !!data;
+};
+
+export const setActivityLiked = (activityId: string, userId: string, liked: boolean) => {
+  const ref = doc(db, 'activities', activityId, 'likes', userId);
+  return liked ? setDoc(ref, { userId, createdAt: Timestamp.now() }) : deleteDoc(ref);
+};
+
+export const useActivityComments = (activityId: string | null) => {
+  const { data } = useLiveQuery(
+    () => (activityId ? query(commentsCollection(activityId), orderBy('createdAt', 'asc')) : null),
+    `activityComments:${activityId}`
+  );
+  return data;
+};
+
+export const addActivityComment = (activityId: string, userId: string, username: string, text: string) =>
+  setDoc(doc(collection(db, 'activities', activityId, 'comments')), {
+    userId,
+    username,
+    text: text.slice(0, MAX_COMMENT_LENGTH),
+    createdAt: Timestamp.now(),
+  });
+
+export const deleteActivityComment = (activityId: string, commentId: string) =>
+  deleteDoc(doc(db, 'activities', activityId, 'comments', commentId));
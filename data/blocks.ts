@@ -0,0 +1,44 @@
+import { collection, deleteDoc, doc, setDoc, Timestamp } from 'firebase/firestore';
+import { useMemo } from 'react';
+import { db } from '../firebaseConfig';
+import { userListEntryConverter } from './converters';
+import { useAuthUser, useLiveQuery } from './live';
+
+// Blocks are checked by the chat rules, so a blocked reader can't message you even from an old chat.
+// Mutes only stay on this side: the chat keeps working but its unread count no longer adds to the badge.
+type UserList = 'blocks' | 'mutes';
+
+const userListCollection = (userId: string, list: UserList) =>
+  collection(db, 'users', userId, list).withConverter(userListEntryConverter);
+
+export const blockUser = (userId: string, otherUserId: string) =>
+  setDoc(doc(db, 'users', userId, 'blocks', otherUserId), { createdAt: Timestamp.now() });
+
+export const unblockUser = (userId: string, otherUserId: string) =>
+  deleteDoc(doc(db, 'users', userId, 'blocks', otherUserId));
+
+export const muteUser = (userId: string, otherUserId: string) =>
+  setDoc(doc(db, 'users', userId, 'mutes', otherUserId), { createdAt: Timestamp.now() });
+
+export const unmuteUser = (userId: string, otherUserId: string) =>
+  deleteDoc(doc(db, 'users', userId, 'mutes', otherUserId));
+
+const useUserList = (list: UserList) => {
+  const user = useAuthUser();
+  const { data, loading } = useLiveQuery(
+    () => (user ? userListCollection(user.uid, list) : null),
+    `${list}:${user?.uid}`
+  );
+  const ids = useMemo(() => new Set(data.map(entry => entry.id)), [data]);
+  return { entries: data, ids, loading };
+};
+
+export const useBlockedUsers = () => {
+  const { entries, ids, loading } = useUserList('blocks');
+  return { blocked: entries, blockedIds: ids, loading };
+};
+
+export const useMutedUsers = () => {
+  const { entries, ids, loading } = useUserList('mutes');
+  return { muted: entries, mutedIds: ids, loading };
+};
@@ -0,0 +1,119 @@
+import { collection, doc, getDoc, getDocs, query, QueryConstraint, Timestamp, where, writeBatch } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { ImportedBook } from '../utils/goodreads';
+import { newDocPath, queueSet, queueUpdate } from '../utils/offlineQueue';
+import { getProgressFraction, ProgressFields } from '../utils/progress';
+import { bookConverter } from './converters';
+import { useAuthUser, useLiveDoc, useLiveQuery } from './live';
+import { Book, BookStatus, BookWrite } from './models';
+
+export interface BookFilter {
+  status?: BookStatus;
+  shelfId?: string;
+}
+
+export const booksCollection = () => collection(db, 'books').withConverter(bookConverter);
+
+export const booksQuery = (userId: string, filter: BookFilter = {}) => {
+  const constraints: QueryConstraint[] = [where('userId', '==', userId)];
+  if (filter.status) constraints.push(where('status', '==', filter.status));
+  if (filter.shelfId) constraints.push(where('shelfIds', 'array-contains', filter.shelfId));
+  return query(booksCollection(), ...constraints);
+};
+
+export const fetchBooks = async (userId: string, filter: BookFilter = {}) =>
+  (await getDocs(booksQuery(userId, filter))).docs.map(d => d.data());
+
+export const fetchBook = async (bookId: string) => {
+  const snap = await getDoc(doc(booksCollection(), bookId));
+  return snap.exists() ? snap.data() : null;
+};
+
+// Live list of the signed-in user's books. Kept on the device too, so the library still shows after
+// a cold start without a connection.
+export const useBooks = (filter: BookFilter = {}) => {
+  const user = useAuthUser();
+  const { data, loading, error } = useLiveQuery(
+    () => (user ? booksQuery(user.uid, filter) : null),
+    `books:${user?.uid}:${filter.status ?? ''}:${filter.shelfId ?? ''}`,
+    { persist: true }
+  );
+  return { books: data, loading, error };
+};
+
+export type ProgressChange = Omit<ProgressFields, 'format'>;
+
+// Moves the book's bookmark and keeps every update as history so stats and achievements can chart
+// pace later. Returns how far through the book it now is (0 - 1).
+export const saveProgress = async (userId: string, book: Book, change: ProgressChange) => {
+  const now = Timestamp.now();
+  const next = { ...book, ...change };
+  const fraction = getProgressFraction(next) ?? 0;
+  await queueUpdate(`books/${book.id}`, { ...change, progressUpdatedAt: now });
+  await queueSet(newDocPath('progressUpdates'), {
+    userId,
+    bookId: book.id,
+    format: next.format || 'physical',
+    currentPage: next.currentPage ?? null,
+    pageCount: next.pageCount ?? null,
+    progressPercent: next.progressPercent ?? null,
+    listenedMinutes: next.listenedMinutes ?? null,
+    totalMinutes: next.totalMinutes ?? null,
+    fraction,
+    createdAt: now,
+  });
+  return fraction;
+};
+
+// Firestore caps a batch at 500 writes
+const IMPORT_BATCH_SIZE = 400;
+
+// A Goodreads row as a new physical book, keeping the export's dates where it has them
+const fromImportedBook = (userId: string, book: ImportedBook): BookWrite => {
+  const added = book.dateAdded ? Timestamp.fromDate(book.dateAdded) : Timestamp.now();
+  const data: BookWrite = {
+    title: book.title,
+    author: book.author,
+    genre: '',
+    status: book.status,
+    rating: book.status === 'read' ? book.rating : 0,
+    coverUrl: '',
+    userId,
+    series: book.series,
+    seriesOrder: book.seriesOrder,
+    format: 'physical',
+    dnfReason: '',
+    pageCount: book.pageCount,
+    isbn: book.isbn,
+    goodreadsId: book.goodreadsId,
+    dateAdded: added,
+    shelfIds: [],
+    tags: [],
+  };
+  if (book.status === 'read') {
+    data.dateFinished = book.dateFinished ? Timestamp.fromDate(book.dateFinished) : added;
+  } else if (book.status === 'reading') {
+    data.dateStartedReading = added;
+  } else if (book.status === 'dnf') {
+    data.dateDnf = added;
+  }
+  return data;
+};
+
+// Adds the books in batches, reporting how many have been written after each one
+export const importBooks = async (userId: string, books: ImportedBook[], onProgress: (count: number) => void) => {
+  for (let i = 0; i < books.length; i += IMPORT_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    books.slice(i, i + IMPORT_BATCH_SIZE).forEach(book => batch.set(doc(collection(db, 'books')), fromImportedBook(userId, book)));
+    await batch.commit();
+    onProgress(Math.min(i + IMPORT_BATCH_SIZE, books.length));
+  }
+};
+
+export const useBook = (bookId?: string | null) => {
+  const { data, loading } = useLiveDoc(
+    () => (bookId ? doc(booksCollection(), bookId) : null),
+    `book:${bookId}`
+  );
+  return { book: data, loading };
+};
@@ -0,0 +1,165 @@
+import {
+  arrayRemove, arrayUnion, collection, deleteDoc, doc, query, setDoc, Timestamp, updateDoc, where, writeBatch
+} from 'firebase/firestore';
+import { useMemo } from 'react';
+import { db } from '../firebaseConfig';
+import { positionGate } from '../utils/buddyReads';
+import { toDate } from '../utils/dates';
+import { buddyMessageConverter, buddyProgressConverter, buddyReadConverter } from './converters';
+import { useAuthUser, useLiveDoc, useLiveQuery } from './live';
+import { Book, ReadingPosition } from './models';
+
+export const buddyReadsCollection = () => collection(db, 'buddyReads').withConverter(buddyReadConverter);
+export const buddyReadDoc = (buddyReadId: string) => doc(db, 'buddyReads', buddyReadId).withConverter(buddyReadConverter);
+const progressCollection = (buddyReadId: string) =>
+  collection(db, 'buddyReads', buddyReadId, 'progress').withConverter(buddyProgressConverter);
+const buddyMessagesCollection = (buddyReadId: string) =>
+  collection(db, 'buddyReads', buddyReadId, 'messages').withConverter(buddyMessageConverter);
+
+interface Member {
+  uid: string;
+  username: string;
+}
+
+// The owner starts at wherever their own copy of the book is
+export const createBuddyRead = async (owner: Member, book: Book, inviteeIds: string[]) => {
+  const ref = doc(collection(db, 'buddyReads'));
+  const now = Timestamp.now();
+  const batch = writeBatch(db);
+  batch.set(ref, {
+    ownerId: owner.uid,
+    book: {
+      id: book.id,
+      title: book.title,
+      author: book.author,
+      coverUrl: book.coverUrl || null,
+      pageCount: book.pageCount || null,
+    },
+    members: [owner.uid],
+    invitedIds: inviteeIds,
+    createdAt: now,
+  });
+  batch.set(doc(db, 'buddyReads', ref.id, 'progress', owner.uid), {
+    username: owner.username,
+    page: book.currentPage ?? null,
+    chapter: null,
+    updatedAt: now,
+  });
+  await batch.commit();
+  return ref.id;
+};
+
+export const inviteToBuddyRead = (buddyReadId: string, userIds: string[]) =>
+  updateDoc(doc(db, 'buddyReads', buddyReadId), { invitedIds: arrayUnion(...userIds) });
+
+export const acceptBuddyReadInvite = async (buddyReadId: string, member: Member) => {
+  const batch = writeBatch(db);
+  batch.update(doc(db, 'buddyReads', buddyReadId), {
+    members: arrayUnion(member.uid),
+    invitedIds: arrayRemove(member.uid),
+  });
+  batch.set(doc(db, 'buddyReads', buddyReadId, 'progress', member.uid), {
+    username: member.username,
+    page: null,
+    chapter: null,
+    updatedAt: Timestamp.now(),
+  });
+  await batch.commit();
+};
+
+// Used both to decline an invite and, by the owner, to withdraw one
+export const removeBuddyReadInvite = (buddyReadId: string, userId: string) =>
+  updateDoc(doc(db, 'buddyReads', buddyReadId), { invitedIds: arrayRemove(userId) });
+
+export const leaveBuddyRead = async (buddyReadId: string, userId: string) => {
+  const batch = writeBatch(db);
+  batch.update(doc(db, 'buddyReads', buddyReadId), { members: arrayRemove(userId) });
+  batch.delete(doc(db, 'buddyReads', buddyReadId, 'progress', userId));
+  await batch.commit();
+};
+
+// Progress and messages are cleaned up by the onBuddyReadDeleted Cloud Function
+export const deleteBuddyRead = (buddyReadId: string) => deleteDoc(doc(db, 'buddyReads', buddyReadId));
+
+export const updateBuddyProgress = (buddyReadId: string, member: Member, position: ReadingPosition) =>
+  setDoc(doc(db, 'buddyReads', buddyReadId, 'progress', member.uid), {
+    username: member.username,
+    ...position,
+    updatedAt: Timestamp.now(),
+  });
+
+export const sendBuddyMessage = async (buddyReadId: string, sender: Member, text: string, position: ReadingPosition) => {
+  const now = Timestamp.now();
+  const batch = writeBatch(db);
+  batch.set(doc(collection(db, 'buddyReads', buddyReadId, 'messages')), {
+    senderId: sender.uid,
+    senderName: sender.username,
+    text,
+    ...position,
+    ...positionGate(position),
+    createdAt: now,
+  });
+  batch.update(doc(db, 'buddyReads', buddyReadId), {
+    lastMessage: text,
+    lastMessageAt: now,
+    lastSenderId: sender.uid,
+  });
+  await batch.commit();
+};
+
+// The signed-in user's buddy reads, most recently active first, and the ones they've been invited to
+export const useBuddyReads = () => {
+  const user = useAuthUser();
+  const { data: joined, loading } = useLiveQuery(
+    () => (user ? query(buddyReadsCollection(), where('members', 'array-contains', user.uid)) : null),
+    `buddyReads:${user?.uid}`
+  );
+  const { data: invites } = useLiveQuery(
+    () => (user ? query(buddyReadsCollection(), where('invitedIds', 'array-contains', user.uid)) : null),
+    `buddyReadInvites:${user?.uid}`
+  );
+  const buddyReads = useMemo(
+    () => [...joined].sort((a, b) =>
+      (toDate(b.lastMessageAt ?? b.createdAt)?.getTime() || 0) - (toDate(a.lastMessageAt ?? a.createdAt)?.getTime() || 0)),
+    [joined]
+  );
+  return { buddyReads, invites, loading };
+};
+
+export const useBuddyRead = (buddyReadId: string | null) => {
+  const { data, loading } = useLiveDoc(() => (buddyReadId ? buddyReadDoc(buddyReadId) : null), `buddyRead:${buddyReadId}`);
+  return { buddyRead: data, loading };
+};
+
+export const useBuddyProgress = (buddyReadId: string | null) => {
+  const { data } = useLiveQuery(
+    () => (buddyReadId ? progressCollection(buddyReadId) : null),
+    `buddyProgress:${buddyReadId}`
+  );
+  return data;
+};
+
+// The rules only let a member read messages at or behind their saved position, plus their own, so
+// the discussion is fetched as those two queries. Pass the position the server already has: a
+// query ahead of it is rejected.
+export const useBuddyMessages = (buddyReadId: string | null, userId: string | null, position: ReadingPosition | null) => {
+  const { gatePage, gateChapter } = positionGate(position || { page: null, chapter: null });
+  const ready = !!buddyReadId && !!userId && !!position;
+  const { data: readable, loading } = useLiveQuery(
+    () => (ready ? query(
+      buddyMessagesCollection(buddyReadId),
+      where('gatePage', '<=', gatePage),
+      where('gateChapter', '<=', gateChapter)
+    ) : null),
+    `buddyMessages:${buddyReadId}:${ready}:${gatePage}:${gateChapter}`
+  );
+  const { data: own } = useLiveQuery(
+    () => (buddyReadId && userId ? query(buddyMessagesCollection(buddyReadId), where('senderId', '==', userId)) : null),
+    `buddyOwnMessages:${buddyReadId}:${userId}`
+  );
+  const messages = useMemo(() => {
+    const byId = new Map([...readable, ...own].map(m => [m.id, m]));
+    return [...byId.values()].sort((a, b) => (toDate(a.createdAt)?.getTime() || 0) - (toDate(b.createdAt)?.getTime() || 0));
+  }, [readable, own]);
+  return { messages, loading };
+};
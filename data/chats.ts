@@ -0,0 +1,121 @@
+import {
+  collection, doc, getDocs, increment, orderBy, query, Timestamp, where, writeBatch
+} from 'firebase/firestore';
+import { useEffect, useMemo, useRef } from 'react';
+import { db } from '../firebaseConfig';
+import { toDate } from '../utils/dates';
+import { useBlockedUsers, useMutedUsers } from './blocks';
+import { chatConverter, messageConverter } from './converters';
+import { useAuthUser, useLiveQuery } from './live';
+import { Chat, ChatMessage, MessageStatus } from './models';
+
+export const chatIdFor = (userId: string, otherUserId: string) => [userId, otherUserId].sort().join('_');
+
+export const chatsCollection = () => collection(db, 'chats').withConverter(chatConverter);
+export const messagesCollection = (chatId: string) =>
+  collection(db, 'chats', chatId, 'messages').withConverter(messageConverter);
+
+export const otherParticipant = (chat: Chat, userId: string) =>
+  chat.participants.find(uid => uid !== userId) || userId;
+
+export const messageStatus = (message: ChatMessage): MessageStatus =>
+  message.readAt ? 'read' : message.deliveredAt ? 'delivered' : 'sent';
+
+// The signed-in user's conversations, most recent first. Chats with blocked readers are left out,
+// and muted ones stay listed without adding to the unread badge.
+export const useChats = () => {
+  const user = useAuthUser();
+  const { data, loading } = useLiveQuery(
+    () => (user ? query(chatsCollection(), where('participants', 'array-contains', user.uid)) : null),
+    `chats:${user?.uid}`
+  );
+  const { blockedIds } = useBlockedUsers();
+  const { mutedIds } = useMutedUsers();
+  const chats = useMemo(
+    () => data
+      .filter(chat => !user || !blockedIds.has(otherParticipant(chat, user.uid)))
+      .sort((a, b) => (toDate(b.lastMessageAt)?.getTime() || 0) - (toDate(a.lastMessageAt)?.getTime() || 0)),
+    [data, user, blockedIds]
+  );
+  const unreadTotal = user
+    ? chats
+      .filter(chat => !mutedIds.has(otherParticipant(chat, user.uid)))
+      .reduce((sum, chat) => sum + (chat.unreadCounts[user.uid] || 0), 0)
+    : 0;
+  return { chats, unreadTotal, loading };
+};
+
+export const useMessages = (chatId: string | null) => {
+  const { data, loading } = useLiveQuery(
+    () => (chatId ? query(messagesCollection(chatId), orderBy('createdAt', 'asc')) : null),
+    `messages:${chatId}`
+  );
+  return { messages: data, loading };
+};
+
+// The message and the chat summary go out together so the list never shows a message that failed to send
+export const sendMessage = async (senderId: string, recipientId: string, text: string) => {
+  const chatId = chatIdFor(senderId, recipientId);
+  const now = Timestamp.now();
+  const batch = writeBatch(db);
+  batch.set(doc(collection(db, 'chats', chatId, 'messages')), {
+    text,
+    senderId,
+    createdAt: now,
+    deliveredAt: null,
+    readAt: null,
+  });
+  // A nested map rather than a dotted key: setDoc treats dots literally and would create a field named "unreadCounts.uid"
+  batch.set(doc(db, 'chats', chatId), {
+    participants: [senderId, recipientId].sort(),
+    lastMessage: text,
+    lastMessageAt: now,
+    lastSenderId: senderId,
+    unreadCounts: { [recipientId]: increment(1) },
+  }, { merge: true });
+  await batch.commit();
+};
+
+// Clears the reader's badge and stamps every incoming message that hasn't been read yet
+export const markChatRead = async (chatId: string, userId: string, messages: ChatMessage[]) => {
+  const now = Timestamp.now();
+  const batch = writeBatch(db);
+  messages
+    .filter(m => m.senderId !== userId && !m.readAt)
+    .forEach(m => batch.update(doc(db, 'chats', chatId, 'messages', m.id), {
+      readAt: now,
+      ...(m.deliveredAt ? {} : { deliveredAt: now }),
+    }));
+  batch.update(doc(db, 'chats', chatId), { [`unreadCounts.${userId}`]: 0 });
+  await batch.commit();
+};
+
+const markChatDelivered = async (chat: Chat, userId: string) => {
+  const pending = await getDocs(query(
+    messagesCollection(chat.id),
+    where('senderId', '==', otherParticipant(chat, userId)),
+    where('deliveredAt', '==', null)
+  ));
+  if (pending.empty) return;
+  const now = Timestamp.now();
+  const batch = writeBatch(db);
+  pending.docs.forEach(d => batch.update(d.ref, { deliveredAt: now }));
+  await batch.commit();
+};
+
+// Marks incoming messages as delivered as soon as they reach this device, whichever screen is open
+export const useDeliveryReceipts = (chats: Chat[]) => {
+  const user = useAuthUser();
+  const handled = useRef(new Map<string, number>());
+
+  useEffect(() => {
+    if (!user) return;
+    chats.forEach(chat => {
+      if (!chat.unreadCounts[user.uid] || chat.lastSenderId === user.uid) return;
+      const stamp = toDate(chat.lastMessageAt)?.getTime() || 0;
+      if (handled.current.get(chat.id) === stamp) return;
+      handled.current.set(chat.id, stamp);
+      markChatDelivered(chat, user.uid).catch(e => console.error("Delivery receipt error:", e));
+    });
+  }, [user, chats]);
+};
@@ -0,0 +1,166 @@
+import {
+  arrayRemove, arrayUnion, collection, deleteDoc, doc, orderBy, query, setDoc, Timestamp, updateDoc, where
+} from 'firebase/firestore';
+import { useEffect, useMemo } from 'react';
+import { db } from '../firebaseConfig';
+import { CLUB_REMINDER_PREFIX, getMeetingReminders } from '../utils/clubs';
+import { syncLocalReminders } from '../utils/notifications';
+import { newDocPath, queueSet } from '../utils/offlineQueue';
+import { clubConverter, clubPollConverter, clubVoteConverter } from './converters';
+import { useAuthUser, useLiveDoc, useLiveQuery } from './live';
+import { Club, ClubBook, ClubMeeting } from './models';
+
+export const clubsCollection = () => collection(db, 'clubs').withConverter(clubConverter);
+export const clubDoc = (clubId: string) => doc(db, 'clubs', clubId).withConverter(clubConverter);
+const pollsCollection = (clubId: string) => collection(db, 'clubs', clubId, 'polls').withConverter(clubPollConverter);
+const votesCollection = (clubId: string, pollId: string) =>
+  collection(db, 'clubs', clubId, 'polls', pollId, 'votes').withConverter(clubVoteConverter);
+
+export const createClub = async (ownerId: string, name: string, description: string) => {
+  const ref = doc(collection(db, 'clubs'));
+  await setDoc(ref, {
+    name,
+    description,
+    ownerId,
+    moderatorIds: [],
+    memberIds: [ownerId],
+    invitedIds: [],
+    currentPick: null,
+    upcomingPicks: [],
+    meetings: [],
+    createdAt: Timestamp.now(),
+  });
+  return ref.id;
+};
+
+export const updateClubDetails = (clubId: string, details: Pick<Club, 'name' | 'description'>) =>
+  updateDoc(doc(db, 'clubs', clubId), details);
+
+// Polls and votes are cleaned up by the onClubDeleted Cloud Function
+export const deleteClub = (clubId: string) => deleteDoc(doc(db, 'clubs', clubId));
+
+export const inviteToClub = (clubId: string, userIds: string[]) =>
+  updateDoc(doc(db, 'clubs', clubId), { invitedIds: arrayUnion(...userIds) });
+
+// Used both to decline an invite and, by moderators, to withdraw one
+export const removeClubInvite = (clubId: string, userId: string) =>
+  updateDoc(doc(db, 'clubs', clubId), { invitedIds: arrayRemove(userId) });
+
+export const acceptClubInvite = (clubId: string, userId: string) =>
+  updateDoc(doc(db, 'clubs', clubId), { memberIds: arrayUnion(userId), invitedIds: arrayRemove(userId) });
+
+// Members leave on their own; moderators remove others the same way
+export const removeClubMember = (clubId: string, userId: string) =>
+  updateDoc(doc(db, 'clubs', clubId), { memberIds: arrayRemove(userId), moderatorIds: arrayRemove(userId) });
+
+export const setClubModerator = (clubId: string, userId: string, isModerator: boolean) =>
+  updateDoc(doc(db, 'clubs', clubId), { moderatorIds: isModerator ? arrayUnion(userId) : arrayRemove(userId) });
+
+// Picks are stored whole, so the backlog is rewritten rather than using arrayRemove on an object
+export const addUpcomingPick = (club: Club, book: ClubBook) =>
+  updateDoc(doc(db, 'clubs', club.id), {
+    upcomingPicks: [...club.upcomingPicks.filter(p => p.id !== book.id), book],
+  });
+
+export const removeUpcomingPick = (club: Club, bookId: string) =>
+  updateDoc(doc(db, 'clubs', club.id), { upcomingPicks: club.upcomingPicks.filter(p => p.id !== bookId) });
+
+// Promoting a pick takes it off the backlog
+export const setCurrentPick = (club: Club, book: ClubBook | null) =>
+  updateDoc(doc(db, 'clubs', club.id), {
+    currentPick: book,
+    upcomingPicks: book ? club.upcomingPicks.filter(p => p.id !== book.id) : club.upcomingPicks,
+  });
+
+export const addClubMeeting = (club: Club, meeting: Omit<ClubMeeting, 'id'>) =>
+  updateDoc(doc(db, 'clubs', club.id), {
+    meetings: [...club.meetings, { ...meeting, id: doc(collection(db, 'clubs')).id }],
+  });
+
+export const removeClubMeeting = (club: Club, meetingId: string) =>
+  updateDoc(doc(db, 'clubs', club.id), { meetings: club.meetings.filter(m => m.id !== meetingId) });
+
+export const createClubPoll = (clubId: string, createdBy: string, question: string, options: ClubBook[]) =>
+  setDoc(doc(collection(db, 'clubs', clubId, 'polls')), {
+    question,
+    options,
+    createdBy,
+    createdAt: Timestamp.now(),
+    closed: false,
+  });
+
+export const closeClubPoll = (clubId: string, pollId: string) =>
+  updateDoc(doc(db, 'clubs', clubId, 'polls', pollId), { closed: true });
+
+export const deleteClubPoll = (clubId: string, pollId: string) =>
+  deleteDoc(doc(db, 'clubs', clubId, 'polls', pollId));
+
+export const castClubVote = (clubId: string, pollId: string, userId: string, optionId: string) =>
+  setDoc(doc(db, 'clubs', clubId, 'polls', pollId, 'votes', userId), { optionId, createdAt: Timestamp.now() });
+
+// A fresh `toread` copy in the member's own library, queued like any other book add
+export const addClubPickToLibrary = (userId: string, book: ClubBook) =>
+  queueSet(newDocPath('books'), {
+    title: book.title,
+    author: book.author,
+    genre: '',
+    status: 'toread',
+    rating: 0,
+    coverUrl: book.coverUrl || '',
+    userId,
+    series: '',
+    seriesOrder: null,
+    format: 'physical',
+    dnfReason: '',
+    pageCount: book.pageCount,
+    isbn: book.isbn || '',
+    shelfIds: [],
+    dateAdded: Timestamp.now(),
+  });
+
+// The signed-in user's clubs by name, and the ones they've been invited to
+export const useClubs = () => {
+  const user = useAuthUser();
+  const { data: joined, loading } = useLiveQuery(
+    () => (user ? query(clubsCollection(), where('memberIds', 'array-contains', user.uid)) : null),
+    `clubs:${user?.uid}`
+  );
+  const { data: invites } = useLiveQuery(
+    () => (user ? query(clubsCollection(), where('invitedIds', 'array-contains', user.uid)) : null),
+    `clubInvites:${user?.uid}`
+  );
+  const clubs = useMemo(() => [...joined].sort((a, b) => a.name.localeCompare(b.name)), [joined]);
+  return { clubs, invites, loading };
+};
+
+export const useClub = (clubId: string | null) => {
+  const { data, loading } = useLiveDoc(() => (clubId ? clubDoc(clubId) : null), `club:${clubId}`);
+  return { club: data, loading };
+};
+
+export const useClubPolls = (clubId: string | null) => {
+  const { data } = useLiveQuery(
+    () => (clubId ? query(pollsCollection(clubId), orderBy('createdAt', 'desc')) : null),
+    `clubPolls:${clubId}`
+  );
+  return data;
+};
+
+export const useClubVotes = (clubId: string, pollId: string) => {
+  const { data } = useLiveQuery(() => votesCollection(clubId, pollId), `clubVotes:${clubId}:${pollId}`);
+  return data;
+};
+
+// Keeps this device's meeting reminders in step with every club the user belongs to
+export const useClubMeetingReminders = () => {
+  const { clubs, loading } = useClubs();
+  const user = useAuthUser();
+  const reminders = useMemo(() => getMeetingReminders(clubs), [clubs]);
+
+  // Syncing only touches reminders whose ids changed, so re-running on every snapshot is cheap
+  useEffect(() => {
+    // Signing out clears them; wait for the first snapshot otherwise
+    if (user && loading) return;
+    syncLocalReminders(CLUB_REMINDER_PREFIX, user ? reminders : []);
+  }, [user, loading, reminders]);
+};
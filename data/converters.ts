@@ -0,0 +1,260 @@
+import { DocumentData, FirestoreDataConverter, QueryDocumentSnapshot, SnapshotOptions } from 'firebase/firestore';
+import { toDate } from '../utils/dates';
+import { getPrivacy } from '../utils/publicProfile';
+import { QUOTE_COLORS } from '../utils/quotes';
+import {
+  Activity, ActivityComment, AuditLogEntry, Book, BuddyMessage, BuddyProgress, BuddyRead, Chat, ChatMessage, Club, ClubPoll, ClubVote,
+  FeedItem, Follow, FriendRequest, Friendship, Note, PublicProfile, Quote, ReadingSession, Report, Shelf, UnlockedAchievement, UserListEntry,
+  UserProfile, UserWarning
+} from './models';
+
+// The id and derived fields live on the model only; everything else is written back as-is
+const stripDerived = ({ id, processedDate, ...rest }: any): DocumentData => rest;
+
+// Pick the most relevant date based on status, falling back to when the book was added
+export const getStatusDate = (data: DocumentData): Date => {
+  let date = data.dateAdded;
+  if (data.status === 'read' && data.dateFinished) date = data.dateFinished;
+  else if (data.status === 'reading' && data.dateStartedReading) date = data.dateStartedReading;
+  else if (data.status === 'dnf' && data.dateDnf) date = data.dateDnf;
+  else if (data.dateFinished) date = data.dateFinished; // legacy fallback
+  return toDate(date) || new Date();
+};
+
+// The plain mappers take raw document data so code outside the client SDK (Cloud Functions) can reuse them
+export const toBook = (id: string, d: DocumentData): Book => {
+  // Migrate legacy reviews to stars if rating is missing
+  let rating = d.rating || 0;
+  if (!rating && d.review === 'good') rating = 5;
+  if (!rating && d.review === 'bad') rating = 1;
+
+  return {
+    ...d,
+    id,
+    userId: d.userId,
+    title: d.title || '',
+    author: d.author || '',
+    genre: d.genre || '',
+    status: d.status || 'toread',
+    rating,
+    format: d.format || 'physical',
+    shelfIds: Array.isArray(d.shelfIds) ? d.shelfIds : [],
+    tags: Array.isArray(d.tags) ? d.tags : [],
+    dateAdded: d.dateAdded ?? null,
+    processedDate: getStatusDate(d),
+  };
+};
+
+// Notes written before book links existed have none of the anchor fields, so everything is optional
+export const toNote = (id: string, data: DocumentData): Note => ({
+  id,
+  title: data.title || '',
+  content: data.content || '',
+  userId: data.userId,
+  createdAt: data.createdAt,
+  updatedAt: data.updatedAt,
+  bookId: data.bookId || null,
+  bookTitle: data.bookTitle || null,
+  page: data.page ?? null,
+  chapter: data.chapter || null,
+  location: data.location || null,
+});
+
+export const toQuote = (id: string, data: DocumentData): Quote => ({
+  id,
+  userId: data.userId,
+  text: data.text || '',
+  bookId: data.bookId || null,
+  bookTitle: data.bookTitle || '',
+  bookAuthor: data.bookAuthor || '',
+  page: data.page ?? null,
+  location: data.location || null,
+  comment: data.comment || '',
+  color: data.color || QUOTE_COLORS[0],
+  tags: Array.isArray(data.tags) ? data.tags : [],
+  createdAt: data.createdAt,
+  updatedAt: data.updatedAt,
+});
+
+export const toUserProfile = (id: string, data: DocumentData): UserProfile => ({
+  ...data,
+  id,
+  includeRereads: data.includeRereads ?? true,
+});
+
+export const bookConverter: FirestoreDataConverter<Book> = {
+  toFirestore: (book) => stripDerived(book),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions) => toBook(snapshot.id, snapshot.data(options)),
+};
+
+export const noteConverter: FirestoreDataConverter<Note> = {
+  toFirestore: (note) => stripDerived(note),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions) => toNote(snapshot.id, snapshot.data(options)),
+};
+
+export const quoteConverter: FirestoreDataConverter<Quote> = {
+  toFirestore: (quote) => stripDerived(quote),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions) => toQuote(snapshot.id, snapshot.data(options)),
+};
+
+export const userProfileConverter: FirestoreDataConverter<UserProfile> = {
+  toFirestore: (profile) => stripDerived(profile),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions) => toUserProfile(snapshot.id, snapshot.data(options)),
+};
+
+export const achievementConverter: FirestoreDataConverter<UnlockedAchievement> = {
+  toFirestore: (achievement) => stripDerived(achievement),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): UnlockedAchievement => {
+    const data = snapshot.data(options);
+    return { ...data, id: snapshot.id, unlocked: !!data.unlocked };
+  },
+};
+
+// Reports from before moderation have no status history or notes
+export const reportConverter: FirestoreDataConverter<Report> = {
+  toFirestore: (report) => stripDerived(report),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Report => {
+    const data = snapshot.data(options);
+    return {
+      ...data,
+      id: snapshot.id,
+      userId: data.userId,
+      type: data.type || 'Other',
+      description: data.description || '',
+      status: data.status || 'pending',
+      reportedUserId: data.reportedUserId || null,
+      internalNotes: Array.isArray(data.internalNotes) ? data.internalNotes : [],
+      createdAt: data.createdAt,
+    };
+  },
+};
+
+export const auditLogConverter: FirestoreDataConverter<AuditLogEntry> = {
+  toFirestore: (entry) => stripDerived(entry),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): AuditLogEntry => {
+    const data = snapshot.data(options);
+    return { ...data, id: snapshot.id } as AuditLogEntry;
+  },
+};
+
+export const warningConverter: FirestoreDataConverter<UserWarning> = {
+  toFirestore: (warning) => stripDerived(warning),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): UserWarning => {
+    const data = snapshot.data(options);
+    return { ...data, id: snapshot.id, reason: data.reason || '', acknowledged: !!data.acknowledged } as UserWarning;
+  },
+};
+
+export const chatConverter: FirestoreDataConverter<Chat> = {
+  toFirestore: (chat) => stripDerived(chat),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Chat => {
+    const data = snapshot.data(options);
+    return {
+      ...data,
+      id: snapshot.id,
+      participants: data.participants || [],
+      lastMessage: data.lastMessage || '',
+      lastMessageAt: data.lastMessageAt,
+      unreadCounts: data.unreadCounts || {},
+    };
+  },
+};
+
+export const messageConverter: FirestoreDataConverter<ChatMessage> = {
+  toFirestore: (message) => stripDerived(message),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): ChatMessage => {
+    const data = snapshot.data(options);
+    return { ...data, id: snapshot.id, text: data.text || '', senderId: data.senderId } as ChatMessage;
+  },
+};
+
+export const publicProfileConverter: FirestoreDataConverter<PublicProfile> = {
+  toFirestore: (profile) => stripDerived(profile),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): PublicProfile => {
+    const data = snapshot.data(options);
+    return {
+      ...data,
+      id: snapshot.id,
+      username: data.username || 'Reader',
+      usernameLower: data.usernameLower || null,
+      privacy: getPrivacy(data),
+    };
+  },
+};
+
+// Follows, friend requests and friendships are plain records; only the id needs adding
+const withId = <T,>(): FirestoreDataConverter<T> => ({
+  toFirestore: (value) => stripDerived(value),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions) => ({ ...snapshot.data(options), id: snapshot.id }) as T,
+});
+
+export const followConverter = withId<Follow>();
+export const shelfConverter = withId<Shelf>();
+export const readingSessionConverter = withId<ReadingSession>();
+export const friendRequestConverter = withId<FriendRequest>();
+export const friendshipConverter = withId<Friendship>();
+
+export const activityConverter: FirestoreDataConverter<Activity> = {
+  toFirestore: (activity) => stripDerived(activity),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Activity => {
+    const data = snapshot.data(options);
+    return {
+      ...data,
+      id: snapshot.id,
+      userId: data.userId,
+      type: data.type,
+      createdAt: data.createdAt,
+      likeCount: Math.max(data.likeCount || 0, 0),
+      commentCount: Math.max(data.commentCount || 0, 0),
+    };
+  },
+};
+
+export const activityCommentConverter = withId<ActivityComment>();
+export const feedItemConverter = withId<FeedItem>();
+
+export const buddyReadConverter: FirestoreDataConverter<BuddyRead> = {
+  toFirestore: (buddyRead) => stripDerived(buddyRead),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): BuddyRead => {
+    const data = snapshot.data(options);
+    return {
+      ...data,
+      id: snapshot.id,
+      members: data.members || [],
+      invitedIds: data.invitedIds || [],
+    } as BuddyRead;
+  },
+};
+
+export const buddyProgressConverter = withId<BuddyProgress>();
+export const buddyMessageConverter = withId<BuddyMessage>();
+
+export const clubConverter: FirestoreDataConverter<Club> = {
+  toFirestore: (club) => stripDerived(club),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Club => {
+    const data = snapshot.data(options);
+    return {
+      ...data,
+      id: snapshot.id,
+      description: data.description || '',
+      moderatorIds: data.moderatorIds || [],
+      memberIds: data.memberIds || [],
+      invitedIds: data.invitedIds || [],
+      currentPick: data.currentPick || null,
+      upcomingPicks: data.upcomingPicks || [],
+      meetings: data.meetings || [],
+    } as Club;
+  },
+};
+
+export const clubPollConverter: FirestoreDataConverter<ClubPoll> = {
+  toFirestore: (poll) => stripDerived(poll),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): ClubPoll => {
+    const data = snapshot.data(options);
+    return { ...data, id: snapshot.id, options: data.options || [], closed: !!data.closed } as ClubPoll;
+  },
+};
+
+export const clubVoteConverter = withId<ClubVote>();
+
+export const userListEntryConverter = withId<UserListEntry>();
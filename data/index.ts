@@ -0,0 +1,19 @@
+// Typed access to the app's Firestore data. Screens read through these hooks and helpers
+// instead of building their own queries, so every screen sees the same normalised models.
+export * from './models';
+export { bookConverter, noteConverter, quoteConverter, userProfileConverter, achievementConverter, getStatusDate } from './converters';
+export { useAuthUser } from './live';
+export * from './books';
+export * from './notes';
+export * from './shelves';
+export * from './quotes';
+export * from './sessions';
+export * from './users';
+export * from './achievements';
+export * from './moderation';
+export * from './chats';
+export * from './social';
+export * from './activity';
+export * from './buddyReads';
+export * from './clubs';
+export * from './blocks';
@@ -0,0 +1,94 @@
+import { onAuthStateChanged, User } from 'firebase/auth';
+import { DocumentReference, onSnapshot, Query } from 'firebase/firestore';
+import { useEffect, useState } from 'react';
+import { auth } from '../firebaseConfig';
+import { CachedDoc, isReadCacheEnabled, loadCachedQuery, saveCachedQuery } from '../utils/readCache';
+
+export const useAuthUser = () => {
+  const [user, setUser] = useState<User | null>(auth.currentUser);
+  useEffect(() => onAuthStateChanged(auth, setUser), []);
+  return user;
+};
+
+export interface LiveQueryOptions {
+  // Keep the last server answer on the device so it shows after an offline cold start on native
+  persist?: boolean;
+}
+
+// Until the server answers, a snapshot from Firestore's in-memory cache only holds documents written
+// since launch, so those are laid over the stored copy instead of replacing it
+const overlay = <T,>(stored: CachedDoc<T>[], fresh: CachedDoc<T>[]) => {
+  const freshIds = new Set(fresh.map(d => d.id));
+  return [...stored.filter(d => !freshIds.has(d.id)), ...fresh];
+};
+
+// `key` stands in for the query in the effect deps, since Query objects are rebuilt every render
+export const useLiveQuery = <T,>(buildQuery: () => Query<T> | null, key: string, options: LiveQueryOptions = {}) => {
+  const [data, setData] = useState<T[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const persist = !!options.persist && isReadCacheEnabled;
+
+  useEffect(() => {
+    const q = buildQuery();
+    if (!q) {
+      setData([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+
+    let stored: CachedDoc<T>[] | null = null;
+    let latest: CachedDoc<T>[] | null = null;
+    let fromServer = false;
+    const show = (docs: CachedDoc<T>[]) => setData(docs.map(d => d.data));
+
+    if (persist) {
+      loadCachedQuery<T>(key).then((cached) => {
+        stored = cached;
+        if (!cached || fromServer) return;
+        show(latest ? overlay(cached, latest) : cached);
+        setLoading(false);
+      });
+    }
+
+    return onSnapshot(q, (snapshot) => {
+      latest = snapshot.docs.map(d => ({ id: d.id, data: d.data() }));
+      fromServer = fromServer || !snapshot.metadata.fromCache;
+      if (persist && fromServer && !snapshot.metadata.hasPendingWrites) saveCachedQuery(key, latest);
+      show(persist && !fromServer && stored ? overlay(stored, latest) : latest);
+      setError(null);
+      setLoading(false);
+    }, (e) => {
+      console.error(`Live query ${key} failed:`, e);
+      setError(e);
+      setLoading(false);
+    });
+  }, [key, persist]);
+
+  return { data, loading, error };
+};
+
+export const useLiveDoc = <T,>(buildRef: () => DocumentReference<T> | null, key: string) => {
+  const [data, setData] = useState<T | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const ref = buildRef();
+    if (!ref) {
+      setData(null);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    return onSnapshot(ref, (snap) => {
+      setData(snap.exists() ? snap.data() : null);
+      setLoading(false);
+    }, (e) => {
+      console.error(`Live doc ${key} failed:`, e);
+      setLoading(false);
+    });
+  }, [key]);
+
+  return { data, loading };
+};
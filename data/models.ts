@@ -0,0 +1,383 @@
+import { BookFormat } from '../utils/progress';
+import { ReadThrough } from '../utils/readThroughs';
+
+export type BookStatus = 'reading' | 'toread' | 'read' | 'dnf';
+
+export interface Book {
+  id: string;
+  userId: string;
+  title: string;
+  author: string;
+  genre: string;
+  status: BookStatus;
+  rating: number;
+  review?: string;
+  coverUrl?: string;
+  series?: string;
+  seriesOrder?: number | null;
+  format: BookFormat;
+  dnfReason?: string;
+  isbn?: string;
+  goodreadsId?: string;
+  dateAdded: any;
+  dateStartedReading?: any;
+  dateFinished?: any;
+  dateDnf?: any;
+  pageCount?: number | null;
+  currentPage?: number | null;
+  progressPercent?: number | null;
+  totalMinutes?: number | null;
+  listenedMinutes?: number | null;
+  progressUpdatedAt?: any;
+  shelfIds: string[];
+  tags: string[];
+  readThroughs?: ReadThrough[];
+  // Derived on read: the date that matters for the book's current status
+  processedDate: Date;
+}
+
+// A book as stored: the model without its id and the fields derived on read
+export type BookWrite = Omit<Book, 'id' | 'processedDate'>;
+
+export interface Note {
+  id: string;
+  title: string;
+  content: string;
+  userId: string;
+  createdAt: any;
+  updatedAt: any;
+  bookId?: string | null;
+  bookTitle?: string | null;
+  page?: number | null;
+  chapter?: string | null;
+  location?: string | null;
+}
+
+// Custom shelves; books list the ones they're on in `shelfIds`
+export interface Shelf {
+  id: string;
+  userId: string;
+  name: string;
+  order: number;
+  createdAt?: any;
+}
+
+export interface Quote {
+  id: string;
+  userId: string;
+  text: string;
+  bookId: string | null;
+  bookTitle: string;
+  bookAuthor: string;
+  page: number | null;
+  location: string | null;
+  comment: string;
+  color: string;
+  tags: string[];
+  createdAt: any;
+  updatedAt: any;
+}
+
+export interface ReadingSession {
+  id: string;
+  userId: string;
+  bookId: string;
+  bookTitle: string;
+  format: BookFormat;
+  startedAt: any;
+  endedAt: any;
+  durationMinutes: number;
+  startPage?: number | null;
+  endPage?: number | null;
+  minutesCovered?: number | null;
+  source: 'timer' | 'manual';
+}
+
+// Only ever set from the console or the Admin SDK; see firestore.rules
+export type UserRole = 'user' | 'admin';
+
+export interface UserProfile {
+  id: string;
+  uid?: string;
+  email?: string;
+  username?: string;
+  role?: UserRole;
+  dateAdded?: any;
+  lastUsernameChange?: any;
+  readingGoal?: number;
+  readingGoals?: Record<string, number>;
+  includeRereads: boolean;
+  themeMode?: string;
+  wrappedSeen?: Record<string, boolean>;
+  isBanned?: boolean;
+  reportCount?: number;
+  // The audit entry written with the last ban change; the rules require one
+  lastAuditId?: string;
+  privacy?: Partial<ProfilePrivacy>;
+}
+
+export interface UnlockedAchievement {
+  id: string;
+  unlocked: boolean;
+  unlockedAt?: any;
+  count?: number;
+}
+
+export type ReportStatus = 'pending' | 'triaged' | 'resolved' | 'dismissed';
+
+// Moderator-only remarks; reports are never readable by the people who filed them
+export interface ReportNote {
+  text: string;
+  authorId: string;
+  authorName: string;
+  createdAt: any;
+}
+
+export interface Report {
+  id: string;
+  userId: string;
+  userEmail?: string;
+  reportedUserId?: string | null;
+  type: string;
+  description: string;
+  status: ReportStatus;
+  platform?: string;
+  createdAt: any;
+  updatedAt?: any;
+  internalNotes: ReportNote[];
+  // The audit entry written with the last moderator change; the rules require one
+  lastAuditId?: string;
+}
+
+export type AuditAction = 'report_status' | 'report_note' | 'user_ban' | 'user_unban' | 'user_warn';
+
+export interface AuditLogEntry {
+  id: string;
+  action: AuditAction;
+  actorId: string;
+  actorName?: string;
+  targetUserId?: string | null;
+  reportId?: string | null;
+  details: string;
+  createdAt: any;
+}
+
+export interface UserWarning {
+  id: string;
+  reason: string;
+  reportId?: string | null;
+  auditId?: string;
+  createdAt: any;
+  acknowledged: boolean;
+}
+
+// One document per pair of users; the id is both uids sorted and joined with '_'
+export interface Chat {
+  id: string;
+  participants: string[];
+  lastMessage: string;
+  lastMessageAt: any;
+  lastSenderId?: string;
+  unreadCounts: Record<string, number>;
+}
+
+export type MessageStatus = 'sent' | 'delivered' | 'read';
+
+export interface ChatMessage {
+  id: string;
+  text: string;
+  senderId: string;
+  createdAt: any;
+  deliveredAt?: any;
+  readAt?: any;
+}
+
+// Who can see each part of a reader's public profile
+export type ProfileVisibility = 'everyone' | 'friends' | 'nobody';
+export type ProfileSection = 'stats' | 'currentReads' | 'trophies';
+// Activity has no profile section of its own; the setting applies to each feed event instead
+export type PrivacySetting = ProfileSection | 'activity';
+export type ProfilePrivacy = Record<PrivacySetting, ProfileVisibility>;
+
+// Mirrored from `users` by Cloud Functions; the only profile data other readers can see
+export interface PublicProfile {
+  id: string;
+  username: string;
+  usernameLower: string | null;
+  privacy: ProfilePrivacy;
+  updatedAt?: any;
+}
+
+export interface PublicStats {
+  booksRead: number;
+  booksReadThisYear: number;
+  pagesRead: number;
+  averageRating: number | null;
+}
+
+export interface PublicCurrentRead {
+  id: string;
+  title: string;
+  author: string;
+  coverUrl: string | null;
+  progress: number | null;
+}
+
+export interface PublicTrophies {
+  ids: string[];
+}
+
+export interface Follow {
+  id: string;
+  followerId: string;
+  followingId: string;
+  createdAt: any;
+}
+
+export interface FriendRequest {
+  id: string;
+  fromId: string;
+  toId: string;
+  createdAt: any;
+}
+
+export interface Friendship {
+  id: string;
+  members: string[];
+  createdAt: any;
+}
+
+export type ActivityType = 'finished' | 'rated' | 'trophy' | 'goal';
+
+export interface ActivityBook {
+  id: string;
+  title: string;
+  author: string;
+  coverUrl: string | null;
+}
+
+// One event in a reader's activity stream. Counts are kept up to date by Cloud Functions.
+export interface Activity {
+  id: string;
+  userId: string;
+  type: ActivityType;
+  createdAt: any;
+  book?: ActivityBook | null;
+  rating?: number | null;
+  achievementId?: string | null;
+  year?: number | null;
+  goal?: number | null;
+  likeCount: number;
+  commentCount: number;
+}
+
+export interface ActivityComment {
+  id: string;
+  userId: string;
+  username: string;
+  text: string;
+  createdAt: any;
+}
+
+// Pointer written into each follower's feed; the event itself is read from `activities`
+export interface FeedItem {
+  id: string;
+  activityId: string;
+  actorId: string;
+  createdAt: any;
+}
+
+// A group read of one book from the owner's library; members each report their own position
+export interface BuddyRead {
+  id: string;
+  ownerId: string;
+  book: ActivityBook & { pageCount: number | null };
+  members: string[];
+  invitedIds: string[];
+  createdAt: any;
+  lastMessage?: string;
+  lastMessageAt?: any;
+  lastSenderId?: string;
+}
+
+// Where a reader is in the book, used to gate spoilers in the discussion
+export interface ReadingPosition {
+  page: number | null;
+  chapter: number | null;
+}
+
+// Stored under the member's uid
+export interface BuddyProgress extends ReadingPosition {
+  id: string;
+  username: string;
+  updatedAt: any;
+}
+
+// `page` and `chapter` mark how far into the book the message talks about;
+// `gatePage` and `gateChapter` repeat them as numbers for the read rules
+export interface BuddyMessage extends ReadingPosition {
+  id: string;
+  senderId: string;
+  senderName: string;
+  text: string;
+  gatePage: number;
+  gateChapter: number;
+  createdAt: any;
+}
+
+export type ClubRole = 'owner' | 'moderator' | 'member';
+
+// A book as the club refers to it; members add their own copy to their library
+export interface ClubBook {
+  id: string;
+  title: string;
+  author: string;
+  coverUrl: string | null;
+  pageCount: number | null;
+  isbn: string | null;
+}
+
+export interface ClubMeeting {
+  id: string;
+  startsAt: any;
+  title: string;
+  location: string;
+}
+
+// `memberIds` includes the owner and moderators
+export interface Club {
+  id: string;
+  name: string;
+  description: string;
+  ownerId: string;
+  moderatorIds: string[];
+  memberIds: string[];
+  invitedIds: string[];
+  currentPick: ClubBook | null;
+  upcomingPicks: ClubBook[];
+  meetings: ClubMeeting[];
+  createdAt: any;
+}
+
+// A vote on the next pick between books from the backlog
+export interface ClubPoll {
+  id: string;
+  question: string;
+  options: ClubBook[];
+  createdBy: string;
+  createdAt: any;
+  closed: boolean;
+}
+
+// Stored under the voter's uid, so each member has one vote per poll
+export interface ClubVote {
+  id: string;
+  optionId: string;
+  createdAt: any;
+}
+
+// Kept under the other reader's uid in users/{uid}/blocks and users/{uid}/mutes
+export interface UserListEntry {
+  id: string;
+  createdAt: any;
+}
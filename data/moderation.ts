@@ -0,0 +1,108 @@
+import {
+  arrayUnion, collection, doc, query, Timestamp, updateDoc, where, writeBatch, WriteBatch
+} from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { auditLogConverter, reportConverter, warningConverter } from './converters';
+import { useAuthUser, useLiveQuery } from './live';
+import { AuditAction, Report, ReportStatus } from './models';
+
+export const REPORT_STATUSES: ReportStatus[] = ['pending', 'triaged', 'resolved', 'dismissed'];
+
+export const reportsCollection = () => collection(db, 'reports').withConverter(reportConverter);
+export const auditLogCollection = () => collection(db, 'auditLog').withConverter(auditLogConverter);
+export const warningsCollection = (userId: string) =>
+  collection(db, 'users', userId, 'warnings').withConverter(warningConverter);
+
+export interface Moderator {
+  uid: string;
+  name: string;
+}
+
+// Every moderation write goes out in the same batch as its audit entry and names it, so the rules
+// can check that neither lands without the other. Returns the entry's id.
+const logAction = (
+  batch: WriteBatch,
+  actor: Moderator,
+  action: AuditAction,
+  details: string,
+  target: { reportId?: string | null; targetUserId?: string | null } = {}
+) => {
+  const ref = doc(collection(db, 'auditLog'));
+  batch.set(ref, {
+    action,
+    actorId: actor.uid,
+    actorName: actor.name,
+    reportId: target.reportId ?? null,
+    targetUserId: target.targetUserId ?? null,
+    details,
+    createdAt: Timestamp.now(),
+  });
+  return ref.id;
+};
+
+export const updateReportStatus = async (actor: Moderator, report: Report, status: ReportStatus) => {
+  const batch = writeBatch(db);
+  const lastAuditId = logAction(batch, actor, 'report_status', `${report.status} → ${status}`, {
+    reportId: report.id, targetUserId: report.reportedUserId,
+  });
+  batch.update(doc(db, 'reports', report.id), { status, updatedAt: Timestamp.now(), lastAuditId });
+  await batch.commit();
+};
+
+export const addReportNote = async (actor: Moderator, report: Report, text: string) => {
+  const batch = writeBatch(db);
+  const lastAuditId = logAction(batch, actor, 'report_note', text, { reportId: report.id, targetUserId: report.reportedUserId });
+  batch.update(doc(db, 'reports', report.id), {
+    internalNotes: arrayUnion({ text, authorId: actor.uid, authorName: actor.name, createdAt: Timestamp.now() }),
+    updatedAt: Timestamp.now(),
+    lastAuditId,
+  });
+  await batch.commit();
+};
+
+// Unbanning also clears the report count so the account starts fresh
+export const setUserBanned = async (actor: Moderator, userId: string, banned: boolean, reportId: string | null = null) => {
+  const batch = writeBatch(db);
+  const lastAuditId = logAction(batch, actor, banned ? 'user_ban' : 'user_unban', banned ? 'Banned' : 'Unbanned', { reportId, targetUserId: userId });
+  batch.update(doc(db, 'users', userId), banned ? { isBanned: true, lastAuditId } : { isBanned: false, reportCount: 0, lastAuditId });
+  await batch.commit();
+};
+
+export const warnUser = async (actor: Moderator, userId: string, reason: string, reportId: string | null = null) => {
+  const batch = writeBatch(db);
+  const auditId = logAction(batch, actor, 'user_warn', reason, { reportId, targetUserId: userId });
+  batch.set(doc(collection(db, 'users', userId, 'warnings')), {
+    reason,
+    reportId,
+    auditId,
+    acknowledged: false,
+    createdAt: Timestamp.now(),
+  });
+  await batch.commit();
+};
+
+// Admin-only: the rules reject these queries for everyone else, so callers pass `enabled` once the role is known
+export const useReports = (enabled: boolean) => {
+  const { data, loading } = useLiveQuery(() => (enabled ? reportsCollection() : null), `reports:${enabled}`);
+  return { reports: data, loading };
+};
+
+export const useReportAuditLog = (reportId: string | null) => {
+  const { data } = useLiveQuery(
+    () => (reportId ? query(auditLogCollection(), where('reportId', '==', reportId)) : null),
+    `auditLog:${reportId}`
+  );
+  return data;
+};
+
+export const useUnacknowledgedWarnings = () => {
+  const user = useAuthUser();
+  const { data } = useLiveQuery(
+    () => (user ? query(warningsCollection(user.uid), where('acknowledged', '==', false)) : null),
+    `warnings:${user?.uid}`
+  );
+  return data;
+};
+
+export const acknowledgeWarning = (userId: string, warningId: string) =>
+  updateDoc(doc(db, 'users', userId, 'warnings', warningId), { acknowledged: true });
@@ -0,0 +1,28 @@
+import { collection, getDocs, query, QueryConstraint, where } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { noteConverter } from './converters';
+import { useAuthUser, useLiveQuery } from './live';
+
+export interface NoteFilter {
+  bookId?: string;
+}
+
+export const notesCollection = () => collection(db, 'notes').withConverter(noteConverter);
+
+export const notesQuery = (userId: string, filter: NoteFilter = {}) => {
+  const constraints: QueryConstraint[] = [where('userId', '==', userId)];
+  if (filter.bookId) constraints.push(where('bookId', '==', filter.bookId));
+  return query(notesCollection(), ...constraints);
+};
+
+export const fetchNotes = async (userId: string, filter: NoteFilter = {}) =>
+  (await getDocs(notesQuery(userId, filter))).docs.map(d => d.data());
+
+export const useNotes = (filter: NoteFilter = {}) => {
+  const user = useAuthUser();
+  const { data, loading, error } = useLiveQuery(
+    () => (user ? notesQuery(user.uid, filter) : null),
+    `notes:${user?.uid}:${filter.bookId ?? ''}`
+  );
+  return { notes: data, loading, error };
+};
@@ -0,0 +1,23 @@
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { useMemo } from 'react';
+import { db } from '../firebaseConfig';
+import { quoteConverter } from './converters';
+import { useAuthUser, useLiveQuery } from './live';
+import { Quote } from './models';
+
+export const quotesCollection = () => collection(db, 'quotes').withConverter(quoteConverter);
+
+export const quotesQuery = (userId: string) => query(quotesCollection(), where('userId', '==', userId));
+
+export const fetchQuotes = async (userId: string) =>
+  (await getDocs(quotesQuery(userId))).docs.map(d => d.data());
+
+const newestFirst = (a: Quote, b: Quote) => (b.createdAt?.seconds || 0) - (a.createdAt?.seconds || 0);
+
+// Live list of the signed-in user's quotes, newest first
+export const useQuotes = () => {
+  const user = useAuthUser();
+  const { data, loading } = useLiveQuery(() => (user ? quotesQuery(user.uid) : null), `quotes:${user?.uid}`);
+  const quotes = useMemo(() => [...data].sort(newestFirst), [data]);
+  return { quotes, loading };
+};
@@ -0,0 +1,32 @@
+import { collection, getDocs, query, QueryConstraint, where } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { toDate } from '../utils/dates';
+import { readingSessionConverter } from './converters';
+import { useAuthUser, useLiveQuery } from './live';
+
+export interface SessionFilter {
+  bookId?: string;
+}
+
+export const readingSessionsCollection = () => collection(db, 'readingSessions').withConverter(readingSessionConverter);
+
+export const readingSessionsQuery = (userId: string, filter: SessionFilter = {}) => {
+  const constraints: QueryConstraint[] = [where('userId', '==', userId)];
+  if (filter.bookId) constraints.push(where('bookId', '==', filter.bookId));
+  return query(readingSessionsCollection(), ...constraints);
+};
+
+// Newest first
+export const fetchReadingSessions = async (userId: string, filter: SessionFilter = {}) => {
+  const sessions = (await getDocs(readingSessionsQuery(userId, filter))).docs.map(d => d.data());
+  return sessions.sort((a, b) => (toDate(b.startedAt)?.getTime() || 0) - (toDate(a.startedAt)?.getTime() || 0));
+};
+
+export const useReadingSessions = (filter: SessionFilter = {}) => {
+  const user = useAuthUser();
+  const { data, loading } = useLiveQuery(
+    () => (user ? readingSessionsQuery(user.uid, filter) : null),
+    `readingSessions:${user?.uid}:${filter.bookId ?? ''}`
+  );
+  return { sessions: data, loading };
+};
@@ -0,0 +1,50 @@
+import { addDoc, arrayRemove, collection, deleteDoc, doc, getDocs, query, Timestamp, where, writeBatch } from 'firebase/firestore';
+import { useMemo } from 'react';
+import { db } from '../firebaseConfig';
+import { booksQuery } from './books';
+import { shelfConverter } from './converters';
+import { useAuthUser, useLiveQuery } from './live';
+import { Shelf } from './models';
+
+export const shelvesCollection = () => collection(db, 'shelves').withConverter(shelfConverter);
+
+export const shelvesQuery = (userId: string) => query(shelvesCollection(), where('userId', '==', userId));
+
+export const sortShelves = (shelves: Shelf[]) =>
+  [...shelves].sort((a, b) => (a.order ?? 0) - (b.order ?? 0) || a.name.localeCompare(b.name));
+
+export const fetchShelves = async (userId: string) =>
+  sortShelves((await getDocs(shelvesQuery(userId))).docs.map(d => d.data()));
+
+// Live list of the signed-in user's shelves, in their chosen order
+export const useShelves = () => {
+  const user = useAuthUser();
+  const { data, loading } = useLiveQuery(() => (user ? shelvesQuery(user.uid) : null), `shelves:${user?.uid}`);
+  const shelves = useMemo(() => sortShelves(data), [data]);
+  return { shelves, loading };
+};
+
+export const createShelf = async (userId: string, name: string, existing: Shelf[]) => {
+  const order = existing.length > 0 ? Math.max(...existing.map(s => s.order ?? 0)) + 1 : 0;
+  return addDoc(collection(db, 'shelves'), { userId, name: name.trim(), order, createdAt: Timestamp.now() });
+};
+
+// Rewrites `order` for the whole list so gaps and duplicates from older clients get cleaned up
+export const saveShelfOrder = async (shelves: Shelf[]) => {
+  const batch = writeBatch(db);
+  shelves.forEach((shelf, index) => {
+    if (shelf.order !== index) batch.update(doc(db, 'shelves', shelf.id), { order: index });
+  });
+  await batch.commit();
+};
+
+// Removes the shelf and takes it off every book that was on it
+export const deleteShelf = async (userId: string, shelfId: string) => {
+  const books = await getDocs(booksQuery(userId, { shelfId }));
+  for (let i = 0; i < books.docs.length; i += 400) {
+    const batch = writeBatch(db);
+    books.docs.slice(i, i + 400).forEach(b => batch.update(b.ref, { shelfIds: arrayRemove(shelfId) }));
+    await batch.commit();
+  }
+  await deleteDoc(doc(db, 'shelves', shelfId));
+};
@@ -0,0 +1,146 @@
+import {
+  collection, deleteDoc, doc, getDoc, getDocs, limit, orderBy, query, setDoc, Timestamp, where, writeBatch
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebaseConfig';
+import { toUsernameLower } from '../utils/publicProfile';
+import { chatIdFor } from './chats';
+import { followConverter, friendRequestConverter, friendshipConverter, publicProfileConverter } from './converters';
+import { useAuthUser, useLiveDoc, useLiveQuery } from './live';
+import { ProfileSection } from './models';
+
+// Friendships share the chat id scheme: both uids sorted and joined with '_'
+export const friendshipIdFor = chatIdFor;
+export const followIdFor = (followerId: string, followingId: string) => `${followerId}_${followingId}`;
+export const friendRequestIdFor = (fromId: string, toId: string) => `${fromId}_${toId}`;
+
+export const publicProfilesCollection = () => collection(db, 'publicProfiles').withConverter(publicProfileConverter);
+export const publicProfileDoc = (userId: string) => doc(db, 'publicProfiles', userId).withConverter(publicProfileConverter);
+const followsCollection = () => collection(db, 'follows').withConverter(followConverter);
+const friendRequestsCollection = () => collection(db, 'friendRequests').withConverter(friendRequestConverter);
+const friendshipsCollection = () => collection(db, 'friendships').withConverter(friendshipConverter);
+
+// Public profiles are written by Cloud Functions; this builds one for accounts that predate them
+export const requestPublicProfileSync = async () => {
+  await httpsCallable(functions, 'syncMyPublicProfile')();
+};
+
+// Prefix search on the lower-cased username
+export const searchPublicProfiles = async (term: string, max = 20) => {
+  const prefix = toUsernameLower(term);
+  if (!prefix) return [];
+  const q = query(
+    publicProfilesCollection(),
+    where('usernameLower', '>=', prefix),
+    where('usernameLower', '<=', prefix + '\uf8ff'),
+    orderBy('usernameLower'),
+    limit(max)
+  );
+  return (await getDocs(q)).docs.map(d => d.data());
+};
+
+export const fetchPublicProfile = async (userId: string) => {
+  const snap = await getDoc(publicProfileDoc(userId));
+  return snap.exists() ? snap.data() : null;
+};
+
+export const usePublicProfile = (userId: string | null) => {
+  const { data, loading } = useLiveDoc(() => (userId ? publicProfileDoc(userId) : null), `publicProfile:${userId}`);
+  return { profile: data, loading };
+};
+
+// Sections the viewer isn't allowed to see fail the rules check and come back as null
+export const useProfileSection = <T,>(userId: string | null, section: ProfileSection, enabled = true) => {
+  const { data, loading } = useLiveDoc(
+    () => (userId && enabled ? doc(db, 'publicProfiles', userId, 'sections', section) : null),
+    `profileSection:${userId}:${section}:${enabled}`
+  );
+  return { data: data as T | null, loading };
+};
+
+export const followUser = (followerId: string, followingId: string) =>
+  setDoc(doc(db, 'follows', followIdFor(followerId, followingId)), { followerId, followingId, createdAt: Timestamp.now() });
+
+export const unfollowUser = (followerId: string, followingId: string) =>
+  deleteDoc(doc(db, 'follows', followIdFor(followerId, followingId)));
+
+export const useFollowers = (userId: string | null) => {
+  const { data } = useLiveQuery(
+    () => (userId ? query(followsCollection(), where('followingId', '==', userId)) : null),
+    `followers:${userId}`
+  );
+  return data;
+};
+
+export const useFollowing = (userId: string | null) => {
+  const { data } = useLiveQuery(
+    () => (userId ? query(followsCollection(), where('followerId', '==', userId)) : null),
+    `following:${userId}`
+  );
+  return data;
+};
+
+export const sendFriendRequest = (fromId: string, toId: string) =>
+  setDoc(doc(db, 'friendRequests', friendRequestIdFor(fromId, toId)), { fromId, toId, createdAt: Timestamp.now() });
+
+// Used both to cancel an outgoing request and to decline an incoming one
+export const deleteFriendRequest = (fromId: string, toId: string) =>
+  deleteDoc(doc(db, 'friendRequests', friendRequestIdFor(fromId, toId)));
+
+export const acceptFriendRequest = async (userId: string, fromId: string) => {
+  const batch = writeBatch(db);
+  batch.set(doc(db, 'friendships', friendshipIdFor(userId, fromId)), {
+    members: [userId, fromId].sort(),
+    createdAt: Timestamp.now(),
+  });
+  batch.delete(doc(db, 'friendRequests', friendRequestIdFor(fromId, userId)));
+  await batch.commit();
+};
+
+export const removeFriend = (userId: string, friendId: string) =>
+  deleteDoc(doc(db, 'friendships', friendshipIdFor(userId, friendId)));
+
+export const useIncomingFriendRequests = () => {
+  const user = useAuthUser();
+  const { data } = useLiveQuery(
+    () => (user ? query(friendRequestsCollection(), where('toId', '==', user.uid)) : null),
+    `friendRequests:${user?.uid}`
+  );
+  return data;
+};
+
+export const useFriends = () => {
+  const user = useAuthUser();
+  const { data } = useLiveQuery(
+    () => (user ? query(friendshipsCollection(), where('members', 'array-contains', user.uid)) : null),
+    `friendships:${user?.uid}`
+  );
+  return data;
+};
+
+// Everything the profile screen needs to render the follow and friend buttons
+export const useRelationship = (userId: string | null, otherId: string | null) => {
+  const ready = !!userId && !!otherId && userId !== otherId;
+  const { data: follow } = useLiveDoc(
+    () => (ready ? doc(db, 'follows', followIdFor(userId!, otherId!)) : null),
+    `follow:${userId}:${otherId}`
+  );
+  const { data: friendship } = useLiveDoc(
+    () => (ready ? doc(db, 'friendships', friendshipIdFor(userId!, otherId!)) : null),
+    `friendship:${userId}:${otherId}`
+  );
+  const { data: outgoing } = useLiveDoc(
+    () => (ready ? doc(db, 'friendRequests', friendRequestIdFor(userId!, otherId!)) : null),
+    `friendRequest:${userId}:${otherId}`
+  );
+  const { data: incoming } = useLiveDoc(
+    () => (ready ? doc(db, 'friendRequests', friendRequestIdFor(otherId!, userId!)) : null),
+    `friendRequest:${otherId}:${userId}`
+  );
+  return {
+    isFollowing: !!follow,
+    isFriend: !!friendship,
+    hasSentRequest: !!outgoing,
+    hasIncomingRequest: !!incoming,
+  };
+};
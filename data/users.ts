@@ -0,0 +1,26 @@
+import { doc, getDoc, updateDoc } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { userProfileConverter } from './converters';
+import { useAuthUser, useLiveDoc } from './live';
+import { UserProfile } from './models';
+
+export const userDoc = (userId: string) => doc(db, 'users', userId).withConverter(userProfileConverter);
+
+export const fetchUserProfile = async (userId: string) => {
+  const snap = await getDoc(userDoc(userId));
+  return snap.exists() ? snap.data() : null;
+};
+
+// Plain `updateDoc` on the raw ref so dotted paths like `readingGoals.2026` keep working
+export const updateUserProfile = (userId: string, data: Record<string, any>) =>
+  updateDoc(doc(db, 'users', userId), data);
+
+export const useUserProfile = () => {
+  const user = useAuthUser();
+  const { data, loading } = useLiveDoc(() => (user ? userDoc(user.uid) : null), `user:${user?.uid}`);
+  return { user, profile: data, loading };
+};
+
+export const hasAdminRole = (profile: UserProfile | null) => profile?.role === 'admin';
+
+export { getJoinYear, getReadingGoal } from '../utils/goals';
@@ -1,9 +1,13 @@
 import { initializeApp, getApps, getApp } from "firebase/app";
-import { getAuth, initializeAuth, 
+import { getAuth, initializeAuth, connectAuthEmulator,
   // @ts-ignore
   getReactNativePersistence 
 } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import {
+  initializeFirestore, getFirestore, connectFirestoreEmulator,
+  persistentLocalCache, persistentMultipleTabManager, memoryLocalCache
+} from "firebase/firestore";
+import { getFunctions, connectFunctionsEmulator } from "firebase/functions";
 import ReactNativeAsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 
@@ -35,6 +39,36 @@ export const auth = Platform.OS === 'web'
       persistence: (getReactNativePersistence as any)(ReactNativeAsyncStorage)
     });
 
-export const db = getFirestore(app!);
+// Web keeps Firestore's cache in IndexedDB so reads and queued writes survive a reload.
+// React Native has no IndexedDB, so the cache stays in memory and AsyncStorage stands in for it:
+// utils/offlineQueue keeps unsent writes, and utils/readCache the last server answer of queries
+// that opt in with `persist` (the library). Anything else comes back empty after an offline cold start.
+const createFirestore = () => {
+  try {
+    return initializeFirestore(app!, {
+      localCache: Platform.OS === 'web'
+        ? persistentLocalCache({ tabManager: persistentMultipleTabManager() })
+        : memoryLocalCache(),
+    });
+  } catch {
+    // Fast refresh re-runs this module after Firestore is already initialised
+    return getFirestore(app!);
+  }
+};
+
+export const db = createFirestore();
+export const functions = getFunctions(app!);
+
+// e.g. EXPO_PUBLIC_FIREBASE_EMULATOR_HOST=10.0.2.2 for the Android emulator, localhost elsewhere
+const emulatorHost = process.env.EXPO_PUBLIC_FIREBASE_EMULATOR_HOST;
+// Fast refresh re-runs this module against instances that are already connected, so the flag
+// lives on globalThis rather than in a plain module variable that would reset
+const emulatorState = globalThis as typeof globalThis & { firebaseEmulatorsConnected?: boolean };
+if (emulatorHost && !emulatorState.firebaseEmulatorsConnected) {
+  connectFirestoreEmulator(db, emulatorHost, 8080);
+  connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+  connectFunctionsEmulator(functions, emulatorHost, 5001);
+  emulatorState.firebaseEmulatorsConnected = true;
+}
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,16 @@
+// https://typescript-eslint.io/getting-started
+const { defineConfig } = require('eslint/config');
+const js = require('@eslint/js');
+const tseslint = require('typescript-eslint');
+
+module.exports = defineConfig([
+  js.configs.recommended,
+  tseslint.configs.recommended,
+  {
+    // Firestore documents come back untyped, same as in the app
+    rules: { '@typescript-eslint/no-explicit-any': 'off' },
+  },
+  {
+    ignores: ['lib/*', 'eslint.config.js', 'jest.config.js'],
+  },
+]);
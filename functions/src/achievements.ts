@@ -0,0 +1,56 @@
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { toNote } from '../../data/converters';
+import { ACHIEVEMENT_DEFINITIONS, evaluateAchievements } from '../../utils/achievements';
+import { trophyActivity, trophyActivityId } from './activity';
+import { Library, loadLibrary } from './library';
+
+// Re-runs the shared rules engine over a user's whole library and records anything newly earned.
+// Unlocks are never taken back, but The Finisher's count follows the number of goal years.
+export const syncAchievements = async (userId: string, library?: Library) => {
+  const db = getFirestore();
+  const userRef = db.collection('users').doc(userId);
+
+  const [{ profile, books }, notesSnap, unlockedSnap] = await Promise.all([
+    library || loadLibrary(userId),
+    db.collection('notes').where('userId', '==', userId).get(),
+    userRef.collection('achievements').get(),
+  ]);
+
+  // The account is being deleted; don't recreate trophies behind it
+  if (!profile) return 0;
+
+  const results = evaluateAchievements({
+    books,
+    notes: notesSnap.docs.map(d => toNote(d.id, d.data())),
+    profile,
+  });
+  const stored = new Map(unlockedSnap.docs.map(d => [d.id, d.data()]));
+
+  const batch = db.batch();
+  let writes = 0;
+  for (const definition of ACHIEVEMENT_DEFINITIONS) {
+    const result = results[definition.id];
+    if (!result.unlocked) continue;
+    const existing = stored.get(definition.id);
+    const count = result.count || 1;
+    const ref = userRef.collection('achievements').doc(definition.id);
+
+    if (!existing) {
+      const unlockedAt = result.unlockedAt || new Date();
+      batch.set(ref, { unlocked: true, unlockedAt: Timestamp.fromDate(unlockedAt), count });
+      const activity = trophyActivity(userId, definition.id, unlockedAt);
+      if (activity) batch.set(db.collection('activities').doc(trophyActivityId(userId, definition.id)), activity);
+      writes++;
+    } else if (result.count && existing.count !== count) {
+      batch.update(ref, { count });
+      writes++;
+    }
+  }
+
+  if (writes > 0) {
+    await batch.commit();
+    logger.info(`Updated ${writes} achievement(s) for ${userId}`);
+  }
+  return writes;
+};
@@ -0,0 +1,106 @@
+import { FieldValue, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { getReadingGoal } from '../../utils/goals';
+import { getFinishDates } from '../../utils/readThroughs';
+import { Library, loadLibrary } from './library';
+
+const BATCH_SIZE = 400;
+
+// Trophies unlocked longer ago than this (e.g. when an old library is first synced) don't go to the feed
+const TROPHY_FEED_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const newActivity = (userId: string, fields: Record<string, any>) => ({
+  userId,
+  likeCount: 0,
+  commentCount: 0,
+  createdAt: Timestamp.now(),
+  ...fields,
+});
+
+// Ids are deterministic so a trophy or goal is only ever announced once
+export const trophyActivityId = (userId: string, achievementId: string) => `${userId}_trophy_${achievementId}`;
+const goalActivityId = (userId: string, year: number) => `${userId}_goal_${year}`;
+
+export const trophyActivity = (userId: string, achievementId: string, unlockedAt: Date) =>
+  Date.now() - unlockedAt.getTime() > TROPHY_FEED_WINDOW_MS
+    ? null
+    : newActivity(userId, { type: 'trophy', achievementId });
+
+// Announces the year's reading goal the first time the finished count reaches it
+export const recordGoalCompletion = async (userId: string, library?: Library) => {
+  const db = getFirestore();
+  const { profile, books } = library || await loadLibrary(userId);
+  if (!profile) return;
+
+  const year = new Date().getFullYear();
+  const goal = getReadingGoal(profile, year);
+  if (goal <= 0) return;
+
+  const finished = books
+    .flatMap(book => getFinishDates(book, profile.includeRereads))
+    .filter(date => date.getFullYear() === year).length;
+  if (finished < goal) return;
+
+  try {
+    await db.collection('activities').doc(goalActivityId(userId, year)).create(newActivity(userId, { type: 'goal', year, goal }));
+    logger.info(`Recorded ${year} goal completion for ${userId}`);
+  } catch (e: any) {
+    // 6 = ALREADY_EXISTS: this year's goal was announced before
+    if (e?.code !== 6) throw e;
+  }
+};
+
+// Drops a pointer to the event into the owner's feed and every follower's. Whether a follower may
+// actually read the event is checked against the owner's privacy settings when the feed loads.
+export const fanOutActivity = async (activityId: string, userId: string, createdAt: Timestamp) => {
+  const db = getFirestore();
+  const followers = await db.collection('follows').where('followingId', '==', userId).get();
+  const recipients = [userId, ...followers.docs.map(d => d.data().followerId as string)];
+
+  for (let i = 0; i < recipients.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    recipients.slice(i, i + BATCH_SIZE).forEach(recipientId => {
+      batch.set(db.collection('feeds').doc(recipientId).collection('items').doc(activityId), {
+        activityId,
+        actorId: userId,
+        createdAt,
+      });
+    });
+    await batch.commit();
+  }
+};
+
+// Removes the feed pointers, likes and comments left behind by a deleted event
+export const removeActivity = async (activityId: string) => {
+  const db = getFirestore();
+  const pointers = await db.collectionGroup('items').where('activityId', '==', activityId).get();
+  for (let i = 0; i < pointers.docs.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    pointers.docs.slice(i, i + BATCH_SIZE).forEach(d => batch.delete(d.ref));
+    await batch.commit();
+  }
+  await db.recursiveDelete(db.collection('activities').doc(activityId));
+};
+
+export const adjustActivityCount = async (activityId: string, field: 'likeCount' | 'commentCount', delta: number) => {
+  const ref = getFirestore().collection('activities').doc(activityId);
+  // The event may have been deleted along with its likes and comments
+  if (!(await ref.get()).exists) return;
+  await ref.update({ [field]: FieldValue.increment(delta) });
+};
+
+// Clears a deleted account out of other people's feeds and conversations on events
+export const removeUserActivityTraces = async (userId: string) => {
+  const db = getFirestore();
+  const [likes, comments] = await Promise.all([
+    db.collectionGroup('likes').where('userId', '==', userId).get(),
+    db.collectionGroup('comments').where('userId', '==', userId).get(),
+  ]);
+  const refs = [...likes.docs, ...comments.docs].map(d => d.ref);
+  for (let i = 0; i < refs.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    refs.slice(i, i + BATCH_SIZE).forEach(ref => batch.delete(ref));
+    await batch.commit();
+  }
+  await db.recursiveDelete(db.collection('feeds').doc(userId));
+};
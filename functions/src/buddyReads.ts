@@ -0,0 +1,28 @@
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+
+// Progress and the discussion go with the buddy read
+export const removeBuddyRead = async (buddyReadId: string) => {
+  const db = getFirestore();
+  await db.recursiveDelete(db.collection('buddyReads').doc(buddyReadId));
+};
+
+// Reads the user started are deleted; in everyone else's they are dropped from the members and invites
+export const removeUserFromBuddyReads = async (userId: string) => {
+  const db = getFirestore();
+  const [owned, joined, invited] = await Promise.all([
+    db.collection('buddyReads').where('ownerId', '==', userId).get(),
+    db.collection('buddyReads').where('members', 'array-contains', userId).get(),
+    db.collection('buddyReads').where('invitedIds', 'array-contains', userId).get(),
+  ]);
+  await Promise.all(owned.docs.map(d => d.ref.delete()));
+
+  const ownedIds = new Set(owned.docs.map(d => d.id));
+  const batch = db.batch();
+  [...joined.docs, ...invited.docs]
+    .filter(d => !ownedIds.has(d.id))
+    .forEach(d => {
+      batch.update(d.ref, { members: FieldValue.arrayRemove(userId), invitedIds: FieldValue.arrayRemove(userId) });
+      batch.delete(d.ref.collection('progress').doc(userId));
+    });
+  await batch.commit();
+};
@@ -0,0 +1,8 @@
+import { getFirestore } from 'firebase-admin/firestore';
+
+// Conversations are deleted for both sides, messages included; the other participant can't reply to a deleted account
+export const removeUserChats = async (userId: string) => {
+  const db = getFirestore();
+  const chats = await db.collection('chats').where('participants', 'array-contains', userId).get();
+  for (const chat of chats.docs) await db.recursiveDelete(chat.ref);
+};
@@ -0,0 +1,33 @@
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+
+// Polls and their votes go with the club
+export const removeClub = async (clubId: string) => {
+  const db = getFirestore();
+  await db.recursiveDelete(db.collection('clubs').doc(clubId));
+};
+
+// Clubs the user owns are deleted; in the rest they lose their membership, role, invites and votes
+export const removeUserFromClubs = async (userId: string) => {
+  const db = getFirestore();
+  const [owned, joined, invited] = await Promise.all([
+    db.collection('clubs').where('ownerId', '==', userId).get(),
+    db.collection('clubs').where('memberIds', 'array-contains', userId).get(),
+    db.collection('clubs').where('invitedIds', 'array-contains', userId).get(),
+  ]);
+  await Promise.all(owned.docs.map(d => d.ref.delete()));
+
+  const ownedIds = new Set(owned.docs.map(d => d.id));
+  const remaining = [...joined.docs, ...invited.docs].filter(d => !ownedIds.has(d.id));
+  const polls = await Promise.all(joined.docs
+    .filter(d => !ownedIds.has(d.id))
+    .map(d => d.ref.collection('polls').get()));
+
+  const batch = db.batch();
+  remaining.forEach(d => batch.update(d.ref, {
+    memberIds: FieldValue.arrayRemove(userId),
+    moderatorIds: FieldValue.arrayRemove(userId),
+    invitedIds: FieldValue.arrayRemove(userId),
+  }));
+  polls.flatMap(snap => snap.docs).forEach(poll => batch.delete(poll.ref.collection('votes').doc(userId)));
+  await batch.commit();
+};
@@ -0,0 +1,126 @@
+import { initializeApp } from 'firebase-admin/app';
+import { onDocumentCreated, onDocumentDeleted, onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { syncAchievements } from './achievements';
+import { removeBuddyRead, removeUserFromBuddyReads } from './buddyReads';
+import { removeUserChats } from './chats';
+import { removeClub, removeUserFromClubs } from './clubs';
+import { adjustActivityCount, fanOutActivity, recordGoalCompletion, removeActivity, removeUserActivityTraces } from './activity';
+import { loadLibrary } from './library';
+import { deletePublicProfile, syncPublicProfile } from './publicProfiles';
+
+initializeApp();
+
+// Owner of the document on either side of the write, so deletes are evaluated too
+const ownerOf = (event: { data?: { before?: { data(): any }; after?: { data(): any } } }) =>
+  (event.data?.after?.data()?.userId || event.data?.before?.data()?.userId) as string | undefined;
+
+const changedKeys = (before: any, after: any, keys: string[]) =>
+  keys.some(key => JSON.stringify(before?.[key]) !== JSON.stringify(after?.[key]));
+
+// Book fields the achievement rules and goal count read; the public profile also shows the rest
+const ACHIEVEMENT_BOOK_FIELDS = [
+  'userId', 'status', 'rating', 'review', 'author', 'genre',
+  'dateAdded', 'dateStartedReading', 'dateFinished', 'dateDnf', 'readThroughs',
+];
+const PROFILE_BOOK_FIELDS = [
+  'title', 'coverUrl', 'pageCount', 'format', 'currentPage', 'progressPercent', 'listenedMinutes', 'totalMinutes',
+];
+
+// Notes, shelves and the like don't feed anything derived, so those edits stop here
+export const onBookWritten = onDocumentWritten('books/{bookId}', async (event) => {
+  const userId = ownerOf(event);
+  const before = event.data?.before?.data();
+  const after = event.data?.after?.data();
+  const achievementsChanged = changedKeys(before, after, ACHIEVEMENT_BOOK_FIELDS);
+  if (!userId || (!achievementsChanged && !changedKeys(before, after, PROFILE_BOOK_FIELDS))) return;
+
+  const library = await loadLibrary(userId);
+  await Promise.all([
+    achievementsChanged && syncAchievements(userId, library),
+    achievementsChanged && recordGoalCompletion(userId, library),
+    syncPublicProfile(userId, library),
+  ]);
+});
+
+export const onNoteWritten = onDocumentWritten('notes/{noteId}', async (event) => {
+  const userId = ownerOf(event);
+  if (userId) await syncAchievements(userId);
+});
+
+// Only the settings that feed the rules or the public profile; wrappedSeen and similar flags don't need a re-run
+export const onUserSettingsWritten = onDocumentWritten('users/{userId}', async (event) => {
+  const { userId } = event.params;
+  const before = event.data?.before?.data();
+  const after = event.data?.after?.data();
+  if (!after) {
+    await Promise.all([
+      deletePublicProfile(userId),
+      removeUserActivityTraces(userId),
+      removeUserChats(userId),
+      removeUserFromBuddyReads(userId),
+      removeUserFromClubs(userId),
+    ]);
+    return;
+  }
+  const goalsChanged = changedKeys(before, after, ['readingGoal', 'readingGoals', 'includeRereads']);
+  const profileChanged = !before || goalsChanged || changedKeys(before, after, ['username', 'privacy']);
+  if (!profileChanged) return;
+
+  const library = await loadLibrary(userId);
+  await Promise.all([
+    goalsChanged && syncAchievements(userId, library),
+    goalsChanged && recordGoalCompletion(userId, library),
+    syncPublicProfile(userId, library),
+  ]);
+});
+
+// Keeps the trophy shelf on public profiles in step with new unlocks
+export const onAchievementWritten = onDocumentWritten('users/{userId}/achievements/{achievementId}', async (event) => {
+  await syncPublicProfile(event.params.userId);
+});
+
+export const onActivityCreated = onDocumentCreated('activities/{activityId}', async (event) => {
+  const data = event.data?.data();
+  if (data?.userId) await fanOutActivity(event.params.activityId, data.userId, data.createdAt);
+});
+
+export const onActivityDeleted = onDocumentDeleted('activities/{activityId}', async (event) => {
+  await removeActivity(event.params.activityId);
+});
+
+// +1 on create, -1 on delete; edits don't change the count
+const countDelta = (event: { data?: { before?: { exists: boolean }; after?: { exists: boolean } } }) =>
+  (event.data?.after?.exists ? 1 : 0) - (event.data?.before?.exists ? 1 : 0);
+
+export const onActivityLikeWritten = onDocumentWritten('activities/{activityId}/likes/{userId}', async (event) => {
+  const delta = countDelta(event);
+  if (delta) await adjustActivityCount(event.params.activityId, 'likeCount', delta);
+});
+
+export const onActivityCommentWritten = onDocumentWritten('activities/{activityId}/comments/{commentId}', async (event) => {
+  const delta = countDelta(event);
+  if (delta) await adjustActivityCount(event.params.activityId, 'commentCount', delta);
+});
+
+export const onBuddyReadDeleted = onDocumentDeleted('buddyReads/{buddyReadId}', async (event) => {
+  await removeBuddyRead(event.params.buddyReadId);
+});
+
+export const onClubDeleted = onDocumentDeleted('clubs/{clubId}', async (event) => {
+  await removeClub(event.params.clubId);
+});
+
+// Lets the Achievements tab catch up accounts whose library predates these triggers
+export const syncMyAchievements = onCall(async (request) => {
+  if (!request.auth) throw new HttpsError('unauthenticated', 'Sign in to sync achievements.');
+  const updated = await syncAchievements(request.auth.uid);
+  return { updated };
+});
+
+// Builds the public profile for accounts created before profiles existed
+export const syncMyPublicProfile = onCall(async (request) => {
+  if (!request.auth) throw new HttpsError('unauthenticated', 'Sign in to update your profile.');
+  await syncPublicProfile(request.auth.uid);
+  return { ok: true };
+});
@@ -0,0 +1,22 @@
+import { getFirestore } from 'firebase-admin/firestore';
+import { toBook, toUserProfile } from '../../data/converters';
+import { Book, UserProfile } from '../../data/models';
+
+// A reader's settings and books. Read once per trigger and handed to everything that derives from
+// them, so a book write costs one pass over the library rather than one per derived document.
+export type Library = {
+  profile: UserProfile | null; // null once the account is gone
+  books: Book[];
+};
+
+export const loadLibrary = async (userId: string): Promise<Library> => {
+  const db = getFirestore();
+  const [userSnap, booksSnap] = await Promise.all([
+    db.collection('users').doc(userId).get(),
+    db.collection('books').where('userId', '==', userId).get(),
+  ]);
+  return {
+    profile: userSnap.exists ? toUserProfile(userSnap.id, userSnap.data() || {}) : null,
+    books: booksSnap.docs.map(d => toBook(d.id, d.data())),
+  };
+};
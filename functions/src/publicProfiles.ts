@@ -0,0 +1,46 @@
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { UnlockedAchievement } from '../../data/models';
+import { buildPublicSections, getPrivacy, PROFILE_SECTIONS, toUsernameLower } from '../../utils/publicProfile';
+import { Library, loadLibrary } from './library';
+
+// Rebuilds the copy of a reader's profile that other users can see. Each section is its own document
+// so the security rules can hide it according to the owner's privacy settings.
+export const syncPublicProfile = async (userId: string, library?: Library) => {
+  const db = getFirestore();
+  const userRef = db.collection('users').doc(userId);
+  const publicRef = db.collection('publicProfiles').doc(userId);
+
+  const [{ profile, books }, achievementsSnap] = await Promise.all([
+    library || loadLibrary(userId),
+    userRef.collection('achievements').get(),
+  ]);
+
+  if (!profile) {
+    await deletePublicProfile(userId);
+    return;
+  }
+
+  const sections = buildPublicSections(
+    books,
+    achievementsSnap.docs.map(d => ({ ...d.data(), id: d.id, unlocked: !!d.data().unlocked }) as UnlockedAchievement),
+    profile
+  );
+
+  const batch = db.batch();
+  batch.set(publicRef, {
+    username: profile.username || 'Reader',
+    usernameLower: toUsernameLower(profile.username),
+    privacy: getPrivacy(profile),
+    updatedAt: Timestamp.now(),
+  });
+  PROFILE_SECTIONS.forEach(section => batch.set(publicRef.collection('sections').doc(section), sections[section]));
+  await batch.commit();
+};
+
+export const deletePublicProfile = async (userId: string) => {
+  const publicRef = getFirestore().collection('publicProfiles').doc(userId);
+  const batch = getFirestore().batch();
+  PROFILE_SECTIONS.forEach(section => batch.delete(publicRef.collection('sections').doc(section)));
+  batch.delete(publicRef);
+  await batch.commit();
+};
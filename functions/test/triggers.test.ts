@@ -0,0 +1,217 @@
+import functionsTest from 'firebase-functions-test';
+import { getFirestore } from 'firebase-admin/firestore';
+import { CallableRequest } from 'firebase-functions/v2/https';
+import * as functions from '../src';
+
+// Runs against the Firestore emulator through `npm test`, which starts it with `emulators:exec`.
+// Triggers are called directly with made-up events; what they write is read back from the emulator.
+const PROJECT_ID = process.env.GCLOUD_PROJECT || 'demo-readcount';
+const testEnv = functionsTest({ projectId: PROJECT_ID });
+const db = getFirestore();
+
+// Passing no data makes a snapshot of a document that doesn't exist
+const snapshot = (path: string, data: Record<string, any> = {}) => testEnv.firestore.makeDocumentSnapshot(data, path);
+const written = (path: string, before: Record<string, any>, after: Record<string, any>) =>
+  testEnv.makeChange(snapshot(path, before), snapshot(path, after));
+
+// Callables only look at who is calling, so the raw HTTP request is left out
+const callAs = (uid?: string) => ({ data: {}, auth: uid ? { uid, token: {} } : undefined }) as CallableRequest;
+
+const exists = async (path: string) => (await db.doc(path).get()).exists;
+const count = async (path: string) => (await db.collection(path).get()).size;
+
+beforeAll(() => {
+  if (!process.env.FIRESTORE_EMULATOR_HOST) throw new Error('Run these through `npm test` so the Firestore emulator is up.');
+});
+
+beforeEach(() => testEnv.firestore.clearFirestoreData({ projectId: PROJECT_ID }));
+
+afterAll(() => testEnv.cleanup());
+
+describe('achievements', () => {
+  const bookWritten = testEnv.wrap(functions.onBookWritten);
+  const noteWritten = testEnv.wrap(functions.onNoteWritten);
+  const finished = (title: string, date: Date) =>
+    ({ userId: 'reader', title, author: 'Someone', status: 'read', dateAdded: date, dateFinished: date });
+  const writeBook = async (bookId: string, before: Record<string, any>, after: Record<string, any>) => {
+    await db.doc(`books/${bookId}`).set(after);
+    await bookWritten({ data: written(`books/${bookId}`, before, after), params: { bookId } });
+  };
+  const achievement = async (id: string) => (await db.doc(`users/reader/achievements/${id}`).get()).data();
+
+  beforeEach(() => db.doc('users/reader').set({ username: 'reader', readingGoals: { '2024': 2, '2025': 1 } }));
+
+  it('unlocks First Step with the first finished book and Quick Start with the third', async () => {
+    await writeBook('b1', {}, finished('One', new Date(2024, 2, 1)));
+    expect(await achievement('first_step')).toMatchObject({ unlocked: true });
+    expect(await achievement('quick_start')).toBeUndefined();
+
+    await writeBook('b2', {}, finished('Two', new Date(2024, 2, 2)));
+    await writeBook('b3', {}, finished('Three', new Date(2025, 2, 3)));
+    expect(await achievement('quick_start')).toMatchObject({ unlocked: true });
+  });
+
+  it('counts The Finisher once for every year the goal is met', async () => {
+    await writeBook('b1', {}, finished('One', new Date(2024, 2, 1)));
+    await writeBook('b2', {}, finished('Two', new Date(2024, 2, 2)));
+    expect(await achievement('the_finisher')).toMatchObject({ unlocked: true, count: 1 });
+
+    await writeBook('b3', {}, finished('Three', new Date(2025, 2, 3)));
+    expect(await achievement('the_finisher')).toMatchObject({ count: 2 });
+  });
+
+  it('skips book edits that nothing derived depends on', async () => {
+    const book = finished('One', new Date(2024, 2, 1));
+    await writeBook('b1', book, { ...book, shelfIds: ['s1'] });
+    expect(await count('users/reader/achievements')).toBe(0);
+    expect(await exists('publicProfiles/reader')).toBe(false);
+  });
+
+  it('unlocks Draftsman with the first note', async () => {
+    const note = { userId: 'reader', title: 'Thoughts', content: 'Hi', createdAt: new Date(2024, 2, 1) };
+    await db.doc('notes/n1').set(note);
+    await noteWritten({ data: written('notes/n1', {}, note), params: { noteId: 'n1' } });
+    expect(await achievement('first_note')).toMatchObject({ unlocked: true });
+  });
+
+  it('syncs on request and reports how many achievements changed', async () => {
+    await db.doc('books/b1').set(finished('One', new Date(2024, 2, 1)));
+    const result = await testEnv.wrap(functions.syncMyAchievements)(callAs('reader'));
+    expect(result.updated).toBeGreaterThan(0);
+    expect(await achievement('first_step')).toMatchObject({ unlocked: true });
+  });
+
+  it('refuses to sync for a signed-out caller', async () => {
+    await expect(testEnv.wrap(functions.syncMyAchievements)(callAs())).rejects.toMatchObject({ code: 'unauthenticated' });
+  });
+});
+
+describe('activity counts', () => {
+  const likeWritten = testEnv.wrap(functions.onActivityLikeWritten);
+  const commentWritten = testEnv.wrap(functions.onActivityCommentWritten);
+
+  beforeEach(() => db.doc('activities/a1').set({ userId: 'owner', likeCount: 0, commentCount: 0 }));
+
+  it('adds one for a new like and takes it away again when the like is removed', async () => {
+    const path = 'activities/a1/likes/fan';
+    await likeWritten({ data: written(path, {}, { userId: 'fan' }), params: { activityId: 'a1', userId: 'fan' } });
+    expect((await db.doc('activities/a1').get()).data()?.likeCount).toBe(1);
+
+    await likeWritten({ data: written(path, { userId: 'fan' }, {}), params: { activityId: 'a1', userId: 'fan' } });
+    expect((await db.doc('activities/a1').get()).data()?.likeCount).toBe(0);
+  });
+
+  it('leaves the comment count alone when a comment is edited', async () => {
+    const path = 'activities/a1/comments/c1';
+    await commentWritten({ data: written(path, {}, { userId: 'fan', text: 'Hi' }), params: { activityId: 'a1', commentId: 'c1' } });
+    await commentWritten({ data: written(path, { userId: 'fan', text: 'Hi' }, { userId: 'fan', text: 'Hello' }), params: { activityId: 'a1', commentId: 'c1' } });
+    expect((await db.doc('activities/a1').get()).data()?.commentCount).toBe(1);
+  });
+
+  it('does nothing once the event itself is gone', async () => {
+    await db.doc('activities/a1').delete();
+    await likeWritten({ data: written('activities/a1/likes/fan', { userId: 'fan' }, {}), params: { activityId: 'a1', userId: 'fan' } });
+    expect(await exists('activities/a1')).toBe(false);
+  });
+});
+
+describe('activity feed', () => {
+  it('fans a new event out to the owner and every follower', async () => {
+    await db.doc('follows/fan_owner').set({ followerId: 'fan', followingId: 'owner' });
+    await db.doc('follows/other_someone').set({ followerId: 'other', followingId: 'someone' });
+    const data = { userId: 'owner', type: 'finished', createdAt: new Date() };
+    await testEnv.wrap(functions.onActivityCreated)({ data: snapshot('activities/a1', data), params: { activityId: 'a1' } });
+
+    expect(await exists('feeds/owner/items/a1')).toBe(true);
+    expect(await exists('feeds/fan/items/a1')).toBe(true);
+    expect(await exists('feeds/other/items/a1')).toBe(false);
+  });
+
+  it('removes feed pointers, likes and comments with a deleted event', async () => {
+    await db.doc('feeds/owner/items/a1').set({ activityId: 'a1', actorId: 'owner' });
+    await db.doc('feeds/fan/items/a1').set({ activityId: 'a1', actorId: 'owner' });
+    await db.doc('feeds/fan/items/a2').set({ activityId: 'a2', actorId: 'owner' });
+    await db.doc('activities/a1/likes/fan').set({ userId: 'fan' });
+    await db.doc('activities/a1/comments/c1').set({ userId: 'fan', text: 'Hi' });
+
+    await testEnv.wrap(functions.onActivityDeleted)({ data: snapshot('activities/a1', { userId: 'owner' }), params: { activityId: 'a1' } });
+
+    expect(await count('feeds/owner/items')).toBe(0);
+    expect((await db.collection('feeds/fan/items').get()).docs.map(d => d.id)).toEqual(['a2']);
+    expect(await count('activities/a1/likes')).toBe(0);
+    expect(await count('activities/a1/comments')).toBe(0);
+  });
+});
+
+describe('deleted buddy reads and clubs', () => {
+  it('removes progress and messages with the buddy read', async () => {
+    await db.doc('buddyReads/b1/progress/reader').set({ page: 10 });
+    await db.doc('buddyReads/b1/messages/m1').set({ senderId: 'reader', text: 'Wow' });
+    await testEnv.wrap(functions.onBuddyReadDeleted)({ data: snapshot('buddyReads/b1', { ownerId: 'owner' }), params: { buddyReadId: 'b1' } });
+
+    expect(await count('buddyReads/b1/progress')).toBe(0);
+    expect(await count('buddyReads/b1/messages')).toBe(0);
+  });
+
+  it('removes polls and their votes with the club', async () => {
+    await db.doc('clubs/c1/polls/p1').set({ question: 'Next?' });
+    await db.doc('clubs/c1/polls/p1/votes/member').set({ optionId: 'o1' });
+    await testEnv.wrap(functions.onClubDeleted)({ data: snapshot('clubs/c1', { ownerId: 'owner' }), params: { clubId: 'c1' } });
+
+    expect(await count('clubs/c1/polls')).toBe(0);
+    expect(await count('clubs/c1/polls/p1/votes')).toBe(0);
+  });
+});
+
+describe('deleted account', () => {
+  const userDeleted = testEnv.wrap(functions.onUserSettingsWritten);
+  const deleteUser = (userId: string) =>
+    userDeleted({ data: written(`users/${userId}`, { username: userId }, {}), params: { userId } });
+
+  it('removes their chats with both sides of the conversation', async () => {
+    await db.doc('chats/gone_other').set({ participants: ['gone', 'other'] });
+    await db.doc('chats/gone_other/messages/m1').set({ senderId: 'other', text: 'Hi' });
+    await db.doc('chats/other_third').set({ participants: ['other', 'third'] });
+    await deleteUser('gone');
+
+    expect(await exists('chats/gone_other')).toBe(false);
+    expect(await count('chats/gone_other/messages')).toBe(0);
+    expect(await exists('chats/other_third')).toBe(true);
+  });
+
+  it("removes their likes and comments on other people's events, and their feed", async () => {
+    await db.doc('activities/a1/likes/gone').set({ userId: 'gone' });
+    await db.doc('activities/a1/likes/other').set({ userId: 'other' });
+    await db.doc('activities/a1/comments/c1').set({ userId: 'gone', text: 'Hi' });
+    await db.doc('feeds/gone/items/a1').set({ activityId: 'a1', actorId: 'other' });
+    await deleteUser('gone');
+
+    expect((await db.collection('activities/a1/likes').get()).docs.map(d => d.id)).toEqual(['other']);
+    expect(await count('activities/a1/comments')).toBe(0);
+    expect(await count('feeds/gone/items')).toBe(0);
+  });
+
+  it('removes their public profile', async () => {
+    await db.doc('publicProfiles/gone').set({ username: 'gone' });
+    await deleteUser('gone');
+    expect(await exists('publicProfiles/gone')).toBe(false);
+  });
+
+  it('deletes the buddy reads and clubs they own and leaves the rest', async () => {
+    await db.doc('buddyReads/mine').set({ ownerId: 'gone', members: ['gone', 'other'], invitedIds: [] });
+    await db.doc('buddyReads/theirs').set({ ownerId: 'other', members: ['other', 'gone'], invitedIds: [] });
+    await db.doc('buddyReads/theirs/progress/gone').set({ page: 5 });
+    await db.doc('clubs/mine').set({ ownerId: 'gone', memberIds: ['gone'], moderatorIds: [], invitedIds: [] });
+    await db.doc('clubs/theirs').set({ ownerId: 'other', memberIds: ['other', 'gone'], moderatorIds: ['gone'], invitedIds: [] });
+    await db.doc('clubs/theirs/polls/p1').set({ question: 'Next?' });
+    await db.doc('clubs/theirs/polls/p1/votes/gone').set({ optionId: 'o1' });
+    await deleteUser('gone');
+
+    expect(await exists('buddyReads/mine')).toBe(false);
+    expect((await db.doc('buddyReads/theirs').get()).data()?.members).toEqual(['other']);
+    expect(await exists('buddyReads/theirs/progress/gone')).toBe(false);
+    expect(await exists('clubs/mine')).toBe(false);
+    expect((await db.doc('clubs/theirs').get()).data()).toMatchObject({ memberIds: ['other'], moderatorIds: [] });
+    expect(await exists('clubs/theirs/polls/p1/votes/gone')).toBe(false);
+  });
+});
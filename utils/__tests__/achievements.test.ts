@@ -0,0 +1,368 @@
+import { toBook } from '../../data/converters';
+import { Book, UserProfile } from '../../data/models';
+import { ACHIEVEMENT_DEFINITIONS, AchievementSnapshot, evaluateAchievement, evaluateAchievements } from '../achievements';
+
+// The rules are pure; this keeps the Firestore SDK (only imported for Timestamp) out of the test run
+jest.mock('firebase/firestore', () => ({}));
+
+// Local time throughout, so the hour-of-day trophies don't depend on the machine's time zone
+const at = (year: number, month: number, day: number, hour = 12) => new Date(year, month - 1, day, hour);
+const NOW = at(2025, 6, 15);
+
+let nextId = 0;
+const book = (data: Record<string, any> = {}): Book =>
+  toBook(`book${nextId++}`, { userId: 'reader', title: `Book ${nextId}`, author: 'Author', status: 'toread', dateAdded: at(2025, 1, 1), ...data });
+const read = (finished: Date, data: Record<string, any> = {}) => book({ status: 'read', dateFinished: finished, ...data });
+const reading = (data: Record<string, any> = {}) => book({ status: 'reading', dateStartedReading: at(2025, 6, 1), ...data });
+const times = <T,>(n: number, make: (i: number) => T) => Array.from({ length: n }, (_, i) => make(i));
+
+const profile = (data: Partial<UserProfile> = {}): UserProfile => ({ id: 'reader', includeRereads: true, dateAdded: at(2024, 1, 1), ...data });
+const notes = (n: number) => times(n, i => ({ createdAt: at(2025, 2, 1 + i), updatedAt: null }));
+
+const evaluate = (id: string, snapshot: Partial<AchievementSnapshot> = {}) =>
+  evaluateAchievement(id, { books: [], profile: null, now: NOW, ...snapshot });
+
+// Reads spread one a day through May, so none of them fall on "this month"
+const readsInMay = (n: number, data: (i: number) => Record<string, any> = () => ({})) =>
+  times(n, i => read(at(2025, 5, 1 + (i % 28), 10), data(i)));
+
+describe('achievements', () => {
+  const tested = new Set<string>();
+  const check = (id: string) => {
+    tested.add(id);
+    return id;
+  };
+
+  afterAll(() => {
+    expect(ACHIEVEMENT_DEFINITIONS.map(def => def.id).filter(id => !tested.has(id))).toEqual([]);
+  });
+
+  describe('empty library', () => {
+    it('leaves every trophy locked with no progress', () => {
+      const results = evaluateAchievements({ books: [], profile: null, now: NOW });
+      Object.entries(results).forEach(([id, result]) => {
+        expect({ id, ...result }).toEqual({ id, progress: 0, unlocked: false, unlockedAt: null });
+      });
+    });
+  });
+
+  describe('basics', () => {
+    it('First Step unlocks on the first finished book, not on DNF or To Read', () => {
+      const id = check('first_step');
+      expect(evaluate(id, { books: [book({ status: 'dnf', dateDnf: at(2025, 3, 1) }), book()] }).unlocked).toBe(false);
+      const finished = at(2025, 3, 2);
+      expect(evaluate(id, { books: [read(finished), read(at(2025, 4, 1))] })).toMatchObject({ unlocked: true, unlockedAt: finished });
+    });
+
+    it('Quick Start counts every added book and dates the third', () => {
+      const id = check('quick_start');
+      const added = [at(2025, 1, 1), at(2025, 1, 5), at(2025, 1, 9)];
+      expect(evaluate(id, { books: added.slice(0, 2).map(dateAdded => book({ dateAdded })) })).toMatchObject({ progress: 2, unlocked: false });
+      expect(evaluate(id, { books: added.map(dateAdded => book({ dateAdded, status: 'dnf' })) }))
+        .toMatchObject({ progress: 3, unlocked: true, unlockedAt: added[2] });
+    });
+
+    it('Page Turner unlocks when a book is being read', () => {
+      const id = check('page_turner');
+      expect(evaluate(id, { books: [book()] }).unlocked).toBe(false);
+      expect(evaluate(id, { books: [reading({ dateStartedReading: at(2025, 6, 3) })] }))
+        .toMatchObject({ unlocked: true, unlockedAt: at(2025, 6, 3) });
+    });
+
+    it('The Creator is for admins only', () => {
+      const id = check('godmode');
+      expect(evaluate(id, { profile: profile() }).unlocked).toBe(false);
+      expect(evaluate(id, { profile: profile({ role: 'admin' }) })).toMatchObject({ unlocked: true, unlockedAt: NOW });
+    });
+
+    it.each([
+      ['bronze_milestone', 10],
+      ['silver_milestone', 25],
+      ['gold_milestone', 50],
+      ['diamond_milestone', 100],
+    ])('%s unlocks at exactly %i finished reads', (id, target) => {
+      check(id);
+      expect(evaluate(id, { books: readsInMay(target - 1) })).toMatchObject({ progress: target - 1, unlocked: false });
+      expect(evaluate(id, { books: readsInMay(target) })).toMatchObject({ progress: target, unlocked: true });
+    });
+
+    it('counts re-reads towards milestones unless the reader turned them off', () => {
+      const reread = read(at(2025, 5, 20), {
+        readThroughs: times(10, i => ({ startedAt: null, finishedAt: at(2024, 1 + i, 1), rating: 4, format: 'physical' })),
+      });
+      expect(evaluate('bronze_milestone', { books: [reread] })).toMatchObject({ unlocked: true, unlockedAt: at(2024, 10, 1) });
+      expect(evaluate('bronze_milestone', { books: [reread], profile: profile({ includeRereads: false }) }))
+        .toMatchObject({ progress: 1, unlocked: false });
+    });
+
+    it('ignores DNF books for milestones', () => {
+      const books = [...readsInMay(9), book({ status: 'dnf', dateDnf: at(2025, 5, 30) })];
+      expect(evaluate('bronze_milestone', { books })).toMatchObject({ progress: 9, unlocked: false });
+    });
+  });
+
+  describe('The Finisher', () => {
+    const id = check('the_finisher');
+    const finishes2024 = (n: number) => times(n, i => read(at(2024, 3, 1 + i)));
+
+    it('stays locked one book short of the goal and unlocks on the book that meets it', () => {
+      const goal = profile({ readingGoals: { '2024': 3 } });
+      expect(evaluate(id, { books: finishes2024(2), profile: goal }).unlocked).toBe(false);
+      expect(evaluate(id, { books: finishes2024(4), profile: goal }))
+        .toMatchObject({ unlocked: true, unlockedAt: at(2024, 3, 3), count: 1 });
+    });
+
+    it('needs a goal for the year', () => {
+      expect(evaluate(id, { books: finishes2024(5), profile: profile({ readingGoals: { '2025': 1 } }) }).unlocked).toBe(false);
+      expect(evaluate(id, { books: finishes2024(5), profile: profile({ readingGoals: { '2024': 0 } }) }).unlocked).toBe(false);
+    });
+
+    it('is earned again for every year the goal is met', () => {
+      const books = [...finishes2024(2), read(at(2025, 2, 1)), read(at(2025, 2, 2))];
+      expect(evaluate(id, { books, profile: profile({ readingGoals: { '2024': 2, '2025': 2 } }) }))
+        .toMatchObject({ unlocked: true, count: 2, progress: 2, unlockedAt: at(2025, 2, 2) });
+    });
+
+    it('only applies the legacy single goal to the year the account was made', () => {
+      const books = [read(at(2024, 3, 1)), read(at(2025, 3, 1))];
+      expect(evaluate(id, { books, profile: profile({ readingGoal: 1 }) })).toMatchObject({ count: 1, unlockedAt: at(2024, 3, 1) });
+    });
+
+    it('counts each read-through towards the goal', () => {
+      const reread = read(at(2024, 9, 1), {
+        readThroughs: [
+          { startedAt: null, finishedAt: at(2024, 2, 1), rating: 5, format: 'physical' },
+          { startedAt: null, finishedAt: at(2024, 9, 1), rating: 5, format: 'physical' },
+        ],
+      });
+      expect(evaluate(id, { books: [reread], profile: profile({ readingGoals: { '2024': 2 } }) }).unlocked).toBe(true);
+    });
+  });
+
+  describe('habits', () => {
+    it('Weekend Warrior needs a Saturday or Sunday finish', () => {
+      const id = check('weekend_warrior');
+      expect(evaluate(id, { books: [read(at(2025, 6, 11))] }).unlocked).toBe(false);
+      expect(evaluate(id, { books: [read(at(2025, 6, 14))] }).unlocked).toBe(true);
+    });
+
+    it('Early Bird needs a finish before 9 AM', () => {
+      const id = check('morning_reader');
+      expect(evaluate(id, { books: [read(at(2025, 6, 11, 9))] }).unlocked).toBe(false);
+      expect(evaluate(id, { books: [read(at(2025, 6, 11, 8))] }).unlocked).toBe(true);
+    });
+
+    it('Night Owl looks at when books were added, from 11 PM to 4 AM', () => {
+      const id = check('night_owl');
+      expect(evaluate(id, { books: [book({ dateAdded: at(2025, 6, 1, 22) }), book({ dateAdded: at(2025, 6, 1, 4) })] }).unlocked).toBe(false);
+      expect(evaluate(id, { books: [book({ dateAdded: at(2025, 6, 1, 23) })] }).unlocked).toBe(true);
+      expect(evaluate(id, { books: [book({ dateAdded: at(2025, 6, 1, 3) })] }).unlocked).toBe(true);
+    });
+
+    it('Lunch Break needs a finish from 12 to 2 PM', () => {
+      const id = check('lunch_reader');
+      expect(evaluate(id, { books: [read(at(2025, 6, 11, 14)), read(at(2025, 6, 12, 11))] }).unlocked).toBe(false);
+      expect(evaluate(id, { books: [read(at(2025, 6, 11, 13))] }).unlocked).toBe(true);
+    });
+
+    it('Midnight Marathon needs a finish from midnight to 4 AM', () => {
+      const id = check('midnight_reader');
+      expect(evaluate(id, { books: [read(at(2025, 6, 11, 4))] }).unlocked).toBe(false);
+      expect(evaluate(id, { books: [read(at(2025, 6, 11, 0))] }).unlocked).toBe(true);
+    });
+
+    it.each([
+      ['first_note', 1],
+      ['annotator_notes', 5],
+      ['deep_thinker', 10],
+      ['chronicler', 25],
+    ])('%s unlocks at %i notes', (id, target) => {
+      check(id);
+      expect(evaluate(id, { notes: notes(target - 1) })).toMatchObject({ progress: target - 1, unlocked: false });
+      expect(evaluate(id, { notes: notes(target) })).toMatchObject({ unlocked: true, unlockedAt: at(2025, 2, target) });
+    });
+
+    it('Goal Setter needs a goal above zero', () => {
+      const id = check('goal_setter');
+      expect(evaluate(id, { profile: profile({ readingGoals: { '2025': 0 } }) }).unlocked).toBe(false);
+      expect(evaluate(id, { profile: profile({ readingGoals: { '2025': 12 } }) }).unlocked).toBe(true);
+      expect(evaluate(id, { profile: profile({ readingGoal: 5 }) }).unlocked).toBe(true);
+    });
+  });
+
+  describe('speed', () => {
+    it.each([
+      ['speedy_reader', 5],
+      ['speed_demon', 10],
+      ['speed_god', 30],
+    ])('%s needs %i finishes in one calendar month', (id, target) => {
+      check(id);
+      const inJune = (n: number) => times(n, i => read(at(2025, 6, 1, 1 + (i % 20))));
+      expect(evaluate(id, { books: inJune(target - 1) })).toMatchObject({ progress: target - 1, unlocked: false });
+      expect(evaluate(id, { books: inJune(target) })).toMatchObject({ progress: target, unlocked: true });
+      // Split across two months never reaches the target in either
+      const split = [...inJune(target - 1), read(at(2025, 5, 31))];
+      expect(evaluate(id, { books: split }).unlocked).toBe(false);
+    });
+
+    it('keeps a past month unlocked while showing this month as progress', () => {
+      const result = evaluate('speedy_reader', { books: readsInMay(5) });
+      expect(result).toMatchObject({ progress: 0, unlocked: true, unlockedAt: at(2025, 5, 5, 10) });
+    });
+
+    it('Book Devourer and Book Blitzer measure from start to finish', () => {
+      check('book_devourer');
+      check('book_blitzer');
+      const finishedAfter = (hours: number) => read(new Date(at(2025, 6, 1).getTime() + hours * 3600000), { dateStartedReading: at(2025, 6, 1) });
+      expect(evaluate('book_blitzer', { books: [finishedAfter(24)] }).unlocked).toBe(true);
+      expect(evaluate('book_blitzer', { books: [finishedAfter(30)] }).unlocked).toBe(false);
+      expect(evaluate('book_devourer', { books: [finishedAfter(30)] }).unlocked).toBe(true);
+      expect(evaluate('book_devourer', { books: [finishedAfter(49)] }).unlocked).toBe(false);
+      // Without a start date there is nothing to measure
+      expect(evaluate('book_devourer', { books: [read(at(2025, 6, 1))] }).unlocked).toBe(false);
+    });
+  });
+
+  describe('streaks', () => {
+    const monthlyReads = (months: number, lastMonth = 6) => times(months, i => read(at(2025, lastMonth - i, 10)));
+
+    it.each([
+      ['consistent_reader', 3],
+      ['half_year_streak', 6],
+    ])('%s needs %i months in a row', (id, target) => {
+      check(id);
+      expect(evaluate(id, { books: monthlyReads(target - 1) })).toMatchObject({ progress: target - 1, unlocked: false });
+      expect(evaluate(id, { books: monthlyReads(target) })).toMatchObject({ progress: target, unlocked: true });
+    });
+
+    it('The Yearly Cycle reaches back across the year boundary', () => {
+      const id = check('year_streak');
+      const books = times(12, i => read(new Date(2025, 5 - i, 10)));
+      expect(evaluate(id, { books })).toMatchObject({ progress: 12, unlocked: true, unlockedAt: new Date(2024, 6, 10) });
+    });
+
+    it('counts back from last month while this month is still empty', () => {
+      expect(evaluate('consistent_reader', { books: monthlyReads(3, 5) }).unlocked).toBe(true);
+    });
+
+    it('breaks on a missing month', () => {
+      const books = [read(at(2025, 6, 10)), read(at(2025, 5, 10)), read(at(2025, 3, 10))];
+      expect(evaluate('consistent_reader', { books })).toMatchObject({ progress: 2, unlocked: false });
+    });
+  });
+
+  describe('variety', () => {
+    it('Double Feature needs books by two different authors in Reading', () => {
+      const id = check('double_feature');
+      expect(evaluate(id, { books: [reading(), reading()] })).toMatchObject({ progress: 1, unlocked: false });
+      expect(evaluate(id, { books: [reading({ author: 'A' }), reading({ author: 'B' })] }).unlocked).toBe(true);
+    });
+
+    it('Multitasker needs three books in Reading', () => {
+      const id = check('multitasker_reader');
+      expect(evaluate(id, { books: times(2, () => reading()) }).unlocked).toBe(false);
+      expect(evaluate(id, { books: times(3, () => reading()) }).unlocked).toBe(true);
+    });
+
+    it("Author's Bestie needs five reads of one author", () => {
+      const id = check('author_bestie');
+      expect(evaluate(id, { books: readsInMay(5, i => ({ author: i < 4 ? 'A' : 'B' })) })).toMatchObject({ progress: 4, unlocked: false });
+      expect(evaluate(id, { books: readsInMay(5, () => ({ author: 'A' })) })).toMatchObject({ unlocked: true, unlockedAt: at(2025, 5, 5, 10) });
+    });
+
+    it.each([
+      ['the_polymath', 5],
+      ['variety_king', 10],
+    ])('%s needs %i different authors', (id, target) => {
+      check(id);
+      expect(evaluate(id, { books: readsInMay(target + 3, i => ({ author: `Author ${i % (target - 1)}` })) }).unlocked).toBe(false);
+      expect(evaluate(id, { books: readsInMay(target, i => ({ author: `Author ${i}` })) }).unlocked).toBe(true);
+    });
+
+    it.each([
+      ['genre_explorer', 3],
+      ['renaissance_reader', 5],
+      ['eclectic_reader', 10],
+    ])('%s needs %i different genres', (id, target) => {
+      check(id);
+      expect(evaluate(id, { books: readsInMay(target - 1, i => ({ genre: `Genre ${i}` })) }).unlocked).toBe(false);
+      expect(evaluate(id, { books: readsInMay(target, i => ({ genre: `Genre ${i}` })) }).unlocked).toBe(true);
+    });
+
+    it('treats genres that differ only in case or spacing as one, and skips blank ones', () => {
+      const books = [read(at(2025, 5, 1), { genre: 'Fantasy' }), read(at(2025, 5, 2), { genre: ' fantasy ' }), read(at(2025, 5, 3), { genre: '' })];
+      expect(evaluate('genre_explorer', { books }).progress).toBe(1);
+    });
+  });
+
+  describe('critics', () => {
+    it.each([
+      ['first_opinion', 1],
+      ['the_critic', 10],
+      ['super_critic', 25],
+    ])('%s needs %i rated reads', (id, target) => {
+      check(id);
+      const unrated = readsInMay(target, () => ({ rating: 0 }));
+      expect(evaluate(id, { books: unrated }).unlocked).toBe(false);
+      expect(evaluate(id, { books: readsInMay(target, () => ({ rating: 3 })) }).unlocked).toBe(true);
+    });
+
+    it('counts legacy good/bad reviews as ratings', () => {
+      expect(evaluate('first_opinion', { books: [read(at(2025, 5, 1), { review: 'good' })] }).unlocked).toBe(true);
+      expect(evaluate('masterpiece_finder', { books: [read(at(2025, 5, 1), { review: 'good' })] }).unlocked).toBe(true);
+    });
+
+    it('Masterpiece Finder and Honest Critic look for 5 and 1 stars', () => {
+      check('masterpiece_finder');
+      check('honest_critic');
+      const books = [read(at(2025, 5, 1), { rating: 4 }), read(at(2025, 5, 2), { rating: 2 })];
+      expect(evaluate('masterpiece_finder', { books }).unlocked).toBe(false);
+      expect(evaluate('honest_critic', { books }).unlocked).toBe(false);
+      expect(evaluate('masterpiece_finder', { books: [read(at(2025, 5, 3), { rating: 5 })] }).unlocked).toBe(true);
+      expect(evaluate('honest_critic', { books: [read(at(2025, 5, 3), { rating: 1 })] }).unlocked).toBe(true);
+    });
+
+    it('Generous Soul needs five 5-star ratings', () => {
+      const id = check('generous_soul');
+      expect(evaluate(id, { books: readsInMay(5, i => ({ rating: i === 0 ? 4 : 5 })) })).toMatchObject({ progress: 4, unlocked: false });
+      expect(evaluate(id, { books: readsInMay(5, () => ({ rating: 5 })) }).unlocked).toBe(true);
+    });
+
+    it('Balanced Critic needs 1, 3 and 5 stars', () => {
+      const id = check('balanced_critic');
+      expect(evaluate(id, { books: readsInMay(4, i => ({ rating: [1, 3, 4, 2][i] })) })).toMatchObject({ progress: 2, unlocked: false });
+      expect(evaluate(id, { books: readsInMay(3, i => ({ rating: [5, 3, 1][i] })) })).toMatchObject({ unlocked: true, unlockedAt: at(2025, 5, 3, 10) });
+    });
+
+    it('ignores ratings on books that are not read', () => {
+      expect(evaluate('first_opinion', { books: [book({ status: 'dnf', rating: 2 })] }).unlocked).toBe(false);
+    });
+  });
+
+  describe('collection', () => {
+    it.each([
+      ['indecisive', 3],
+      ['cant_make_up_mind', 5],
+      ['the_archivist', 10],
+    ])('%s needs %i books in To Read right now', (id, target) => {
+      check(id);
+      expect(evaluate(id, { books: times(target - 1, () => book()) })).toMatchObject({ progress: target - 1, unlocked: false });
+      expect(evaluate(id, { books: times(target, () => book()) })).toMatchObject({ progress: target, unlocked: true, unlockedAt: NOW });
+    });
+
+    it('Book Collector counts every book in the library', () => {
+      const id = check('book_collector');
+      expect(evaluate(id, { books: times(49, () => book()) }).unlocked).toBe(false);
+      expect(evaluate(id, { books: [...times(48, () => book()), reading(), book({ status: 'dnf' })] }).unlocked).toBe(true);
+    });
+
+    it('Perfect Balance needs exactly five of each', () => {
+      const id = check('perfect_balance');
+      const balanced = [...times(5, () => book()), ...times(5, () => reading()), ...readsInMay(5)];
+      expect(evaluate(id, { books: balanced })).toMatchObject({ unlocked: true, unlockedAt: NOW });
+      expect(evaluate(id, { books: [...balanced, book()] }).unlocked).toBe(false);
+      // DNF books sit outside all three lists
+      expect(evaluate(id, { books: [...balanced, book({ status: 'dnf' })] }).unlocked).toBe(true);
+    });
+  });
+});
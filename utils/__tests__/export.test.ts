@@ -0,0 +1,54 @@
+import { ExportData, toFlatCsv, toGoodreadsCsv } from '../export';
+
+jest.mock('expo-file-system', () => ({}));
+jest.mock('expo-sharing', () => ({}));
+jest.mock('../../data', () => ({}));
+jest.mock('firebase/firestore', () => ({}));
+
+const exportOf = (books: Record<string, any>[]): ExportData => ({
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  books,
+  notes: [],
+  quotes: [],
+  achievements: [],
+  shelves: [
+    { id: 's1', name: 'Book Club', order: 0 },
+    { id: 's2', name: 'Owned', order: 1 },
+  ],
+});
+
+const book = (fields: Record<string, any>) => ({ title: 'Title', author: 'Ann Author', status: 'read', shelfIds: [], ...fields });
+
+// Splits a CSV line on commas outside quotes; enough for these fixtures
+const cells = (line: string) => line.match(/("([^"]|"")*"|[^,]*)(,|$)/g)!.map(c => c.replace(/,$/, '').replace(/^"|"$/g, ''));
+
+const goodreadsRows = (data: ExportData) => {
+  const [header, ...rows] = toGoodreadsCsv(data).split('\n').map(cells);
+  return rows.map(row => Object.fromEntries(header.map((name, i) => [name, row[i]])));
+};
+
+describe('Goodreads export', () => {
+  it('lists custom shelves after the status shelf, in shelf order', () => {
+    const [row] = goodreadsRows(exportOf([book({ shelfIds: ['s2', 's1'] })]));
+    expect(row['Bookshelves']).toBe('read, book-club, owned');
+    expect(row['Exclusive Shelf']).toBe('read');
+  });
+
+  it("numbers each shelf's books in export order", () => {
+    const rows = goodreadsRows(exportOf([book({ shelfIds: ['s1'] }), book({ status: 'toread', shelfIds: ['s1', 's2'] })]));
+    expect(rows[0]['Bookshelves with positions']).toBe('read (#1), book-club (#1)');
+    expect(rows[1]['Bookshelves with positions']).toBe('to-read (#1), book-club (#2), owned (#1)');
+  });
+
+  it('skips shelves that no longer exist', () => {
+    const [row] = goodreadsRows(exportOf([book({ shelfIds: ['gone', 's2'] })]));
+    expect(row['Bookshelves']).toBe('read, owned');
+  });
+});
+
+describe('flat CSV export', () => {
+  it('names the shelves a book is on', () => {
+    const [header, row] = toFlatCsv(exportOf([book({ id: 'b1', shelfIds: ['s1', 's2'] })])).split('\n').map(cells);
+    expect(row[header.indexOf('shelves')]).toBe('Book Club, Owned');
+  });
+});
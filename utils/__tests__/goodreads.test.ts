@@ -0,0 +1,27 @@
+import { getBookKey } from '../goodreads';
+
+describe('getBookKey', () => {
+  it('ignores case, spacing and punctuation', () => {
+    expect(getBookKey('The Hobbit', 'J.R.R. Tolkien')).toBe(getBookKey('the hobbit!', 'JRR Tolkien'));
+  });
+
+  it('folds accents instead of dropping the letters', () => {
+    expect(getBookKey('Café', 'Zoë')).toBe('cafe|zoe');
+    expect(getBookKey('Café', 'Zoë')).toBe(getBookKey('Cafe', 'Zoe'));
+  });
+
+  it('keeps non-Latin titles and authors apart', () => {
+    const keys = [
+      getBookKey('Война и мир', 'Лев Толстой'),
+      getBookKey('Анна Каренина', 'Лев Толстой'),
+      getBookKey('ノルウェイの森', '村上春樹'),
+      getBookKey('海辺のカフカ', '村上春樹'),
+    ];
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(getBookKey('Мастер и Маргарита', 'Булгаков')).toBe('мастеримаргарита|булгаков');
+  });
+
+  it('still matches the same non-Latin book written differently', () => {
+    expect(getBookKey('Война и мир', 'Лев Толстой')).toBe(getBookKey('ВОЙНА И МИР ', 'лев толстой'));
+  });
+});
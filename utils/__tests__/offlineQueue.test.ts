@@ -0,0 +1,59 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { setDoc } from 'firebase/firestore';
+import { auth } from '../../firebaseConfig';
+import { getPendingWrites, queueSet, replayOutbox } from '../offlineQueue';
+
+jest.mock('@react-native-async-storage/async-storage', () => require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('../../firebaseConfig', () => ({ auth: { currentUser: null }, db: {} }));
+// Writes never reach a server here, so they stay queued like they would offline
+jest.mock('firebase/firestore', () => ({
+  Timestamp: class {},
+  collection: jest.fn(),
+  doc: jest.fn((_db: unknown, path: string) => ({ path })),
+  setDoc: jest.fn(() => new Promise(() => {})),
+  updateDoc: jest.fn(() => new Promise(() => {})),
+  deleteDoc: jest.fn(() => new Promise(() => {})),
+}));
+
+const signIn = (uid: string | null) => {
+  (auth as any).currentUser = uid ? { uid } : null;
+  return replayOutbox(uid);
+};
+
+const sentPaths = () => (setDoc as jest.Mock).mock.calls.map(([ref]) => ref.path);
+
+describe('offline outbox', () => {
+  beforeEach(async () => {
+    await signIn(null);
+    await AsyncStorage.clear();
+    jest.clearAllMocks();
+  });
+
+  it('stores queued writes under the account that made them', async () => {
+    await signIn('alice');
+    await queueSet('books/one', { title: 'One' });
+    expect(JSON.parse((await AsyncStorage.getItem('firestore_outbox:alice'))!)).toHaveLength(1);
+    expect(await AsyncStorage.getItem('firestore_outbox:bob')).toBeNull();
+  });
+
+  it("never replays one account's writes for another", async () => {
+    await signIn('alice');
+    await queueSet('books/one', { title: 'One' });
+    await signIn(null);
+    expect(getPendingWrites()).toEqual([]);
+
+    jest.clearAllMocks();
+    await signIn('bob');
+    expect(getPendingWrites()).toEqual([]);
+    expect(sentPaths()).toEqual([]);
+
+    await signIn('alice');
+    expect(getPendingWrites().map(w => w.path)).toEqual(['books/one']);
+    expect(sentPaths()).toEqual(['books/one']);
+  });
+
+  it('refuses writes while signed out', async () => {
+    await expect(queueSet('books/one', { title: 'One' })).rejects.toThrow();
+    expect(sentPaths()).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Timestamp } from 'firebase/firestore';
+import { clearReadCache, loadCachedQuery, saveCachedQuery } from '../readCache';
+
+jest.mock('@react-native-async-storage/async-storage', () => require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('firebase/firestore', () => ({
+  Timestamp: class {
+    seconds: number;
+    nanoseconds: number;
+    constructor(seconds: number, nanoseconds: number) {
+      this.seconds = seconds;
+      this.nanoseconds = nanoseconds;
+    }
+  },
+}));
+
+describe('read cache', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('gives back Timestamps and Dates rather than their JSON', async () => {
+    const added = new Timestamp(1700000000, 5);
+    const processed = new Date(2024, 2, 1);
+    await saveCachedQuery('books:alice::', [{ id: 'b1', data: { title: 'One', dateAdded: added, processedDate: processed } }]);
+
+    const [cached] = (await loadCachedQuery<any>('books:alice::'))!;
+    expect(cached.id).toBe('b1');
+    expect(cached.data.dateAdded).toBeInstanceOf(Timestamp);
+    expect(cached.data.dateAdded).toMatchObject({ seconds: 1700000000, nanoseconds: 5 });
+    expect(cached.data.processedDate).toEqual(processed);
+  });
+
+  it('has nothing for a query that was never saved', async () => {
+    expect(await loadCachedQuery('books:bob::')).toBeNull();
+  });
+
+  it('clears every saved query and nothing else', async () => {
+    await saveCachedQuery('books:alice::', []);
+    await AsyncStorage.setItem('theme', 'dark');
+    await clearReadCache();
+    expect(await loadCachedQuery('books:alice::')).toBeNull();
+    expect(await AsyncStorage.getItem('theme')).toBe('dark');
+  });
+});
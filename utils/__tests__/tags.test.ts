@@ -0,0 +1,16 @@
+import { formatTags, parseTags } from '../tags';
+
+describe('parseTags', () => {
+  it('splits on commas and spaces, drops the # and lower-cases', () => {
+    expect(parseTags('#Owned, lent-out  #Favorites-2026')).toEqual(['owned', 'lent-out', 'favorites-2026']);
+  });
+
+  it('keeps each tag once and ignores empty input', () => {
+    expect(parseTags('#book-club book-club ##BOOK-CLUB')).toEqual(['book-club']);
+    expect(parseTags('  , # ')).toEqual([]);
+  });
+
+  it('reads back what formatTags writes', () => {
+    expect(parseTags(formatTags(['owned', 'lent-out']))).toEqual(['owned', 'lent-out']);
+  });
+});
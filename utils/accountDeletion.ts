@@ -0,0 +1,74 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { collection, deleteDoc, doc, getDocs, query, where, writeBatch, QueryDocumentSnapshot } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { resetOutbox } from './offlineQueue';
+import { clearReadCache } from './readCache';
+
+// Remembers a half-finished deletion so Settings can resume it after a crash or failed re-auth
+export const PENDING_DELETION_KEY = 'account_deletion_pending';
+
+// Top-level collections where each document carries the owner's `userId`
+const OWNED_COLLECTIONS = ['books', 'notes', 'quotes', 'shelves', 'progressUpdates', 'readingSessions', 'activities'];
+
+// Subcollections of users/{uid}, which go before the profile itself
+const USER_SUBCOLLECTIONS = ['achievements', 'warnings', 'blocks', 'mutes'];
+
+// Social records name the user in other fields; both sides are removed with the account
+const SOCIAL_QUERIES: [label: string, name: string, field: string, op: '==' | 'array-contains'][] = [
+  ['followers', 'follows', 'followingId', '=='],
+  ['following', 'follows', 'followerId', '=='],
+  ['friend requests', 'friendRequests', 'toId', '=='],
+  ['friend requests', 'friendRequests', 'fromId', '=='],
+  ['friends', 'friendships', 'members', 'array-contains'],
+];
+
+const BATCH_SIZE = 400;
+
+export interface DeletionProgress {
+  label: string;
+  deleted: number;
+  total: number;
+}
+
+const deleteInBatches = async (docs: QueryDocumentSnapshot[], onDeleted: (count: number) => void) => {
+  for (let i = 0; i < docs.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    docs.slice(i, i + BATCH_SIZE).forEach(d => batch.delete(d.ref));
+    await batch.commit();
+    onDeleted(Math.min(BATCH_SIZE, docs.length - i));
+  }
+};
+
+export const markDeletionPending = (userId: string) => AsyncStorage.setItem(PENDING_DELETION_KEY, userId);
+export const clearDeletionPending = () => AsyncStorage.removeItem(PENDING_DELETION_KEY);
+export const getPendingDeletion = () => AsyncStorage.getItem(PENDING_DELETION_KEY);
+
+// Deletes every document the user owns. Safe to run again if it stopped halfway.
+// Records the rules don't let the client remove (chats and their messages, likes and comments on
+// other people's events, feed items, buddy read and club memberships) are cleaned up by the
+// onUserSettingsWritten Cloud Function once the profile document is gone.
+export const deleteUserData = async (userId: string, onProgress: (progress: DeletionProgress) => void) => {
+  // Unsent offline edits would otherwise recreate documents after they've been deleted
+  await resetOutbox();
+  await clearReadCache();
+  const snapshots = await Promise.all([
+    ...OWNED_COLLECTIONS.map(name => getDocs(query(collection(db, name), where('userId', '==', userId)))),
+    ...USER_SUBCOLLECTIONS.map(name => getDocs(collection(db, 'users', userId, name))),
+    ...SOCIAL_QUERIES.map(([, name, field, op]) => getDocs(query(collection(db, name), where(field, op, userId)))),
+  ]);
+  const labels = [...OWNED_COLLECTIONS, ...USER_SUBCOLLECTIONS, ...SOCIAL_QUERIES.map(([label]) => label)];
+  const total = snapshots.reduce((sum, snap) => sum + snap.size, 0) + 1;
+  let deleted = 0;
+
+  for (let i = 0; i < snapshots.length; i++) {
+    onProgress({ label: labels[i], deleted, total });
+    await deleteInBatches(snapshots[i].docs, (count) => {
+      deleted += count;
+      onProgress({ label: labels[i], deleted, total });
+    });
+  }
+
+  // The profile goes last so a partial run can still find its way back here
+  await deleteDoc(doc(db, 'users', userId));
+  onProgress({ label: 'profile', deleted: total, total });
+};
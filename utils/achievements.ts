@@ -0,0 +1,242 @@
+import { Book, Note, UserProfile } from '../data/models';
+import { toDate } from './dates';
+import { getReadingGoal, hasAnyReadingGoal } from './goals';
+import { getFinishDates } from './readThroughs';
+
+// Everything an evaluator may look at. Pure data, so the same rules run in the app and anywhere else.
+export interface AchievementSnapshot {
+  books: Book[];
+  notes?: Pick<Note, 'createdAt' | 'updatedAt'>[];
+  profile: UserProfile | null;
+  now?: Date;
+}
+
+export interface AchievementResult {
+  progress: number;
+  unlocked: boolean;
+  unlockedAt: Date | null;
+  // Times earned, for trophies that can be won again (The Finisher counts goal years)
+  count?: number;
+}
+
+// Derived once per snapshot and shared by every evaluator; all date lists are oldest first
+export interface LibraryFacts {
+  now: Date;
+  profile: UserProfile | null;
+  books: Book[];
+  readBooks: Book[];
+  readingBooks: Book[];
+  ratedBooks: Book[];
+  toReadCount: number;
+  addedDates: Date[];
+  finishDates: Date[];
+  noteDates: Date[];
+}
+
+export interface AchievementDefinition {
+  id: string;
+  category: string;
+  title: string;
+  desc: string;
+  howToEarn: string;
+  icon: any;
+  iconFamily?: 'Ionicons' | 'MaterialCommunityIcons';
+  total?: number;
+  evaluate: (facts: LibraryFacts) => AchievementResult;
+}
+
+const byTime = (a: Date, b: Date) => a.getTime() - b.getTime();
+
+export const buildLibraryFacts = ({ books, notes = [], profile, now = new Date() }: AchievementSnapshot): LibraryFacts => {
+  const readBooks = books.filter(b => b.status === 'read').sort((a, b) => byTime(a.processedDate, b.processedDate));
+  const includeRereads = profile?.includeRereads ?? true;
+  return {
+    now,
+    profile,
+    books,
+    readBooks,
+    readingBooks: books.filter(b => b.status === 'reading'),
+    ratedBooks: readBooks.filter(b => b.rating > 0 || b.review === 'good' || b.review === 'bad'),
+    toReadCount: books.filter(b => b.status === 'toread').length,
+    addedDates: books.map(b => toDate(b.dateAdded) || b.processedDate).sort(byTime),
+    finishDates: books.flatMap(b => getFinishDates(b, includeRereads)).sort(byTime),
+    noteDates: notes.map(n => toDate(n.createdAt || n.updatedAt) || now).sort(byTime),
+  };
+};
+
+const LOCKED: AchievementResult = { progress: 0, unlocked: false, unlockedAt: null };
+
+// Things true of the library right now (list sizes, settings) have no history, so they are dated `now`
+const unlockedNow = (f: LibraryFacts): AchievementResult => ({ progress: 1, unlocked: true, unlockedAt: f.now });
+
+const currentCount = (f: LibraryFacts, count: number, target: number): AchievementResult => ({
+  progress: Math.min(count, target),
+  unlocked: count >= target,
+  unlockedAt: count >= target ? f.now : null,
+});
+
+// Unlocks on the `target`th event; `dates` must be oldest first
+const nthEvent = (dates: Date[], target: number): AchievementResult => ({
+  progress: Math.min(dates.length, target),
+  unlocked: dates.length >= target,
+  unlockedAt: dates.length >= target ? dates[target - 1] : null,
+});
+
+// When each new key first shows up among the read books, e.g. each new author
+const firstOccurrences = (books: Book[], key: (b: Book) => string | undefined) => {
+  const seen = new Set<string>();
+  const dates: Date[] = [];
+  books.forEach(b => {
+    const k = key(b);
+    if (!k || seen.has(k)) return;
+    seen.add(k);
+    dates.push(b.processedDate);
+  });
+  return dates;
+};
+
+const normalizedGenre = (b: Book) => b.genre?.trim().toLowerCase() || undefined;
+
+const firstRead = (f: LibraryFacts, test: (finished: Date) => boolean) =>
+  nthEvent(f.readBooks.map(b => b.processedDate).filter(test), 1);
+
+const starDates = (f: LibraryFacts, stars: number) =>
+  f.readBooks.filter(b => b.rating === stars).map(b => b.processedDate);
+
+const monthKey = (d: Date) => `${d.getFullYear()}-${d.getMonth()}`;
+
+const pageTurner = (f: LibraryFacts): AchievementResult => {
+  const book = f.readingBooks[0];
+  if (!book) return LOCKED;
+  return { progress: 1, unlocked: true, unlockedAt: toDate(book.dateStartedReading) || toDate(book.dateAdded) || f.now };
+};
+
+// Progress is this month's count; the trophy unlocks once any single month gets there
+const monthlyPace = (f: LibraryFacts, target: number): AchievementResult => {
+  const months = new Map<string, Date[]>();
+  f.readBooks.forEach(b => {
+    const key = monthKey(b.processedDate);
+    months.set(key, [...(months.get(key) || []), b.processedDate]);
+  });
+  const thisMonth = months.get(monthKey(f.now))?.length || 0;
+  const reachedAt = Array.from(months.values())
+    .filter(dates => dates.length >= target)
+    .map(dates => dates[target - 1])
+    .sort(byTime)[0] || null;
+  return { progress: Math.min(thisMonth, target), unlocked: !!reachedAt, unlockedAt: reachedAt };
+};
+
+const finishedWithin = (f: LibraryFacts, hours: number) =>
+  nthEvent(f.readBooks.filter(b => {
+    const start = toDate(b.dateStartedReading);
+    const finish = toDate(b.dateFinished);
+    if (!start || !finish) return false;
+    const diffMs = finish.getTime() - start.getTime();
+    return diffMs > 0 && diffMs <= hours * 60 * 60 * 1000;
+  }).map(b => b.processedDate), 1);
+
+// Consecutive months with a finished book, counting back from this month (or last month if this one is empty yet)
+const monthStreak = (f: LibraryFacts, target: number): AchievementResult => {
+  const latestInMonth = new Map<string, Date>();
+  f.readBooks.forEach(b => latestInMonth.set(monthKey(b.processedDate), b.processedDate));
+  const checkDate = new Date(f.now);
+  if (!latestInMonth.has(monthKey(checkDate))) checkDate.setMonth(checkDate.getMonth() - 1);
+  const streakDates: Date[] = [];
+  for (let i = 0; i < 36; i++) {
+    const date = latestInMonth.get(monthKey(checkDate));
+    if (!date) break;
+    streakDates.push(date);
+    checkDate.setMonth(checkDate.getMonth() - 1);
+  }
+  return nthEvent(streakDates, target);
+};
+
+const authorBestie = (f: LibraryFacts, target: number): AchievementResult => {
+  const counts: Record<string, number> = {};
+  let unlockedAt: Date | null = null;
+  f.readBooks.forEach(b => {
+    counts[b.author] = (counts[b.author] || 0) + 1;
+    if (counts[b.author] === target && !unlockedAt) unlockedAt = b.processedDate;
+  });
+  const best = Math.max(0, ...Object.values(counts));
+  return { progress: Math.min(best, target), unlocked: !!unlockedAt, unlockedAt };
+};
+
+// Earned again every year the goal is met; years without a goal can't count
+const evaluateFinisher = (f: LibraryFacts): AchievementResult => {
+  const byYear = new Map<number, Date[]>();
+  f.finishDates.forEach(d => byYear.set(d.getFullYear(), [...(byYear.get(d.getFullYear()) || []), d]));
+  const reached = Array.from(byYear.entries())
+    .map(([year, dates]) => ({ goal: getReadingGoal(f.profile, year), dates }))
+    .filter(({ goal, dates }) => goal > 0 && dates.length >= goal)
+    .map(({ goal, dates }) => dates[goal - 1])
+    .sort(byTime);
+  if (reached.length === 0) return LOCKED;
+  return { progress: reached.length, unlocked: true, unlockedAt: reached[reached.length - 1], count: reached.length };
+};
+
+export const ACHIEVEMENT_DEFINITIONS: AchievementDefinition[] = [
+  { id: 'first_step', category: 'basics', title: 'First Step', desc: 'Mark your first book as read', howToEarn: 'marking your first book as finished.', icon: 'footsteps', evaluate: f => nthEvent(f.readBooks.map(b => b.processedDate), 1) },
+  { id: 'quick_start', category: 'basics', title: 'Quick Start', desc: 'Add 3 books to your library', howToEarn: 'adding your first 3 books to your collection.', icon: 'rocket', total: 3, evaluate: f => nthEvent(f.addedDates, 3) },
+  { id: 'the_finisher', category: 'basics', title: 'The Finisher', desc: 'Reach your annual reading goal', howToEarn: 'completing your annual reading goal!', icon: 'trophy', evaluate: evaluateFinisher },
+  { id: 'page_turner', category: 'basics', title: 'Page Turner', desc: 'Move a book to Reading', howToEarn: 'starting to read a book from your list.', icon: 'book', evaluate: f => pageTurner(f) },
+  { id: 'godmode', category: 'basics', title: 'The Creator', desc: 'The Creator', howToEarn: 'being the one who built this entire universe.', icon: 'code-slash', evaluate: f => (f.profile?.role === 'admin' ? unlockedNow(f) : LOCKED) },
+  { id: 'bronze_milestone', category: 'basics', title: 'Bronze Milestone', desc: 'Read 10 books in total', howToEarn: 'marking 10 books as read.', icon: 'medal', total: 10, evaluate: f => nthEvent(f.finishDates, 10) },
+  { id: 'silver_milestone', category: 'basics', title: 'Silver Milestone', desc: 'Read 25 books in total', howToEarn: 'marking 25 books as read.', icon: 'ribbon', total: 25, evaluate: f => nthEvent(f.finishDates, 25) },
+  { id: 'gold_milestone', category: 'basics', title: 'Gold Milestone', desc: 'Read 50 books in total', howToEarn: 'marking 50 books as read.', icon: 'trophy', total: 50, evaluate: f => nthEvent(f.finishDates, 50) },
+  { id: 'diamond_milestone', category: 'basics', title: 'Diamond Milestone', desc: 'Read 100 books in total', howToEarn: 'marking 100 books as read.', icon: 'sparkles', total: 100, evaluate: f => nthEvent(f.finishDates, 100) },
+
+  { id: 'weekend_warrior', category: 'habits', title: 'Weekend Warrior', desc: 'Finish a book on the weekend', howToEarn: 'completing a book on a Saturday or Sunday.', icon: 'cafe', evaluate: f => firstRead(f, d => d.getDay() === 0 || d.getDay() === 6) },
+  { id: 'morning_reader', category: 'habits', title: 'Early Bird', desc: 'Finish a book before 9 AM', howToEarn: 'completing a book early in the morning.', icon: 'alarm', evaluate: f => firstRead(f, d => d.getHours() < 9) },
+  { id: 'night_owl', category: 'habits', title: 'Night Owl', desc: 'Add a book after 11 PM', howToEarn: 'starting a new book late at night.', icon: 'owl', iconFamily: 'MaterialCommunityIcons', evaluate: f => nthEvent(f.addedDates.filter(d => d.getHours() >= 23 || d.getHours() < 4), 1) },
+  { id: 'first_note', category: 'habits', title: 'Draftsman', desc: 'Write your first reading note', howToEarn: 'writing your first reading note.', icon: 'pencil-outline', evaluate: f => nthEvent(f.noteDates, 1) },
+  { id: 'deep_thinker', category: 'habits', title: 'Deep Thinker', desc: 'Write 10 notes across your books', howToEarn: 'writing 10 reading notes.', icon: 'bulb-outline', total: 10, evaluate: f => nthEvent(f.noteDates, 10) },
+  { id: 'goal_setter', category: 'habits', title: 'Goal Setter', desc: 'Set your annual reading goal', howToEarn: 'updating your annual reading goal in settings.', icon: 'flag', evaluate: f => (hasAnyReadingGoal(f.profile) ? unlockedNow(f) : LOCKED) },
+  { id: 'lunch_reader', category: 'habits', title: 'Lunch Break', desc: 'Finish a book between 12 PM and 2 PM', howToEarn: 'finishing a book during lunch hours.', icon: 'pizza', evaluate: f => firstRead(f, d => d.getHours() >= 12 && d.getHours() < 14) },
+  { id: 'midnight_reader', category: 'habits', title: 'Midnight Marathon', desc: 'Finish a book between 12 AM and 4 AM', howToEarn: 'finishing a book late at night.', icon: 'moon', evaluate: f => firstRead(f, d => d.getHours() < 4) },
+  { id: 'annotator_notes', category: 'habits', title: 'Annotator', desc: 'Write 5 reading notes', howToEarn: 'writing 5 reading notes in total.', icon: 'document-text', total: 5, evaluate: f => nthEvent(f.noteDates, 5) },
+  { id: 'chronicler', category: 'habits', title: 'The Chronicler', desc: 'Write 25 notes in total', howToEarn: 'writing 25 reading notes in total.', icon: 'journal', total: 25, evaluate: f => nthEvent(f.noteDates, 25) },
+
+  { id: 'speedy_reader', category: 'speed', title: 'Speedy Reader', desc: 'Finish 5 books in a month', howToEarn: 'finishing 5 books in a single month.', icon: 'walk', total: 5, evaluate: f => monthlyPace(f, 5) },
+  { id: 'speed_demon', category: 'speed', title: 'Speed Demon', desc: 'Finish 10 books in a month', howToEarn: 'finishing 10 books in a single month.', icon: 'bicycle', total: 10, evaluate: f => monthlyPace(f, 10) },
+  { id: 'speed_god', category: 'speed', title: 'Speed God', desc: 'Finish 30 books in a month', howToEarn: 'finishing 30 books in a single month! Absolute legend.', icon: 'flame', total: 30, evaluate: f => monthlyPace(f, 30) },
+  { id: 'book_devourer', category: 'speed', title: 'Book Devourer', desc: 'Finish a book within 48 hours of starting it', howToEarn: 'finishing a book within 48 hours of starting it.', icon: 'restaurant', evaluate: f => finishedWithin(f, 48) },
+  { id: 'book_blitzer', category: 'speed', title: 'Book Blitzer', desc: 'Finish a book within 24 hours of starting it', howToEarn: 'finishing a book within 24 hours of starting it.', icon: 'flash', evaluate: f => finishedWithin(f, 24) },
+
+  { id: 'consistent_reader', category: 'streaks', title: '3 Month Streak', desc: 'Read at least 1 book for 3 months', howToEarn: 'finishing at least one book for 3 months in a row.', icon: 'calendar', total: 3, evaluate: f => monthStreak(f, 3) },
+  { id: 'half_year_streak', category: 'streaks', title: '6 Month Streak', desc: 'Read at least 1 book for 6 months', howToEarn: 'finishing at least one book for 6 months in a row.', icon: 'calendar-number', total: 6, evaluate: f => monthStreak(f, 6) },
+  { id: 'year_streak', category: 'streaks', title: 'The Yearly Cycle', desc: 'Read at least 1 book for 12 months', howToEarn: 'finishing at least one book every month for an entire year!', icon: 'infinite', total: 12, evaluate: f => monthStreak(f, 12) },
+
+  { id: 'double_feature', category: 'variety', title: 'Double Feature', desc: 'Reading 2 books at once', howToEarn: 'having two different books in your "Reading" list.', icon: 'albums', total: 2, evaluate: f => currentCount(f, new Set(f.readingBooks.map(b => b.author)).size, 2) },
+  { id: 'author_bestie', category: 'variety', title: "Author's Bestie", desc: 'Read 5 books by one author', howToEarn: 'reading 5 books by the same author.', icon: 'people', total: 5, evaluate: f => authorBestie(f, 5) },
+  { id: 'the_polymath', category: 'variety', title: 'The Polymath', desc: 'Read 5 different authors', howToEarn: 'reading books from 5 different authors.', icon: 'globe', total: 5, evaluate: f => nthEvent(firstOccurrences(f.readBooks, b => b.author), 5) },
+  { id: 'variety_king', category: 'variety', title: 'Variety King', desc: 'Read 10 different authors', howToEarn: 'reading books from 10 different authors.', icon: 'color-palette', total: 10, evaluate: f => nthEvent(firstOccurrences(f.readBooks, b => b.author), 10) },
+  { id: 'genre_explorer', category: 'variety', title: 'Genre Explorer', desc: 'Read books from 3 different genres', howToEarn: 'reading books from 3 different genres.', icon: 'compass', total: 3, evaluate: f => nthEvent(firstOccurrences(f.readBooks, normalizedGenre), 3) },
+  { id: 'renaissance_reader', category: 'variety', title: 'Renaissance Reader', desc: 'Read books from 5 different genres', howToEarn: 'reading books from 5 different genres.', icon: 'telescope', total: 5, evaluate: f => nthEvent(firstOccurrences(f.readBooks, normalizedGenre), 5) },
+  { id: 'multitasker_reader', category: 'variety', title: 'Multitasker', desc: 'Read 3 books simultaneously', howToEarn: 'having 3 books in your "Reading" list at the same time.', icon: 'layers', total: 3, evaluate: f => currentCount(f, f.readingBooks.length, 3) },
+  { id: 'eclectic_reader', category: 'variety', title: 'Eclectic Reader', desc: 'Read books from 10 different genres', howToEarn: 'reading books from 10 different genres.', icon: 'compass', total: 10, evaluate: f => nthEvent(firstOccurrences(f.readBooks, normalizedGenre), 10) },
+
+  { id: 'first_opinion', category: 'critics', title: 'First Opinion', desc: 'Rate your first book', howToEarn: 'sharing your very first book rating.', icon: 'chatbox-ellipses', evaluate: f => nthEvent(f.ratedBooks.map(b => b.processedDate), 1) },
+  { id: 'the_critic', category: 'critics', title: 'The Critic', desc: 'Rate 10 books', howToEarn: 'sharing your opinion and rating 10 books.', icon: 'star-half', total: 10, evaluate: f => nthEvent(f.ratedBooks.map(b => b.processedDate), 10) },
+  { id: 'super_critic', category: 'critics', title: 'Super Critic', desc: 'Rate 25 books', howToEarn: 'sharing your opinion and rating 25 books.', icon: 'star', total: 25, evaluate: f => nthEvent(f.ratedBooks.map(b => b.processedDate), 25) },
+  { id: 'masterpiece_finder', category: 'critics', title: 'Masterpiece Finder', desc: 'Give a book a 5-star rating', howToEarn: 'giving a book a perfect 5-star rating.', icon: 'heart', evaluate: f => nthEvent(starDates(f, 5), 1) },
+  { id: 'honest_critic', category: 'critics', title: 'Honest Critic', desc: 'Give a book a 1-star rating', howToEarn: 'giving a book an honest 1-star rating.', icon: 'thumbs-down', evaluate: f => nthEvent(starDates(f, 1), 1) },
+  { id: 'balanced_critic', category: 'critics', title: 'Balanced Critic', desc: 'Rate books 1, 3, and 5 stars', howToEarn: 'rating books with 1, 3, and 5 stars.', icon: 'shapes', total: 3, evaluate: f => nthEvent(firstOccurrences(f.readBooks, b => ([1, 3, 5].includes(b.rating) ? b.rating.toString() : undefined)), 3) },
+  { id: 'generous_soul', category: 'critics', title: 'Generous Soul', desc: 'Give 5 books a perfect 5-star rating', howToEarn: 'giving 5 books a 5-star rating.', icon: 'happy', total: 5, evaluate: f => nthEvent(starDates(f, 5), 5) },
+
+  { id: 'indecisive', category: 'collection', title: 'Indecisive', desc: 'Have 3 books in To-Read', howToEarn: 'having 3 books in your To-Read list.', icon: 'help-circle', total: 3, evaluate: f => currentCount(f, f.toReadCount, 3) },
+  { id: 'cant_make_up_mind', category: 'collection', title: "Can't Make Up Your Mind", desc: 'Have 5 books in To-Read', howToEarn: 'having 5 books in your To-Read list.', icon: 'git-branch', total: 5, evaluate: f => currentCount(f, f.toReadCount, 5) },
+  { id: 'the_archivist', category: 'collection', title: 'The Archivist', desc: 'Have 10 books in To-Read', howToEarn: 'having 10 books in your To-Read list.', icon: 'layers', total: 10, evaluate: f => currentCount(f, f.toReadCount, 10) },
+  { id: 'book_collector', category: 'collection', title: 'Book Collector', desc: 'Add 50 books to your library', howToEarn: 'having 50 books in your library in total.', icon: 'library', total: 50, evaluate: f => nthEvent(f.addedDates, 50) },
+  { id: 'perfect_balance', category: 'collection', title: 'Perfect Balance', desc: 'Have exactly 5 books in To-Read, Reading, and Read', howToEarn: 'having exactly 5 books in To-Read, 5 in Reading, and 5 in Read lists at the same time.', icon: 'grid', evaluate: f => (f.toReadCount === 5 && f.readingBooks.length === 5 && f.readBooks.length === 5 ? unlockedNow(f) : LOCKED) },
+];
+
+export const evaluateAchievements = (snapshot: AchievementSnapshot): Record<string, AchievementResult> => {
+  const facts = buildLibraryFacts(snapshot);
+  return Object.fromEntries(ACHIEVEMENT_DEFINITIONS.map(def => [def.id, def.evaluate(facts)]));
+};
+
+export const evaluateAchievement = (id: string, snapshot: AchievementSnapshot): AchievementResult => {
+  const definition = ACHIEVEMENT_DEFINITIONS.find(def => def.id === id);
+  return definition ? definition.evaluate(buildLibraryFacts(snapshot)) : LOCKED;
+};
@@ -0,0 +1,35 @@
+import { ReadingPosition } from '../data/models';
+import { parseProgressInput } from './progress';
+
+export const MAX_BUDDY_READ_MEMBERS = 10;
+
+export const EMPTY_POSITION: ReadingPosition = { page: null, chapter: null };
+
+export const parsePositionInput = (page: string, chapter: string): ReadingPosition => {
+  const parsedPage = parseProgressInput(page);
+  const parsedChapter = parseProgressInput(chapter);
+  return {
+    page: parsedPage !== null ? Math.round(parsedPage) : null,
+    chapter: parsedChapter !== null ? Math.round(parsedChapter) : null,
+  };
+};
+
+// The position as plain numbers, 0 where nothing is marked, so the rules and queries can compare it.
+// A message is readable when both marks are at or below the reader's.
+export const positionGate = (position: ReadingPosition) => ({
+  gatePage: position.page ?? 0,
+  gateChapter: position.chapter ?? 0,
+});
+
+// A message is a spoiler when it is marked past the reader's position. Readers who haven't
+// reported a page (or chapter) only see messages that aren't marked with one.
+export const isSpoiler = (message: ReadingPosition, reader: ReadingPosition) =>
+  (message.page != null && (reader.page == null || message.page > reader.page))
+  || (message.chapter != null && (reader.chapter == null || message.chapter > reader.chapter));
+
+export const formatPosition = (position: ReadingPosition) => {
+  const parts: string[] = [];
+  if (position.page != null) parts.push(`p. ${position.page}`);
+  if (position.chapter != null) parts.push(`Ch. ${position.chapter}`);
+  return parts.join(' • ');
+};
@@ -0,0 +1,67 @@
+import { Book, Club, ClubBook, ClubPoll, ClubRole, ClubVote } from '../data/models';
+import { toDate } from './dates';
+import { LocalReminder } from './notifications';
+
+export const MAX_CLUB_MEMBERS = 50;
+export const MAX_POLL_OPTIONS = 10;
+export const CLUB_REMINDER_PREFIX = 'club-meeting:';
+
+// Members get a heads-up the day before and again an hour before each meeting
+const REMINDER_LEADS = [
+  { ms: 24 * 60 * 60 * 1000, label: 'tomorrow' },
+  { ms: 60 * 60 * 1000, label: 'in 1 hour' },
+];
+
+export const getClubRole = (club: Club, userId: string): ClubRole | null => {
+  if (club.ownerId === userId) return 'owner';
+  if (club.moderatorIds.includes(userId)) return 'moderator';
+  return club.memberIds.includes(userId) ? 'member' : null;
+};
+
+export const canModerateClub = (club: Club, userId: string) => {
+  const role = getClubRole(club, userId);
+  return role === 'owner' || role === 'moderator';
+};
+
+export const toClubBook = (book: Book): ClubBook => ({
+  id: book.id,
+  title: book.title,
+  author: book.author,
+  coverUrl: book.coverUrl || null,
+  pageCount: book.pageCount || null,
+  isbn: book.isbn || null,
+});
+
+const normalise = (text: string) => text.trim().toLowerCase();
+
+// Copies in the reader's own library match by ISBN when both have one, otherwise by title and author
+export const findInLibrary = (pick: ClubBook, books: Book[]) =>
+  books.find(b => (pick.isbn && b.isbn
+    ? b.isbn === pick.isbn
+    : normalise(b.title) === normalise(pick.title) && normalise(b.author) === normalise(pick.author)));
+
+export const tallyVotes = (poll: ClubPoll, votes: ClubVote[]) => {
+  const counts: Record<string, number> = Object.fromEntries(poll.options.map(o => [o.id, 0]));
+  votes.forEach(v => {
+    if (v.optionId in counts) counts[v.optionId]++;
+  });
+  // Ties go to the option listed first
+  const winner = poll.options.reduce<ClubBook | null>((best, o) => (!best || counts[o.id] > counts[best.id] ? o : best), null);
+  return { counts, total: votes.length, winner: winner && counts[winner.id] > 0 ? winner : null };
+};
+
+export const getUpcomingMeetings = (club: Club, now = new Date()) =>
+  club.meetings
+    .filter(m => (toDate(m.startsAt)?.getTime() || 0) > now.getTime())
+    .sort((a, b) => (toDate(a.startsAt)?.getTime() || 0) - (toDate(b.startsAt)?.getTime() || 0));
+
+export const getMeetingReminders = (clubs: Club[], now = new Date()): LocalReminder[] =>
+  clubs.flatMap(club => getUpcomingMeetings(club, now).flatMap(meeting => {
+    const startsAt = toDate(meeting.startsAt)!;
+    return REMINDER_LEADS.map(lead => ({
+      id: `${CLUB_REMINDER_PREFIX}${club.id}:${meeting.id}:${startsAt.getTime()}:${lead.ms}`,
+      title: `📚 ${club.name}`,
+      body: `${meeting.title || 'Club meeting'} ${lead.label}${meeting.location ? ` at ${meeting.location}` : ''}.`,
+      date: new Date(startsAt.getTime() - lead.ms),
+    }));
+  }));
@@ -0,0 +1,40 @@
+// Firestore Timestamps, raw { seconds } objects and ISO strings all show up in old data
+export const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  if (typeof value.toDate === 'function') return value.toDate();
+  if (value.seconds) return new Date(value.seconds * 1000);
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+export const toIsoDate = (value: any): string => {
+  const date = toDate(value);
+  return date ? date.toISOString() : '';
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Local-time text fields for screens that take a date and time without a picker
+export const toDateInput = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+export const toTimeInput = (d: Date) => `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+
+export const parseDateTime = (date: string, time: string): Date | null => {
+  const dateMatch = date.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const timeMatch = time.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!dateMatch || !timeMatch) return null;
+  const result = new Date(+dateMatch[1], +dateMatch[2] - 1, +dateMatch[3], +timeMatch[1], +timeMatch[2]);
+  return isNaN(result.getTime()) ? null : result;
+};
+
+const isTimestampLike = (value: any) =>
+  !!value && typeof value === 'object' && (typeof value.toDate === 'function' || (typeof value.seconds === 'number' && typeof value.nanoseconds === 'number'));
+
+// Deep-copies Firestore data, turning every timestamp it finds into an ISO string
+export const serializeDates = (value: any): any => {
+  if (isTimestampLike(value) || value instanceof Date) return toIsoDate(value);
+  if (Array.isArray(value)) return value.map(serializeDates);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, serializeDates(v)]));
+  }
+  return value;
+};
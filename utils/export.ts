@@ -0,0 +1,172 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { fetchAchievements, fetchBooks, fetchNotes, fetchQuotes, fetchShelves } from '../data';
+import { serializeDates, toDate } from './dates';
+import { getFinishDates } from './readThroughs';
+
+export type ExportFormat = 'json' | 'csv' | 'goodreads';
+
+export interface ExportData {
+  exportedAt: string;
+  books: Record<string, any>[];
+  notes: Record<string, any>[];
+  quotes: Record<string, any>[];
+  achievements: Record<string, any>[];
+  shelves: Record<string, any>[];
+}
+
+export const fetchExportData = async (userId: string): Promise<ExportData> => {
+  const [books, notes, quotes, achievements, shelves] = await Promise.all([
+    fetchBooks(userId),
+    fetchNotes(userId),
+    fetchQuotes(userId),
+    fetchAchievements(userId),
+    fetchShelves(userId),
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    // processedDate is worked out on read, so it isn't part of the record
+    books: books.map(({ processedDate, ...book }) => serializeDates(book)),
+    notes: notes.map(serializeDates),
+    quotes: quotes.map(serializeDates),
+    achievements: achievements.filter(a => a.unlocked).map(serializeDates),
+    shelves: shelves.map(serializeDates),
+  };
+};
+
+// Names of the custom shelves a book is on, in the reader's shelf order. Ids of deleted shelves are skipped.
+const getShelfNames = (book: Record<string, any>, shelves: Record<string, any>[]): string[] =>
+  shelves.filter(shelf => book.shelfIds?.includes(shelf.id)).map(shelf => shelf.name);
+
+const escapeCsv = (value: any) => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: any[][]) =>
+  [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n');
+
+// One row per record with a `recordType` column, so books, notes, quotes and trophies share a sheet
+export const toFlatCsv = (data: ExportData) => {
+  const records = [
+    ...data.books.map(b => ({ recordType: 'book', ...b, shelves: getShelfNames(b, data.shelves).join(', ') })),
+    ...data.notes.map(n => ({ recordType: 'note', ...n })),
+    ...data.quotes.map(q => ({ recordType: 'quote', ...q })),
+    ...data.achievements.map(a => ({ recordType: 'achievement', ...a })),
+  ];
+  const columns = ['recordType', 'id'];
+  records.forEach(r => Object.keys(r).forEach(k => { if (!columns.includes(k)) columns.push(k); }));
+  return toCsv(columns, records.map(r => columns.map(c => (r as any)[c])));
+};
+
+const GOODREADS_HEADER = [
+  'Book Id', 'Title', 'Author', 'Author l-f', 'Additional Authors', 'ISBN', 'ISBN13', 'My Rating',
+  'Average Rating', 'Publisher', 'Binding', 'Number of Pages', 'Year Published', 'Original Publication Year',
+  'Date Read', 'Date Added', 'Bookshelves', 'Bookshelves with positions', 'Exclusive Shelf', 'My Review',
+  'Spoiler', 'Private Notes', 'Read Count', 'Owned Copies',
+];
+
+const STATUS_TO_SHELF: Record<string, string> = {
+  toread: 'to-read',
+  reading: 'currently-reading',
+  read: 'read',
+  dnf: 'dnf',
+};
+
+const FORMAT_TO_BINDING: Record<string, string> = {
+  physical: 'Paperback',
+  ebook: 'Kindle Edition',
+  audiobook: 'Audiobook',
+};
+
+// Goodreads shelf names are lower-case with hyphens, and the shelf columns are comma-separated
+const toGoodreadsShelf = (name: string) => name.trim().toLowerCase().replace(/[\s,]+/g, '-');
+
+const toGoodreadsDate = (value: any) => {
+  const date = toDate(value);
+  if (!date) return '';
+  return `${date.getFullYear()}/${String(date.getMonth() + 1).padStart(2, '0')}/${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const toLastFirst = (author: string) => {
+  const parts = author.trim().split(/\s+/);
+  if (parts.length < 2) return author;
+  const last = parts.pop();
+  return `${last}, ${parts.join(' ')}`;
+};
+
+// Mirrors the columns of a Goodreads library export so it can be re-imported there (or here)
+export const toGoodreadsCsv = (data: ExportData) => {
+  // A book's position on each shelf is its place among the exported books on that shelf
+  const shelfCounts = new Map<string, number>();
+  const withPosition = (shelf: string) => {
+    const position = (shelfCounts.get(shelf) || 0) + 1;
+    shelfCounts.set(shelf, position);
+    return `${shelf} (#${position})`;
+  };
+
+  const rows = data.books.map(book => {
+    const title = book.series
+      ? `${book.title} (${book.series}${book.seriesOrder ? `, #${book.seriesOrder}` : ''})`
+      : book.title;
+    const shelf = STATUS_TO_SHELF[book.status] || 'to-read';
+    const shelves = Array.from(new Set([shelf, ...getShelfNames(book, data.shelves).map(toGoodreadsShelf)]));
+    const isbn = book.isbn || '';
+    return [
+      book.goodreadsId || '',
+      title,
+      book.author || '',
+      book.author ? toLastFirst(book.author) : '',
+      '',
+      isbn.length === 10 ? `="${isbn}"` : '=""',
+      isbn.length === 13 ? `="${isbn}"` : '=""',
+      book.rating || 0,
+      '',
+      '',
+      FORMAT_TO_BINDING[book.format || 'physical'],
+      book.pageCount || '',
+      '',
+      '',
+      book.status === 'read' ? toGoodreadsDate(book.dateFinished) : '',
+      toGoodreadsDate(book.dateAdded),
+      shelves.join(', '),
+      shelves.map(withPosition).join(', '),
+      shelf,
+      '',
+      '',
+      book.dnfReason || '',
+      getFinishDates(book).length,
+      0,
+    ];
+  });
+  return toCsv(GOODREADS_HEADER, rows);
+};
+
+const FILE_INFO: Record<ExportFormat, { suffix: string; mimeType: string }> = {
+  json: { suffix: 'json', mimeType: 'application/json' },
+  csv: { suffix: 'csv', mimeType: 'text/csv' },
+  goodreads: { suffix: 'goodreads.csv', mimeType: 'text/csv' },
+};
+
+export const serializeExport = (data: ExportData, format: ExportFormat) => {
+  if (format === 'json') return JSON.stringify(data, null, 2);
+  if (format === 'csv') return toFlatCsv(data);
+  return toGoodreadsCsv(data);
+};
+
+// Writes the export into the cache directory and opens the share sheet
+export const shareExport = async (data: ExportData, format: ExportFormat) => {
+  const { suffix, mimeType } = FILE_INFO[format];
+  const stamp = new Date().toISOString().slice(0, 10);
+  const file = new File(Paths.cache, `readcount-export-${stamp}.${suffix}`);
+  file.create({ overwrite: true });
+  file.write(serializeExport(data, format));
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device.');
+  }
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: 'Export your ReadCount library' });
+  return file;
+};
@@ -0,0 +1,15 @@
+import { UserProfile } from '../data/models';
+import { toDate } from './dates';
+
+export const getJoinYear = (profile: UserProfile | null) => toDate(profile?.dateAdded)?.getFullYear() ?? 2025;
+
+// Goals are stored per year; the single legacy `readingGoal` only counts for the year the account was made
+export const getReadingGoal = (profile: UserProfile | null, year: number | string, fallback = 0) => {
+  const yearStr = year.toString();
+  const perYear = profile?.readingGoals?.[yearStr];
+  if (perYear !== undefined) return perYear;
+  return yearStr === getJoinYear(profile).toString() ? (profile?.readingGoal ?? fallback) : fallback;
+};
+
+export const hasAnyReadingGoal = (profile: UserProfile | null) =>
+  (profile?.readingGoal ?? 0) > 0 || Object.values(profile?.readingGoals ?? {}).some(goal => goal > 0);
@@ -0,0 +1,126 @@
+export type ImportStatus = 'reading' | 'toread' | 'read' | 'dnf';
+
+export interface ImportedBook {
+  title: string;
+  author: string;
+  status: ImportStatus;
+  rating: number;
+  dateAdded: Date | null;
+  dateFinished: Date | null;
+  series: string;
+  seriesOrder: number | null;
+  pageCount: number | null;
+  isbn: string;
+  goodreadsId: string;
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and newlines inside quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') { field += '"'; i++; }
+        else inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') inQuotes = true;
+    else if (char === ',') { row.push(field); field = ''; }
+    else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(f => f.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(f => f.trim() !== '')) rows.push(row);
+  return rows;
+};
+
+const SHELF_TO_STATUS: Record<string, ImportStatus> = {
+  'to-read': 'toread',
+  'currently-reading': 'reading',
+  'read': 'read',
+  'dnf': 'dnf',
+  'did-not-finish': 'dnf',
+};
+
+// Goodreads writes dates as YYYY/MM/DD
+const parseGoodreadsDate = (value: string): Date | null => {
+  const match = value.trim().match(/^(\d{4})\/(\d{1,2})\/(\d{1,2})$/);
+  if (!match) return null;
+  const date = new Date(+match[1], +match[2] - 1, +match[3]);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// ISBNs are exported as ="0123456789" so spreadsheets keep the leading zeros
+const cleanIsbn = (value: string) => value.replace(/[="]/g, '').trim();
+
+// "The Way of Kings (The Stormlight Archive, #1)" -> title + series + order
+const splitSeries = (rawTitle: string) => {
+  const match = rawTitle.match(/^(.*)\s+\(([^()]+?),?\s*#(\d+(?:\.\d+)?)\)$/);
+  if (!match) return { title: rawTitle.trim(), series: '', seriesOrder: null };
+  return { title: match[1].trim(), series: match[2].trim(), seriesOrder: parseFloat(match[3]) };
+};
+
+export const parseGoodreadsCsv = (text: string): ImportedBook[] => {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (rows.length < 2) return [];
+
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const col = (name: string) => header.indexOf(name);
+  const titleIdx = col('title');
+  const authorIdx = col('author');
+  if (titleIdx === -1 || authorIdx === -1) {
+    throw new Error('This does not look like a Goodreads export.');
+  }
+  const ratingIdx = col('my rating');
+  const dateReadIdx = col('date read');
+  const dateAddedIdx = col('date added');
+  const shelfIdx = col('exclusive shelf');
+  const pagesIdx = col('number of pages');
+  const isbn13Idx = col('isbn13');
+  const isbnIdx = col('isbn');
+  const idIdx = col('book id');
+
+  return rows.slice(1).map(row => {
+    const get = (idx: number) => (idx >= 0 ? row[idx] || '' : '');
+    const { title, series, seriesOrder } = splitSeries(get(titleIdx));
+    const rating = parseInt(get(ratingIdx));
+    const pages = parseInt(get(pagesIdx));
+    const status = SHELF_TO_STATUS[get(shelfIdx).trim().toLowerCase()] || 'toread';
+
+    return {
+      title,
+      author: get(authorIdx).trim(),
+      status,
+      rating: isNaN(rating) ? 0 : rating,
+      dateAdded: parseGoodreadsDate(get(dateAddedIdx)),
+      dateFinished: status === 'read' ? parseGoodreadsDate(get(dateReadIdx)) : null,
+      series,
+      seriesOrder,
+      pageCount: isNaN(pages) || pages <= 0 ? null : pages,
+      isbn: cleanIsbn(get(isbn13Idx)) || cleanIsbn(get(isbnIdx)),
+      goodreadsId: get(idIdx).trim(),
+    };
+  }).filter(b => b.title);
+};
+
+// Used to spot books that are already in the library. Accents are folded ("Café" matches "Cafe"),
+// but letters and digits from any script are kept so non-Latin titles don't all collapse to one key.
+export const getBookKey = (title: string, author: string) =>
+  `${title}|${author}`.normalize('NFKD').toLowerCase().replace(/\p{M}/gu, '').replace(/[^\p{L}\p{N}|]/gu, '');
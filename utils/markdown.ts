@@ -0,0 +1,121 @@
+// A small Markdown subset for notes: headings, bold/italic, lists, block quotes and checkboxes.
+// Notes are stored as the raw Markdown text; this only decides how it is displayed and edited.
+
+export interface InlineSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; spans: InlineSpan[]; line: number }
+  | { type: 'paragraph'; spans: InlineSpan[]; line: number }
+  | { type: 'bullet'; spans: InlineSpan[]; line: number }
+  | { type: 'ordered'; index: string; spans: InlineSpan[]; line: number }
+  | { type: 'quote'; spans: InlineSpan[]; line: number }
+  | { type: 'checkbox'; checked: boolean; spans: InlineSpan[]; line: number }
+  | { type: 'blank'; line: number };
+
+// Underscore markers only count at word edges, so snake_case names and the like stay as typed
+const INLINE_PATTERN = /(\*\*\*[^*]+\*\*\*|\*\*[^*]+\*\*|(?<!\w)__[^_]+__(?!\w)|\*[^*\s][^*]*\*|(?<!\w)_[^_\s][^_]*_(?!\w))/g;
+
+export const parseInline = (text: string): InlineSpan[] => {
+  const spans: InlineSpan[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) spans.push({ text: text.slice(last, index) });
+    const token = match[0];
+    if (token.startsWith('***')) spans.push({ text: token.slice(3, -3), bold: true, italic: true });
+    else if (token.startsWith('**') || token.startsWith('__')) spans.push({ text: token.slice(2, -2), bold: true });
+    else spans.push({ text: token.slice(1, -1), italic: true });
+    last = index + token.length;
+  }
+  if (last < text.length) spans.push({ text: text.slice(last) });
+  return spans;
+};
+
+export const parseMarkdown = (content: string): MarkdownBlock[] =>
+  content.split('\n').map((raw, line): MarkdownBlock => {
+    const text = raw.trimEnd();
+    if (!text.trim()) return { type: 'blank', line };
+
+    const heading = text.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) return { type: 'heading', level: heading[1].length as 1 | 2 | 3, spans: parseInline(heading[2]), line };
+
+    const checkbox = text.match(/^\s*[-*]\s+\[([ xX])\]\s?(.*)$/);
+    if (checkbox) return { type: 'checkbox', checked: checkbox[1] !== ' ', spans: parseInline(checkbox[2]), line };
+
+    const bullet = text.match(/^\s*[-*+]\s+(.*)$/);
+    if (bullet) return { type: 'bullet', spans: parseInline(bullet[1]), line };
+
+    const ordered = text.match(/^\s*(\d+)[.)]\s+(.*)$/);
+    if (ordered) return { type: 'ordered', index: ordered[1], spans: parseInline(ordered[2]), line };
+
+    const quote = text.match(/^>\s?(.*)$/);
+    if (quote) return { type: 'quote', spans: parseInline(quote[1]), line };
+
+    return { type: 'paragraph', spans: parseInline(text), line };
+  });
+
+// Plain text with the markers removed, for search and one-line previews
+export const stripMarkdown = (content: string) =>
+  parseMarkdown(content)
+    .map(block => ('spans' in block ? block.spans.map(s => s.text).join('') : ''))
+    .join('\n');
+
+export const toggleCheckboxLine = (content: string, line: number) => {
+  const lines = content.split('\n');
+  if (line < 0 || line >= lines.length) return content;
+  lines[line] = lines[line].replace(/^(\s*[-*]\s+\[)([ xX])(\])/, (_, open, mark, close) =>
+    `${open}${mark === ' ' ? 'x' : ' '}${close}`
+  );
+  return lines.join('\n');
+};
+
+export type MarkdownAction = 'bold' | 'italic' | 'heading' | 'bullet' | 'numbered' | 'quote' | 'checkbox';
+
+export interface TextSelection {
+  start: number;
+  end: number;
+}
+
+const LINE_PREFIXES: Record<Exclude<MarkdownAction, 'bold' | 'italic'>, string> = {
+  heading: '## ',
+  bullet: '- ',
+  numbered: '1. ',
+  quote: '> ',
+  checkbox: '- [ ] ',
+};
+
+const ANY_PREFIX = /^(#{1,3}\s+|\s*[-*]\s+\[[ xX]\]\s?|\s*[-*+]\s+|\s*\d+[.)]\s+|>\s?)/;
+
+// Applies a toolbar action to the current selection. Inline styles wrap the selection,
+// block styles toggle the prefix on every line the selection touches.
+export const applyMarkdownAction = (content: string, selection: TextSelection, action: MarkdownAction) => {
+  const { start, end } = selection;
+
+  if (action === 'bold' || action === 'italic') {
+    const marker = action === 'bold' ? '**' : '*';
+    const selected = content.slice(start, end) || (action === 'bold' ? 'bold' : 'italic');
+    const next = content.slice(0, start) + marker + selected + marker + content.slice(end);
+    return { content: next, selection: { start: start + marker.length, end: start + marker.length + selected.length } };
+  }
+
+  const prefix = LINE_PREFIXES[action];
+  const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+  const lineEndIndex = content.indexOf('\n', end);
+  const lineEnd = lineEndIndex === -1 ? content.length : lineEndIndex;
+  const lines = content.slice(lineStart, lineEnd).split('\n');
+  const allHavePrefix = lines.every(l => l.startsWith(prefix));
+
+  const updated = lines.map((l, i) => {
+    if (allHavePrefix) return l.slice(prefix.length);
+    const bare = l.replace(ANY_PREFIX, '');
+    return action === 'numbered' ? `${i + 1}. ${bare}` : prefix + bare;
+  }).join('\n');
+
+  const next = content.slice(0, lineStart) + updated + content.slice(lineEnd);
+  const cursor = lineStart + updated.length;
+  return { content: next, selection: { start: cursor, end: cursor } };
+};
@@ -0,0 +1,45 @@
+import { Note } from '../data/models';
+import { parseProgressInput } from './progress';
+
+export interface NoteAnchor {
+  page: string;
+  chapter: string;
+  location: string;
+}
+
+export const EMPTY_ANCHOR: NoteAnchor = { page: '', chapter: '', location: '' };
+
+export const sortNotesByUpdated = (notes: Note[]) =>
+  [...notes].sort((a, b) => (b.updatedAt?.seconds || 0) - (a.updatedAt?.seconds || 0));
+
+// Reading order inside a book: anchored notes by page, then everything else newest first
+export const sortNotesByPage = (notes: Note[]) =>
+  [...notes].sort((a, b) => {
+    if (a.page != null && b.page != null && a.page !== b.page) return a.page - b.page;
+    if (a.page != null && b.page == null) return -1;
+    if (a.page == null && b.page != null) return 1;
+    return (b.updatedAt?.seconds || 0) - (a.updatedAt?.seconds || 0);
+  });
+
+export const getNoteAnchor = (note: Partial<Note> | null): NoteAnchor => ({
+  page: note?.page != null ? note.page.toString() : '',
+  chapter: note?.chapter || '',
+  location: note?.location || '',
+});
+
+export const anchorToFields = (anchor: NoteAnchor) => {
+  const page = parseProgressInput(anchor.page);
+  return {
+    page: page !== null ? Math.round(page) : null,
+    chapter: anchor.chapter.trim() || null,
+    location: anchor.location.trim() || null,
+  };
+};
+
+export const formatNoteAnchor = (note: Partial<Note>) => {
+  const parts: string[] = [];
+  if (note.page != null) parts.push(`p. ${note.page}`);
+  if (note.chapter) parts.push(`Ch. ${note.chapter}`);
+  if (note.location) parts.push(`Loc. ${note.location}`);
+  return parts.join(' • ');
+};
@@ -24,3 +24,39 @@ export async function triggerLocalNotification(title: string, body: string) {
     console.error("Failed to send notification:", error);
   }
 }
+
+export interface LocalReminder {
+  // Stable per event and time, so a rescheduled event gets a fresh reminder
+  id: string;
+  title: string;
+  body: string;
+  date: Date;
+}
+
+// Makes the device's scheduled reminders under `prefix` match `reminders`: new ones are scheduled,
+// ones that are no longer wanted are cancelled, and anything already in the past is skipped
+export async function syncLocalReminders(prefix: string, reminders: LocalReminder[]) {
+  try {
+    if (Platform.OS === 'web') return;
+
+    const isExpoGo = Constants.executionEnvironment === ExecutionEnvironment.StoreClient;
+    if (Platform.OS === 'android' && isExpoGo) return;
+
+    const Notifications = await import('expo-notifications');
+    const scheduled = (await Notifications.getAllScheduledNotificationsAsync())
+      .map(n => n.identifier)
+      .filter(id => id.startsWith(prefix));
+    const now = Date.now();
+    const wanted = reminders.filter(r => r.id.startsWith(prefix) && r.date.getTime() > now);
+    const wantedIds = new Set(wanted.map(r => r.id));
+
+    await Promise.all(scheduled.filter(id => !wantedIds.has(id)).map(id => Notifications.cancelScheduledNotificationAsync(id)));
+    await Promise.all(wanted.filter(r => !scheduled.includes(r.id)).map(r => Notifications.scheduleNotificationAsync({
+      identifier: r.id,
+      content: { title: r.title, body: r.body, sound: true },
+      trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: r.date },
+    })));
+  } catch (error) {
+    console.error("Failed to sync reminders:", error);
+  }
+}
@@ -0,0 +1,163 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { collection, deleteDoc, doc, Firestore, setDoc, updateDoc } from 'firebase/firestore';
+import { auth, db as defaultDb } from '../firebaseConfig';
+import { decodeStored, encodeStored } from './storedJson';
+
+// Outbox for user writes. Every write is handed to Firestore straight away (so snapshots show it
+// instantly and the SDK replays it once the connection returns) and is also kept in AsyncStorage
+// until the server acknowledges it. On native the Firestore cache lives in memory only, so the
+// stored copy is what survives the app being closed while offline; it gets re-sent on next launch.
+// Writes are keyed by document path and use setDoc for creates, so re-sending one is harmless.
+//
+// Each account has its own outbox, stored under its uid, so writes queued by one user are never
+// replayed while someone else is signed in; they wait until that user signs in again.
+//
+// Only plain values and Timestamps can be queued. Writes that need FieldValue sentinels
+// (arrayRemove, increment, deleteField...) should keep calling Firestore directly.
+
+const OUTBOX_KEY = 'firestore_outbox';
+const outboxKey = (userId: string) => `${OUTBOX_KEY}:${userId}`;
+
+export type QueuedWriteKind = 'set' | 'update' | 'delete';
+
+export interface QueuedWrite {
+  id: string;
+  kind: QueuedWriteKind;
+  path: string;
+  data?: any;
+  queuedAt: number;
+}
+
+type OutboxListener = (pending: QueuedWrite[]) => void;
+type ErrorListener = (write: QueuedWrite, error: any) => void;
+
+let firestore: Firestore = defaultDb;
+let owner: string | null = null;
+let outbox: QueuedWrite[] = [];
+let loaded: Promise<void> | null = null;
+const inFlight = new Set<string>();
+const listeners = new Set<OutboxListener>();
+const errorListeners = new Set<ErrorListener>();
+
+const notify = () => {
+  const snapshot = [...outbox];
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const persist = async () => {
+  if (!owner) return;
+  try {
+    await AsyncStorage.setItem(outboxKey(owner), JSON.stringify(outbox.map(w => ({ ...w, data: encodeStored(w.data) }))));
+  } catch (e) {
+    console.error('Outbox save error:', e);
+  }
+};
+
+const remove = async (id: string) => {
+  outbox = outbox.filter(w => w.id !== id);
+  inFlight.delete(id);
+  notify();
+  await persist();
+};
+
+const send = (write: QueuedWrite) => {
+  if (inFlight.has(write.id)) return;
+  inFlight.add(write.id);
+  const ref = doc(firestore, write.path);
+  const request =
+    write.kind === 'delete' ? deleteDoc(ref)
+    : write.kind === 'update' ? updateDoc(ref, write.data)
+    : setDoc(ref, write.data, { merge: true });
+
+  // Resolves only when the server has the write, which may be much later if we're offline
+  request
+    .then(() => remove(write.id))
+    .catch(async (error) => {
+      console.error(`Queued ${write.kind} on ${write.path} failed:`, error);
+      errorListeners.forEach(listener => listener(write, error));
+      await remove(write.id);
+    });
+};
+
+const load = () => {
+  if (!loaded) {
+    const userId = owner;
+    loaded = (userId ? AsyncStorage.getItem(outboxKey(userId)) : Promise.resolve(null))
+      .then((stored) => {
+        // The account changed while this was loading; its own load takes over
+        if (userId !== owner) return;
+        const saved: QueuedWrite[] = stored ? JSON.parse(stored) : [];
+        const restored = saved.map(w => ({ ...w, data: decodeStored(w.data) }));
+        // Anything queued before the stored copy finished loading stays at the end
+        outbox = [...restored.filter(w => !outbox.some(o => o.id === w.id)), ...outbox];
+        notify();
+      })
+      .catch((e) => console.error('Outbox load error:', e));
+  }
+  return loaded;
+};
+
+// Makes `userId`'s outbox the active one. Writes still in flight for the previous account keep
+// going, and its stored copy stays put for the next time it signs in.
+const switchOwner = (userId: string | null) => {
+  if (owner === userId) return;
+  owner = userId;
+  outbox = [];
+  inFlight.clear();
+  loaded = null;
+  notify();
+};
+
+// Switches to the signed-in account's outbox (or none when signed out) and sends everything still
+// waiting from a previous launch. Safe to call repeatedly.
+export const replayOutbox = async (userId: string | null) => {
+  switchOwner(userId);
+  if (!userId) return;
+  await load();
+  if (owner === userId) outbox.forEach(send);
+};
+
+const enqueue = async (kind: QueuedWriteKind, path: string, data?: any) => {
+  const userId = auth.currentUser?.uid;
+  if (!userId) throw new Error('Sign in before making changes.');
+  switchOwner(userId);
+  await load();
+  const write: QueuedWrite = { id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`, kind, path, data, queuedAt: Date.now() };
+  outbox = [...outbox, write];
+  notify();
+  send(write);
+  await persist();
+  return write;
+};
+
+// Reserves an id for a new document so the create can be replayed without making duplicates
+export const newDocPath = (collectionName: string) => `${collectionName}/${doc(collection(firestore, collectionName)).id}`;
+
+export const queueSet = (path: string, data: Record<string, any>) => enqueue('set', path, data);
+export const queueUpdate = (path: string, data: Record<string, any>) => enqueue('update', path, data);
+export const queueDelete = (path: string) => enqueue('delete', path);
+
+export const getPendingWrites = () => [...outbox];
+
+export const subscribeToOutbox = (listener: OutboxListener) => {
+  listeners.add(listener);
+  listener([...outbox]);
+  return () => { listeners.delete(listener); };
+};
+
+export const subscribeToOutboxErrors = (listener: ErrorListener) => {
+  errorListeners.add(listener);
+  return () => { errorListeners.delete(listener); };
+};
+
+// Drops the signed-in account's queued writes (account deletion), and lets emulator tests point the
+// queue at their own Firestore instance and start from a clean slate
+export const resetOutbox = async (instance: Firestore = defaultDb) => {
+  firestore = instance;
+  const userId = owner;
+  outbox = [];
+  inFlight.clear();
+  loaded = null;
+  if (userId) await AsyncStorage.removeItem(outboxKey(userId));
+  notify();
+};
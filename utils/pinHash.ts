@@ -0,0 +1,35 @@
+import { pbkdf2Async } from '@noble/hashes/pbkdf2.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import * as Crypto from 'expo-crypto';
+
+// Pure-JS PBKDF2 on Hermes: enough rounds to slow down guessing without making unlock feel laggy
+const ITERATIONS = 20000;
+const PREFIX = 'pbkdf2-sha256';
+
+// Stored as "pbkdf2-sha256$<iterations>$<salt hex>$<hash hex>" so the cost can change later
+export const isPinHash = (value: string | null | undefined): value is string =>
+  !!value && value.startsWith(`${PREFIX}$`);
+
+const derive = async (pin: string, salt: Uint8Array, iterations: number) =>
+  bytesToHex(await pbkdf2Async(sha256, pin, salt, { c: iterations, dkLen: 32 }));
+
+export const hashPin = async (pin: string) => {
+  const salt = Crypto.getRandomBytes(16);
+  const hash = await derive(pin, salt, ITERATIONS);
+  return `${PREFIX}$${ITERATIONS}$${bytesToHex(salt)}$${hash}`;
+};
+
+export const verifyPin = async (pin: string, stored: string | null) => {
+  if (!stored) return false;
+  // PINs saved before hashing was introduced are still plaintext until they get migrated
+  if (!isPinHash(stored)) return pin === stored;
+
+  const [, iterations, saltHex, expected] = stored.split('$');
+  const actual = await derive(pin, hexToBytes(saltHex), parseInt(iterations));
+  let diff = actual.length ^ expected.length;
+  for (let i = 0; i < Math.min(actual.length, expected.length); i++) {
+    diff |= actual.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return diff === 0;
+};
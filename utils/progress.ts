@@ -0,0 +1,61 @@
+export type BookFormat = 'physical' | 'ebook' | 'audiobook';
+
+export interface ProgressFields {
+  format?: BookFormat;
+  pageCount?: number | null;
+  currentPage?: number | null;
+  progressPercent?: number | null;
+  totalMinutes?: number | null;
+  listenedMinutes?: number | null;
+}
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Returns how far through the book the reader is (0 - 1), or null if nothing has been logged yet.
+// Physical books track pages, ebooks track a percentage (falling back to pages), audiobooks track minutes.
+export const getProgressFraction = (book: ProgressFields): number | null => {
+  const format = book.format || 'physical';
+
+  if (format === 'audiobook') {
+    if (book.totalMinutes && book.listenedMinutes != null) {
+      return clamp(book.listenedMinutes / book.totalMinutes);
+    }
+    return null;
+  }
+
+  if (format === 'ebook' && book.progressPercent != null) {
+    return clamp(book.progressPercent / 100);
+  }
+
+  if (book.pageCount && book.currentPage != null) {
+    return clamp(book.currentPage / book.pageCount);
+  }
+  return null;
+};
+
+export const formatMinutes = (minutes: number) => {
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  if (h === 0) return `${m}m`;
+  return m > 0 ? `${h}h ${m}m` : `${h}h`;
+};
+
+export const formatProgressLabel = (book: ProgressFields): string => {
+  const fraction = getProgressFraction(book);
+  if (fraction === null) return '';
+  const format = book.format || 'physical';
+
+  if (format === 'audiobook') {
+    return `${formatMinutes(book.listenedMinutes || 0)} / ${formatMinutes(book.totalMinutes || 0)}`;
+  }
+  if (format === 'ebook' && book.progressPercent != null) {
+    return `${Math.round(fraction * 100)}%`;
+  }
+  return `p. ${book.currentPage} / ${book.pageCount}`;
+};
+
+// Parses a numeric text input, returning null for blanks and garbage
+export const parseProgressInput = (text: string): number | null => {
+  const value = parseFloat(text.replace(',', '.'));
+  return isNaN(value) || value < 0 ? null : value;
+};
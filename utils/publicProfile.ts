@@ -0,0 +1,77 @@
+import {
+  Book, ProfilePrivacy, ProfileSection, ProfileVisibility, PublicCurrentRead, PublicStats, PublicTrophies,
+  UnlockedAchievement, UserProfile
+} from '../data/models';
+import { getProgressFraction } from './progress';
+import { getFinishDates } from './readThroughs';
+
+export const PROFILE_SECTIONS: ProfileSection[] = ['stats', 'currentReads', 'trophies'];
+
+// New accounts share with friends only until they choose otherwise; firestore.rules uses the same default
+export const DEFAULT_PRIVACY: ProfilePrivacy = {
+  stats: 'friends',
+  currentReads: 'friends',
+  trophies: 'friends',
+  activity: 'friends',
+};
+
+export const getPrivacy = (profile: Pick<UserProfile, 'privacy'> | null): ProfilePrivacy => ({
+  ...DEFAULT_PRIVACY,
+  ...profile?.privacy,
+});
+
+export const canViewSection = (visibility: ProfileVisibility, { isOwner, isFriend }: { isOwner: boolean; isFriend: boolean }) =>
+  isOwner || visibility === 'everyone' || (visibility === 'friends' && isFriend);
+
+export const toUsernameLower = (username?: string | null) => username?.trim().toLowerCase() || null;
+
+export interface PublicSections {
+  stats: PublicStats;
+  currentReads: { books: PublicCurrentRead[] };
+  trophies: PublicTrophies;
+}
+
+// Kept free of the client SDK so Cloud Functions can build the same sections the app shows
+export const buildPublicSections = (
+  books: Book[],
+  achievements: UnlockedAchievement[],
+  profile: UserProfile | null,
+  now = new Date()
+): PublicSections => {
+  const includeRereads = profile?.includeRereads ?? true;
+  let booksRead = 0;
+  let booksReadThisYear = 0;
+  let pagesRead = 0;
+  const ratings: number[] = [];
+
+  books.forEach(book => {
+    const finishes = getFinishDates(book, includeRereads);
+    booksRead += finishes.length;
+    booksReadThisYear += finishes.filter(d => d.getFullYear() === now.getFullYear()).length;
+    pagesRead += (book.pageCount || 0) * finishes.length;
+    if (finishes.length > 0 && book.rating > 0) ratings.push(book.rating);
+  });
+
+  const currentReads = books
+    .filter(b => b.status === 'reading')
+    .sort((a, b) => b.processedDate.getTime() - a.processedDate.getTime())
+    .slice(0, 10)
+    .map(b => ({
+      id: b.id,
+      title: b.title,
+      author: b.author,
+      coverUrl: b.coverUrl || null,
+      progress: getProgressFraction(b),
+    }));
+
+  return {
+    stats: {
+      booksRead,
+      booksReadThisYear,
+      pagesRead,
+      averageRating: ratings.length ? Math.round((ratings.reduce((a, b) => a + b, 0) / ratings.length) * 10) / 10 : null,
+    },
+    currentReads: { books: currentReads },
+    trophies: { ids: achievements.filter(a => a.unlocked).map(a => a.id) },
+  };
+};
@@ -0,0 +1,11 @@
+import { Quote } from '../data/models';
+
+// Highlighter shades; the share card uses the same colour so the image matches the gallery
+export const QUOTE_COLORS = ['#f59e0b', '#bc4749', '#6a994e', '#4d908e', '#7b6d8d', '#bc6c25'];
+
+export const formatQuoteSource = (quote: Pick<Quote, 'bookTitle' | 'bookAuthor' | 'page' | 'location'>) => {
+  const parts = [quote.bookTitle, quote.bookAuthor].filter(Boolean);
+  if (quote.page != null) parts.push(`p. ${quote.page}`);
+  else if (quote.location) parts.push(`loc. ${quote.location}`);
+  return parts.join(' • ');
+};
@@ -0,0 +1,41 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { decodeStored, encodeStored } from './storedJson';
+
+// Firestore's read cache only lives in memory on iOS and Android (see firebaseConfig.ts). Queries that
+// should still show something after a cold start without a connection keep their last answer from the
+// server here, keyed by the same string their live query uses (which includes the uid).
+const READ_CACHE_KEY = 'firestore_reads';
+const readCacheKey = (key: string) => `${READ_CACHE_KEY}:${key}`;
+
+// Web keeps a persistent Firestore cache already
+export const isReadCacheEnabled = Platform.OS !== 'web';
+
+export interface CachedDoc<T> {
+  id: string;
+  data: T;
+}
+
+export const loadCachedQuery = async <T,>(key: string): Promise<CachedDoc<T>[] | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(readCacheKey(key));
+    return stored ? decodeStored(JSON.parse(stored)) : null;
+  } catch (e) {
+    console.error('Read cache load error:', e);
+    return null;
+  }
+};
+
+export const saveCachedQuery = async <T,>(key: string, docs: CachedDoc<T>[]) => {
+  try {
+    await AsyncStorage.setItem(readCacheKey(key), JSON.stringify(encodeStored(docs)));
+  } catch (e) {
+    console.error('Read cache save error:', e);
+  }
+};
+
+// Used when an account is deleted so none of its library stays on the device
+export const clearReadCache = async () => {
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(`${READ_CACHE_KEY}:`)));
+};
@@ -0,0 +1,79 @@
+import { Timestamp } from 'firebase/firestore';
+import { toDate } from './dates';
+import { BookFormat } from './progress';
+
+export interface ReadThrough {
+  startedAt: any | null;
+  finishedAt: any | null;
+  rating: number;
+  format: BookFormat;
+}
+
+interface ReadThroughSource {
+  status?: string;
+  readThroughs?: ReadThrough[];
+  dateStartedReading?: any;
+  dateFinished?: any;
+  dateAdded?: any;
+  rating?: number;
+  format?: BookFormat;
+}
+
+// Books saved before re-reads existed only have the flat date fields, so synthesise their single read-through.
+// An empty list is kept as it is: the reader removed every read-through by hand.
+export const getReadThroughs = (book: ReadThroughSource): ReadThrough[] => {
+  if (book.readThroughs) return book.readThroughs;
+  const format = book.format || 'physical';
+  if (book.status === 'read') {
+    return [{ startedAt: book.dateStartedReading || null, finishedAt: book.dateFinished || book.dateAdded || null, rating: book.rating || 0, format }];
+  }
+  if (book.status === 'reading') {
+    return [{ startedAt: book.dateStartedReading || null, finishedAt: null, rating: 0, format }];
+  }
+  return [];
+};
+
+// Finish dates oldest-first. Without re-reads a book only counts for its first finish.
+export const getFinishDates = (book: ReadThroughSource, includeRereads = true): Date[] => {
+  const dates = getReadThroughs(book)
+    .map(rt => toDate(rt.finishedAt))
+    .filter((d): d is Date => !!d)
+    .sort((a, b) => a.getTime() - b.getTime());
+  return includeRereads ? dates : dates.slice(0, 1);
+};
+
+// Works out the read-through list after the book's status changes from `book.status` to `status`
+export const updateReadThroughs = (
+  book: ReadThroughSource | null,
+  status: string,
+  rating: number,
+  format: BookFormat
+): ReadThrough[] => {
+  const now = Timestamp.now();
+  const throughs = book ? getReadThroughs(book).map(rt => ({ ...rt })) : [];
+  const previousStatus = book?.status;
+  const openIndex = throughs.findIndex(rt => !rt.finishedAt);
+
+  if (status === 'reading') {
+    if (openIndex === -1) throughs.push({ startedAt: now, finishedAt: null, rating: 0, format });
+    else throughs[openIndex].format = format;
+  } else if (status === 'read') {
+    if (previousStatus !== 'read') {
+      if (openIndex !== -1) {
+        throughs[openIndex] = { ...throughs[openIndex], finishedAt: now, rating, format };
+      } else {
+        throughs.push({ startedAt: null, finishedAt: now, rating, format });
+      }
+    } else if (throughs.length > 0) {
+      // Still read: rating and format edits belong to the latest read-through
+      const last = throughs.length - 1;
+      throughs[last] = { ...throughs[last], rating, format };
+    }
+  } else if (openIndex !== -1) {
+    // Abandoned or shelved again: the unfinished read-through never happened
+    throughs.splice(openIndex, 1);
+  }
+  return throughs;
+};
+
+export const countFinishedReads = (book: ReadThroughSource) => getFinishDates(book).length;
@@ -0,0 +1,13 @@
+import { ReadingSession } from '../data/models';
+
+export const getSessionMinutes = (start: Date, end: Date) =>
+  Math.max(0, Math.round((end.getTime() - start.getTime()) / 60000));
+
+// Pages for paper/ebooks, listened minutes for audiobooks
+export const getSessionAmount = (session: Pick<ReadingSession, 'format' | 'startPage' | 'endPage' | 'minutesCovered'>) => {
+  if (session.format === 'audiobook') return session.minutesCovered || 0;
+  if (session.startPage != null && session.endPage != null) {
+    return Math.max(0, session.endPage - session.startPage);
+  }
+  return 0;
+};
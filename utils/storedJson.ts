@@ -0,0 +1,22 @@
+import { Timestamp } from 'firebase/firestore';
+
+// Timestamps and Dates don't survive JSON, so they are tagged on the way into AsyncStorage and rebuilt on the way out
+export const encodeStored = (value: any): any => {
+  if (value instanceof Timestamp) return { __timestamp: [value.seconds, value.nanoseconds] };
+  if (value instanceof Date) return { __date: value.getTime() };
+  if (Array.isArray(value)) return value.map(encodeStored);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, encodeStored(v)]));
+  }
+  return value;
+};
+
+export const decodeStored = (value: any): any => {
+  if (Array.isArray(value)) return value.map(decodeStored);
+  if (value && typeof value === 'object') {
+    if (Array.isArray(value.__timestamp)) return new Timestamp(value.__timestamp[0], value.__timestamp[1]);
+    if (typeof value.__date === 'number') return new Date(value.__date);
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, decodeStored(v)]));
+  }
+  return value;
+};
@@ -0,0 +1,10 @@
+// Free-form labels on books and quotes, stored lower-case without the leading #
+
+// "#hope, grief  Family" -> ['hope', 'grief', 'family']
+export const parseTags = (text: string) =>
+  Array.from(new Set(
+    text.split(/[,\s]+/).map(t => t.replace(/^#+/, '').trim().toLowerCase()).filter(Boolean)
+  ));
+
+// ['hope', 'family'] -> "#hope #family", for editing in a text field
+export const formatTags = (tags: string[]) => tags.map(t => `#${t}`).join(' ');